@@ -1,7 +1,9 @@
 import { Layout, Tabs } from "antd";
 import { useMemo } from "react";
+import { AnalyticsView } from "./features/analytics/AnalyticsView";
 import { IntervieweeView } from "./features/interviewee/IntervieweeView";
 import { InterviewerView } from "./features/interviewer/InterviewerView";
+import { RecoveryNotice } from "./features/recovery/RecoveryNotice";
 import styles from "./styles/App.module.css";
 
 const App = () => {
@@ -16,6 +18,11 @@ const App = () => {
         key: "interviewer",
         label: "Interviewer",
         children: <InterviewerView />
+      },
+      {
+        key: "analytics",
+        label: "Analytics",
+        children: <AnalyticsView />
       }
     ],
     []
@@ -27,6 +34,7 @@ const App = () => {
         <div className={styles.brand}>Crisp Interview Assistant</div>
       </Layout.Header>
       <Layout.Content className={styles.content}>
+        <RecoveryNotice />
         <Tabs defaultActiveKey="interviewee" items={tabItems} destroyInactiveTabPane={false} />
       </Layout.Content>
     </Layout>
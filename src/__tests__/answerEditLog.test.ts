@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  decodeAnswerEditLog,
+  diffAnswerEdit,
+  encodeAnswerEditLog,
+  replayAnswerEdits,
+  type AnswerEdit
+} from "../services/answerEditLog";
+
+const record = (drafts: string[], gapMs = 180) => {
+  const edits: AnswerEdit[] = [];
+  drafts.reduce((previous, next, index) => {
+    const edit = diffAnswerEdit(previous, next, (index + 1) * gapMs);
+    if (edit) {
+      edits.push(edit);
+    }
+    return next;
+  }, "");
+  return edits;
+};
+
+describe("answer edit log", () => {
+  it("records inserts, deletes and pastes as splices that replay to the final text", () => {
+    const drafts = [
+      "A",
+      "A ",
+      "A c",
+      "A cl",
+      "A c",
+      "A clo",
+      "A closure",
+      "A closure keeps scope.",
+      "A closure keeps its scope."
+    ];
+    const edits = record(drafts);
+
+    expect(edits[3]).toEqual({ at: 720, position: 3, deleted: 0, inserted: "l" });
+    expect(edits[4]).toEqual({ at: 900, position: 3, deleted: 1, inserted: "" });
+    expect(edits[8]).toEqual({ at: 1620, position: 16, deleted: 0, inserted: "its " });
+    expect(diffAnswerEdit("same", "same", 0)).toBeNull();
+    expect(replayAnswerEdits(edits)).toBe("A closure keeps its scope.");
+    expect(replayAnswerEdits(edits, 4)).toBe("A cl");
+  });
+
+  it("compresses the log and decodes it back exactly", async () => {
+    const answer = "Closures capture variables from the scope they were defined in. ".repeat(8);
+    const drafts = Array.from(answer, (_, index) => answer.slice(0, index + 1));
+    const edits = record(drafts);
+
+    const log = await encodeAnswerEditLog({ edits, truncated: false });
+    expect(log).toMatchObject({ encoding: "deflate", edits: answer.length, durationMs: answer.length * 180 });
+    expect(log.data.length).toBeLessThan(JSON.stringify(edits).length / 5);
+
+    const decoded = await decodeAnswerEditLog(log);
+    expect(decoded).toEqual(edits);
+    expect(replayAnswerEdits(decoded)).toBe(answer);
+
+    await expect(decodeAnswerEditLog({ ...log, encoding: "plain", data: "[[1,2]]" })).rejects.toThrow(
+      "The answer replay is corrupted."
+    );
+  });
+});
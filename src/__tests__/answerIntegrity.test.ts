@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+
+import { summarizeAnswerTelemetry } from "../utils/answerIntegrity";
+import type { AnswerTelemetry } from "../types/interview";
+
+const typedAnswer: AnswerTelemetry = {
+  blurCount: 0,
+  blurSeconds: 0,
+  pasteCount: 0,
+  pastedCharacters: 0,
+  typedCharacters: 240,
+  typingSeconds: 60,
+  answerCharacters: 220
+};
+
+describe("answer integrity", () => {
+  it("rates an answer typed at a normal pace as low risk", () => {
+    expect(summarizeAnswerTelemetry(typedAnswer)).toEqual({ risk: "low", flags: [] });
+    expect(summarizeAnswerTelemetry(undefined)).toBeNull();
+  });
+
+  it("flags time away, pasting, untyped text and implausibly fast typing", () => {
+    // A short paste, like a term or a name, isn't worth a flag on its own.
+    const glanced = summarizeAnswerTelemetry({
+      ...typedAnswer,
+      blurCount: 1,
+      blurSeconds: 4,
+      pasteCount: 1,
+      pastedCharacters: 8
+    });
+    expect(glanced?.risk).toBe("medium");
+    expect(glanced?.flags.map((flag) => flag.kind)).toEqual(["left-window"]);
+
+    const pasted = summarizeAnswerTelemetry({
+      ...typedAnswer,
+      blurCount: 1,
+      blurSeconds: 45.2,
+      pasteCount: 2,
+      pastedCharacters: 180,
+      typedCharacters: 20,
+      typingSeconds: 10,
+      answerCharacters: 200
+    });
+    expect(pasted).toEqual({
+      risk: "high",
+      flags: [
+        { kind: "left-window", risk: "high", detail: "Left the interview 1 time for 45s in total." },
+        { kind: "pasted", risk: "high", detail: "Pasted 180 characters in 2 pastes." }
+      ]
+    });
+
+    const inserted = summarizeAnswerTelemetry({ ...typedAnswer, typedCharacters: 30, typingSeconds: 15 });
+    expect(inserted?.flags).toEqual([
+      { kind: "untyped-text", risk: "high", detail: "190 characters of the answer were neither typed nor pasted." }
+    ]);
+
+    const fast = summarizeAnswerTelemetry({ ...typedAnswer, typingSeconds: 12 });
+    expect(fast).toEqual({
+      risk: "medium",
+      flags: [{ kind: "fast-typing", risk: "medium", detail: "Typed at 1200 characters a minute." }]
+    });
+  });
+});
@@ -0,0 +1,202 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  ARCHIVE_BUNDLE_VERSION,
+  buildArchiveBundle,
+  decodeBase64,
+  describeArchiveImport,
+  encodeBase64,
+  migrateArchiveBundle,
+  parseArchiveBundle,
+  planArchiveImport,
+  serializeArchiveBundle,
+  type ArchiveBundle,
+  type ArchiveExistingIds
+} from "../services/archiveBundle";
+import type { CandidateArchiveRecord, CandidateProfile, InterviewSession, QuestionBankItem } from "../types/interview";
+
+const profile: CandidateProfile = {
+  id: "cand-1",
+  name: "Alex Doe",
+  email: "alex@example.com",
+  phone: "5555551234",
+  role: "Full Stack Engineer",
+  resume: {
+    id: "resume-1",
+    fileName: "alex.pdf",
+    mimeType: "application/pdf",
+    sizeBytes: 4,
+    uploadedAt: "2024-01-01T00:00:00.000Z",
+    storageKey: "resume:resume-1"
+  },
+  missingFields: []
+};
+
+const session: InterviewSession = {
+  id: "session-1",
+  candidateId: "cand-1",
+  templateId: "full-stack",
+  createdAt: "2024-01-01T00:00:00.000Z",
+  updatedAt: "2024-01-01T00:10:00.000Z",
+  stage: "completed",
+  currentQuestionId: null,
+  questions: {},
+  questionOrder: [],
+  answers: {},
+  timers: {},
+  chat: [],
+  summary: null,
+  invitation: {
+    code: "ABC234",
+    candidateName: "Alex Doe",
+    candidateEmail: null,
+    windowStart: "2024-01-01T00:00:00.000Z",
+    windowEnd: "2024-01-02T00:00:00.000Z",
+    invitedAt: "2023-12-31T00:00:00.000Z"
+  }
+};
+
+const record: CandidateArchiveRecord = {
+  id: "cand-1",
+  profile,
+  sessionId: "session-1",
+  templateId: "full-stack",
+  completedAt: "2024-01-01T00:10:00.000Z",
+  finalScore: 7,
+  summary: { finalScore: 7, summaryText: "Good.", strengths: [], improvements: [] },
+  questions: [],
+  answers: [],
+  chat: []
+};
+
+const bankItem: QuestionBankItem = {
+  id: "bank-1",
+  prompt: "Explain closures.",
+  category: "javascript",
+  tags: [],
+  difficulty: "easy",
+  timeLimitSeconds: 20,
+  guidance: "",
+  rubric: [],
+  createdAt: "2024-01-01T00:00:00.000Z",
+  updatedAt: "2024-01-01T00:00:00.000Z"
+};
+
+const buildBundle = (): ArchiveBundle =>
+  buildArchiveBundle(
+    {
+      candidates: [record],
+      sessions: [{ session, profile }],
+      questionBank: [bankItem],
+      resumes: [
+        {
+          id: "resume-1",
+          fileName: "alex.pdf",
+          mimeType: "application/pdf",
+          sizeBytes: 4,
+          data: encodeBase64(new Uint8Array([37, 80, 68, 70]).buffer),
+          text: "Alex Doe"
+        }
+      ]
+    },
+    "2024-02-01T00:00:00.000Z"
+  );
+
+const everythingExists: ArchiveExistingIds = {
+  candidateIds: ["cand-1"],
+  sessionIds: ["session-1"],
+  questionIds: ["bank-1"],
+  resumeIds: ["resume-1"],
+  invitationCodes: { "session-1": "ABC234" }
+};
+
+describe("archive bundles", () => {
+  it("round-trips every section, resume bytes included", () => {
+    const parsed = parseArchiveBundle(serializeArchiveBundle(buildBundle()));
+
+    expect(parsed.version).toBe(ARCHIVE_BUNDLE_VERSION);
+    expect(parsed.candidates).toEqual([record]);
+    expect(parsed.sessions).toEqual([{ session, profile }]);
+    expect(parsed.questionBank).toEqual([bankItem]);
+    expect(Array.from(new Uint8Array(decodeBase64(parsed.resumes[0].data)))).toEqual([37, 80, 68, 70]);
+    expect(parsed.resumes[0].text).toBe("Alex Doe");
+  });
+
+  it("rejects files that aren't valid bundles with a specific reason", () => {
+    expect(() => parseArchiveBundle("not json")).toThrow("not valid JSON");
+    expect(() => parseArchiveBundle(JSON.stringify({ questions: [] }))).toThrow("not an interview archive bundle");
+    expect(() =>
+      parseArchiveBundle(JSON.stringify({ ...buildBundle(), version: ARCHIVE_BUNDLE_VERSION + 1 }))
+    ).toThrow("newer than this app supports");
+
+    const broken = { ...buildBundle(), candidates: [record, { ...record, sessionId: undefined }] };
+    expect(() => parseArchiveBundle(JSON.stringify(broken))).toThrow("Candidate 2 is missing its id or session id.");
+    const badStage = { ...buildBundle(), sessions: [{ session: { ...session, stage: "lost" }, profile: null }] };
+    expect(() => parseArchiveBundle(JSON.stringify(badStage))).toThrow("Session 1 has an unknown stage.");
+  });
+
+  it("upgrades older bundles one version at a time", () => {
+    const migrated = migrateArchiveBundle(
+      { version: 1, people: [record] },
+      {
+        2: ({ people, ...rest }) => ({ ...rest, candidates: people }),
+        3: (bundle) => ({ ...bundle, questionBank: [] })
+      },
+      3
+    );
+
+    expect(migrated).toEqual({ version: 3, candidates: [record], questionBank: [] });
+    expect(() => migrateArchiveBundle({ version: 1 }, {}, 2)).toThrow("no upgrade from bundle version 1 to 2");
+  });
+
+  it("adds everything into an empty archive", () => {
+    const plan = planArchiveImport(
+      buildBundle(),
+      { candidateIds: [], sessionIds: [], questionIds: [], resumeIds: [], invitationCodes: {} },
+      "skip"
+    );
+
+    expect(plan.candidates).toEqual([record]);
+    expect(plan.sessions[0].session.invitation?.code).toBe("ABC234");
+    expect(plan.summary.candidates).toEqual({ added: 1, overwritten: 0, duplicated: 0, skipped: 0 });
+  });
+
+  it("skips or overwrites conflicting ids", () => {
+    const skipped = planArchiveImport(buildBundle(), everythingExists, "skip");
+    expect([skipped.candidates, skipped.sessions, skipped.questionBank, skipped.resumes]).toEqual([[], [], [], []]);
+    expect(describeArchiveImport(skipped.summary)).toBe(
+      "Candidates: 1 skipped. Sessions: 1 skipped. Bank questions: 1 skipped. Resumes: 1 skipped"
+    );
+
+    const overwritten = planArchiveImport(buildBundle(), everythingExists, "overwrite");
+    expect(overwritten.candidates).toEqual([record]);
+    expect(overwritten.sessions[0].session).toEqual(session);
+    expect(overwritten.summary.sessions.overwritten).toBe(1);
+  });
+
+  it("never overwrites a locked session", () => {
+    const plan = planArchiveImport(buildBundle(), { ...everythingExists, lockedSessionIds: ["session-1"] }, "overwrite");
+
+    expect(plan.sessions).toEqual([]);
+    expect(plan.summary.sessions.skipped).toBe(1);
+  });
+
+  it("duplicates conflicts under new ids and keeps references pointing at the copies", () => {
+    const plan = planArchiveImport(buildBundle(), everythingExists, "duplicate");
+    const [candidate] = plan.candidates;
+    const [{ session: copy, profile: copyProfile }] = plan.sessions;
+    const [resume] = plan.resumes;
+
+    expect(candidate.id).not.toBe("cand-1");
+    expect(candidate.profile.id).toBe(candidate.id);
+    expect(candidate.sessionId).toBe(copy.id);
+    expect(copy.id).not.toBe("session-1");
+    expect(copy.candidateId).toBe(candidate.id);
+    expect(copyProfile?.resume?.id).toBe(resume.id);
+    expect(candidate.profile.resume).toMatchObject({ id: resume.id, storageKey: `resume:${resume.id}` });
+    expect(copy.invitation?.code).not.toBe("ABC234");
+    expect(plan.questionBank[0]).toMatchObject({ prompt: bankItem.prompt });
+    expect(plan.questionBank[0].id).not.toBe("bank-1");
+    expect(plan.summary.resumes.duplicated).toBe(1);
+  });
+});
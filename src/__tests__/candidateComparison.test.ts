@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+
+import { buildCandidateComparison } from "../utils/candidateComparison";
+import type { AnswerRecord, CandidateArchiveRecord, InterviewQuestion } from "../types/interview";
+
+const buildAnswer = (questionId: string, aiScore: number, elapsedSeconds: number): AnswerRecord => ({
+  questionId,
+  answer: `Answer to ${questionId}`,
+  startedAt: "2024-03-05T15:00:00.000Z",
+  submittedAt: "2024-03-05T15:01:00.000Z",
+  elapsedSeconds,
+  autoSubmitted: false,
+  aiScore,
+  aiFeedback: `Feedback on ${questionId}`
+});
+
+const buildRecord = (
+  id: string,
+  questions: InterviewQuestion[],
+  answers: AnswerRecord[],
+  strengths: string[],
+  improvements: string[]
+): CandidateArchiveRecord => ({
+  id,
+  sessionId: `session-${id}`,
+  templateId: "full-stack",
+  completedAt: "2024-03-05T15:30:00.000Z",
+  finalScore: 7,
+  profile: {
+    id,
+    name: `Candidate ${id}`,
+    email: null,
+    phone: null,
+    role: "Full Stack Engineer",
+    resume: null,
+    missingFields: []
+  },
+  summary: { finalScore: 7, summaryText: "Summary", strengths, improvements },
+  questions,
+  answers,
+  chat: []
+});
+
+describe("candidate comparison", () => {
+  it("pairs answers to the same bank question even when question ids differ", () => {
+    const first = buildRecord(
+      "a",
+      [
+        { id: "a1", prompt: "Explain closures.", difficulty: "easy", category: "javascript", timeLimitSeconds: 20, bankQuestionId: "bank-1" },
+        { id: "a2", prompt: "Design a cache.", difficulty: "hard", category: "system", timeLimitSeconds: 120 }
+      ],
+      [buildAnswer("a1", 8, 15), buildAnswer("a2", 6, 100)],
+      ["Clear explanations", "Knows caching"],
+      ["Go deeper on eviction"]
+    );
+    const second = buildRecord(
+      "b",
+      [
+        { id: "b2", prompt: "design a  cache.", difficulty: "hard", category: "system", timeLimitSeconds: 120 },
+        { id: "b1", prompt: "What is a closure?", difficulty: "easy", category: "javascript", timeLimitSeconds: 20, bankQuestionId: "bank-1" }
+      ],
+      [buildAnswer("b1", 5, 19), buildAnswer("b2", 9, 80)],
+      ["clear explanations"],
+      ["Go deeper on eviction", "Test more edge cases"]
+    );
+
+    const comparison = buildCandidateComparison([first, second]);
+
+    expect(comparison.alignment).toBe("question");
+    expect(comparison.rows.map((row) => row.cells.map((cell) => cell?.questionId))).toEqual([
+      ["a1", "b1"],
+      ["a2", "b2"]
+    ]);
+    expect(comparison.rows[1].cells[1]).toMatchObject({ score: 9, elapsedSeconds: 80, feedback: "Feedback on b2" });
+    expect(comparison.candidates[0].strengths).toEqual([
+      { text: "Clear explanations", shared: true },
+      { text: "Knows caching", shared: false }
+    ]);
+    expect(comparison.candidates[1].improvements).toEqual([
+      { text: "Go deeper on eviction", shared: true },
+      { text: "Test more edge cases", shared: false }
+    ]);
+  });
+
+  it("falls back to category and difficulty when candidates got different questions", () => {
+    const first = buildRecord(
+      "a",
+      [
+        { id: "a1", prompt: "Explain closures.", difficulty: "easy", category: "javascript", timeLimitSeconds: 20 },
+        { id: "a2", prompt: "Explain hoisting.", difficulty: "easy", category: "javascript", timeLimitSeconds: 20 },
+        { id: "a3", prompt: "Design a cache.", difficulty: "hard", category: "system", timeLimitSeconds: 120 }
+      ],
+      [buildAnswer("a1", 8, 15), buildAnswer("a2", 7, 12), buildAnswer("a3", 6, 100)],
+      [],
+      []
+    );
+    const second = buildRecord(
+      "b",
+      [
+        { id: "b1", prompt: "Design a queue.", difficulty: "hard", category: "System", timeLimitSeconds: 120 },
+        { id: "b2", prompt: "What is the event loop?", difficulty: "easy", category: "javascript", timeLimitSeconds: 20 }
+      ],
+      [buildAnswer("b1", 9, 80), buildAnswer("b2", 5, 19)],
+      [],
+      []
+    );
+
+    const comparison = buildCandidateComparison([first, second], "question");
+
+    expect(comparison.alignment).toBe("category");
+    expect(comparison.rows.map((row) => row.cells.map((cell) => cell?.questionId ?? null))).toEqual([
+      ["a1", "b2"],
+      ["a2", null],
+      ["a3", "b1"]
+    ]);
+    expect(comparison.rows.every((row) => row.prompt === null)).toBe(true);
+  });
+});
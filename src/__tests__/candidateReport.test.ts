@@ -0,0 +1,254 @@
+import dayjs from "dayjs";
+import { describe, expect, it } from "vitest";
+import { getDocument } from "pdfjs-dist/legacy/build/pdf";
+
+import { extractPdfLayout } from "../services/pdfLayout";
+import {
+  buildCandidateListCsv,
+  buildCandidateReportMarkdown,
+  buildCandidateReportPdf,
+  getCandidateReportFileName,
+  parseCandidateReportJson,
+  serializeCandidateReportJson
+} from "../utils/candidateReport";
+import { wrapText } from "../utils/pdfWriter";
+import type { CandidateArchiveRecord } from "../types/interview";
+
+const buildRecord = (overrides: Partial<CandidateArchiveRecord> = {}): CandidateArchiveRecord => ({
+  id: "candidate-1",
+  sessionId: "session-1",
+  templateId: "full-stack",
+  completedAt: "2024-03-05T15:30:00.000Z",
+  finalScore: 7.2,
+  profile: {
+    id: "profile-1",
+    name: "Renée O'Connor",
+    email: "renee@example.com",
+    phone: "5555551234",
+    role: "Full Stack Engineer",
+    resume: null,
+    missingFields: []
+  },
+  summary: {
+    finalScore: 7.2,
+    summaryText: "Solid fundamentals with clear explanations.",
+    strengths: ["Explains trade-offs"],
+    improvements: ["Go deeper on caching"]
+  },
+  questions: [
+    { id: "q1", prompt: "What does useEffect do?", difficulty: "easy", category: "react", timeLimitSeconds: 20 },
+    { id: "q2", prompt: "Design a rate limiter (token bucket).", difficulty: "hard", category: "system", timeLimitSeconds: 120 }
+  ],
+  answers: [
+    {
+      questionId: "q1",
+      answer: "It runs side effects after render.\nCleanup runs before the next effect.",
+      startedAt: "2024-03-05T15:00:00.000Z",
+      submittedAt: "2024-03-05T15:00:14.000Z",
+      elapsedSeconds: 14,
+      autoSubmitted: false,
+      aiScore: 8,
+      aiFeedback: "Accurate and concise.",
+      criterionScores: [
+        { criterionId: "c1", label: "Accuracy", weight: 2, score: 8, justification: "Correct | complete" }
+      ],
+      followUps: [
+        {
+          id: "f1",
+          prompt: "When does cleanup run?",
+          reason: "Probe depth",
+          answer: "Before re-running and on unmount.",
+          askedAt: "2024-03-05T15:00:15.000Z",
+          submittedAt: "2024-03-05T15:00:30.000Z",
+          elapsedSeconds: 15,
+          autoSubmitted: false
+        }
+      ]
+    },
+    {
+      questionId: "q2",
+      answer: "",
+      startedAt: "2024-03-05T15:01:00.000Z",
+      submittedAt: "2024-03-05T15:03:00.000Z",
+      elapsedSeconds: 120,
+      autoSubmitted: true,
+      aiScore: 2,
+      scoreOverride: {
+        score: 4,
+        reason: "Talked it through verbally",
+        reviewer: "Sam",
+        overriddenAt: "2024-03-06T09:00:00.000Z"
+      }
+    }
+  ],
+  chat: [
+    { id: "m2", sender: "candidate", body: "It runs side effects after render.", createdAt: "2024-03-05T15:00:14.000Z" },
+    { id: "m1", sender: "assistant", body: "What does useEffect do?", createdAt: "2024-03-05T15:00:00.000Z" }
+  ],
+  ...overrides
+});
+
+describe("candidate reports", () => {
+  it("writes a Markdown report with scores, timings, feedback and the transcript", () => {
+    const markdown = buildCandidateReportMarkdown(buildRecord());
+
+    expect(markdown).toContain("# Interview report: Renée O'Connor");
+    expect(markdown).toContain("- **Final score:** 7.2/10");
+    expect(markdown).toContain("### 1. What does useEffect do?");
+    expect(markdown).toContain("- **Time:** 14s of 20s");
+    expect(markdown).toContain("> It runs side effects after render.\n> Cleanup runs before the next effect.");
+    expect(markdown).toContain("| Accuracy | 2 | 8.0 | Correct \\| complete |");
+    expect(markdown).toContain("**Follow-up 1:** When does cleanup run?");
+    expect(markdown).toContain("- **Score:** 4.0/10");
+    expect(markdown).toContain("120s of 120s · auto-submitted when time ran out");
+    expect(markdown).toContain("Overridden by Sam");
+    expect(markdown).toContain("(AI score 2.0): Talked it through verbally");
+    expect(markdown.indexOf("**Interviewer**")).toBeLessThan(markdown.indexOf("**Candidate**"));
+  });
+
+  it("keeps Markdown in answers, feedback and chat from breaking out of the report", () => {
+    const injected = "Here is my code:\n```js\n    const x = 1;\n```\n# Hired\n| a | b |\n---\n1. Done";
+    const record = buildRecord({
+      summary: { finalScore: 7.2, summaryText: "## Strong hire\n> quoted", strengths: ["- nested"], improvements: [] },
+      chat: [{ id: "m1", sender: "candidate", body: injected, createdAt: "2024-03-05T15:00:14.000Z" }]
+    });
+    record.answers[0] = { ...record.answers[0], answer: injected, aiFeedback: "Fine.\n## Transcript seal" };
+    const markdown = buildCandidateReportMarkdown(record);
+
+    const quoted = [
+      "> Here is my code:",
+      "> \\```js",
+      "> \u00a0\u00a0\u00a0\u00a0const x = 1;",
+      "> \\```",
+      "> \\# Hired",
+      "> \\| a | b |",
+      "> \\---",
+      "> 1\\. Done"
+    ].join("\n");
+    expect(markdown).toContain(`**Answer**\n\n${quoted}`);
+    expect(markdown).toContain(`**Candidate** (${dayjs("2024-03-05T15:00:14.000Z").format("h:mm:ss A")}):\n\n${quoted}`);
+    expect(markdown).toContain("**Feedback**\n\n> Fine.\n> \\## Transcript seal");
+    expect(markdown).toContain("## Summary\n\n\\## Strong hire\n\\> quoted");
+    expect(markdown).toContain("- \\- nested");
+    expect(markdown.match(/^#+ .*/gm)).toEqual([
+      "# Interview report: Renée O'Connor",
+      "## Summary",
+      "### Strengths",
+      "## Questions",
+      "### 1. What does useEffect do?",
+      "### 2. Design a rate limiter (token bucket).",
+      "## Transcript",
+      "## Transcript seal"
+    ]);
+    expect(markdown.match(/^(```|---)/gm)).toBeNull();
+  });
+
+  it("keeps names, prompts, notes and overrides on their own line in the Markdown report", () => {
+    const record = buildRecord({
+      profile: { ...buildRecord().profile, name: "# Admin\n## Hired" },
+      decisions: [
+        { id: "d1", status: "advance", notes: "Good\n# Hired\n```", reviewer: "Ana", decidedAt: "2024-03-07T10:00:00.000Z" }
+      ],
+      finalScoreOverride: {
+        score: 9,
+        reason: "Strong\n---",
+        reviewer: "> Sam",
+        overriddenAt: "2024-03-06T09:00:00.000Z"
+      }
+    });
+    record.questions[0] = { ...record.questions[0], prompt: "Explain\n# this", category: "- react" };
+    record.answers[0].criterionScores = [
+      { criterionId: "c1", label: "| Accuracy\n---", weight: 2, score: 8, justification: "Fine" }
+    ];
+    record.answers[0].followUps = (record.answers[0].followUps ?? []).map((followUp) => ({
+      ...followUp,
+      prompt: "Why?\n```\n# Hired"
+    }));
+    const markdown = buildCandidateReportMarkdown(record);
+
+    expect(markdown).toContain("# Interview report: \\# Admin ## Hired\n");
+    expect(markdown).toContain("- **Hiring decision:** Advance by Ana on Mar 7, 2024");
+    expect(markdown).toContain(": Good # Hired ```\n");
+    expect(markdown).toContain("Overridden by \\> Sam on");
+    expect(markdown).toContain(": Strong ---\n");
+    expect(markdown).toContain("### 1. Explain # this\n");
+    expect(markdown).toContain("**Category:** \\- react");
+    expect(markdown).toContain("| \\| Accuracy --- | 2 | 8.0 | Fine |");
+    expect(markdown).toContain("**Follow-up 1:** Why? ``` # Hired\n");
+    expect(markdown.match(/^#+ .*/gm)).toEqual([
+      "# Interview report: \\# Admin ## Hired",
+      "## Summary",
+      "### Strengths",
+      "### Areas to improve",
+      "## Questions",
+      "### 1. Explain # this",
+      "### 2. Design a rate limiter (token bucket).",
+      "## Transcript",
+      "## Transcript seal"
+    ]);
+    expect(markdown.match(/^(```|---)/gm)).toBeNull();
+  });
+
+  it("round-trips the full archive record through the JSON export", () => {
+    const record = buildRecord({ finalScoreOverride: undefined });
+    const json = serializeCandidateReportJson(record, "2024-03-07T00:00:00.000Z");
+
+    expect(JSON.parse(json)).toMatchObject({ format: "crisp-candidate-report", version: 1 });
+    expect(parseCandidateReportJson(json)).toEqual(JSON.parse(JSON.stringify(record)));
+    expect(() => parseCandidateReportJson('{"questions": []}')).toThrow("not a candidate report");
+  });
+
+  it("generates a PDF whose text reads back in order", async () => {
+    const pdf = await getDocument({ data: buildCandidateReportPdf(buildRecord()), verbosity: 0 }).promise;
+    const layout = await extractPdfLayout(pdf);
+
+    expect(layout.text).toContain("Interview report: Renée O'Connor");
+    expect(layout.text).toContain("Final score: 7.2/10");
+    expect(layout.text).toContain("2. Design a rate limiter (token bucket).");
+    expect(layout.text).toContain("Feedback: Accurate and concise.");
+    expect(layout.text.indexOf("Summary")).toBeLessThan(layout.text.indexOf("Transcript"));
+    expect(layout.text).toMatch(/Page 1 of \d/);
+  });
+
+  it("paginates long answers", async () => {
+    const longAnswer = Array.from({ length: 400 }, (_, index) => `word${index}`).join(" ");
+    const record = buildRecord();
+    record.answers[0] = { ...record.answers[0], answer: longAnswer };
+    const pdf = await getDocument({ data: buildCandidateReportPdf(record), verbosity: 0 }).promise;
+
+    expect(pdf.numPages).toBeGreaterThan(1);
+    expect((await extractPdfLayout(pdf)).text).toContain("word399");
+  });
+
+  it("wraps to the line width and breaks words that don't fit", () => {
+    expect(wrapText("alpha beta gamma", 60, 10)).toEqual(["alpha beta", "gamma"]);
+    expect(wrapText("x".repeat(30), 50, 10).every((line) => line.length <= 10)).toBe(true);
+  });
+
+  it("reports the current hiring decision and its history, and lists it in the CSV export", () => {
+    const record = buildRecord({
+      tags: ["frontend", "referral"],
+      decisions: [
+        { id: "d1", status: "hold", notes: "Wait for the second loop", reviewer: "Sam", decidedAt: "2024-03-06T10:00:00.000Z" },
+        { id: "d2", status: "advance", notes: "Strong, \"clear\" answers", reviewer: "Ana", decidedAt: "2024-03-07T10:00:00.000Z" }
+      ]
+    });
+    const markdown = buildCandidateReportMarkdown(record);
+
+    expect(markdown).toContain("- **Hiring decision:** Advance by Ana on");
+    expect(markdown).toContain("## Decision history");
+    expect(markdown.indexOf("Advance by Ana")).toBeLessThan(markdown.indexOf("Hold by Sam"));
+    expect(buildCandidateReportMarkdown(buildRecord())).toContain("- **Hiring decision:** Undecided");
+
+    const [header, row, undecided] = buildCandidateListCsv([record, buildRecord({ id: "candidate-2" })]).split("\r\n");
+    expect(header).toBe(
+      "name,email,role,template,completedAt,finalScore,aiFinalScore,decision,decidedBy,decidedAt,decisionNotes,tags"
+    );
+    expect(row).toContain(',Advance,Ana,2024-03-07T10:00:00.000Z,"Strong, ""clear"" answers",frontend; referral');
+    expect(undecided.endsWith(",,,,,")).toBe(true);
+  });
+
+  it("names files after the candidate", () => {
+    expect(getCandidateReportFileName(buildRecord(), "markdown")).toBe("renee-o-connor-interview-report-20240305.md");
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Tricky resume layouts for the PDF layout tests, built as real PDFs at test time so each fixture
+ * stays readable here. Coordinates are PDF points on a US Letter page, with y growing upwards.
+ */
+
+export interface PdfTextRun {
+  x: number;
+  y: number;
+  text: string;
+  size?: number;
+  bold?: boolean;
+}
+
+export interface ResumePdfFixture {
+  name: string;
+  pages: PdfTextRun[][];
+}
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+
+const escapePdfString = (value: string) => value.replace(/[\\()]/g, (match) => `\\${match}`);
+
+const buildContentStream = (runs: PdfTextRun[]) =>
+  runs
+    .map(
+      ({ x, y, text, size = 10, bold = false }) =>
+        `BT /${bold ? "F2" : "F1"} ${size} Tf 1 0 0 1 ${x} ${y} Tm (${escapePdfString(text)}) Tj ET`
+    )
+    .join("\n");
+
+/** Writes a minimal PDF with one Helvetica text run per entry, in the order given. */
+export const buildPdf = (pages: PdfTextRun[][]): Uint8Array => {
+  const fontIds = [3, 4];
+  const pageIds = pages.map((_, index) => 5 + index * 2);
+  const objects = new Map<number, string>([
+    [1, "<< /Type /Catalog /Pages 2 0 R >>"],
+    [2, `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`],
+    [3, "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>"],
+    [4, "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>"]
+  ]);
+  pages.forEach((runs, index) => {
+    const pageId = pageIds[index];
+    const content = buildContentStream(runs);
+    objects.set(
+      pageId,
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 ${fontIds[0]} 0 R /F2 ${fontIds[1]} 0 R >> >> /Contents ${pageId + 1} 0 R >>`
+    );
+    objects.set(pageId + 1, `<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+  });
+
+  let output = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  const ids = Array.from(objects.keys()).sort((left, right) => left - right);
+  ids.forEach((id) => {
+    offsets[id] = output.length;
+    output += `${id} 0 obj\n${objects.get(id)}\nendobj\n`;
+  });
+  const xrefOffset = output.length;
+  output += `xref\n0 ${ids.length + 1}\n0000000000 65535 f \n`;
+  output += ids.map((id) => `${String(offsets[id]).padStart(10, "0")} 00000 n \n`).join("");
+  output += `trailer\n<< /Size ${ids.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF`;
+  return new TextEncoder().encode(output);
+};
+
+/** Name over a full-width contact line, then two columns whose baselines line up. */
+const twoColumn: ResumePdfFixture = {
+  name: "two columns with shared baselines",
+  pages: [
+    [
+      { x: 72, y: 740, text: "Jamie Rivera", size: 20, bold: true },
+      { x: 72, y: 718, text: "jamie@example.com | +1 555 010 0199 | github.com/jrivera | Portland, OR" },
+      { x: 72, y: 690, text: "EXPERIENCE", size: 12, bold: true },
+      { x: 330, y: 690, text: "SKILLS", size: 12, bold: true },
+      { x: 72, y: 674, text: "Senior Engineer, Acme Corp" },
+      { x: 330, y: 674, text: "React, TypeScript, Node.js" },
+      { x: 72, y: 660, text: "Jan 2021 - Present" },
+      { x: 330, y: 660, text: "PostgreSQL, Redis, Docker" },
+      { x: 72, y: 646, text: "Led the billing frontend rewrite" },
+      { x: 72, y: 632, text: "Software Engineer, Globex" },
+      { x: 330, y: 632, text: "EDUCATION", size: 12, bold: true },
+      { x: 72, y: 618, text: "Jun 2018 - Dec 2020" },
+      { x: 330, y: 618, text: "B.S. Computer Science" },
+      { x: 72, y: 604, text: "Built REST APIs in Node.js" },
+      { x: 330, y: 604, text: "State University, 2014 - 2018" }
+    ]
+  ]
+};
+
+/** Narrow left sidebar; the name sits over the main column only, above where the sidebar starts. */
+const sidebar: ResumePdfFixture = {
+  name: "left sidebar with the name over the main column",
+  pages: [
+    [
+      { x: 200, y: 750, text: "Morgan Lee", size: 22, bold: true },
+      { x: 200, y: 728, text: "Staff Platform Engineer" },
+      { x: 40, y: 700, text: "CONTACT", size: 11, bold: true },
+      { x: 200, y: 700, text: "SUMMARY", size: 11, bold: true },
+      { x: 40, y: 686, text: "morgan@example.com" },
+      { x: 200, y: 686, text: "Platform engineer focused on developer tooling and reliability." },
+      { x: 40, y: 672, text: "linkedin.com/in/morganlee" },
+      { x: 40, y: 644, text: "SKILLS", size: 11, bold: true },
+      { x: 200, y: 650, text: "EXPERIENCE", size: 11, bold: true },
+      { x: 40, y: 630, text: "Kubernetes" },
+      { x: 200, y: 636, text: "Staff Engineer, Initech (2019 - Present)" },
+      { x: 40, y: 616, text: "Terraform" },
+      { x: 200, y: 622, text: "Cut deploy times from 40 to 6 minutes with a new CI pipeline" },
+      { x: 40, y: 602, text: "Go" },
+      { x: 200, y: 608, text: "Senior Engineer, Hooli (2015 - 2019)" }
+    ]
+  ]
+};
+
+/** One column with dates pushed to the right margin, which must stay on their role's line. */
+const rightAlignedDates: ResumePdfFixture = {
+  name: "single column with right-aligned dates",
+  pages: [
+    [
+      { x: 72, y: 740, text: "Sam Patel", size: 18, bold: true },
+      { x: 72, y: 720, text: "sam@example.com" },
+      { x: 72, y: 690, text: "Experience", size: 12, bold: true },
+      { x: 72, y: 674, text: "Lead Developer, Umbrella" },
+      { x: 452, y: 674, text: "Mar 2020 - Present" },
+      { x: 72, y: 660, text: "Owned the checkout service and its on-call rotation" },
+      { x: 72, y: 646, text: "Mentored four engineers through promotion" },
+      { x: 72, y: 626, text: "Developer, Soylent" },
+      { x: 448, y: 626, text: "Jul 2016 - Feb 2020" },
+      { x: 72, y: 612, text: "Shipped the first mobile release in React Native" },
+      { x: 72, y: 582, text: "Education", size: 12, bold: true },
+      { x: 72, y: 566, text: "B.Eng. Software Engineering, Tech Institute" },
+      { x: 486, y: 566, text: "2012 - 2016" }
+    ]
+  ]
+};
+
+/** Columns between a full-width header and a full-width footer, with the content stream written backwards. */
+const headerColumnsFooter: ResumePdfFixture = {
+  name: "header, columns and footer in reverse stream order",
+  pages: [
+    [
+      { x: 72, y: 740, text: "Alex Kim", size: 20, bold: true },
+      { x: 72, y: 718, text: "Backend engineer building payment systems in Go and PostgreSQL since 2016" },
+      { x: 72, y: 690, text: "PROJECTS", size: 12, bold: true },
+      { x: 320, y: 690, text: "CERTIFICATIONS", size: 12, bold: true },
+      { x: 72, y: 674, text: "Ledger service for 2M accounts" },
+      { x: 320, y: 674, text: "AWS Solutions Architect" },
+      { x: 72, y: 660, text: "Open-source rate limiter" },
+      { x: 320, y: 660, text: "CKA: Kubernetes Administrator" },
+      { x: 72, y: 646, text: "Fraud scoring pipeline" },
+      { x: 72, y: 600, text: "References are available on request from previous managers and peers" }
+    ].reverse()
+  ]
+};
+
+export const RESUME_PDF_FIXTURES = { twoColumn, sidebar, rightAlignedDates, headerColumnsFooter };
@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  buildPassRateTrend,
+  buildQuestionAnalytics,
+  buildScoreDistribution
+} from "../utils/interviewAnalytics";
+import type { AnswerRecord, CandidateArchiveRecord, InterviewQuestion } from "../types/interview";
+
+const closures: InterviewQuestion = {
+  id: "q-easy",
+  prompt: "Explain closures.",
+  difficulty: "easy",
+  category: "JavaScript",
+  timeLimitSeconds: 20,
+  bankQuestionId: "bank-closures"
+};
+
+const cache: InterviewQuestion = {
+  id: "q-hard",
+  prompt: "Design a cache.",
+  difficulty: "hard",
+  category: "System design",
+  timeLimitSeconds: 120
+};
+
+const buildAnswer = (
+  questionId: string,
+  aiScore: number,
+  elapsedSeconds: number,
+  overrides: Partial<AnswerRecord> = {}
+): AnswerRecord => ({
+  questionId,
+  answer: `Answer to ${questionId}`,
+  startedAt: "2024-03-05T15:00:00.000Z",
+  submittedAt: "2024-03-05T15:01:00.000Z",
+  elapsedSeconds,
+  autoSubmitted: false,
+  aiScore,
+  ...overrides
+});
+
+const buildRecord = (
+  id: string,
+  questions: InterviewQuestion[],
+  answers: AnswerRecord[]
+): CandidateArchiveRecord => ({
+  id,
+  sessionId: `session-${id}`,
+  templateId: "full-stack",
+  completedAt: "2024-03-05T15:30:00.000Z",
+  finalScore: 7,
+  profile: {
+    id,
+    name: `Candidate ${id}`,
+    email: null,
+    phone: null,
+    role: "Full Stack Engineer",
+    resume: null,
+    missingFields: []
+  },
+  summary: { finalScore: 7, summaryText: "Summary", strengths: [], improvements: [] },
+  questions,
+  answers,
+  chat: []
+});
+
+describe("interview analytics", () => {
+  it("buckets final scores and tracks the pass rate per month", () => {
+    const rows = [
+      { finalScore: 9.4, completedAt: "2024-03-05T12:00:00.000Z" },
+      { finalScore: 10, completedAt: "2024-03-20T12:00:00.000Z" },
+      { finalScore: 4.2, completedAt: "2024-03-21T12:00:00.000Z" },
+      { finalScore: 7, completedAt: "2024-04-02T12:00:00.000Z" }
+    ];
+
+    const distribution = buildScoreDistribution(rows);
+    expect(distribution).toHaveLength(10);
+    expect(distribution[9]).toEqual({ from: 9, to: 10, count: 2 });
+    expect(distribution[4].count).toBe(1);
+
+    expect(buildPassRateTrend(rows, 7, "month")).toEqual([
+      { period: "2024-03-01", interviews: 3, passed: 2, passRate: 0.667, averageScore: 7.9 },
+      { period: "2024-04-01", interviews: 1, passed: 1, passRate: 1, averageScore: 7 }
+    ]);
+  });
+
+  it("groups answers by difficulty, category and question, with timer and difficulty flags", () => {
+    const records = [
+      buildRecord(
+        "a",
+        [closures, cache],
+        [buildAnswer("q-easy", 9, 8), buildAnswer("q-hard", 3, 120, { autoSubmitted: true })]
+      ),
+      buildRecord(
+        "b",
+        [
+          { ...closures, id: "b-easy", prompt: "What is a closure?", category: "javascript " },
+          { ...cache, id: "b-hard" }
+        ],
+        [buildAnswer("b-easy", 8, 6), buildAnswer("b-hard", 2, 120, { answer: " ", autoSubmitted: true })]
+      ),
+      buildRecord(
+        "c",
+        [{ ...closures, id: "c-easy" }, { ...cache, id: "c-hard" }],
+        [
+          buildAnswer("c-easy", 4, 10, {
+            scoreOverride: { score: 9, reason: "Rubric", reviewer: "Sam", overriddenAt: "2024-03-06T00:00:00.000Z" }
+          }),
+          buildAnswer("c-hard", 5, 90)
+        ]
+      )
+    ];
+
+    const analytics = buildQuestionAnalytics(records);
+
+    expect(analytics.interviews).toBe(3);
+    expect(analytics.byDifficulty.map((row) => row.difficulty)).toEqual(["easy", "hard"]);
+    expect(analytics.byDifficulty[0]).toMatchObject({
+      answers: 3,
+      averageScore: 8.7,
+      autoSubmitRate: 0,
+      configuredTimeLimitSeconds: 20,
+      timeUsedRatio: 0.4,
+      timerFit: "loose"
+    });
+    expect(analytics.byDifficulty[1]).toMatchObject({
+      answers: 3,
+      averageScore: 3.3,
+      autoSubmitRate: 0.667,
+      timeoutRate: 0.333,
+      averageElapsedSeconds: 110,
+      timerFit: "tight"
+    });
+    expect(analytics.byCategory.map((row) => [row.category, row.answers])).toEqual([
+      ["JavaScript", 3],
+      ["System design", 3]
+    ]);
+    expect(analytics.questions.map((row) => [row.prompt, row.answers, row.flag])).toEqual([
+      ["Design a cache.", 3, "too-hard"],
+      ["Explain closures.", 3, "too-easy"]
+    ]);
+  });
+});
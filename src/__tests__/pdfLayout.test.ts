@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { getDocument } from "pdfjs-dist/legacy/build/pdf";
+
+import { extractPdfLayout } from "../services/pdfLayout";
+import { detectResumeSections } from "../utils/resumeSections";
+import { RESUME_PDF_FIXTURES, buildPdf, type ResumePdfFixture } from "./fixtures/resumePdfs";
+
+const layoutFixture = async (fixture: ResumePdfFixture) => {
+  const pdf = await getDocument({ data: buildPdf(fixture.pages), verbosity: 0 }).promise;
+  return extractPdfLayout(pdf);
+};
+
+describe("PDF layout extraction", () => {
+  it("reads two columns one after the other instead of row by row", async () => {
+    const layout = await layoutFixture(RESUME_PDF_FIXTURES.twoColumn);
+
+    expect(layout.lines.map((line) => line.text)).toEqual([
+      "Jamie Rivera",
+      "jamie@example.com | +1 555 010 0199 | github.com/jrivera | Portland, OR",
+      "EXPERIENCE",
+      "Senior Engineer, Acme Corp",
+      "Jan 2021 - Present",
+      "Led the billing frontend rewrite",
+      "Software Engineer, Globex",
+      "Jun 2018 - Dec 2020",
+      "Built REST APIs in Node.js",
+      "SKILLS",
+      "React, TypeScript, Node.js",
+      "PostgreSQL, Redis, Docker",
+      "EDUCATION",
+      "B.S. Computer Science",
+      "State University, 2014 - 2018"
+    ]);
+    expect(layout.sections.map(({ key, heading }) => [key, heading])).toEqual([
+      ["contact", null],
+      ["experience", "EXPERIENCE"],
+      ["skills", "SKILLS"],
+      ["education", "EDUCATION"]
+    ]);
+    expect(layout.sections[1].text).toContain("Built REST APIs in Node.js");
+  });
+
+  it("keeps a name above the main column ahead of the sidebar", async () => {
+    const layout = await layoutFixture(RESUME_PDF_FIXTURES.sidebar);
+    const lines = layout.lines.map((line) => line.text);
+
+    expect(lines.slice(0, 2)).toEqual(["Morgan Lee", "Staff Platform Engineer"]);
+    expect(lines.indexOf("Go")).toBeLessThan(lines.indexOf("SUMMARY"));
+    expect(lines.slice(lines.indexOf("EXPERIENCE"))).toEqual([
+      "EXPERIENCE",
+      "Staff Engineer, Initech (2019 - Present)",
+      "Cut deploy times from 40 to 6 minutes with a new CI pipeline",
+      "Senior Engineer, Hooli (2015 - 2019)"
+    ]);
+    expect(layout.sections.find((section) => section.key === "skills")?.text).toBe("Kubernetes\nTerraform\nGo");
+  });
+
+  it("leaves right-aligned dates on the line of the role they belong to", async () => {
+    const layout = await layoutFixture(RESUME_PDF_FIXTURES.rightAlignedDates);
+
+    expect(layout.lines.map((line) => line.text)).toEqual([
+      "Sam Patel",
+      "sam@example.com",
+      "Experience",
+      "Lead Developer, Umbrella Mar 2020 - Present",
+      "Owned the checkout service and its on-call rotation",
+      "Mentored four engineers through promotion",
+      "Developer, Soylent Jul 2016 - Feb 2020",
+      "Shipped the first mobile release in React Native",
+      "Education",
+      "B.Eng. Software Engineering, Tech Institute 2012 - 2016"
+    ]);
+  });
+
+  it("orders by position rather than content stream order and keeps full-width rows in place", async () => {
+    const layout = await layoutFixture(RESUME_PDF_FIXTURES.headerColumnsFooter);
+
+    expect(layout.text.split("\n")).toEqual([
+      "Alex Kim",
+      "Backend engineer building payment systems in Go and PostgreSQL since 2016",
+      "PROJECTS",
+      "Ledger service for 2M accounts",
+      "Open-source rate limiter",
+      "Fraud scoring pipeline",
+      "CERTIFICATIONS",
+      "AWS Solutions Architect",
+      "CKA: Kubernetes Administrator",
+      "References are available on request from previous managers and peers"
+    ]);
+    expect(layout.sections.map((section) => section.key)).toEqual(["contact", "projects", "certifications"]);
+  });
+});
+
+describe("resume section detection", () => {
+  it("uses known headings, ALL CAPS labels and larger fonts, but never the name line", () => {
+    const sections = detectResumeSections([
+      { text: "JORDAN SMITH", fontSize: 18 },
+      { text: "jordan@example.com", fontSize: 10 },
+      { text: "Open Source", fontSize: 13 },
+      { text: "Maintainer of a popular date library", fontSize: 10 },
+      { text: "Skills:", fontSize: 10 },
+      { text: "Rust, Go", fontSize: 10 }
+    ]);
+
+    expect(sections).toEqual([
+      { key: "contact", heading: null, text: "JORDAN SMITH\njordan@example.com" },
+      { key: "other", heading: "Open Source", text: "Maintainer of a popular date library" },
+      { key: "skills", heading: "Skills", text: "Rust, Go" }
+    ]);
+  });
+});
@@ -0,0 +1,476 @@
+import { describe, expect, it } from "vitest";
+import { combineReducers, configureStore } from "@reduxjs/toolkit";
+import { persistReducer, persistStore } from "redux-persist";
+import type { PersistedState, Persistor, Storage } from "redux-persist";
+
+import sessionReducer from "../store/slices/sessionSlice";
+import candidatesReducer, {
+  overrideFinalScore,
+  pendingRecordSaved,
+  recordsLoaded,
+  type CandidatesState
+} from "../store/slices/candidatesSlice";
+import questionBankReducer from "../store/slices/questionBankSlice";
+import recoveryReducer from "../store/slices/recoverySlice";
+import {
+  PERSIST_KEY,
+  PERSIST_VERSION,
+  createPersistMigrate,
+  persistMigrations,
+  validatePersistedState
+} from "../store/migrations";
+import { candidatesTransform } from "../store/transforms";
+import { DEFAULT_PAUSE_SETTINGS } from "../services/interviewPause";
+import type { QuarantinedRecord } from "../services/quarantineStorage";
+import { buildCandidateIndexRow } from "../utils/candidateIndex";
+import { DEFAULT_CANDIDATE_FILTERS } from "../utils/candidateFilters";
+import { DEFAULT_CANDIDATE_SORT } from "../utils/candidateSorting";
+import type {
+  CandidateArchiveRecord,
+  CandidateIndexRow,
+  CandidateProfile,
+  InterviewSession
+} from "../types/interview";
+
+const profile: CandidateProfile = {
+  id: "cand-1",
+  name: "Alex Doe",
+  email: "alex@example.com",
+  phone: "5555551234",
+  role: "Full Stack Engineer",
+  resume: null,
+  missingFields: []
+};
+
+const session: InterviewSession = {
+  id: "session-1",
+  candidateId: "cand-1",
+  templateId: "backend",
+  createdAt: "2024-01-01T00:00:00.000Z",
+  updatedAt: "2024-01-01T00:00:00.000Z",
+  stage: "questioning",
+  currentQuestionId: null,
+  questions: {},
+  questionOrder: [],
+  answers: {},
+  timers: {},
+  chat: [],
+  summary: null
+};
+
+const record: CandidateArchiveRecord = {
+  id: "cand-1",
+  profile,
+  sessionId: "session-1",
+  templateId: "backend",
+  completedAt: "2024-01-01T00:10:00.000Z",
+  finalScore: 7,
+  summary: { finalScore: 7, summaryText: "Good.", strengths: [], improvements: [] },
+  questions: [],
+  answers: [],
+  chat: []
+};
+
+// What a version 1 store looked like: one active session, and no templates or settings yet.
+const { templateId: _sessionTemplate, ...legacySession } = session;
+const { templateId: _recordTemplate, ...legacyRecord } = record;
+const versionOneState = {
+  session: {
+    activeSession: legacySession,
+    activeProfile: profile,
+    resumeParse: { status: "success", error: null },
+    welcomeBackVisible: false
+  },
+  candidates: {
+    records: { "cand-1": legacyRecord },
+    ids: ["cand-1"],
+    sortKey: "score",
+    sortDirection: "desc",
+    searchQuery: ""
+  },
+  _persist: { version: 1, rehydrated: false }
+} as unknown as PersistedState;
+
+const noCandidateWrites = async () => {};
+const noCandidateReads = async (ids: string[]) => ids.map(() => undefined);
+
+const sliceOf = (state: PersistedState, key: string) => (state as unknown as Record<string, Record<string, unknown>>)[key];
+
+const memoryStorage = (entries: Record<string, string>): Storage => ({
+  getItem: async (key: string) => entries[key] ?? null,
+  setItem: async (key: string, value: string) => {
+    entries[key] = value;
+  },
+  removeItem: async (key: string) => {
+    delete entries[key];
+  }
+});
+
+describe("persisted state migrations", () => {
+  it("moves the single active session into the keyed session map (v2)", () => {
+    const migrated = persistMigrations[2](versionOneState);
+
+    expect(sliceOf(migrated, "session")).toMatchObject({
+      sessions: { "session-1": legacySession },
+      profiles: { "session-1": profile },
+      activeSessionId: "session-1"
+    });
+    expect(sliceOf(migrated, "session")).not.toHaveProperty("activeSession");
+  });
+
+  it("backfills settings and template ids without touching values already saved (v3)", () => {
+    const migrated = persistMigrations[3](persistMigrations[2](versionOneState));
+    const sessionSlice = sliceOf(migrated, "session");
+
+    expect(sessionSlice.pauseSettings).toEqual(DEFAULT_PAUSE_SETTINGS);
+    expect(sessionSlice.selectedTemplateId).toBe("full-stack");
+    expect((sessionSlice.sessions as Record<string, InterviewSession>)["session-1"].templateId).toBe("full-stack");
+    expect(sliceOf(migrated, "candidates").reviewerName).toBe("");
+
+    const current = { session: { sessions: { "session-1": session }, pauseSettings: { allowed: true } } };
+    const untouched = sliceOf(persistMigrations[3](current as unknown as PersistedState), "session");
+    expect(untouched.pauseSettings).toEqual({ allowed: true });
+    expect((untouched.sessions as Record<string, InterviewSession>)["session-1"].templateId).toBe("backend");
+  });
+
+  it("parks archived records for the move to IndexedDB (v4)", () => {
+    const migrated = persistMigrations[4](
+      persistMigrations[3](persistMigrations[2](versionOneState))
+    );
+    const candidates = sliceOf(migrated, "candidates");
+
+    expect(candidates).not.toHaveProperty("records");
+    expect(candidates.index).toEqual({});
+    expect(candidates.pendingRecords).toEqual({ "cand-1": { ...legacyRecord, templateId: "full-stack" } });
+    expect(candidates.ids).toEqual(["cand-1"]);
+  });
+
+  it("adds filter state and rebuilds version 4 index rows from IndexedDB (v5)", async () => {
+    const { autoSubmittedCount: _count, hasScoreOverride: _override, tags: _tags, ...versionFourRow } =
+      buildCandidateIndexRow(record);
+    const stored = {
+      candidates: { index: { "cand-1": versionFourRow }, ids: ["cand-1"], sortKey: "score", searchQuery: "" },
+      _persist: { version: 4, rehydrated: false }
+    } as unknown as PersistedState;
+    const answered = {
+      ...record,
+      answers: [
+        {
+          questionId: "q1",
+          answer: "",
+          startedAt: record.completedAt,
+          submittedAt: record.completedAt,
+          elapsedSeconds: 20,
+          autoSubmitted: true
+        }
+      ]
+    };
+
+    const migrate = createPersistMigrate({
+      saveQuarantine: async () => {},
+      saveCandidateRecords: noCandidateWrites,
+      loadCandidateRecords: async (ids) => ids.map((id) => (id === "cand-1" ? answered : undefined))
+    });
+    const candidates = sliceOf(await migrate(stored, PERSIST_VERSION), "candidates");
+
+    expect(candidates.filters).toEqual(DEFAULT_CANDIDATE_FILTERS);
+    expect(candidates.filterPresets).toEqual([]);
+    expect((candidates.index as Record<string, CandidateIndexRow>)["cand-1"]).toMatchObject({
+      autoSubmittedCount: 1,
+      hasScoreOverride: false,
+      tags: []
+    });
+  });
+
+  it("replaces the sort pair with sort rules and indexes answer durations (v6)", async () => {
+    const { answeringSeconds: _seconds, difficultyAverages: _averages, ...versionFiveRow } =
+      buildCandidateIndexRow(record);
+    const stored = {
+      candidates: {
+        index: { "cand-1": versionFiveRow },
+        ids: ["cand-1"],
+        sortKey: "score",
+        sortDirection: "asc",
+        searchQuery: "",
+        filters: DEFAULT_CANDIDATE_FILTERS,
+        filterPresets: []
+      },
+      _persist: { version: 5, rehydrated: false }
+    } as unknown as PersistedState;
+    const answered = {
+      ...record,
+      questions: [{ id: "q1", prompt: "Explain closures.", difficulty: "easy", category: "JS", timeLimitSeconds: 20 }],
+      answers: [
+        {
+          questionId: "q1",
+          answer: "A function with its scope.",
+          startedAt: record.completedAt,
+          submittedAt: record.completedAt,
+          elapsedSeconds: 18,
+          autoSubmitted: false,
+          aiScore: 8
+        }
+      ]
+    } as CandidateArchiveRecord;
+
+    const migrate = createPersistMigrate({
+      saveQuarantine: async () => {},
+      saveCandidateRecords: noCandidateWrites,
+      loadCandidateRecords: async (ids) => ids.map((id) => (id === "cand-1" ? answered : undefined))
+    });
+    const candidates = sliceOf(await migrate(stored, PERSIST_VERSION), "candidates");
+
+    expect(candidates).not.toHaveProperty("sortKey");
+    expect(candidates).not.toHaveProperty("sortDirection");
+    expect(candidates.sortRules).toEqual(DEFAULT_CANDIDATE_SORT);
+    expect(candidates.pageSize).toBe(12);
+    expect((candidates.index as Record<string, CandidateIndexRow>)["cand-1"]).toMatchObject({
+      answeringSeconds: 18,
+      difficultyAverages: { easy: 8, medium: null, hard: null }
+    });
+  });
+
+  it("adds the hiring decision filter to saved filters and presets (v7)", async () => {
+    const { decisions: _decisions, ...versionSixFilters } = DEFAULT_CANDIDATE_FILTERS;
+    const { decision: _decision, decidedAt: _decidedAt, ...versionSixRow } = buildCandidateIndexRow(record);
+    const stored = {
+      candidates: {
+        index: { "cand-1": versionSixRow },
+        ids: ["cand-1"],
+        sortRules: DEFAULT_CANDIDATE_SORT,
+        pageSize: 24,
+        searchQuery: "",
+        filters: { ...versionSixFilters, tags: ["frontend"] },
+        filterPresets: [
+          {
+            id: "preset-1",
+            name: "Frontend",
+            filters: { ...versionSixFilters, minAutoSubmitted: 1 },
+            searchQuery: "",
+            savedAt: record.completedAt
+          }
+        ]
+      },
+      _persist: { version: 6, rehydrated: false }
+    } as unknown as PersistedState;
+
+    const migrate = createPersistMigrate({
+      saveQuarantine: async () => {},
+      saveCandidateRecords: noCandidateWrites,
+      loadCandidateRecords: noCandidateReads
+    });
+    const candidates = sliceOf(await migrate(stored, PERSIST_VERSION), "candidates");
+
+    expect(candidates.filters).toEqual({ ...DEFAULT_CANDIDATE_FILTERS, tags: ["frontend"] });
+    expect(candidates.filterPresets).toEqual([
+      expect.objectContaining({ filters: { ...DEFAULT_CANDIDATE_FILTERS, minAutoSubmitted: 1 } })
+    ]);
+    expect((candidates.index as Record<string, CandidateIndexRow>)["cand-1"]).toMatchObject({
+      decision: null,
+      decidedAt: null
+    });
+  });
+
+  it("quarantines corrupt records and keeps everything else", () => {
+    const state = {
+      session: {
+        sessions: { "session-1": session, broken: { id: "broken", stage: "questioning" } },
+        profiles: { "session-1": profile, broken: profile, orphan: profile },
+        activeSessionId: "broken"
+      },
+      candidates: {
+        index: { "cand-2": { ...buildCandidateIndexRow(record), id: "cand-2" }, stale: { id: "stale" } },
+        pendingRecords: { "cand-1": record, bad: { ...record, id: "bad", answers: "nope" } },
+        ids: ["bad", "cand-1", "stale", "cand-2", "gone"]
+      },
+      questionBank: {
+        items: { ok: { id: "ok", prompt: "Explain closures.", difficulty: "easy" }, empty: { id: "empty", prompt: "" } },
+        ids: ["ok", "empty"]
+      }
+    } as unknown as PersistedState;
+
+    const { state: validated, quarantined } = validatePersistedState(state, "2024-02-01T00:00:00.000Z");
+
+    expect(Object.keys(sliceOf(validated, "session").sessions as object)).toEqual(["session-1"]);
+    expect(Object.keys(sliceOf(validated, "session").profiles as object)).toEqual(["session-1"]);
+    expect(sliceOf(validated, "session").activeSessionId).toBeNull();
+    expect(sliceOf(validated, "candidates").ids).toEqual(["cand-1", "cand-2"]);
+    expect(sliceOf(validated, "candidates").index).toMatchObject({ "cand-1": { finalScore: 7, summaryPreview: "Good." } });
+    expect(Object.keys(sliceOf(validated, "candidates").pendingRecords as object)).toEqual(["cand-1"]);
+    expect(sliceOf(validated, "questionBank").ids).toEqual(["ok"]);
+    expect(quarantined.map(({ kind, key }) => [kind, key])).toEqual([
+      ["session", "broken"],
+      ["profile", "orphan"],
+      ["candidate", "stale"],
+      ["candidate", "bad"],
+      ["question", "empty"]
+    ]);
+    expect(quarantined[0].data).toEqual({ session: { id: "broken", stage: "questioning" }, profile });
+    expect(quarantined[0].reason).toBe("Session broken is missing its id, candidate or template.");
+  });
+
+  it("sets aside a slice that isn't an object and lets it start from defaults", () => {
+    const { state: validated, quarantined } = validatePersistedState({
+      candidates: "corrupt",
+      questionBank: { items: {}, ids: [] }
+    } as unknown as PersistedState);
+
+    expect(validated).not.toHaveProperty("candidates");
+    expect(quarantined).toMatchObject([{ kind: "slice", key: "candidates", data: "corrupt" }]);
+  });
+
+  it("quarantines the whole store when a migration step throws", async () => {
+    const saved: QuarantinedRecord[] = [];
+    const migrate = createPersistMigrate({
+      saveQuarantine: async (records) => {
+        saved.push(...records);
+      },
+      saveCandidateRecords: noCandidateWrites,
+      loadCandidateRecords: noCandidateReads,
+      migrations: {
+        2: () => {
+          throw new Error("Unexpected shape");
+        }
+      }
+    });
+
+    const result = await migrate(versionOneState, 2);
+
+    expect(saved).toMatchObject([{ kind: "store", key: PERSIST_KEY, reason: "Unexpected shape", data: versionOneState }]);
+    expect(result).toMatchObject({ recovery: { notice: { counts: { store: 1 } } } });
+    expect(result).not.toHaveProperty("session");
+  });
+
+  it("moves parked records out through saveCandidateRecords, and keeps them if that fails", async () => {
+    const parked = validatePersistedState(
+      persistMigrations[4](persistMigrations[3](persistMigrations[2](versionOneState)))
+    ).state;
+    const current = { ...parked, _persist: { version: PERSIST_VERSION, rehydrated: false } } as PersistedState;
+    const written: CandidateArchiveRecord[] = [];
+
+    const failing = createPersistMigrate({
+      saveQuarantine: async () => {},
+      saveCandidateRecords: async () => {
+        throw new Error("Quota exceeded");
+      },
+      loadCandidateRecords: noCandidateReads
+    });
+    const kept = await failing(current, PERSIST_VERSION);
+    expect(Object.keys(sliceOf(kept, "candidates").pendingRecords as object)).toEqual(["cand-1"]);
+
+    const working = createPersistMigrate({
+      saveQuarantine: async () => {},
+      saveCandidateRecords: async (records) => {
+        written.push(...records);
+      },
+      loadCandidateRecords: noCandidateReads
+    });
+    const moved = await working(kept, PERSIST_VERSION);
+    expect(written.map((entry) => entry.id)).toEqual(["cand-1"]);
+    expect(sliceOf(moved, "candidates")).not.toHaveProperty("pendingRecords");
+    expect(sliceOf(moved, "candidates").index).toHaveProperty("cand-1");
+  });
+
+  it("never lets a parked copy overwrite a record edited after the move failed", async () => {
+    const parked = validatePersistedState(
+      persistMigrations[4](persistMigrations[3](persistMigrations[2](versionOneState)))
+    ).state;
+    const current = { ...parked, _persist: { version: PERSIST_VERSION, rehydrated: false } } as PersistedState;
+
+    // Boot: the move to IndexedDB fails, so the record stays parked in localStorage.
+    const failing = createPersistMigrate({
+      saveQuarantine: async () => {},
+      saveCandidateRecords: async () => {
+        throw new Error("Quota exceeded");
+      },
+      loadCandidateRecords: noCandidateReads
+    });
+    const kept = await failing(current, PERSIST_VERSION);
+    const candidates = sliceOf(kept, "candidates") as unknown as CandidatesState;
+    const stale = candidates.pendingRecords?.["cand-1"] as CandidateArchiveRecord;
+
+    // The reviewer overrides a score; the edited record lands in IndexedDB and the parked copy is dropped.
+    const overridden = candidatesReducer(
+      { ...candidates, loadedRecords: { "cand-1": stale } },
+      overrideFinalScore({ candidateId: "cand-1", score: 9, reason: "Rubric", reviewer: "Sam" })
+    );
+    const edited = overridden.loadedRecords["cand-1"];
+    expect(edited.finalScoreOverride?.score).toBe(9);
+    expect(candidatesReducer(overridden, pendingRecordSaved("cand-1"))).not.toHaveProperty("pendingRecords");
+
+    // Reload with a store saved before the parked copy was dropped: IndexedDB's copy must win.
+    const written: CandidateArchiveRecord[] = [];
+    const working = createPersistMigrate({
+      saveQuarantine: async () => {},
+      saveCandidateRecords: async (records) => {
+        written.push(...records);
+      },
+      loadCandidateRecords: async (ids) => ids.map((id) => (id === "cand-1" ? edited : undefined))
+    });
+    const reloaded = await working(kept, PERSIST_VERSION);
+    expect(written).toEqual([]);
+    expect(sliceOf(reloaded, "candidates")).not.toHaveProperty("pendingRecords");
+  });
+
+  it("rehydrates a version 1 store and raises a recovery notice for what it set aside", async () => {
+    const stored = JSON.parse(JSON.stringify(versionOneState));
+    stored.candidates.records.bad = { id: "bad" };
+    stored.candidates.ids.push("bad");
+    const entries: Record<string, string> = {
+      [`persist:${PERSIST_KEY}`]: JSON.stringify(
+        Object.fromEntries(Object.entries(stored).map(([key, value]) => [key, JSON.stringify(value)]))
+      )
+    };
+    const storage = memoryStorage(entries);
+    const saved: QuarantinedRecord[] = [];
+    const written: CandidateArchiveRecord[] = [];
+
+    const reducer = persistReducer(
+      {
+        key: PERSIST_KEY,
+        storage,
+        version: PERSIST_VERSION,
+        migrate: createPersistMigrate({
+          saveQuarantine: async (records) => {
+            saved.push(...records);
+          },
+          saveCandidateRecords: async (records) => {
+            written.push(...records);
+          },
+          loadCandidateRecords: noCandidateReads
+        }),
+        transforms: [candidatesTransform],
+        whitelist: ["session", "candidates", "questionBank"],
+        throttle: 0
+      },
+      combineReducers({
+        session: sessionReducer,
+        candidates: candidatesReducer,
+        questionBank: questionBankReducer,
+        recovery: recoveryReducer
+      })
+    );
+    const store = configureStore({ reducer, middleware: (getDefault) => getDefault({ serializableCheck: false }) });
+    let persistor: Persistor | undefined;
+    await new Promise<void>((resolve) => {
+      persistor = persistStore(store, null, resolve);
+    });
+
+    const state = store.getState();
+    expect(state.session.sessions["session-1"].templateId).toBe("full-stack");
+    expect(state.session.activeSessionId).toBe("session-1");
+    expect(state.candidates.ids).toEqual(["cand-1"]);
+    expect(state.candidates.index["cand-1"]).toMatchObject({ name: "Alex Doe", finalScore: 7 });
+    expect(state.candidates.loadedRecords).toEqual({});
+    expect(state.recovery.notice?.counts).toEqual({ candidate: 1 });
+    expect(saved.map((entry) => entry.key)).toEqual(["bad"]);
+    expect(written.map((entry) => entry.id)).toEqual(["cand-1"]);
+
+    store.dispatch(recordsLoaded([{ ...record, templateId: "full-stack" }]));
+    await persistor?.flush();
+    const persisted = JSON.parse(JSON.parse(entries[`persist:${PERSIST_KEY}`]).candidates);
+    expect(persisted).not.toHaveProperty("loadedRecords");
+    expect(persisted).not.toHaveProperty("pendingRecords");
+    expect(Object.keys(persisted.index)).toEqual(["cand-1"]);
+  });
+});
@@ -0,0 +1,112 @@
+import { afterEach, describe, expect, it } from "vitest";
+
+import questionBankReducer, {
+  importBankQuestions,
+  removeBankQuestion,
+  upsertBankQuestion
+} from "../store/slices/questionBankSlice";
+import { generateInterviewQuestions } from "../services/aiInterviewService";
+import { getInterviewTemplate } from "../services/interviewTemplates";
+import { createLocalProvider, setLlmProvider } from "../services/llmProvider";
+import {
+  parseQuestionBankCsv,
+  parseQuestionBankJson,
+  serializeQuestionBankCsv,
+  serializeQuestionBankJson
+} from "../utils/questionBankTransfer";
+import type { CandidateProfile, QuestionBankItem, QuestionDifficulty } from "../types/interview";
+
+const buildItem = (id: string, difficulty: QuestionDifficulty, overrides: Partial<QuestionBankItem> = {}): QuestionBankItem => ({
+  id,
+  prompt: `Prompt ${id}`,
+  category: "general",
+  tags: [],
+  difficulty,
+  timeLimitSeconds: 45,
+  guidance: "",
+  rubric: [],
+  createdAt: "2024-01-01T00:00:00.000Z",
+  updatedAt: "2024-01-01T00:00:00.000Z",
+  ...overrides
+});
+
+const profile: CandidateProfile = {
+  id: "profile-1",
+  name: "Alex Doe",
+  email: "alex@example.com",
+  phone: "5555551234",
+  role: "Full Stack Engineer",
+  resume: null,
+  missingFields: []
+};
+
+describe("question bank", () => {
+  afterEach(() => {
+    setLlmProvider(null);
+  });
+
+  it("supports create, update, delete and replace imports", () => {
+    let state = questionBankReducer(undefined, upsertBankQuestion(buildItem("a", "easy")));
+    state = questionBankReducer(state, upsertBankQuestion(buildItem("a", "easy", { prompt: "Edited" })));
+    state = questionBankReducer(state, upsertBankQuestion(buildItem("b", "hard")));
+    expect(state.ids).toEqual(["a", "b"]);
+    expect(state.items.a.prompt).toBe("Edited");
+
+    state = questionBankReducer(state, removeBankQuestion("a"));
+    expect(state.ids).toEqual(["b"]);
+
+    state = questionBankReducer(state, importBankQuestions({ items: [buildItem("c", "medium")], mode: "replace" }));
+    expect(state.ids).toEqual(["c"]);
+  });
+
+  it("round-trips JSON and CSV exports", () => {
+    const items = [
+      buildItem("a", "easy", {
+        prompt: 'Explain "closures", with an example',
+        tags: ["js", "fundamentals"],
+        guidance: "Line one\nline two",
+        rubric: [{ id: "r1", label: "Accuracy", description: "Correct definition", weight: 2 }]
+      }),
+      buildItem("b", "hard")
+    ];
+
+    expect(parseQuestionBankJson(serializeQuestionBankJson(items))).toEqual(items);
+
+    const fromCsv = parseQuestionBankCsv(serializeQuestionBankCsv(items));
+    expect(fromCsv.map(({ createdAt: _c, updatedAt: _u, ...rest }) => rest)).toEqual(
+      items.map(({ createdAt: _c, updatedAt: _u, ...rest }) => rest)
+    );
+  });
+
+  it("rejects rows with an invalid difficulty", () => {
+    expect(() => parseQuestionBankCsv("prompt,difficulty\nWhat is REST?,extreme")).toThrow(/invalid difficulty/);
+  });
+
+  it("draws the same bank questions for every candidate", async () => {
+    setLlmProvider(createLocalProvider());
+    const template = getInterviewTemplate("full-stack");
+    const bank = [buildItem("e1", "easy"), buildItem("m1", "medium"), buildItem("h1", "hard"), buildItem("e2", "easy")];
+
+    const first = await generateInterviewQuestions(profile, template, { sourceMode: "bank", bank });
+    const second = await generateInterviewQuestions(profile, template, { sourceMode: "bank", bank });
+
+    expect(first.map((question) => question.prompt)).toEqual(second.map((question) => question.prompt));
+    expect(first.map((question) => question.bankQuestionId ?? question.source)).toEqual([
+      "e1",
+      "e2",
+      "m1",
+      "fallback",
+      "h1",
+      "fallback"
+    ]);
+  });
+
+  it("alternates bank and generated questions in mixed mode", async () => {
+    setLlmProvider(createLocalProvider());
+    const template = getInterviewTemplate("full-stack");
+    const bank = [buildItem("e1", "easy"), buildItem("e2", "easy"), buildItem("m1", "medium"), buildItem("h1", "hard")];
+
+    const questions = await generateInterviewQuestions(profile, template, { sourceMode: "mixed", bank });
+    expect(questions.map((question) => question.source)).toEqual(["bank", "fallback", "bank", "fallback", "bank", "fallback"]);
+  });
+});
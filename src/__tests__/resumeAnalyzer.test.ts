@@ -0,0 +1,213 @@
+import { afterEach, describe, expect, it } from "vitest";
+import dayjs from "dayjs";
+
+import {
+  analyzeResumeText,
+  computeTotalYearsExperience,
+  extractStructuredResumeHeuristically
+} from "../services/resumeAnalyzer";
+import { createLocalProvider, setLlmProvider } from "../services/llmProvider";
+import {
+  generateInterviewQuestions,
+  verifyResumeExcerpt,
+  type ResumeContext
+} from "../services/aiInterviewService";
+import { getInterviewTemplate } from "../services/interviewTemplates";
+import type { CandidateProfile } from "../types/interview";
+
+const NOW = dayjs("2024-06-01");
+
+const RESUME_TEXT = `Alex Doe
+alex@example.com | github.com/alexdoe | https://www.linkedin.com/in/alex-doe | https://alexdoe.dev
+
+Summary:
+Full stack engineer with 6+ years of experience building React and Node.js products.
+
+Experience
+Senior Software Engineer at Acme Corp
+Jan 2021 - Present
+• Led the migration of the billing frontend to React and TypeScript
+• Cut API latency by 40% with Redis caching and PostgreSQL tuning
+
+Software Engineer, Globex
+Jun 2018 – Dec 2020
+• Built REST APIs in Node.js and deployed them on AWS with Docker
+
+Education
+B.S. in Computer Science, State University
+2014 - 2018
+
+Skills: React, TypeScript, Node.js, PostgreSQL, Docker, Kubernetes, 5 years of React`;
+
+describe("resume analyzer", () => {
+  afterEach(() => {
+    setLlmProvider(null);
+  });
+
+  it("extracts work history, education, links and skills without an LLM", () => {
+    const structured = extractStructuredResumeHeuristically(RESUME_TEXT, NOW);
+
+    expect(structured.source).toBe("heuristic");
+    expect(structured.experience).toEqual([
+      expect.objectContaining({
+        title: "Senior Software Engineer",
+        company: "Acme Corp",
+        startDate: "2021-01",
+        endDate: null,
+        isCurrent: true
+      }),
+      expect.objectContaining({
+        title: "Software Engineer",
+        company: "Globex",
+        startDate: "2018-06",
+        endDate: "2020-12",
+        isCurrent: false
+      })
+    ]);
+    expect(structured.experience[0].highlights).toHaveLength(2);
+    expect(structured.education).toEqual([
+      {
+        institution: "State University",
+        degree: "B.S.",
+        field: "Computer Science",
+        startDate: "2014",
+        endDate: "2018"
+      }
+    ]);
+    expect(structured.links).toMatchObject({
+      github: "github.com/alexdoe",
+      linkedin: "https://www.linkedin.com/in/alex-doe",
+      portfolio: "https://alexdoe.dev"
+    });
+    expect(structured.totalYearsExperience).toBeCloseTo(6, 0);
+
+    const react = structured.skills.find((skill) => skill.name === "React");
+    expect(react).toMatchObject({ years: 5, proficiency: "advanced" });
+    expect(structured.skills.map((skill) => skill.name)).toEqual(
+      expect.arrayContaining(["TypeScript", "Node.js", "PostgreSQL", "Docker", "Kubernetes", "AWS"])
+    );
+  });
+
+  it("handles text flattened onto one line, as PDF extraction produces", () => {
+    const flattened = RESUME_TEXT.replace(/\s+/g, " ");
+    const structured = extractStructuredResumeHeuristically(flattened, NOW);
+
+    expect(structured.experience.map((entry) => entry.startDate)).toEqual(["2021-01", "2018-06"]);
+    expect(structured.education[0]).toMatchObject({ institution: "State University", startDate: "2014" });
+  });
+
+  it("does not double count overlapping roles", () => {
+    const years = computeTotalYearsExperience(
+      [
+        { company: "A", title: null, startDate: "2020-01", endDate: "2022-01", isCurrent: false, highlights: [] },
+        { company: "B", title: null, startDate: "2021-01", endDate: "2023-01", isCurrent: false, highlights: [] }
+      ],
+      NOW
+    );
+    expect(years).toBeCloseTo(3, 1);
+  });
+
+  it("normalizes LLM output and keeps regex links as a fallback", async () => {
+    setLlmProvider(
+      createLocalProvider(() =>
+        JSON.stringify({
+          skills: [{ name: "Go", category: "language", proficiency: "Expert", years: 7 }],
+          experience: [{ company: "Initech", title: "Staff Engineer", startDate: "2017-03", endDate: null }],
+          education: [],
+          links: { github: null, linkedin: null, portfolio: null },
+          totalYearsExperience: 7
+        })
+      )
+    );
+
+    const structured = await analyzeResumeText("github.com/jordan");
+    expect(structured.source).toBe("llm");
+    expect(structured.skills).toEqual([{ name: "Go", category: "language", proficiency: "expert", years: 7 }]);
+    expect(structured.experience[0]).toMatchObject({ company: "Initech", isCurrent: true });
+    expect(structured.links.github).toBe("github.com/jordan");
+  });
+});
+
+describe("resume-aware question generation", () => {
+  const structured = extractStructuredResumeHeuristically(RESUME_TEXT, NOW);
+  const resume: ResumeContext = { mode: "full-text", text: RESUME_TEXT, structured };
+  const profile: CandidateProfile = {
+    id: "candidate-1",
+    name: "Alex Doe",
+    email: null,
+    phone: null,
+    role: "Full Stack Engineer",
+    resume: null,
+    missingFields: [],
+    structured
+  };
+  const template = getInterviewTemplate("full-stack");
+
+  afterEach(() => {
+    setLlmProvider(null);
+  });
+
+  it("matches excerpts regardless of case, bullets, quotes and elisions", () => {
+    expect(verifyResumeExcerpt("\u201cled the migration of the billing frontend\u201d", resume)).toBe(true);
+    expect(verifyResumeExcerpt("Cut API latency by 40%... PostgreSQL tuning.", resume)).toBe(true);
+    expect(verifyResumeExcerpt("Built a Kafka pipeline handling 1M events/sec", resume)).toBe(false);
+  });
+
+  it("feeds the resume into the prompt and flags excerpts that aren't in it", async () => {
+    let capturedPrompt = "";
+    setLlmProvider(
+      createLocalProvider((prompt) => {
+        capturedPrompt = prompt;
+        return JSON.stringify({
+          questions: [
+            {
+              prompt: "How did you plan the billing frontend migration?",
+              difficulty: "medium",
+              resumeExcerpt: "Led the migration of the billing frontend to React and TypeScript"
+            },
+            {
+              prompt: "How did you partition your Kafka topics?",
+              difficulty: "hard",
+              resumeExcerpt: "Built a Kafka pipeline handling 1M events/sec"
+            },
+            { prompt: "Explain React reconciliation.", difficulty: "easy", resumeExcerpt: null }
+          ]
+        });
+      })
+    );
+
+    const questions = await generateInterviewQuestions(profile, template, { resume });
+
+    expect(capturedPrompt).toContain("Acme Corp");
+    expect(capturedPrompt).not.toContain("Ignore any candidate-specific resume");
+    expect(questions.map((question) => question.resumeExcerptVerified)).toEqual([true, false, undefined]);
+    expect(questions[2].resumeExcerpt).toBeUndefined();
+  });
+
+  it("keeps prompts generic when grounding is off", async () => {
+    let capturedPrompt = "";
+    setLlmProvider(
+      createLocalProvider((prompt) => {
+        capturedPrompt = prompt;
+        return JSON.stringify({ questions: [{ prompt: "Explain closures.", resumeExcerpt: "Acme Corp" }] });
+      })
+    );
+
+    const [question] = await generateInterviewQuestions(profile, template);
+
+    expect(capturedPrompt).toContain("Ignore any candidate-specific resume");
+    expect(capturedPrompt).not.toContain("Acme Corp");
+    expect(question.resumeExcerpt).toBeUndefined();
+  });
+
+  it("builds offline fallback questions from resume highlights", async () => {
+    setLlmProvider(createLocalProvider());
+
+    const questions = await generateInterviewQuestions(profile, template, { resume });
+    const grounded = questions.filter((question) => question.resumeExcerpt);
+
+    expect(grounded.length).toBeGreaterThan(0);
+    expect(grounded.every((question) => question.resumeExcerptVerified)).toBe(true);
+    expect(grounded[0].prompt).toContain(structured.experience[0].highlights[0]);
+  });
+});
@@ -0,0 +1,113 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from "vitest";
+import JSZip from "jszip";
+
+import {
+  describeAcceptedResumeFormats,
+  findResumeFormat,
+  getAcceptedResumeTypes,
+  parseResumeFile
+} from "../services/resumeParser";
+import { createLocalProvider, setLlmProvider } from "../services/llmProvider";
+import {
+  extractLegacyDocText,
+  markdownToPlainText,
+  odtContentToPlainText,
+  rtfToPlainText
+} from "../utils/resumeText";
+
+const ODT_CONTENT = `<?xml version="1.0" encoding="UTF-8"?>
+<office:document-content xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0"
+  xmlns:text="urn:oasis:names:tc:opendocument:xmlns:text:1.0">
+  <office:body>
+    <office:text>
+      <text:h text:outline-level="1">Jamie Rivera</text:h>
+      <text:p>jamie@example.com<text:tab/>+1 555 010 0199</text:p>
+      <text:list><text:list-item><text:p>Built<text:s text:c="2"/>React dashboards</text:p></text:list-item></text:list>
+      <text:p>Line one<text:line-break/>Line two<office:annotation><text:p>Reviewer note</text:p></office:annotation></text:p>
+    </office:text>
+  </office:body>
+</office:document-content>`;
+
+describe("resume format registry", () => {
+  afterEach(() => {
+    setLlmProvider(null);
+  });
+
+  it("matches files by extension first and MIME type second", () => {
+    expect(findResumeFormat({ name: "resume.MD", type: "" })?.id).toBe("markdown");
+    expect(findResumeFormat({ name: "resume.rtf", type: "application/msword" })?.id).toBe("rtf");
+    expect(findResumeFormat({ name: "resume", type: "application/vnd.oasis.opendocument.text" })?.id).toBe("odt");
+    expect(findResumeFormat({ name: "resume.pages", type: "" })).toBeUndefined();
+  });
+
+  it("lists every registered format for the upload input and messages", () => {
+    expect(getAcceptedResumeTypes().split(",")).toEqual(
+      expect.arrayContaining([".pdf", ".docx", ".doc", ".odt", ".rtf", ".md", ".txt", "text/plain"])
+    );
+    expect(describeAcceptedResumeFormats()).toBe("PDF, DOCX, DOC, ODT, RTF, Markdown or TXT");
+  });
+
+  it("rejects unsupported files with the accepted types in the message", async () => {
+    await expect(parseResumeFile(new File(["x"], "resume.pages"))).rejects.toThrow(
+      "Please upload a PDF, DOCX, DOC, ODT, RTF, Markdown or TXT resume."
+    );
+  });
+
+  it("parses plain text and ODT uploads end to end", async () => {
+    setLlmProvider(createLocalProvider());
+
+    const text = await parseResumeFile(
+      new File(["Jamie Rivera\njamie@example.com\nSkills: React, TypeScript"], "resume.txt", {
+        type: "text/plain"
+      })
+    );
+    expect(text.rawText).toContain("jamie@example.com");
+    expect(text.profile.structured?.skills.map((skill) => skill.name)).toEqual(
+      expect.arrayContaining(["React", "TypeScript"])
+    );
+
+    const zip = new JSZip();
+    zip.file("mimetype", "application/vnd.oasis.opendocument.text");
+    zip.file("content.xml", ODT_CONTENT);
+    const odt = await parseResumeFile(
+      new File([await zip.generateAsync({ type: "arraybuffer" })], "resume.odt")
+    );
+    expect(odt.rawText.split("\n")[0]).toBe("Jamie Rivera");
+  });
+});
+
+describe("resume text converters", () => {
+  it("strips Markdown syntax but keeps link targets", () => {
+    const text = markdownToPlainText(
+      "# Jamie Rivera\n\n**Senior** engineer at [Acme](https://acme.dev)\n\n- Shipped `useQuery` hooks\n---\n> Quote"
+    );
+    expect(text).toBe("Jamie Rivera\n\nSenior engineer at Acme (https://acme.dev)\n\n• Shipped useQuery hooks\n\nQuote");
+  });
+
+  it("reads RTF body text and skips font tables and hidden destinations", () => {
+    const rtf =
+      "{\\rtf1\\ansi\\deff0{\\fonttbl{\\f0 Times New Roman;}}{\\*\\generator Writer;}" +
+      "{\\info{\\title Resume}}\\f0 Jos\\'e9 Rivera\\par\n\\bullet  Led \\u8220?platform\\u8221? work\\par " +
+      "Skills:\\tab React\\line TypeScript}";
+    expect(rtfToPlainText(rtf)).toBe("José Rivera\n• Led “platform” work\nSkills: React\nTypeScript");
+    expect(() => rtfToPlainText("plain text")).toThrow("RTF");
+  });
+
+  it("walks ODT content in document order without annotations", () => {
+    expect(odtContentToPlainText(ODT_CONTENT)).toBe(
+      "Jamie Rivera\njamie@example.com +1 555 010 0199\nBuilt React dashboards\nLine one\nLine two"
+    );
+  });
+
+  it("recovers readable text from legacy DOC binaries", () => {
+    const junk = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1, 0x00, 0x03, 0xfe, 0xff];
+    const utf16 = Array.from("Jamie Rivera\rSenior Engineer at Acme").flatMap((char) => [
+      char.charCodeAt(0),
+      0
+    ]);
+    const buffer = new Uint8Array([...junk, ...utf16, ...junk]).buffer;
+
+    expect(extractLegacyDocText(buffer)).toBe("Jamie Rivera\nSenior Engineer at Acme");
+  });
+});
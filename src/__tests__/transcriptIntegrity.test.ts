@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+
+import sessionReducer, { appendTranscriptLinks, type SessionState } from "../store/slices/sessionSlice";
+import { extendTranscriptChain, GENESIS_HASH, verifyTranscriptChain } from "../services/transcriptIntegrity";
+import type { AnswerRecord, ChatMessage, InterviewQuestion, InterviewSession } from "../types/interview";
+
+const question: InterviewQuestion = {
+  id: "q1",
+  prompt: "Explain closures.",
+  difficulty: "easy",
+  category: "JavaScript",
+  timeLimitSeconds: 20
+};
+
+const chat: ChatMessage[] = [
+  { id: "m1", sender: "assistant", body: "Explain closures.", createdAt: "2024-03-05T15:00:00.000Z" },
+  { id: "m2", sender: "candidate", body: "A function with its scope.", createdAt: "2024-03-05T15:00:15.000Z" },
+  {
+    id: "m3",
+    sender: "assistant",
+    body: "Score: 8/10",
+    createdAt: "2024-03-05T15:00:16.000Z",
+    metadata: { questionId: "q1", type: "feedback", score: 8 }
+  }
+];
+
+const answer: AnswerRecord = {
+  questionId: "q1",
+  answer: "A function with its scope.",
+  startedAt: "2024-03-05T15:00:00.000Z",
+  submittedAt: "2024-03-05T15:00:15.000Z",
+  elapsedSeconds: 15,
+  autoSubmitted: false,
+  aiScore: 8,
+  aiFeedback: "Accurate."
+};
+
+const entries = { chat, answers: [answer], questions: [question] };
+
+describe("transcript integrity", () => {
+  it("chains entries in the order they were recorded and verifies them", async () => {
+    const chain = await extendTranscriptChain([], entries);
+
+    expect(chain.map((link) => `${link.kind}:${link.entryId}`)).toEqual([
+      "chat:m1",
+      "answer:q1",
+      "chat:m2",
+      "chat:m3"
+    ]);
+    expect(chain[0].previousHash).toBe(GENESIS_HASH);
+    expect(chain.slice(1).every((link, index) => link.previousHash === chain[index].hash)).toBe(true);
+    expect(chain.every((link) => /^[0-9a-f]{64}$/.test(link.hash))).toBe(true);
+    expect(await extendTranscriptChain(chain, entries)).toEqual([]);
+
+    const verification = await verifyTranscriptChain(chain, entries);
+    expect(verification).toEqual({ status: "intact", links: 4, headHash: chain[3].hash, issues: [] });
+
+    // Reviewer overrides happen after the interview and are audited separately, so they don't break the seal.
+    const overridden = {
+      ...answer,
+      scoreOverride: { score: 9, reason: "Rubric", reviewer: "Sam", overriddenAt: "2024-03-06T00:00:00.000Z" }
+    };
+    expect((await verifyTranscriptChain(chain, { ...entries, answers: [overridden] })).status).toBe("intact");
+  });
+
+  it("flags edited, deleted, unsealed and reordered entries", async () => {
+    const chain = await extendTranscriptChain([], entries);
+    const tampered = {
+      chat: [
+        chat[0],
+        { ...chat[1], body: "A closure keeps its lexical scope alive." },
+        { id: "m4", sender: "candidate" as const, body: "Added later.", createdAt: "2024-03-05T15:00:20.000Z" }
+      ],
+      answers: [{ ...answer, aiScore: 10 }],
+      questions: [question]
+    };
+
+    const verification = await verifyTranscriptChain(chain, tampered);
+    expect(verification.status).toBe("tampered");
+    expect(verification.issues).toEqual([
+      { kind: "answer", entryId: "q1", position: 1, problem: "modified" },
+      { kind: "chat", entryId: "m2", position: 2, problem: "modified" },
+      { kind: "chat", entryId: "m3", position: 3, problem: "missing" },
+      { kind: "chat", entryId: "m4", position: null, problem: "unchained" }
+    ]);
+
+    const reordered = [chain[0], chain[2], chain[1], chain[3]];
+    expect((await verifyTranscriptChain(reordered, entries)).issues.map((issue) => issue.problem)).toEqual([
+      "broken-link",
+      "broken-link",
+      "broken-link"
+    ]);
+    expect((await verifyTranscriptChain(undefined, entries)).status).toBe("unsealed");
+  });
+
+  it("only appends links that continue the session's chain", async () => {
+    const session = {
+      id: "session-1",
+      chat,
+      answers: { q1: answer },
+      transcriptChain: []
+    } as unknown as InterviewSession;
+    const state = { sessions: { "session-1": session } } as unknown as SessionState;
+    const [first, ...rest] = await extendTranscriptChain([], entries);
+
+    const sealed = sessionReducer(state, appendTranscriptLinks({ sessionId: "session-1", links: [first] }));
+    expect(sealed.sessions["session-1"].transcriptChain).toEqual([first]);
+
+    // A seal computed against an out-of-date tail is dropped instead of forking the chain.
+    const forked = sessionReducer(sealed, appendTranscriptLinks({ sessionId: "session-1", links: [first] }));
+    expect(forked.sessions["session-1"].transcriptChain).toEqual([first]);
+    const extended = sessionReducer(sealed, appendTranscriptLinks({ sessionId: "session-1", links: rest }));
+    expect(extended.sessions["session-1"].transcriptChain).toHaveLength(4);
+  });
+});
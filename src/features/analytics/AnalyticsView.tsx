@@ -0,0 +1,376 @@
+import { ReloadOutlined } from "@ant-design/icons";
+import {
+  Alert,
+  Button,
+  Card,
+  Empty,
+  InputNumber,
+  Progress,
+  Radio,
+  Space,
+  Statistic,
+  Table,
+  Tag,
+  Tooltip,
+  Typography
+} from "antd";
+import type { TableProps } from "antd";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useAppDispatch, useAppSelector } from "../../store/hooks";
+import { selectCandidateIndexRows } from "../../store/selectors";
+import { loadQuestionAnalytics } from "../../store/thunks/candidateThunks";
+import { formatPauseSeconds } from "../../services/interviewPause";
+import type { QuestionDifficulty } from "../../types/interview";
+import {
+  buildPassRateTrend,
+  buildScoreDistribution,
+  DEFAULT_PASS_SCORE,
+  MIN_ANSWERS_FOR_FLAGS,
+  TOO_EASY_AVERAGE,
+  TOO_HARD_AVERAGE,
+  type AnswerStats,
+  type CategoryStats,
+  type DifficultyStats,
+  type PassRatePoint,
+  type QuestionAnalytics,
+  type QuestionFlag,
+  type QuestionStats,
+  type TimerFit,
+  type TrendPeriod
+} from "../../utils/interviewAnalytics";
+import styles from "./AnalyticsView.module.css";
+
+const { Text, Paragraph } = Typography;
+
+const DIFFICULTY_COLORS: Record<QuestionDifficulty, string> = {
+  easy: "green",
+  medium: "geekblue",
+  hard: "magenta"
+};
+
+const TIMER_FIT_DETAILS: Record<TimerFit, { label: string; color: string; hint: string }> = {
+  tight: {
+    label: "Tight",
+    color: "orange",
+    hint: "Candidates often run out of time or use nearly all of it."
+  },
+  loose: {
+    label: "Generous",
+    color: "blue",
+    hint: "Candidates typically finish with more than half the time left."
+  },
+  ok: { label: "About right", color: "green", hint: "Most candidates finish within the timer." }
+};
+
+const QUESTION_FLAG_DETAILS: Record<QuestionFlag, { label: string; color: string }> = {
+  "too-easy": { label: "Too easy?", color: "cyan" },
+  "too-hard": { label: "Too hard?", color: "volcano" }
+};
+
+const formatRate = (rate: number) => `${Math.round(rate * 100)}%`;
+
+const formatScore = (score: number | null) => (score !== null ? `${score.toFixed(1)}/10` : "—");
+
+/** Columns every stats table shares, after its own grouping column. */
+const answerStatColumns = <Row extends AnswerStats>(): NonNullable<TableProps<Row>["columns"]> => [
+  {
+    title: "Answers",
+    dataIndex: "answers",
+    key: "answers",
+    sorter: (left, right) => left.answers - right.answers
+  },
+  {
+    title: "Avg score",
+    key: "averageScore",
+    render: (_: unknown, row) => formatScore(row.averageScore),
+    sorter: (left, right) => (left.averageScore ?? -1) - (right.averageScore ?? -1)
+  },
+  {
+    title: "Auto-submitted",
+    key: "autoSubmitRate",
+    render: (_: unknown, row) => formatRate(row.autoSubmitRate),
+    sorter: (left, right) => left.autoSubmitRate - right.autoSubmitRate
+  },
+  {
+    title: (
+      <Tooltip title="The timer ran out before the candidate wrote anything.">
+        <span>Timed out blank</span>
+      </Tooltip>
+    ),
+    key: "timeoutRate",
+    render: (_: unknown, row) => formatRate(row.timeoutRate),
+    sorter: (left, right) => left.timeoutRate - right.timeoutRate
+  },
+  {
+    title: "Time used",
+    key: "timeUsed",
+    render: (_: unknown, row) => (
+      <div className={styles.timeUsed}>
+        <Progress
+          percent={Math.round(row.timeUsedRatio * 100)}
+          size="small"
+          status={row.timerFit === "tight" ? "exception" : "normal"}
+          showInfo={false}
+        />
+        <Text type="secondary">
+          {formatPauseSeconds(row.averageElapsedSeconds)} of {formatPauseSeconds(row.averageTimeLimitSeconds)}
+        </Text>
+      </div>
+    ),
+    sorter: (left, right) => left.timeUsedRatio - right.timeUsedRatio
+  },
+  {
+    title: "Timer",
+    key: "timerFit",
+    render: (_: unknown, row) => (
+      <Tooltip title={TIMER_FIT_DETAILS[row.timerFit].hint}>
+        <Tag color={TIMER_FIT_DETAILS[row.timerFit].color}>{TIMER_FIT_DETAILS[row.timerFit].label}</Tag>
+      </Tooltip>
+    )
+  }
+];
+
+const difficultyColumns: TableProps<DifficultyStats>["columns"] = [
+  {
+    title: "Difficulty",
+    key: "difficulty",
+    render: (_: unknown, row: DifficultyStats) => (
+      <Tag color={DIFFICULTY_COLORS[row.difficulty]}>{row.difficulty.toUpperCase()}</Tag>
+    )
+  },
+  {
+    title: "Default timer",
+    key: "configuredTimeLimitSeconds",
+    render: (_: unknown, row: DifficultyStats) => formatPauseSeconds(row.configuredTimeLimitSeconds)
+  },
+  ...answerStatColumns<DifficultyStats>()
+];
+
+const categoryColumns: TableProps<CategoryStats>["columns"] = [
+  {
+    title: "Category",
+    dataIndex: "category",
+    key: "category",
+    sorter: (left: CategoryStats, right: CategoryStats) => left.category.localeCompare(right.category)
+  },
+  ...answerStatColumns<CategoryStats>()
+];
+
+const questionColumns: TableProps<QuestionStats>["columns"] = [
+  {
+    title: "Question",
+    key: "prompt",
+    width: 320,
+    render: (_: unknown, row: QuestionStats) => (
+      <div className={styles.questionCell}>
+        <Paragraph ellipsis={{ rows: 2, expandable: true }} className={styles.questionPrompt}>
+          {row.prompt}
+        </Paragraph>
+        <div>
+          <Tag color={DIFFICULTY_COLORS[row.difficulty]}>{row.difficulty.toUpperCase()}</Tag>
+          <Text type="secondary">{row.category}</Text>
+          {row.flag && (
+            <Tag color={QUESTION_FLAG_DETAILS[row.flag].color}>{QUESTION_FLAG_DETAILS[row.flag].label}</Tag>
+          )}
+        </div>
+      </div>
+    )
+  },
+  ...answerStatColumns<QuestionStats>()
+];
+
+const trendColumns: TableProps<PassRatePoint>["columns"] = [
+  { title: "Period", dataIndex: "period", key: "period" },
+  { title: "Interviews", dataIndex: "interviews", key: "interviews" },
+  { title: "Passed", dataIndex: "passed", key: "passed" },
+  {
+    title: "Pass rate",
+    key: "passRate",
+    render: (_: unknown, point: PassRatePoint) => (
+      <Progress percent={Math.round(point.passRate * 100)} size="small" className={styles.trendBar} />
+    )
+  },
+  {
+    title: "Avg score",
+    key: "averageScore",
+    render: (_: unknown, point: PassRatePoint) => formatScore(point.averageScore)
+  }
+];
+
+/** Score, pass-rate, difficulty, category and per-question statistics across every completed interview. */
+export const AnalyticsView = () => {
+  const dispatch = useAppDispatch();
+  const rows = useAppSelector(selectCandidateIndexRows);
+  const [passScore, setPassScore] = useState(DEFAULT_PASS_SCORE);
+  const [trendPeriod, setTrendPeriod] = useState<TrendPeriod>("week");
+  const [questionAnalytics, setQuestionAnalytics] = useState<QuestionAnalytics | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadFailed, setLoadFailed] = useState(false);
+
+  const distribution = useMemo(() => buildScoreDistribution(rows), [rows]);
+  const trend = useMemo(() => buildPassRateTrend(rows, passScore, trendPeriod), [passScore, rows, trendPeriod]);
+  const largestBucket = Math.max(1, ...distribution.map((bucket) => bucket.count));
+  const averageScore = rows.length ? rows.reduce((sum, row) => sum + row.finalScore, 0) / rows.length : null;
+  const passedCount = rows.filter((row) => row.finalScore >= passScore).length;
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setQuestionAnalytics(await dispatch(loadQuestionAnalytics()).unwrap());
+      setLoadFailed(false);
+    } catch {
+      // loadQuestionAnalytics already reported the problem.
+      setLoadFailed(true);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [dispatch]);
+
+  // Rows change whenever an interview is archived or a score is overridden, so the answer statistics follow.
+  useEffect(() => {
+    void refresh();
+  }, [refresh, rows]);
+
+  if (!rows.length) {
+    return (
+      <div className={styles.wrapper}>
+        <Card>
+          <Empty description="Analytics appear once candidates complete interviews." />
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className={styles.wrapper}>
+      <Card title="Overview">
+        <div className={styles.overview}>
+          <Statistic title="Completed interviews" value={rows.length} />
+          <Statistic title="Average score" value={averageScore !== null ? averageScore.toFixed(1) : "—"} suffix="/10" />
+          <Statistic title="Pass rate" value={formatRate(passedCount / rows.length)} />
+          <label className={styles.control} htmlFor="analytics-pass-score">
+            <Text type="secondary">Passing score</Text>
+            <InputNumber
+              id="analytics-pass-score"
+              aria-label="Passing score"
+              min={0}
+              max={10}
+              step={0.5}
+              value={passScore}
+              onChange={(value) => setPassScore(typeof value === "number" ? value : DEFAULT_PASS_SCORE)}
+            />
+          </label>
+        </div>
+      </Card>
+
+      <div className={styles.grid}>
+        <Card title="Score distribution">
+          <div className={styles.distribution} aria-label="Score distribution">
+            {distribution.map((bucket) => (
+              <div key={bucket.from} className={styles.distributionRow}>
+                <Text type="secondary" className={styles.distributionLabel}>
+                  {bucket.from}–{bucket.to}
+                </Text>
+                <div className={styles.distributionTrack}>
+                  <div
+                    className={bucket.from >= passScore ? styles.distributionBarPass : styles.distributionBar}
+                    style={{ width: `${(bucket.count / largestBucket) * 100}%` }}
+                  />
+                </div>
+                <Text className={styles.distributionCount}>{bucket.count}</Text>
+              </div>
+            ))}
+          </div>
+        </Card>
+
+        <Card
+          title="Pass rate over time"
+          extra={
+            <Radio.Group
+              aria-label="Group pass rate by"
+              optionType="button"
+              size="small"
+              value={trendPeriod}
+              onChange={(event) => setTrendPeriod(event.target.value as TrendPeriod)}
+              options={[
+                { value: "week", label: "Week" },
+                { value: "month", label: "Month" }
+              ]}
+            />
+          }
+        >
+          <Table<PassRatePoint>
+            size="small"
+            pagination={{ pageSize: 8, hideOnSinglePage: true }}
+            columns={trendColumns}
+            dataSource={[...trend].reverse()}
+            rowKey={(point) => point.period}
+            locale={{ emptyText: "No dated interviews yet." }}
+          />
+          <Text type="secondary">
+            Newest first. An interview passes when its final score, overrides included, reaches the passing score.
+          </Text>
+        </Card>
+      </div>
+
+      <Card
+        title="By difficulty"
+        extra={
+          <Button icon={<ReloadOutlined />} size="small" loading={isLoading} onClick={() => void refresh()}>
+            Refresh
+          </Button>
+        }
+      >
+        {loadFailed && !questionAnalytics ? (
+          <Alert type="error" showIcon message="Question statistics couldn't be loaded from the browser archive." />
+        ) : (
+          <Space direction="vertical" style={{ width: "100%" }}>
+            <Table<DifficultyStats>
+              size="small"
+              loading={isLoading && !questionAnalytics}
+              pagination={false}
+              columns={difficultyColumns}
+              dataSource={questionAnalytics?.byDifficulty ?? []}
+              rowKey={(row) => row.difficulty}
+            />
+            <Text type="secondary">
+              Compare the time candidates actually use with the default timer for each difficulty. A tight timer
+              auto-submits at least 30% of answers or takes 90% of the time on average; a generous one sees candidates
+              finish in under 40% of it.
+            </Text>
+          </Space>
+        )}
+      </Card>
+
+      <Card title="By category">
+        <Table<CategoryStats>
+          size="small"
+          loading={isLoading && !questionAnalytics}
+          pagination={{ pageSize: 10, hideOnSinglePage: true }}
+          columns={categoryColumns}
+          dataSource={questionAnalytics?.byCategory ?? []}
+          rowKey={(row) => row.category.toLowerCase()}
+        />
+      </Card>
+
+      <Card title="Questions">
+        <Space direction="vertical" style={{ width: "100%" }}>
+          <Text type="secondary">
+            Bank questions are grouped by their bank entry and generated ones by wording. Questions answered at least{" "}
+            {MIN_ANSWERS_FOR_FLAGS} times are flagged when the average score is {TOO_EASY_AVERAGE} or higher, or{" "}
+            {TOO_HARD_AVERAGE} or lower.
+          </Text>
+          <Table<QuestionStats>
+            size="small"
+            loading={isLoading && !questionAnalytics}
+            pagination={{ pageSize: 10, hideOnSinglePage: true }}
+            columns={questionColumns}
+            dataSource={questionAnalytics?.questions ?? []}
+            rowKey={(row) => row.key}
+            scroll={{ x: 960 }}
+          />
+        </Space>
+      </Card>
+    </div>
+  );
+};
@@ -11,7 +11,13 @@ import {
   Upload,
   message
 } from "antd";
-import { InboxOutlined, CheckCircleTwoTone, EditOutlined } from "@ant-design/icons";
+import {
+  InboxOutlined,
+  CheckCircleTwoTone,
+  EditOutlined,
+  PauseCircleOutlined,
+  PlayCircleOutlined
+} from "@ant-design/icons";
 import type { UploadProps } from "antd";
 import { useCallback, useEffect, useMemo, useRef, useState, type KeyboardEvent } from "react";
 import dayjs from "dayjs";
@@ -19,8 +25,21 @@ import dayjs from "dayjs";
 import styles from "./IntervieweeView.module.css";
 import { useAppDispatch, useAppSelector } from "../../store/hooks";
 import { selectActiveProfile, selectActiveSession, selectResumeParseStatus } from "../../store/selectors";
-import { ingestResume, resetSession, beginInterview, submitAnswer } from "../../store/thunks/sessionThunks";
-import { setSessionStage, updateProfileField, updateTimerState } from "../../store/slices/sessionSlice";
+import {
+  ingestResume,
+  resetSession,
+  beginInterview,
+  submitAnswer,
+  pauseInterview,
+  resumeInterview,
+  openInvitation
+} from "../../store/thunks/sessionThunks";
+import { openSession, setSessionStage, updateProfileField, updateTimerState } from "../../store/slices/sessionSlice";
+import { getPlannedQuestionCount } from "../../services/adaptiveDifficulty";
+import { getOpenPause, getRemainingPauseSeconds, getRemainingSecondsAt } from "../../services/interviewPause";
+import { getStartWindowBlocker } from "../../services/interviewQueue";
+import { getInterviewTemplate } from "../../services/interviewTemplates";
+import { describeAcceptedResumeFormats, getAcceptedResumeTypes } from "../../services/resumeParser";
 import type {
   InterviewQuestion,
   QuestionTimerState,
@@ -36,10 +55,12 @@ import {
   sanitizeEmailInput,
   sanitizePhoneInput
 } from "../../utils/profileValidation";
+import { useAnswerEditLog } from "./useAnswerEditLog";
+import { useAnswerTelemetry } from "./useAnswerTelemetry";
 
 const { Title, Text } = Typography;
 
-const ACCEPTED_TYPES = ".pdf,.docx";
+const ACCEPTED_TYPES = getAcceptedResumeTypes();
 
 export const IntervieweeView = () => {
   const dispatch = useAppDispatch();
@@ -58,6 +79,10 @@ export const IntervieweeView = () => {
   const [isStartingInterview, setIsStartingInterview] = useState(false);
   const [isSubmittingAnswer, setIsSubmittingAnswer] = useState(false);
   const [isEditingProfile, setIsEditingProfile] = useState(false);
+  const [isTogglingPause, setIsTogglingPause] = useState(false);
+  const [pauseClock, setPauseClock] = useState(() => dayjs().toISOString());
+  const [invitationCode, setInvitationCode] = useState("");
+  const [isOpeningInvitation, setIsOpeningInvitation] = useState(false);
 
   const currentQuestionId = activeSession?.currentQuestionId ?? null;
   const currentQuestion: InterviewQuestion | null = currentQuestionId
@@ -66,8 +91,12 @@ export const IntervieweeView = () => {
   const currentTimer: QuestionTimerState | null = currentQuestionId
     ? activeSession?.timers[currentQuestionId] ?? null
     : null;
+  const pendingFollowUp =
+    activeSession?.pendingFollowUp?.questionId === currentQuestionId ? activeSession.pendingFollowUp : null;
+  // Follow-ups reuse the question's timer, so auto-submit has to tell the prompts apart.
+  const activePromptKey = pendingFollowUp?.id ?? currentQuestionId;
   const answeredCount = activeSession ? Object.keys(activeSession.answers).length : 0;
-  const totalQuestions = activeSession ? activeSession.questionOrder.length : 0;
+  const totalQuestions = activeSession ? getPlannedQuestionCount(activeSession) : 0;
   const currentQuestionIndex = currentQuestionId && activeSession
     ? activeSession.questionOrder.indexOf(currentQuestionId)
     : -1;
@@ -76,9 +105,12 @@ export const IntervieweeView = () => {
 
   const timerRef = useRef<QuestionTimerState | null>(currentTimer);
   const autoSubmittedRef = useRef<string | null>(null);
+  const answerTelemetry = useAnswerTelemetry(currentQuestionId, stage === "questioning");
+  const answerEditLog = useAnswerEditLog(activePromptKey);
 
   const formatSeconds = useCallback((value: number) => {
-    const safeValue = Math.max(0, value);
+    // Timers keep fractional seconds; round up so "00:00" only shows once time is really up.
+    const safeValue = Math.max(0, Math.ceil(value));
     const minutes = Math.floor(safeValue / 60);
     const seconds = safeValue % 60;
     return `${minutes.toString().padStart(2, "0")}:${seconds.toString().padStart(2, "0")}`;
@@ -128,6 +160,39 @@ export const IntervieweeView = () => {
     timerRef.current = currentTimer;
   }, [currentTimer]);
 
+  const handleOpenInvitation = useCallback(
+    async (code: string) => {
+      if (!code.trim() || isOpeningInvitation) {
+        return;
+      }
+
+      setIsOpeningInvitation(true);
+      try {
+        await dispatch(openInvitation({ code })).unwrap();
+        setInvitationCode("");
+      } catch {
+        // openInvitation already explained what was wrong with the code.
+      } finally {
+        setIsOpeningInvitation(false);
+      }
+    },
+    [dispatch, isOpeningInvitation]
+  );
+
+  useEffect(() => {
+    // Invitation links carry the code as ?invite=<code>; drop it once used so a reload doesn't reopen it.
+    const params = new URLSearchParams(window.location.search);
+    const code = params.get("invite");
+    if (!code) {
+      return;
+    }
+    params.delete("invite");
+    const query = params.toString();
+    window.history.replaceState(null, "", `${window.location.pathname}${query ? `?${query}` : ""}`);
+    void handleOpenInvitation(code);
+    // Only on first load; later codes are typed into the invitation field.
+  }, []);
+
   useEffect(() => {
     setAnswerDraft("");
     autoSubmittedRef.current = null;
@@ -152,20 +217,12 @@ export const IntervieweeView = () => {
         return;
       }
 
-      const now = dayjs();
-      const lastTickSource = latest.lastTickAt ?? latest.startedAt;
-      const lastTick = lastTickSource ? dayjs(lastTickSource) : now;
-      const elapsedSeconds = Math.max(1, now.diff(lastTick, "second"));
-
-      if (elapsedSeconds <= 0) {
-        return;
-      }
-
-      const nextRemaining = Math.max(0, latest.remainingSeconds - elapsedSeconds);
+      const now = dayjs().toISOString();
+      const nextRemaining = getRemainingSecondsAt(latest, now);
       const updatedTimer: QuestionTimerState = {
         ...latest,
         remainingSeconds: nextRemaining,
-        lastTickAt: now.toISOString(),
+        lastTickAt: now,
         isRunning: nextRemaining > 0
       };
 
@@ -176,6 +233,51 @@ export const IntervieweeView = () => {
     return () => window.clearInterval(intervalId);
   }, [currentQuestionId, currentTimer, dispatch]);
 
+  const remainingPauseSeconds = activeSession ? getRemainingPauseSeconds(activeSession, pauseClock) : 0;
+  const openPauseId = activeSession ? getOpenPause(activeSession)?.id ?? null : null;
+  // The pause the interview last tried to resume on its own, so a refused resume isn't retried every render.
+  const autoResumedPauseRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (stage !== "paused") {
+      return;
+    }
+
+    setPauseClock(dayjs().toISOString());
+    const intervalId = window.setInterval(() => setPauseClock(dayjs().toISOString()), 1000);
+    return () => window.clearInterval(intervalId);
+  }, [stage]);
+
+  useEffect(() => {
+    // Also covers coming back to a paused interview after the pause time ran out while away.
+    if (
+      stage === "paused" &&
+      openPauseId &&
+      openPauseId !== autoResumedPauseRef.current &&
+      remainingPauseSeconds <= 0 &&
+      !isTogglingPause
+    ) {
+      autoResumedPauseRef.current = openPauseId;
+      setIsTogglingPause(true);
+      void dispatch(resumeInterview()).finally(() => setIsTogglingPause(false));
+    }
+  }, [dispatch, isTogglingPause, openPauseId, remainingPauseSeconds, stage]);
+
+  const handleTogglePause = useCallback(async () => {
+    if (isTogglingPause) {
+      return;
+    }
+
+    setIsTogglingPause(true);
+    try {
+      await dispatch(stage === "paused" ? resumeInterview() : pauseInterview()).unwrap();
+    } catch {
+      // The thunks already explain why the pause or resume was refused.
+    } finally {
+      setIsTogglingPause(false);
+    }
+  }, [dispatch, isTogglingPause, stage]);
+
   const handleProfileFieldChange = useCallback(
     (field: RequiredProfileField, value: string) => {
       dispatch(updateProfileField({ field, value }));
@@ -237,7 +339,9 @@ export const IntervieweeView = () => {
         await dispatch(
           submitAnswer({
             answer: answerDraft,
-            autoSubmitted: autoSubmit
+            autoSubmitted: autoSubmit,
+            telemetry: answerTelemetry.snapshot(),
+            editLog: answerEditLog.snapshot()
           })
         ).unwrap();
         setAnswerDraft("");
@@ -252,7 +356,7 @@ export const IntervieweeView = () => {
         setIsSubmittingAnswer(false);
       }
     },
-    [answerDraft, currentQuestionId, dispatch, isSubmittingAnswer, stage]
+    [answerDraft, answerEditLog, answerTelemetry, currentQuestionId, dispatch, isSubmittingAnswer, stage]
   );
 
   const handleEditorEnter = useCallback(
@@ -276,18 +380,21 @@ export const IntervieweeView = () => {
       currentTimer.remainingSeconds <= 0 &&
       !currentTimer.isRunning &&
       !alreadyAnswered &&
-      autoSubmittedRef.current !== currentQuestionId
+      autoSubmittedRef.current !== activePromptKey
     ) {
-      autoSubmittedRef.current = currentQuestionId;
+      autoSubmittedRef.current = activePromptKey;
       void handleSubmitAnswer(true);
     }
-  }, [activeSession?.answers, currentQuestionId, currentTimer, handleSubmitAnswer]);
+  }, [activeSession?.answers, activePromptKey, currentQuestionId, currentTimer, handleSubmitAnswer]);
 
   const renderInterviewPanel = () => {
-    if (!activeSession || (stage !== "questioning" && stage !== "completed")) {
+    if (!activeSession || (stage !== "questioning" && stage !== "paused" && stage !== "completed")) {
       return null;
     }
 
+    const pausePolicy = activeSession.pausePolicy;
+    const pausesLeft = pausePolicy ? Math.max(0, pausePolicy.maxPauses - (activeSession.pauses?.length ?? 0)) : 0;
+
     const answeredLabel = `${answeredCount}/${totalQuestions || 1} answered`;
     const timerRemaining = currentTimer ? formatSeconds(currentTimer.remainingSeconds) : "00:00";
     const timerCritical = (currentTimer?.remainingSeconds ?? 0) <= 10;
@@ -299,7 +406,7 @@ export const IntervieweeView = () => {
             Interview
           </Title>
           <Space size="small" wrap>
-            <Tag color="blue">{answeredLabel}</Tag>
+            {stage !== "completed" && <Tag color="blue">{answeredLabel}</Tag>}
             {stage === "questioning" && currentQuestion && currentQuestionIndex >= 0 && (
               <Tag
                 color={
@@ -313,10 +420,33 @@ export const IntervieweeView = () => {
                 Question {currentQuestionIndex + 1} of {totalQuestions || 1}
               </Tag>
             )}
+            {stage === "paused" && <Tag color="orange">Paused</Tag>}
             {stage === "completed" && <Tag color="green">Completed</Tag>}
           </Space>
         </div>
 
+        {stage === "paused" && (
+          <div className={styles.pausedState}>
+            <Alert
+              type="warning"
+              showIcon
+              message="Interview paused"
+              description={`The question timer is frozen at ${timerRemaining}. The interview resumes on its own in ${formatSeconds(
+                remainingPauseSeconds
+              )}.`}
+            />
+            <Button
+              type="primary"
+              size="large"
+              icon={<PlayCircleOutlined />}
+              onClick={() => void handleTogglePause()}
+              loading={isTogglingPause}
+            >
+              Resume interview
+            </Button>
+          </div>
+        )}
+
         {stage === "questioning" && (
           <Alert
             type="info"
@@ -342,7 +472,16 @@ export const IntervieweeView = () => {
                 {currentQuestion.difficulty.toUpperCase()}
               </Tag>
             </div>
-            {currentQuestion.guidance && (
+            {pendingFollowUp && (
+              <div className={styles.followUpPrompt}>
+                <Tag color="purple">
+                  Follow-up {pendingFollowUp.thread.length + 1}
+                  {activeSession.followUpPolicy ? ` of ${activeSession.followUpPolicy.maxFollowUps}` : ""}
+                </Tag>
+                <Text strong>{pendingFollowUp.prompt}</Text>
+              </div>
+            )}
+            {currentQuestion.guidance && !pendingFollowUp && (
               <Alert
                 className={styles.questionGuidance}
                 type="info"
@@ -359,10 +498,19 @@ export const IntervieweeView = () => {
             </div>
             <Input.TextArea
               value={answerDraft}
-              onChange={(event) => setAnswerDraft(event.target.value)}
+              onChange={(event) => {
+                answerTelemetry.recordChange(answerDraft, event.target.value);
+                answerEditLog.recordEdit(answerDraft, event.target.value);
+                setAnswerDraft(event.target.value);
+              }}
+              onPaste={answerTelemetry.handlePaste}
               onPressEnter={handleEditorEnter}
               autoSize={{ minRows: 3, maxRows: 6 }}
-              placeholder="Describe your approach, trade-offs, and examples."
+              placeholder={
+                pendingFollowUp
+                  ? "Add a short clarification to your previous answer."
+                  : "Describe your approach, trade-offs, and examples."
+              }
               disabled={
                 isSubmittingAnswer ||
                 stage !== "questioning" ||
@@ -370,6 +518,16 @@ export const IntervieweeView = () => {
               }
             />
             <Space style={{ justifyContent: "flex-end", marginTop: 12 }}>
+              {pausePolicy && (
+                <Button
+                  icon={<PauseCircleOutlined />}
+                  onClick={() => void handleTogglePause()}
+                  loading={isTogglingPause}
+                  disabled={isSubmittingAnswer || pausesLeft === 0 || remainingPauseSeconds <= 0}
+                >
+                  Pause ({pausesLeft} left)
+                </Button>
+              )}
               <Button
                 type="primary"
                 onClick={() => void handleSubmitAnswer(false)}
@@ -380,7 +538,7 @@ export const IntervieweeView = () => {
                   !answerDraft.trim()
                 }
               >
-                Submit answer
+                {pendingFollowUp ? "Submit follow-up" : "Submit answer"}
               </Button>
             </Space>
           </div>
@@ -545,21 +703,27 @@ export const IntervieweeView = () => {
       return null;
     }
 
+    const windowBlocker = getStartWindowBlocker(activeSession?.invitation, dayjs().toISOString());
+
     return (
       <div className={styles.readyState}>
-        <Alert
-          message="Great! You're all set to begin the interview."
-          description="When you click Start Interview, the timer will begin and your AI interviewer will take over."
-          type="info"
-          showIcon
-        />
+        {windowBlocker ? (
+          <Alert message="Not quite time yet" description={windowBlocker} type="warning" showIcon />
+        ) : (
+          <Alert
+            message="Great! You're all set to begin the interview."
+            description="When you click Start Interview, the timer will begin and your AI interviewer will take over."
+            type="info"
+            showIcon
+          />
+        )}
         <Button
           type="primary"
           size="large"
           style={{ marginTop: 16 }}
           onClick={handleStartInterview}
           loading={isStartingInterview}
-          disabled={isStartingInterview}
+          disabled={isStartingInterview || Boolean(windowBlocker)}
         >
           Start Interview
         </Button>
@@ -575,12 +739,41 @@ export const IntervieweeView = () => {
             <Title level={4} className={styles.sectionTitle}>
               Resume Upload
             </Title>
+            {activeSession?.invitation ? (
+              <Alert
+                className={styles.invitationBanner}
+                type="info"
+                showIcon
+                message={`Invited interview: ${getInterviewTemplate(activeSession.templateId).name}`}
+                description={`Start any time between ${dayjs(activeSession.invitation.windowStart).format(
+                  "MMM D, h:mm A"
+                )} and ${dayjs(activeSession.invitation.windowEnd).format("MMM D, h:mm A")}.`}
+                action={
+                  <Button size="small" type="link" onClick={() => dispatch(openSession(null))}>
+                    Not {activeSession.invitation.candidateName}?
+                  </Button>
+                }
+              />
+            ) : (
+              !activeSession && (
+                <Input.Search
+                  className={styles.invitationBanner}
+                  aria-label="Invitation code"
+                  placeholder="Have an invitation code?"
+                  enterButton="Open"
+                  value={invitationCode}
+                  onChange={(event) => setInvitationCode(event.target.value)}
+                  onSearch={(value) => void handleOpenInvitation(value)}
+                  loading={isOpeningInvitation}
+                />
+              )
+            )}
             <Upload.Dragger {...uploadProps} className={styles.uploadDragger}>
               <p className="ant-upload-drag-icon">
                 <InboxOutlined />
               </p>
               <p className="ant-upload-text">Click or drag your resume here.</p>
-              <p className={styles.uploadHint}>Only PDF or DOCX files up to 10 MB are supported.</p>
+              <p className={styles.uploadHint}>{describeAcceptedResumeFormats()} files up to 10 MB are supported.</p>
             </Upload.Dragger>
 
             {resumeParse.status === "parsing" && (
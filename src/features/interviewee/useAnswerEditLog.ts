@@ -0,0 +1,42 @@
+import { useCallback, useEffect, useMemo, useRef } from "react";
+import {
+  MAX_RECORDED_EDITS,
+  diffAnswerEdit,
+  type AnswerEdit,
+  type AnswerEditRecording
+} from "../../services/answerEditLog";
+
+/**
+ * Records every change to the answer editor for the prompt on screen, timed from when it appeared.
+ * The recording starts over for each prompt, follow-ups included, since each is submitted separately.
+ */
+export const useAnswerEditLog = (promptKey: string | null) => {
+  const startedAtRef = useRef(Date.now());
+  const editsRef = useRef<AnswerEdit[]>([]);
+  const truncatedRef = useRef(false);
+
+  useEffect(() => {
+    startedAtRef.current = Date.now();
+    editsRef.current = [];
+    truncatedRef.current = false;
+  }, [promptKey]);
+
+  const recordEdit = useCallback((previous: string, next: string) => {
+    const edit = diffAnswerEdit(previous, next, Date.now() - startedAtRef.current);
+    if (!edit) {
+      return;
+    }
+    if (editsRef.current.length >= MAX_RECORDED_EDITS) {
+      truncatedRef.current = true;
+      return;
+    }
+    editsRef.current.push(edit);
+  }, []);
+
+  const snapshot = useCallback(
+    (): AnswerEditRecording => ({ edits: [...editsRef.current], truncated: truncatedRef.current }),
+    []
+  );
+
+  return useMemo(() => ({ recordEdit, snapshot }), [recordEdit, snapshot]);
+};
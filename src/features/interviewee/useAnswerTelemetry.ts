@@ -0,0 +1,109 @@
+import { useCallback, useEffect, useMemo, useRef, type ClipboardEvent } from "react";
+import type { AnswerTelemetry } from "../../types/interview";
+
+export type AnswerTelemetrySignals = Omit<AnswerTelemetry, "answerCharacters">;
+
+/** Changes of this many characters or fewer count as typing; anything longer was pasted or inserted. */
+const MAX_TYPED_DELTA = 2;
+
+/** Gaps between keystrokes longer than this are thinking time, not typing time. */
+const MAX_TYPING_GAP_MS = 5000;
+
+const emptySignals = (): AnswerTelemetrySignals => ({
+  blurCount: 0,
+  blurSeconds: 0,
+  pasteCount: 0,
+  pastedCharacters: 0,
+  typedCharacters: 0,
+  typingSeconds: 0
+});
+
+const roundSeconds = (milliseconds: number) => Math.round(milliseconds / 100) / 10;
+
+/**
+ * Counts how the current question's answer is being produced: time away from the tab or window,
+ * pastes, and typing cadence. Counts carry over into the question's follow-ups and start again when the
+ * question changes. Leaving the page is only watched while `isActive`, so pauses don't count.
+ */
+export const useAnswerTelemetry = (questionId: string | null, isActive: boolean) => {
+  const signalsRef = useRef<AnswerTelemetrySignals>(emptySignals());
+  const awaySinceRef = useRef<number | null>(null);
+  const lastKeystrokeRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    signalsRef.current = emptySignals();
+    awaySinceRef.current = null;
+    lastKeystrokeRef.current = null;
+  }, [questionId]);
+
+  useEffect(() => {
+    if (!questionId || !isActive) {
+      return;
+    }
+
+    // Switching tabs fires both blur and visibilitychange; only the first starts an absence.
+    const markAway = () => {
+      if (awaySinceRef.current === null) {
+        awaySinceRef.current = Date.now();
+        signalsRef.current.blurCount += 1;
+      }
+    };
+    const markBack = () => {
+      if (awaySinceRef.current === null || document.visibilityState === "hidden" || !document.hasFocus()) {
+        return;
+      }
+      signalsRef.current.blurSeconds += roundSeconds(Date.now() - awaySinceRef.current);
+      awaySinceRef.current = null;
+    };
+    const handleVisibilityChange = () => (document.visibilityState === "hidden" ? markAway() : markBack());
+
+    window.addEventListener("blur", markAway);
+    window.addEventListener("focus", markBack);
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () => {
+      window.removeEventListener("blur", markAway);
+      window.removeEventListener("focus", markBack);
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      // Pausing or submitting while away closes the absence there.
+      if (awaySinceRef.current !== null) {
+        signalsRef.current.blurSeconds += roundSeconds(Date.now() - awaySinceRef.current);
+        awaySinceRef.current = null;
+      }
+    };
+  }, [isActive, questionId]);
+
+  const handlePaste = useCallback((event: ClipboardEvent<HTMLTextAreaElement>) => {
+    const pasted = event.clipboardData.getData("text").length;
+    if (pasted > 0) {
+      signalsRef.current.pasteCount += 1;
+      signalsRef.current.pastedCharacters += pasted;
+    }
+  }, []);
+
+  const recordChange = useCallback((previous: string, next: string) => {
+    const added = next.length - previous.length;
+    if (added <= 0 || added > MAX_TYPED_DELTA) {
+      return;
+    }
+    const now = Date.now();
+    const last = lastKeystrokeRef.current;
+    signalsRef.current.typedCharacters += added;
+    if (last !== null && now - last <= MAX_TYPING_GAP_MS) {
+      signalsRef.current.typingSeconds += (now - last) / 1000;
+    }
+    lastKeystrokeRef.current = now;
+  }, []);
+
+  /** The counts so far, including an absence that hasn't ended yet (the timer can run out while away). */
+  const snapshot = useCallback((): AnswerTelemetrySignals => {
+    const signals = signalsRef.current;
+    const ongoing = awaySinceRef.current !== null ? roundSeconds(Date.now() - awaySinceRef.current) : 0;
+    return {
+      ...signals,
+      blurSeconds: Math.round((signals.blurSeconds + ongoing) * 10) / 10,
+      typingSeconds: Math.round(signals.typingSeconds * 10) / 10
+    };
+  }, []);
+
+  return useMemo(() => ({ handlePaste, recordChange, snapshot }), [handlePaste, recordChange, snapshot]);
+};
@@ -0,0 +1,61 @@
+import { Tag, Timeline, Typography } from "antd";
+import type {
+  AdaptiveDecision,
+  AdaptiveDifficultyState,
+  AnswerRecord,
+  InterviewQuestion,
+  QuestionDifficulty
+} from "../../types/interview";
+import { getEffectiveAnswerScore } from "../../utils/scoreOverrides";
+
+const { Text } = Typography;
+
+const DECISION_LABELS: Record<AdaptiveDecision, { label: string; color: string }> = {
+  start: { label: "Start", color: "blue" },
+  "step-up": { label: "Stepped up", color: "green" },
+  "step-down": { label: "Stepped down", color: "red" },
+  hold: { label: "Held", color: "gray" }
+};
+
+const DIFFICULTY_COLORS: Record<QuestionDifficulty, string> = {
+  easy: "green",
+  medium: "geekblue",
+  hard: "magenta"
+};
+
+interface AdaptivePathTimelineProps {
+  adaptive: AdaptiveDifficultyState;
+  questions: InterviewQuestion[];
+  answers: Record<string, AnswerRecord>;
+}
+
+export const AdaptivePathTimeline = ({ adaptive, questions, answers }: AdaptivePathTimelineProps) => (
+  <div>
+    <Text type="secondary">
+      Adaptive difficulty between {adaptive.minDifficulty} and {adaptive.maxDifficulty},{" "}
+      {adaptive.targetQuestionCount} questions.
+    </Text>
+    <Timeline
+      style={{ marginTop: 12 }}
+      items={adaptive.path.map((step) => {
+        const questionNumber = questions.findIndex((question) => question.id === step.questionId) + 1;
+        const score = getEffectiveAnswerScore(answers[step.questionId]);
+        const decision = DECISION_LABELS[step.decision];
+        return {
+          color: decision.color,
+          children: (
+            <div>
+              <Text strong>Question {questionNumber || "?"}</Text>{" "}
+              <Tag color={DIFFICULTY_COLORS[step.difficulty]}>{step.difficulty}</Tag>
+              <Tag>{decision.label}</Tag>
+              {score !== null && <Text type="secondary">scored {score.toFixed(1)}</Text>}
+              <div>
+                <Text type="secondary">{step.reason}</Text>
+              </div>
+            </div>
+          )
+        };
+      })}
+    />
+  </div>
+);
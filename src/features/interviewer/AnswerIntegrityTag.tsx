@@ -0,0 +1,50 @@
+import { Tag, Tooltip, Typography } from "antd";
+import type { AnswerTelemetry } from "../../types/interview";
+import {
+  ANSWER_RISK_DETAILS,
+  getTypingCharsPerMinute,
+  summarizeAnswerTelemetry
+} from "../../utils/answerIntegrity";
+import styles from "./InterviewerView.module.css";
+
+const { Text } = Typography;
+
+interface AnswerIntegrityTagProps {
+  telemetry?: AnswerTelemetry;
+}
+
+/** An answer's integrity risk, with the raw signals and the flags behind it on hover. */
+export const AnswerIntegrityTag = ({ telemetry }: AnswerIntegrityTagProps) => {
+  const summary = summarizeAnswerTelemetry(telemetry);
+  if (!telemetry || !summary) {
+    return <Text type="secondary">—</Text>;
+  }
+
+  const charsPerMinute = getTypingCharsPerMinute(telemetry);
+  const { label, color } = ANSWER_RISK_DETAILS[summary.risk];
+
+  return (
+    <Tooltip
+      title={
+        <div>
+          <ul className={styles.integrityIssues}>
+            {summary.flags.map((flag) => (
+              <li key={flag.kind}>{flag.detail}</li>
+            ))}
+          </ul>
+          <div>
+            Left the page {telemetry.blurCount}× ({Math.round(telemetry.blurSeconds)}s) · Pasted{" "}
+            {telemetry.pastedCharacters} chars in {telemetry.pasteCount} · Typed {telemetry.typedCharacters} of{" "}
+            {telemetry.answerCharacters} chars
+            {charsPerMinute !== null ? ` at ${charsPerMinute}/min` : ""}
+          </div>
+        </div>
+      }
+    >
+      <Tag color={color} aria-label={`Integrity risk: ${label}`}>
+        {label}
+        {summary.flags.length ? ` · ${summary.flags.length}` : ""}
+      </Tag>
+    </Tooltip>
+  );
+};
@@ -0,0 +1,215 @@
+import { Alert, Button, Radio, Slider, Space, Typography } from "antd";
+import { PauseCircleOutlined, PlayCircleOutlined } from "@ant-design/icons";
+import { useEffect, useMemo, useState } from "react";
+import type { AnswerEditLog } from "../../types/interview";
+import {
+  applyAnswerEdit,
+  decodeAnswerEditLog,
+  replayAnswerEdits,
+  type AnswerEdit
+} from "../../services/answerEditLog";
+import styles from "./InterviewerView.module.css";
+
+const { Text } = Typography;
+
+export interface AnswerReplayRecording {
+  key: string;
+  label: string;
+  log: AnswerEditLog;
+  /** What was submitted, to check the replay ends where the answer did. */
+  answer: string;
+}
+
+const SPEEDS = [1, 2, 4, 8];
+const TICK_MS = 50;
+/** Text is cached every this many edits so scrubbing doesn't replay from the start each time. */
+const CHECKPOINT_EVERY = 100;
+
+const formatClock = (milliseconds: number) => {
+  const totalSeconds = Math.floor(milliseconds / 1000);
+  return `${Math.floor(totalSeconds / 60)}:${(totalSeconds % 60).toString().padStart(2, "0")}`;
+};
+
+interface AnswerReplayProps {
+  recordings: AnswerReplayRecording[];
+}
+
+/** Plays back how an answer, and each follow-up reply, was typed, with speed control and a scrubber. */
+export const AnswerReplay = ({ recordings }: AnswerReplayProps) => {
+  const [selectedKey, setSelectedKey] = useState(recordings[0]?.key);
+  const recording = recordings.find((candidate) => candidate.key === selectedKey) ?? recordings[0];
+  const log = recording?.log;
+
+  const [edits, setEdits] = useState<AnswerEdit[] | null>(null);
+  const [decodeError, setDecodeError] = useState<string | null>(null);
+  const [position, setPosition] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+  const duration = log?.durationMs ?? 0;
+
+  useEffect(() => {
+    setEdits(null);
+    setDecodeError(null);
+    setPosition(0);
+    setIsPlaying(false);
+    if (!log) {
+      return;
+    }
+
+    let cancelled = false;
+    decodeAnswerEditLog(log)
+      .then((decoded) => {
+        if (!cancelled) {
+          setEdits(decoded);
+        }
+      })
+      .catch((error: unknown) => {
+        console.error("Failed to decode answer replay", error);
+        if (!cancelled) {
+          setDecodeError(error instanceof Error ? error.message : "The answer replay couldn't be read.");
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [log]);
+
+  useEffect(() => {
+    if (!isPlaying) {
+      return;
+    }
+    const intervalId = window.setInterval(() => {
+      setPosition((current) => Math.min(duration, current + TICK_MS * speed));
+    }, TICK_MS);
+    return () => window.clearInterval(intervalId);
+  }, [duration, isPlaying, speed]);
+
+  useEffect(() => {
+    if (isPlaying && position >= duration) {
+      setIsPlaying(false);
+    }
+  }, [duration, isPlaying, position]);
+
+  const checkpoints = useMemo(() => {
+    const texts = [""];
+    (edits ?? []).forEach((edit, index) => {
+      if (index % CHECKPOINT_EVERY === 0 && index > 0) {
+        texts.push(texts[texts.length - 1]);
+      }
+      texts[texts.length - 1] = applyAnswerEdit(texts[texts.length - 1], edit);
+    });
+    return texts;
+  }, [edits]);
+
+  const appliedCount = useMemo(() => {
+    if (!edits) {
+      return 0;
+    }
+    let low = 0;
+    let high = edits.length;
+    while (low < high) {
+      const middle = Math.floor((low + high) / 2);
+      if (edits[middle].at <= position) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    return low;
+  }, [edits, position]);
+
+  const { text, caret } = useMemo(() => {
+    if (!edits || appliedCount === 0) {
+      return { text: "", caret: 0 };
+    }
+    // checkpoints[n] holds the text after the first (n + 1) * CHECKPOINT_EVERY edits.
+    const checkpoint = Math.floor(appliedCount / CHECKPOINT_EVERY);
+    const base = checkpoint === 0 ? "" : checkpoints[checkpoint - 1];
+    const replayed = edits
+      .slice(checkpoint * CHECKPOINT_EVERY, appliedCount)
+      .reduce(applyAnswerEdit, base);
+    const last = edits[appliedCount - 1];
+    return { text: replayed, caret: last.position + last.inserted.length };
+  }, [appliedCount, checkpoints, edits]);
+
+  const endsAtAnswer = useMemo(
+    () => !edits || replayAnswerEdits(edits).trim() === recording?.answer.trim(),
+    [edits, recording?.answer]
+  );
+
+  if (!recording || !log) {
+    return null;
+  }
+
+  const handleTogglePlay = () => {
+    if (!isPlaying && position >= duration) {
+      setPosition(0);
+    }
+    setIsPlaying((current) => !current);
+  };
+
+  return (
+    <div className={styles.answerReplay}>
+      <Space wrap>
+        {recordings.length > 1 && (
+          <Radio.Group
+            size="small"
+            optionType="button"
+            value={recording.key}
+            onChange={(event) => setSelectedKey(event.target.value)}
+            options={recordings.map((option) => ({ label: option.label, value: option.key }))}
+          />
+        )}
+        <Button
+          size="small"
+          icon={isPlaying ? <PauseCircleOutlined /> : <PlayCircleOutlined />}
+          onClick={handleTogglePlay}
+          disabled={!edits}
+        >
+          {isPlaying ? "Pause" : "Play"}
+        </Button>
+        <Radio.Group
+          size="small"
+          optionType="button"
+          aria-label="Playback speed"
+          value={speed}
+          onChange={(event) => setSpeed(event.target.value)}
+          options={SPEEDS.map((option) => ({ label: `${option}×`, value: option }))}
+        />
+        <Text type="secondary">
+          {formatClock(position)} / {formatClock(duration)} · {appliedCount} of {log.edits} edits
+        </Text>
+      </Space>
+      <Slider
+        min={0}
+        max={Math.max(duration, 1)}
+        step={TICK_MS}
+        value={position}
+        onChange={(value: number) => setPosition(value)}
+        tooltip={{ formatter: (value) => formatClock(value ?? 0) }}
+        disabled={!edits}
+        aria-label="Replay position"
+      />
+      {decodeError ? (
+        <Alert type="error" showIcon message="This replay can't be played" description={decodeError} />
+      ) : (
+        <div className={styles.replayText} aria-live="off">
+          {text.slice(0, caret)}
+          <span className={styles.replayCaret} />
+          {text.slice(caret)}
+        </div>
+      )}
+      {log.truncated && (
+        <Text type="secondary">The answer was edited too many times to record in full; the replay stops early.</Text>
+      )}
+      {!log.truncated && !endsAtAnswer && (
+        <Alert
+          type="warning"
+          showIcon
+          message="The replay doesn't end with the submitted answer"
+          description="The answer was changed after it was written, or the recording missed some edits."
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,84 @@
+import { Button, Card, Select, Space, Typography, Upload } from "antd";
+import type { UploadProps } from "antd";
+import { DownloadOutlined, UploadOutlined } from "@ant-design/icons";
+import dayjs from "dayjs";
+import { useCallback, useMemo, useState } from "react";
+import { useAppDispatch } from "../../store/hooks";
+import { exportArchiveBundle, importArchiveBundle } from "../../store/thunks/archiveThunks";
+import type { ArchiveConflictMode } from "../../services/archiveBundle";
+import { downloadFile } from "../../utils/download";
+import styles from "./InterviewerView.module.css";
+
+const { Text } = Typography;
+
+const CONFLICT_OPTIONS: Array<{ value: ArchiveConflictMode; label: string }> = [
+  { value: "skip", label: "On conflict: keep existing" },
+  { value: "overwrite", label: "On conflict: overwrite" },
+  { value: "duplicate", label: "On conflict: import as copy" }
+];
+
+export const ArchiveTransfer = () => {
+  const dispatch = useAppDispatch();
+  const [conflictMode, setConflictMode] = useState<ArchiveConflictMode>("skip");
+  const [isExporting, setIsExporting] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const handleExport = useCallback(async () => {
+    setIsExporting(true);
+    try {
+      const bundle = await dispatch(exportArchiveBundle()).unwrap();
+      downloadFile(`interview-archive-${dayjs().format("YYYYMMDD-HHmm")}.json`, bundle, "application/json");
+    } catch {
+      // exportArchiveBundle already reported the problem.
+    } finally {
+      setIsExporting(false);
+    }
+  }, [dispatch]);
+
+  const uploadProps: UploadProps = useMemo(
+    () => ({
+      accept: ".json",
+      multiple: false,
+      showUploadList: false,
+      beforeUpload: async (file: File) => {
+        setIsImporting(true);
+        try {
+          await dispatch(importArchiveBundle({ text: await file.text(), mode: conflictMode })).unwrap();
+        } catch {
+          // importArchiveBundle already reported the problem.
+        } finally {
+          setIsImporting(false);
+        }
+        return false;
+      }
+    }),
+    [conflictMode, dispatch]
+  );
+
+  return (
+    <Card title="Archive backup" className={styles.fullWidthCard}>
+      <Space direction="vertical" size="middle" style={{ width: "100%" }}>
+        <Text type="secondary">
+          Everything lives in this browser. Export a bundle of every candidate, session, bank question and resume file
+          to keep a backup or move to another machine.
+        </Text>
+        <Space wrap>
+          <Button icon={<DownloadOutlined />} loading={isExporting} onClick={() => void handleExport()}>
+            Export archive
+          </Button>
+          <Select
+            aria-label="Conflict handling"
+            value={conflictMode}
+            onChange={(value: ArchiveConflictMode) => setConflictMode(value)}
+            options={CONFLICT_OPTIONS}
+          />
+          <Upload {...uploadProps}>
+            <Button icon={<UploadOutlined />} loading={isImporting}>
+              Import archive
+            </Button>
+          </Upload>
+        </Space>
+      </Space>
+    </Card>
+  );
+};
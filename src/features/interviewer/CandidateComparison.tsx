@@ -0,0 +1,165 @@
+import { Alert, Radio, Table, Tag, Tooltip, Typography } from "antd";
+import type { TableProps } from "antd";
+import { useMemo, useState } from "react";
+import { formatPauseSeconds } from "../../services/interviewPause";
+import type { CandidateArchiveRecord, QuestionDifficulty } from "../../types/interview";
+import {
+  buildCandidateComparison,
+  canAlignByQuestion,
+  type ComparisonAlignment,
+  type ComparisonCell,
+  type ComparisonNote,
+  type ComparisonRow
+} from "../../utils/candidateComparison";
+import styles from "./InterviewerView.module.css";
+
+const { Text, Paragraph } = Typography;
+
+const DIFFICULTY_COLORS: Record<QuestionDifficulty, string> = {
+  easy: "green",
+  medium: "geekblue",
+  hard: "magenta"
+};
+
+const renderCell = (cell: ComparisonCell | null, showPrompt: boolean, isTopScore: boolean) => {
+  if (!cell) {
+    return <Text type="secondary">No matching question.</Text>;
+  }
+  return (
+    <div className={styles.comparisonCell}>
+      {showPrompt && <Text strong>{cell.prompt}</Text>}
+      <div>
+        <Tag color={isTopScore ? "green" : "purple"}>
+          {cell.score !== null ? `${cell.score.toFixed(1)}/10` : "Not scored"}
+        </Tag>
+        <Text type="secondary">
+          {cell.elapsedSeconds !== null ? formatPauseSeconds(cell.elapsedSeconds) : "—"} of{" "}
+          {formatPauseSeconds(cell.timeLimitSeconds)}
+        </Text>
+        {cell.autoSubmitted && <Tag color="orange">Auto-submitted</Tag>}
+      </div>
+      <Paragraph ellipsis={{ rows: 3, expandable: true }} className={styles.comparisonAnswer}>
+        {cell.answer || <Text type="secondary">No answer given.</Text>}
+      </Paragraph>
+      {cell.feedback && <Text type="secondary">{cell.feedback}</Text>}
+    </div>
+  );
+};
+
+const NoteList = ({ notes, emptyLabel }: { notes: ComparisonNote[]; emptyLabel: string }) =>
+  notes.length ? (
+    <ul className={styles.comparisonNotes}>
+      {notes.map((note) => (
+        <li key={note.text}>
+          {note.shared ? (
+            <Text>{note.text}</Text>
+          ) : (
+            <Tooltip title="Not shared by every candidate in this comparison">
+              <Text mark>{note.text}</Text>
+            </Tooltip>
+          )}
+        </li>
+      ))}
+    </ul>
+  ) : (
+    <Text type="secondary">{emptyLabel}</Text>
+  );
+
+interface CandidateComparisonProps {
+  records: CandidateArchiveRecord[];
+}
+
+/** Side-by-side answers, scores and feedback for two to four archived candidates. */
+export const CandidateComparison = ({ records }: CandidateComparisonProps) => {
+  const [preferredAlignment, setPreferredAlignment] = useState<ComparisonAlignment>("question");
+  const sameQuestions = useMemo(() => canAlignByQuestion(records), [records]);
+  const comparison = useMemo(
+    () => buildCandidateComparison(records, preferredAlignment),
+    [preferredAlignment, records]
+  );
+  const alignedByQuestion = comparison.alignment === "question";
+
+  const columns: TableProps<ComparisonRow>["columns"] = [
+    {
+      title: alignedByQuestion ? "Question" : "Category",
+      key: "question",
+      width: 220,
+      fixed: "left" as const,
+      render: (_: unknown, row: ComparisonRow) => (
+        <div className={styles.comparisonCell}>
+          <div>
+            <Tag color={DIFFICULTY_COLORS[row.difficulty]}>{row.difficulty.toUpperCase()}</Tag>
+            <Text type="secondary">{row.category}</Text>
+          </div>
+          {row.prompt && <Text>{row.prompt}</Text>}
+        </div>
+      )
+    },
+    ...comparison.candidates.map((candidate, position) => ({
+      title: (
+        <div>
+          <Text strong>{candidate.name}</Text>
+          <div>
+            <Text type="secondary">
+              {candidate.finalScore.toFixed(1)}/10 · {formatPauseSeconds(candidate.answeringSeconds)} answering
+            </Text>
+          </div>
+        </div>
+      ),
+      key: candidate.id,
+      render: (_: unknown, row: ComparisonRow) => {
+        const scores = row.cells.map((cell) => cell?.score ?? null).filter((score): score is number => score !== null);
+        // Only worth marking when the scores actually differ.
+        const topScore = new Set(scores).size > 1 ? Math.max(...scores) : null;
+        const cell = row.cells[position];
+        return renderCell(cell, !alignedByQuestion, topScore !== null && cell?.score === topScore);
+      }
+    }))
+  ];
+
+  return (
+    <div className={styles.comparison}>
+      <div className={styles.comparisonToolbar}>
+        <Radio.Group
+          aria-label="Align answers by"
+          optionType="button"
+          value={comparison.alignment}
+          onChange={(event) => setPreferredAlignment(event.target.value as ComparisonAlignment)}
+          options={[
+            { value: "question", label: "Same question", disabled: !sameQuestions },
+            { value: "category", label: "Category and difficulty" }
+          ]}
+        />
+        {!sameQuestions && (
+          <Text type="secondary">
+            These candidates were asked different questions, so answers are paired by category and difficulty.
+          </Text>
+        )}
+      </div>
+      {comparison.rows.length ? (
+        <Table<ComparisonRow>
+          size="small"
+          pagination={false}
+          columns={columns}
+          dataSource={comparison.rows}
+          rowKey={(row) => row.key}
+          scroll={{ x: 220 + comparison.candidates.length * 280 }}
+        />
+      ) : (
+        <Alert type="info" showIcon message="None of these interviews recorded any questions." />
+      )}
+      <div className={styles.comparisonSummaries}>
+        {comparison.candidates.map((candidate) => (
+          <div key={candidate.id} className={styles.comparisonSummary}>
+            <Text strong>{candidate.name}</Text>
+            <Text type="secondary">Strengths</Text>
+            <NoteList notes={candidate.strengths} emptyLabel="None noted." />
+            <Text type="secondary">Improvements</Text>
+            <NoteList notes={candidate.improvements} emptyLabel="None noted." />
+          </div>
+        ))}
+      </div>
+      <Text type="secondary">Highlighted strengths and improvements aren't shared by every candidate compared.</Text>
+    </div>
+  );
+};
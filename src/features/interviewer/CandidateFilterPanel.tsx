@@ -0,0 +1,221 @@
+import { Button, DatePicker, Input, InputNumber, Popconfirm, Select, Slider, Space, Typography } from "antd";
+import { DeleteOutlined, SaveOutlined } from "@ant-design/icons";
+import dayjs from "dayjs";
+import { useState } from "react";
+import { useAppDispatch, useAppSelector } from "../../store/hooks";
+import { selectCandidateFilterPresets, selectCandidateFilters } from "../../store/selectors";
+import {
+  applyFilterPreset,
+  deleteFilterPreset,
+  resetCandidateFilters,
+  saveFilterPreset,
+  setCandidateFilters
+} from "../../store/slices/candidatesSlice";
+import { INTERVIEW_TEMPLATES } from "../../services/interviewTemplates";
+import {
+  countActiveFilters,
+  type CandidateDecisionFilter,
+  type CandidateReviewFilter
+} from "../../utils/candidateFilters";
+import { HIRING_DECISION_DETAILS, HIRING_DECISION_STATUSES } from "../../utils/hiringDecisions";
+import type { SessionStage } from "../../types/interview";
+import styles from "./InterviewerView.module.css";
+
+const { Text } = Typography;
+
+const REVIEW_OPTIONS: Array<{ value: CandidateReviewFilter; label: string }> = [
+  { value: "any", label: "Any score review" },
+  { value: "overridden", label: "Score overridden by a reviewer" },
+  { value: "ai-only", label: "AI score not reviewed" }
+];
+
+const DECISION_OPTIONS: Array<{ value: CandidateDecisionFilter; label: string }> = [
+  ...HIRING_DECISION_STATUSES.map((status) => ({ value: status, label: HIRING_DECISION_DETAILS[status].label })),
+  { value: "undecided", label: "No decision yet" }
+];
+
+const TEMPLATE_OPTIONS = INTERVIEW_TEMPLATES.map((template) => ({ value: template.id, label: template.name }));
+
+interface CandidateFilterPanelProps {
+  stageOptions: Array<{ value: SessionStage; label: string }>;
+  roleOptions: string[];
+  tagOptions: string[];
+}
+
+/** Structured filters for the candidate list, plus named presets that also remember the search text. */
+export const CandidateFilterPanel = ({ stageOptions, roleOptions, tagOptions }: CandidateFilterPanelProps) => {
+  const dispatch = useAppDispatch();
+  const filters = useAppSelector(selectCandidateFilters);
+  const presets = useAppSelector(selectCandidateFilterPresets);
+  const [presetName, setPresetName] = useState("");
+  const [selectedPresetId, setSelectedPresetId] = useState<string | null>(null);
+  const activeCount = countActiveFilters(filters);
+
+  const handleSavePreset = () => {
+    dispatch(saveFilterPreset(presetName));
+    setPresetName("");
+  };
+
+  return (
+    <div className={styles.filterPanel}>
+      <Space.Compact style={{ width: "100%" }}>
+        <Select
+          aria-label="Saved filters"
+          placeholder="Saved filters"
+          style={{ flex: 1 }}
+          value={selectedPresetId}
+          options={presets.map((preset) => ({ value: preset.id, label: preset.name }))}
+          onChange={(id: string) => {
+            setSelectedPresetId(id);
+            dispatch(applyFilterPreset(id));
+          }}
+          notFoundContent="No saved filters yet"
+        />
+        <Popconfirm
+          title="Delete this saved filter?"
+          okText="Delete"
+          okButtonProps={{ danger: true }}
+          disabled={!selectedPresetId}
+          onConfirm={() => {
+            if (selectedPresetId) {
+              dispatch(deleteFilterPreset(selectedPresetId));
+              setSelectedPresetId(null);
+            }
+          }}
+        >
+          <Button aria-label="Delete saved filter" icon={<DeleteOutlined />} disabled={!selectedPresetId} />
+        </Popconfirm>
+      </Space.Compact>
+
+      <div className={styles.selectControl}>
+        <span className={styles.controlLabel}>Score</span>
+        <Slider
+          range
+          min={0}
+          max={10}
+          step={0.5}
+          value={filters.scoreRange ?? [0, 10]}
+          onChange={(value: number[]) => {
+            const [min, max] = value;
+            dispatch(setCandidateFilters({ scoreRange: min === 0 && max === 10 ? null : [min, max] }));
+          }}
+        />
+      </div>
+
+      <div className={styles.selectControl}>
+        <span className={styles.controlLabel}>Completed</span>
+        <DatePicker.RangePicker
+          value={filters.completedRange ? [dayjs(filters.completedRange[0]), dayjs(filters.completedRange[1])] : null}
+          onChange={(range) => {
+            const [from, to] = range ?? [];
+            dispatch(
+              setCandidateFilters({
+                completedRange: from && to ? [from.format("YYYY-MM-DD"), to.format("YYYY-MM-DD")] : null
+              })
+            );
+          }}
+        />
+      </div>
+
+      <Select
+        mode="multiple"
+        allowClear
+        aria-label="Filter by stage"
+        placeholder="Any stage"
+        value={filters.stages}
+        options={stageOptions}
+        onChange={(stages: SessionStage[]) => dispatch(setCandidateFilters({ stages }))}
+      />
+      <Select
+        mode="multiple"
+        allowClear
+        aria-label="Filter by role"
+        placeholder="Any role"
+        value={filters.roles}
+        options={roleOptions.map((role) => ({ value: role, label: role }))}
+        onChange={(roles: string[]) => dispatch(setCandidateFilters({ roles }))}
+      />
+      <Select
+        mode="multiple"
+        allowClear
+        aria-label="Filter by template"
+        placeholder="Any template"
+        value={filters.templateIds}
+        options={TEMPLATE_OPTIONS}
+        onChange={(templateIds: string[]) => dispatch(setCandidateFilters({ templateIds }))}
+      />
+
+      <div className={styles.selectControl}>
+        <span className={styles.controlLabel}>Auto-submitted answers</span>
+        <Space>
+          <InputNumber
+            aria-label="Minimum auto-submitted answers"
+            min={0}
+            precision={0}
+            placeholder="Min"
+            value={filters.minAutoSubmitted}
+            onChange={(value) => dispatch(setCandidateFilters({ minAutoSubmitted: value ?? null }))}
+          />
+          <Text type="secondary">to</Text>
+          <InputNumber
+            aria-label="Maximum auto-submitted answers"
+            min={0}
+            precision={0}
+            placeholder="Max"
+            value={filters.maxAutoSubmitted}
+            onChange={(value) => dispatch(setCandidateFilters({ maxAutoSubmitted: value ?? null }))}
+          />
+        </Space>
+      </div>
+
+      <Select
+        aria-label="Filter by score review"
+        value={filters.review}
+        options={REVIEW_OPTIONS}
+        onChange={(review: CandidateReviewFilter) => dispatch(setCandidateFilters({ review }))}
+      />
+      <Select
+        mode="multiple"
+        allowClear
+        aria-label="Filter by hiring decision"
+        placeholder="Any hiring decision"
+        value={filters.decisions}
+        options={DECISION_OPTIONS}
+        onChange={(decisions: CandidateDecisionFilter[]) => dispatch(setCandidateFilters({ decisions }))}
+      />
+      <Select
+        mode="multiple"
+        allowClear
+        aria-label="Filter by tags"
+        placeholder="Any tags"
+        value={filters.tags}
+        options={tagOptions.map((tag) => ({ value: tag, label: tag }))}
+        onChange={(tags: string[]) => dispatch(setCandidateFilters({ tags }))}
+      />
+
+      <Space wrap>
+        <Space.Compact>
+          <Input
+            aria-label="Preset name"
+            placeholder="Name these filters"
+            value={presetName}
+            onChange={(event) => setPresetName(event.target.value)}
+            onPressEnter={handleSavePreset}
+          />
+          <Button icon={<SaveOutlined />} disabled={!presetName.trim()} onClick={handleSavePreset}>
+            Save
+          </Button>
+        </Space.Compact>
+        <Button
+          onClick={() => {
+            dispatch(resetCandidateFilters());
+            setSelectedPresetId(null);
+          }}
+          disabled={activeCount === 0}
+        >
+          Clear filters
+        </Button>
+      </Space>
+    </div>
+  );
+};
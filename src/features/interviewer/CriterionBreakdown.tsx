@@ -0,0 +1,98 @@
+import { Table, Typography } from "antd";
+import type { TableProps } from "antd";
+import type { CriterionScore, RubricCriterion } from "../../types/interview";
+import { computeWeightedRubricScore } from "../../utils/rubricScoring";
+
+const { Text } = Typography;
+
+type CriterionRow = {
+  key: string;
+  label: string;
+  description: string;
+  weight: number;
+  score: number | null;
+  justification: string | null;
+};
+
+const columns: TableProps<CriterionRow>["columns"] = [
+  {
+    title: "Criterion",
+    dataIndex: "label",
+    render: (_: string, row: CriterionRow) => (
+      <div>
+        <Text strong>{row.label}</Text>
+        {row.description && (
+          <div>
+            <Text type="secondary">{row.description}</Text>
+          </div>
+        )}
+      </div>
+    )
+  },
+  {
+    title: "Weight",
+    dataIndex: "weight",
+    width: 80,
+    align: "center" as const
+  },
+  {
+    title: "Score",
+    dataIndex: "score",
+    width: 80,
+    align: "center" as const,
+    render: (value: number | null) =>
+      value !== null ? <Text strong>{value.toFixed(1)}</Text> : <Text type="secondary">—</Text>
+  },
+  {
+    title: "Justification",
+    dataIndex: "justification",
+    render: (value: string | null) => <Text type="secondary">{value ?? "Not scored yet."}</Text>
+  }
+];
+
+interface CriterionBreakdownProps {
+  rubric?: RubricCriterion[];
+  scores?: CriterionScore[];
+}
+
+export const CriterionBreakdown = ({ rubric = [], scores = [] }: CriterionBreakdownProps) => {
+  const rows: CriterionRow[] = rubric.length
+    ? rubric.map((criterion) => {
+        const scored = scores.find((entry) => entry.criterionId === criterion.id);
+        return {
+          key: criterion.id,
+          label: criterion.label,
+          description: criterion.description,
+          weight: criterion.weight,
+          score: scored?.score ?? null,
+          justification: scored?.justification ?? null
+        };
+      })
+    : scores.map((entry) => ({
+        key: entry.criterionId,
+        label: entry.label,
+        description: "",
+        weight: entry.weight,
+        score: entry.score,
+        justification: entry.justification
+      }));
+
+  return (
+    <Table<CriterionRow>
+      size="small"
+      pagination={false}
+      columns={columns}
+      dataSource={rows}
+      rowKey={(row) => row.key}
+      footer={
+        scores.length
+          ? () => (
+              <Text>
+                Weighted total: <Text strong>{computeWeightedRubricScore(scores).toFixed(1)}</Text>/10
+              </Text>
+            )
+          : undefined
+      }
+    />
+  );
+};
@@ -0,0 +1,129 @@
+import { Button, Card, Empty, Form, Input, Select, Space, Tag, Timeline, Typography, message } from "antd";
+import dayjs from "dayjs";
+import { useEffect } from "react";
+import { useAppDispatch, useAppSelector } from "../../store/hooks";
+import { selectReviewerName } from "../../store/selectors";
+import { recordHiringDecision, setReviewerName } from "../../store/slices/candidatesSlice";
+import { applyCandidateChange } from "../../store/thunks/candidateThunks";
+import type { CandidateArchiveRecord, HiringDecisionStatus } from "../../types/interview";
+import { getCurrentDecision, HIRING_DECISION_DETAILS, HIRING_DECISION_STATUSES } from "../../utils/hiringDecisions";
+import styles from "./InterviewerView.module.css";
+
+const { Text } = Typography;
+
+const STATUS_OPTIONS = HIRING_DECISION_STATUSES.map((status) => ({
+  value: status,
+  label: HIRING_DECISION_DETAILS[status].label
+}));
+
+interface HiringDecisionValues {
+  status: HiringDecisionStatus;
+  notes: string;
+  reviewer: string;
+}
+
+interface HiringDecisionCardProps {
+  /** The opened archive record; null while it loads or when the selected candidate is still interviewing. */
+  record: CandidateArchiveRecord | null;
+  emptyHint: string;
+}
+
+/** The current hiring decision on a completed interview, the form to make a new one, and every earlier call. */
+export const HiringDecisionCard = ({ record, emptyHint }: HiringDecisionCardProps) => {
+  const dispatch = useAppDispatch();
+  const reviewerName = useAppSelector(selectReviewerName);
+  const [form] = Form.useForm<HiringDecisionValues>();
+  const current = record ? getCurrentDecision(record) : null;
+  const recordId = record?.id ?? null;
+
+  useEffect(() => {
+    form.setFieldsValue({ status: undefined, notes: "", reviewer: reviewerName });
+  }, [form, recordId, reviewerName]);
+
+  const handleSubmit = async () => {
+    if (!record) {
+      return;
+    }
+    const values = await form.validateFields();
+    const reviewer = values.reviewer.trim();
+    dispatch(setReviewerName(reviewer));
+    try {
+      await dispatch(
+        applyCandidateChange(
+          recordHiringDecision({ candidateId: record.id, status: values.status, notes: values.notes, reviewer })
+        )
+      ).unwrap();
+      form.resetFields(["status", "notes"]);
+      message.success("Hiring decision recorded.");
+    } catch {
+      // applyCandidateChange already reported the problem.
+    }
+  };
+
+  return (
+    <Card title="Hiring decision" className={styles.fullWidthCard}>
+      {record ? (
+        <Space direction="vertical" style={{ width: "100%" }}>
+          {current ? (
+            <div className={styles.infoActions}>
+              <Tag color={HIRING_DECISION_DETAILS[current.status].color}>
+                {HIRING_DECISION_DETAILS[current.status].label}
+              </Tag>
+              <Text type="secondary">
+                {current.reviewer}, {dayjs(current.decidedAt).format("MMM D, h:mm A")}
+              </Text>
+            </div>
+          ) : (
+            <Text type="secondary">No decision yet.</Text>
+          )}
+          <Form<HiringDecisionValues> form={form} layout="vertical">
+            <Form.Item label="Decision" name="status" rules={[{ required: true, message: "Pick a decision." }]}>
+              <Select aria-label="Hiring decision" placeholder="Advance, hold, reject..." options={STATUS_OPTIONS} />
+            </Form.Item>
+            <Form.Item
+              label="Notes"
+              name="notes"
+              rules={[{ required: true, whitespace: true, message: "Note why you made this call." }]}
+            >
+              <Input.TextArea autoSize={{ minRows: 2, maxRows: 5 }} />
+            </Form.Item>
+            <Form.Item
+              label="Reviewer"
+              name="reviewer"
+              rules={[{ required: true, whitespace: true, message: "Enter your name." }]}
+            >
+              <Input placeholder="Your name" />
+            </Form.Item>
+            <Button type="primary" onClick={() => void handleSubmit()}>
+              Record decision
+            </Button>
+          </Form>
+          {(record.decisions ?? []).length > 0 && (
+            <>
+              <span className={styles.dividerText}>Decision history</span>
+              <Timeline
+                items={[...(record.decisions ?? [])].reverse().map((decision) => ({
+                  key: decision.id,
+                  color: HIRING_DECISION_DETAILS[decision.status].color,
+                  children: (
+                    <div>
+                      <Text strong>{HIRING_DECISION_DETAILS[decision.status].label}</Text>{" "}
+                      <Text type="secondary">
+                        by {decision.reviewer}, {dayjs(decision.decidedAt).format("MMM D, YYYY h:mm A")}
+                      </Text>
+                      <div>
+                        <Text>{decision.notes}</Text>
+                      </div>
+                    </div>
+                  )
+                }))}
+              />
+            </>
+          )}
+        </Space>
+      ) : (
+        <Empty description={emptyHint} />
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,226 @@
+import {
+  Button,
+  Card,
+  DatePicker,
+  Empty,
+  Form,
+  Input,
+  Modal,
+  Popconfirm,
+  Select,
+  Space,
+  Table,
+  Tag,
+  Typography
+} from "antd";
+import type { TableProps } from "antd";
+import { DeleteOutlined, PlusOutlined } from "@ant-design/icons";
+import dayjs, { type Dayjs } from "dayjs";
+import { useCallback, useMemo, useState } from "react";
+import { useAppDispatch, useAppSelector } from "../../store/hooks";
+import { selectSelectedTemplateId, selectSessionProfiles, selectSessionQueue } from "../../store/selectors";
+import { cancelScheduledSession } from "../../store/slices/sessionSlice";
+import { scheduleInterview } from "../../store/thunks/sessionThunks";
+import { INTERVIEW_TEMPLATES, getInterviewTemplate } from "../../services/interviewTemplates";
+import {
+  DEFAULT_INVITATION_WINDOW_HOURS,
+  buildInvitationLink,
+  getInvitationStatus,
+  type InvitationStatus
+} from "../../services/interviewQueue";
+import type { InterviewSession } from "../../types/interview";
+import styles from "./InterviewerView.module.css";
+
+const { Text } = Typography;
+
+const STATUS_TAGS: Record<InvitationStatus, { label: string; color: string }> = {
+  upcoming: { label: "Scheduled", color: "default" },
+  open: { label: "Window open", color: "blue" },
+  "in-progress": { label: "In progress", color: "processing" },
+  completed: { label: "Completed", color: "success" },
+  expired: { label: "Expired", color: "warning" }
+};
+
+const TEMPLATE_OPTIONS = INTERVIEW_TEMPLATES.map((template) => ({ value: template.id, label: template.name }));
+
+type InvitationFormValues = {
+  candidateName: string;
+  candidateEmail?: string;
+  templateId: string;
+  window: [Dayjs, Dayjs];
+};
+
+export const InterviewQueue = () => {
+  const dispatch = useAppDispatch();
+  const queue = useAppSelector(selectSessionQueue);
+  const profiles = useAppSelector(selectSessionProfiles);
+  const selectedTemplateId = useAppSelector(selectSelectedTemplateId);
+
+  const [form] = Form.useForm<InvitationFormValues>();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const openForm = useCallback(() => {
+    const start = dayjs().startOf("hour").add(1, "hour");
+    form.setFieldsValue({
+      candidateName: "",
+      candidateEmail: "",
+      templateId: selectedTemplateId,
+      window: [start, start.add(DEFAULT_INVITATION_WINDOW_HOURS, "hour")]
+    });
+    setIsFormOpen(true);
+  }, [form, selectedTemplateId]);
+
+  const handleCreate = useCallback(async () => {
+    const values = await form.validateFields();
+    setIsSaving(true);
+    try {
+      await dispatch(
+        scheduleInterview({
+          candidateName: values.candidateName,
+          candidateEmail: values.candidateEmail,
+          templateId: values.templateId,
+          windowStart: values.window[0].toISOString(),
+          windowEnd: values.window[1].toISOString()
+        })
+      ).unwrap();
+      setIsFormOpen(false);
+      form.resetFields();
+    } catch {
+      // scheduleInterview already reported the problem.
+    } finally {
+      setIsSaving(false);
+    }
+  }, [dispatch, form]);
+
+  const columns: TableProps<InterviewSession>["columns"] = useMemo(
+    () => [
+      {
+        title: "Candidate",
+        key: "candidate",
+        render: (_: unknown, session: InterviewSession) => (
+          <Space direction="vertical" size={0}>
+            <Text strong>{profiles[session.id]?.name ?? session.invitation?.candidateName}</Text>
+            {session.invitation?.candidateEmail && <Text type="secondary">{session.invitation.candidateEmail}</Text>}
+          </Space>
+        )
+      },
+      {
+        title: "Template",
+        dataIndex: "templateId",
+        render: (templateId: string) => getInterviewTemplate(templateId).name
+      },
+      {
+        title: "Start window",
+        key: "window",
+        render: (_: unknown, session: InterviewSession) =>
+          session.invitation ? (
+            <Text>
+              {dayjs(session.invitation.windowStart).format("MMM D, h:mm A")} –{" "}
+              {dayjs(session.invitation.windowEnd).format("MMM D, h:mm A")}
+            </Text>
+          ) : null
+      },
+      {
+        title: "Code",
+        key: "code",
+        render: (_: unknown, session: InterviewSession) =>
+          session.invitation ? (
+            <Text
+              code
+              copyable={{ text: buildInvitationLink(session.invitation.code), tooltips: ["Copy invite link", "Copied"] }}
+            >
+              {session.invitation.code}
+            </Text>
+          ) : null
+      },
+      {
+        title: "Status",
+        key: "status",
+        render: (_: unknown, session: InterviewSession) => {
+          const status = STATUS_TAGS[getInvitationStatus(session, dayjs().toISOString())];
+          return <Tag color={status.color}>{status.label}</Tag>;
+        }
+      },
+      {
+        title: "",
+        key: "actions",
+        width: 60,
+        render: (_: unknown, session: InterviewSession) => {
+          const status = getInvitationStatus(session, dayjs().toISOString());
+          return status === "in-progress" || status === "completed" ? null : (
+            <Popconfirm
+              title="Cancel this invitation?"
+              onConfirm={() => dispatch(cancelScheduledSession(session.id))}
+              okText="Cancel invitation"
+              cancelText="Keep"
+              okButtonProps={{ danger: true }}
+            >
+              <Button size="small" danger icon={<DeleteOutlined />} aria-label="Cancel invitation" />
+            </Popconfirm>
+          );
+        }
+      }
+    ],
+    [dispatch, profiles]
+  );
+
+  return (
+    <Card
+      title="Interview queue"
+      className={styles.fullWidthCard}
+      extra={
+        <Button type="primary" icon={<PlusOutlined />} onClick={openForm}>
+          Invite candidate
+        </Button>
+      }
+    >
+      {queue.length > 0 ? (
+        <Table<InterviewSession>
+          size="small"
+          columns={columns}
+          dataSource={queue}
+          rowKey={(session) => session.id}
+          pagination={queue.length > 10 ? { pageSize: 10 } : false}
+          scroll={{ x: true }}
+        />
+      ) : (
+        <Empty description="Invite candidates to give each one a session, template and start window of their own." />
+      )}
+
+      <Modal
+        title="Invite candidate"
+        open={isFormOpen}
+        onOk={() => void handleCreate()}
+        onCancel={() => setIsFormOpen(false)}
+        okText="Create invitation"
+        confirmLoading={isSaving}
+        forceRender
+      >
+        <Form<InvitationFormValues> form={form} layout="vertical">
+          <Form.Item
+            label="Candidate name"
+            name="candidateName"
+            rules={[{ required: true, whitespace: true, message: "Enter the candidate's name." }]}
+          >
+            <Input maxLength={80} />
+          </Form.Item>
+          <Form.Item label="Email" name="candidateEmail" rules={[{ type: "email", message: "Enter a valid email." }]}>
+            <Input placeholder="Optional" />
+          </Form.Item>
+          <Form.Item label="Template" name="templateId" rules={[{ required: true }]}>
+            <Select options={TEMPLATE_OPTIONS} />
+          </Form.Item>
+          <Form.Item
+            label="Start window"
+            name="window"
+            extra="The candidate can start any time inside this window."
+            rules={[{ required: true, message: "Pick when the candidate may start." }]}
+          >
+            <DatePicker.RangePicker showTime={{ format: "h:mm A" }} format="MMM D, h:mm A" style={{ width: "100%" }} />
+          </Form.Item>
+        </Form>
+      </Modal>
+    </Card>
+  );
+};
@@ -10,6 +10,10 @@ import dayjs from "dayjs";
 import { InterviewerView } from "./InterviewerView";
 import sessionReducer, { type SessionState } from "../../store/slices/sessionSlice";
 import candidatesReducer, { type CandidatesState } from "../../store/slices/candidatesSlice";
+import questionBankReducer from "../../store/slices/questionBankSlice";
+import { buildCandidateIndexRow } from "../../utils/candidateIndex";
+import { DEFAULT_CANDIDATE_FILTERS } from "../../utils/candidateFilters";
+import { DEFAULT_CANDIDATE_SORT } from "../../utils/candidateSorting";
 import type {
   CandidateArchiveRecord,
   CandidateProfile,
@@ -88,6 +92,7 @@ describe("InterviewerView", () => {
       id,
       profile,
       sessionId: `session-${id}`,
+      templateId: "full-stack",
       completedAt,
       finalScore: summary.finalScore,
       summary,
@@ -97,10 +102,38 @@ describe("InterviewerView", () => {
     };
   };
 
+  // Records start out loaded so the view never has to reach for IndexedDB, which jsdom doesn't have.
+  const buildCandidatesState = (records: CandidateArchiveRecord[]): CandidatesState => ({
+    index: Object.fromEntries(records.map((record) => [record.id, buildCandidateIndexRow(record)])),
+    ids: records.map((record) => record.id),
+    loadedRecords: Object.fromEntries(records.map((record) => [record.id, record])),
+    sortRules: DEFAULT_CANDIDATE_SORT,
+    searchQuery: "",
+    filters: DEFAULT_CANDIDATE_FILTERS,
+    filterPresets: [],
+    pageSize: 12,
+    reviewerName: ""
+  });
+
+  const buildSessionState = (overrides: Partial<SessionState> = {}): SessionState => ({
+    sessions: {},
+    profiles: {},
+    activeSessionId: null,
+    resumeParse: { status: "idle", error: null },
+    welcomeBackVisible: false,
+    selectedTemplateId: "full-stack",
+    adaptiveSettings: { enabled: false, minDifficulty: "easy", maxDifficulty: "hard" },
+    followUpSettings: { enabled: false, maxFollowUps: 2, timeLimitSeconds: 45 },
+    resumeGroundingByTemplate: {},
+    pauseSettings: { allowed: false, maxPauses: 2, maxTotalPauseSeconds: 300 },
+    ...overrides
+  });
+
   const renderWithState = (sessionState: SessionState, candidatesState: CandidatesState) => {
     const reducer = combineReducers({
       session: sessionReducer,
-      candidates: candidatesReducer
+      candidates: candidatesReducer,
+      questionBank: questionBankReducer
     });
 
     const store = configureStore({
@@ -127,6 +160,7 @@ describe("InterviewerView", () => {
     const activeSession: InterviewSession = {
       id: archiveRecord.sessionId,
       candidateId,
+      templateId: "full-stack",
       createdAt: dayjs().subtract(90, "minutes").toISOString(),
       updatedAt: dayjs().toISOString(),
       stage: "completed",
@@ -139,25 +173,14 @@ describe("InterviewerView", () => {
       summary
     };
 
-    const sessionState: SessionState = {
-      activeProfile: archiveRecord.profile,
-      activeSession,
-      resumeParse: {
-        status: "success",
-        error: null
-      },
-      welcomeBackVisible: false
-    };
+    const sessionState = buildSessionState({
+      sessions: { [activeSession.id]: activeSession },
+      profiles: { [activeSession.id]: archiveRecord.profile },
+      activeSessionId: activeSession.id,
+      resumeParse: { status: "success", error: null }
+    });
 
-    const candidatesState: CandidatesState = {
-      records: {
-        [candidateId]: archiveRecord
-      },
-      ids: [candidateId],
-      sortKey: "score",
-      sortDirection: "desc",
-      searchQuery: ""
-    };
+    const candidatesState = buildCandidatesState([archiveRecord]);
 
     renderWithState(sessionState, candidatesState);
 
@@ -181,32 +204,13 @@ describe("InterviewerView", () => {
       completedAt: dayjs().subtract(1, "hour").toISOString()
     });
 
-    const sessionState: SessionState = {
-      activeProfile: null,
-      activeSession: null,
-      resumeParse: {
-        status: "idle",
-        error: null
-      },
-      welcomeBackVisible: false
-    };
-
-    const candidatesState: CandidatesState = {
-      records: {
-        alpha: recordA,
-        bravo: recordB
-      },
-      ids: ["bravo", "alpha"],
-      sortKey: "score",
-      sortDirection: "desc",
-      searchQuery: ""
-    };
+    const candidatesState = buildCandidatesState([recordB, recordA]);
 
-    renderWithState(sessionState, candidatesState);
+    renderWithState(buildSessionState(), candidatesState);
 
     expect(screen.getAllByTestId("candidate-entry")).toHaveLength(2);
 
-    const searchInput = screen.getByPlaceholderText("Search by name...");
+    const searchInput = screen.getByPlaceholderText("Search names, answers and feedback...");
     await user.clear(searchInput);
     await user.type(searchInput, "bianca");
 
@@ -240,30 +244,14 @@ describe("InterviewerView", () => {
       profile: { name: "High Score" },
       completedAt: now.subtract(1, "hour").toISOString()
     });
+    const recordTie = buildArchiveRecord("tie", summaryLow, {
+      profile: { name: "Tie Score" },
+      completedAt: now.subtract(30, "minute").toISOString()
+    });
 
-    const sessionState: SessionState = {
-      activeProfile: null,
-      activeSession: null,
-      resumeParse: {
-        status: "idle",
-        error: null
-      },
-      welcomeBackVisible: false
-    };
-
-    const candidatesState: CandidatesState = {
-      records: {
-        low: recordLow,
-        mid: recordMid,
-        high: recordHigh
-      },
-      ids: ["high", "mid", "low"],
-      sortKey: "score",
-      sortDirection: "desc",
-      searchQuery: ""
-    };
+    const candidatesState = buildCandidatesState([recordHigh, recordMid, recordLow, recordTie]);
 
-    renderWithState(sessionState, candidatesState);
+    renderWithState(buildSessionState(), candidatesState);
 
     const sortBySelect = screen.getByLabelText("Sort candidates by");
     const sortOrderSelect = screen.getByLabelText("Sort order");
@@ -273,6 +261,82 @@ describe("InterviewerView", () => {
 
     const entries = screen.getAllByTestId("candidate-entry");
     expect(entries[0]).toHaveTextContent("Low Score");
+    expect(entries[1]).toHaveTextContent("Tie Score");
     expect(entries[entries.length - 1]).toHaveTextContent("High Score");
+
+    // Equal scores fall back to name until a tie-breaker is added; the first free key is submission time.
+    await user.click(screen.getByRole("button", { name: "Add tie-breaker" }));
+    expect(screen.getByLabelText("Then sort candidates by (2)")).toHaveValue("date");
+
+    const reordered = screen.getAllByTestId("candidate-entry");
+    expect(reordered[0]).toHaveTextContent("Tie Score");
+    expect(reordered[1]).toHaveTextContent("Low Score");
+  });
+
+  it("applies saved filters and searches archived answers", async () => {
+    const user = userEvent.setup();
+
+    const now = dayjs();
+    const recordLow = buildArchiveRecord("low", { ...baseSummary, finalScore: 5.5 }, {
+      profile: { name: "Low Score" },
+      completedAt: now.subtract(3, "hour").toISOString()
+    });
+    const recordMid = buildArchiveRecord("mid", { ...baseSummary, finalScore: 7.9 }, {
+      profile: { name: "Mid Score" },
+      completedAt: now.subtract(2, "hour").toISOString()
+    });
+    const recordHigh: CandidateArchiveRecord = {
+      ...buildArchiveRecord("high", { ...baseSummary, finalScore: 9.2 }, {
+        profile: { name: "High Score" },
+        completedAt: now.subtract(1, "hour").toISOString()
+      }),
+      answers: [
+        {
+          questionId: "q-1",
+          answer: "I wrapped the resize handler in a debounce.",
+          startedAt: now.subtract(70, "minute").toISOString(),
+          submittedAt: now.subtract(69, "minute").toISOString(),
+          elapsedSeconds: 40,
+          autoSubmitted: false
+        }
+      ]
+    };
+
+    renderWithState(buildSessionState(), {
+      ...buildCandidatesState([recordHigh, recordMid, recordLow]),
+      filters: { ...DEFAULT_CANDIDATE_FILTERS, scoreRange: [7, 10] }
+    });
+
+    expect(screen.getByRole("button", { name: /Filters \(1\)/ })).toBeInTheDocument();
+    expect(screen.getAllByTestId("candidate-entry")).toHaveLength(2);
+
+    // Answer text isn't in the index row, so this match comes from the archive search.
+    await user.type(screen.getByPlaceholderText("Search names, answers and feedback..."), "debounce");
+    await waitFor(() => {
+      const entries = screen.getAllByTestId("candidate-entry");
+      expect(entries).toHaveLength(1);
+      expect(entries[0]).toHaveTextContent("High Score");
+    });
+  });
+
+  it("pages the archive and opens records on demand", async () => {
+    const now = dayjs();
+    const records = Array.from({ length: 14 }, (_, position) =>
+      buildArchiveRecord(`cand-${position}`, baseSummary, {
+        profile: { name: `Candidate ${position}` },
+        completedAt: now.subtract(position + 1, "hour").toISOString()
+      })
+    );
+
+    // Only the index rows are in the store, as after a reload.
+    renderWithState(buildSessionState(), { ...buildCandidatesState(records), loadedRecords: {} });
+
+    const entries = screen.getAllByTestId("candidate-entry");
+    expect(entries).toHaveLength(12);
+    expect(entries[0]).toHaveTextContent("Candidate 0");
+
+    // jsdom has no IndexedDB, so opening the first record fails and says so.
+    const hints = await screen.findAllByText("This interview record couldn't be loaded from the browser archive.");
+    expect(hints.length).toBeGreaterThan(0);
   });
 });
@@ -1,38 +1,151 @@
 import {
+  Alert,
   Button,
   Card,
+  Checkbox,
   Descriptions,
+  Dropdown,
   Empty,
   Input,
+  InputNumber,
+  Modal,
+  Pagination,
   Progress,
+  Select,
   Space,
+  Spin,
+  Switch,
   Table,
   Tag,
+  Tooltip,
   Typography,
   message
 } from "antd";
 import type { TableProps } from "antd";
-import { FileTextOutlined } from "@ant-design/icons";
+import {
+  CloseOutlined,
+  DiffOutlined,
+  DownloadOutlined,
+  EditOutlined,
+  FileTextOutlined,
+  FilterOutlined,
+  SafetyCertificateOutlined
+} from "@ant-design/icons";
 import dayjs from "dayjs";
 import { useCallback, useEffect, useMemo, useState } from "react";
-import { useAppSelector } from "../../store/hooks";
+import { useAppDispatch, useAppSelector } from "../../store/hooks";
 import {
-  selectActiveProfile,
   selectActiveSession,
-  selectCandidateRecords
+  selectAdaptiveSettings,
+  selectCandidateFilters,
+  selectCandidateIndexRows,
+  selectCandidateListingPageSize,
+  selectCandidateSearchQuery,
+  selectCandidateSortRules,
+  selectFollowUpSettings,
+  selectLoadedCandidateRecords,
+  selectPauseSettings,
+  selectResumeGrounding,
+  selectReviewerName,
+  selectSelectedTemplateId,
+  selectSessionProfiles,
+  selectSessions
 } from "../../store/selectors";
+import {
+  selectInterviewTemplate,
+  setTemplateResumeGrounding,
+  updateAdaptiveSettings,
+  updateFollowUpSettings,
+  updatePauseSettings
+} from "../../store/slices/sessionSlice";
+import {
+  clearAnswerScoreOverride,
+  clearFinalScoreOverride,
+  overrideAnswerScore,
+  overrideFinalScore,
+  removeSortRule,
+  setCandidatePageSize,
+  setCandidateTags,
+  setReviewerName,
+  setSearchQuery,
+  setSortRule,
+  CANDIDATE_PAGE_SIZES
+} from "../../store/slices/candidatesSlice";
+import {
+  applyCandidateChange,
+  exportCandidateList,
+  openCandidateRecord,
+  searchCandidateArchive
+} from "../../store/thunks/candidateThunks";
 import { loadResumeFile } from "../../services/resumeStorage";
+import { INTERVIEW_TEMPLATES, getInterviewTemplate } from "../../services/interviewTemplates";
+import { DIFFICULTY_LADDER, getPlannedQuestionCount } from "../../services/adaptiveDifficulty";
+import { MAX_FOLLOW_UPS } from "../../services/aiInterviewService";
+import { MAX_PAUSES, MIN_PAUSE_BUDGET_SECONDS, formatPauseSeconds } from "../../services/interviewPause";
+import {
+  getCandidateReportContent,
+  getCandidateReportFileName,
+  type CandidateReportFormat
+} from "../../utils/candidateReport";
+import { downloadFile } from "../../utils/download";
+import {
+  collectSearchableText,
+  countActiveFilters,
+  countAutoSubmitted,
+  matchesCandidateFilters,
+  matchesSearchText
+} from "../../utils/candidateFilters";
+import {
+  CANDIDATE_SORT_LABELS,
+  compareCandidates,
+  computeAnsweringSeconds,
+  computeDifficultyAverages,
+  MAX_SORT_RULES,
+  type CandidateSortDirection,
+  type CandidateSortKey
+} from "../../utils/candidateSorting";
+import { MAX_COMPARED_CANDIDATES, MIN_COMPARED_CANDIDATES } from "../../utils/candidateComparison";
+import { HIRING_DECISION_DETAILS } from "../../utils/hiringDecisions";
+import { verifyTranscriptChain, type TranscriptVerification } from "../../services/transcriptIntegrity";
 import type {
+  AdaptiveDifficultyState,
   AnswerRecord,
+  AnswerTelemetry,
   CandidateArchiveRecord,
   CandidateProfile,
   ChatMessage,
+  CriterionScore,
+  DifficultyAverages,
+  FollowUpExchange,
+  HiringDecisionStatus,
   InterviewQuestion,
   InterviewSummary,
+  PauseRecord,
   QuestionDifficulty,
+  ResumeGroundingMode,
   ResumeFileMeta,
-  SessionStage
+  RubricCriterion,
+  PendingFollowUp,
+  ScoreAuditEntry,
+  ScoreOverride,
+  ScoreOverrideTarget,
+  SessionStage,
+  TranscriptLink
 } from "../../types/interview";
+import { AdaptivePathTimeline } from "./AdaptivePathTimeline";
+import { AnswerIntegrityTag } from "./AnswerIntegrityTag";
+import { AnswerReplay, type AnswerReplayRecording } from "./AnswerReplay";
+import { ArchiveTransfer } from "./ArchiveTransfer";
+import { CandidateComparison } from "./CandidateComparison";
+import { CandidateFilterPanel } from "./CandidateFilterPanel";
+import { HiringDecisionCard } from "./HiringDecisionCard";
+import { TRANSCRIPT_PROBLEM_LABELS, TranscriptIntegrity } from "./TranscriptIntegrity";
+import { CriterionBreakdown } from "./CriterionBreakdown";
+import { QuestionBankEditor } from "./QuestionBankEditor";
+import { InterviewQueue } from "./InterviewQueue";
+import { ResumeInsights } from "./ResumeInsights";
+import { ScoreOverrideModal, type ScoreOverrideSubmission } from "./ScoreOverrideModal";
+import { getEffectiveAnswerScore, getEffectiveFinalScore } from "../../utils/scoreOverrides";
 import styles from "./InterviewerView.module.css";
 
 const { Title, Text, Paragraph } = Typography;
@@ -70,6 +183,11 @@ const STAGE_DETAILS: Record<SessionStage, { label: string; color: string; hint:
   }
 };
 
+const STAGE_OPTIONS = (Object.keys(STAGE_DETAILS) as SessionStage[]).map((stage) => ({
+  value: stage,
+  label: STAGE_DETAILS[stage].label
+}));
+
 const DIFFICULTY_COLORS: Record<QuestionDifficulty, string> = {
   easy: "green",
   medium: "geekblue",
@@ -90,14 +208,24 @@ type QuestionRow = {
   statusLabel: string;
   statusColor: string;
   aiScore: number | null;
+  effectiveScore: number | null;
+  scoreOverride?: ScoreOverride;
   elapsedSeconds: number | null;
   aiFeedback?: string;
+  rubric?: RubricCriterion[];
+  criterionScores?: CriterionScore[];
+  followUps?: FollowUpExchange[];
+  resumeExcerpt?: string;
+  resumeExcerptVerified?: boolean;
+  telemetry?: AnswerTelemetry;
+  replays: AnswerReplayRecording[];
 };
 
 type CandidateDetail = {
   id: string;
   name: string;
   profile: CandidateProfile;
+  templateId: string;
   stage: SessionStage;
   isLive: boolean;
   summary: InterviewSummary | null;
@@ -105,11 +233,21 @@ type CandidateDetail = {
   answers: Record<string, AnswerRecord>;
   chat: ChatMessage[];
   currentQuestionId: string | null;
+  pendingFollowUp: PendingFollowUp | null;
   createdAt: string | null;
   updatedAt: string | null;
   completedAt: string | null;
   finalScore: number | null;
+  aiFinalScore: number | null;
+  finalScoreOverride: ScoreOverride | null;
+  scoreAuditLog: ScoreAuditEntry[];
+  isArchived: boolean;
+  adaptive: AdaptiveDifficultyState | null;
+  pauses: PauseRecord[];
+  plannedQuestionCount: number;
   resume: ResumeFileMeta | null;
+  tags: string[];
+  transcriptChain: TranscriptLink[] | null;
 };
 
 type CandidateOption = {
@@ -118,10 +256,54 @@ type CandidateOption = {
   role: string;
   email: string | null;
   timestampLabel: string;
+  /** When the candidate last did anything: completion for archived interviews, last update otherwise. */
+  activityAt: string | null;
+  completedAt: string | null;
   score: number | null;
+  answeringSeconds: number | null;
+  difficultyAverages: DifficultyAverages | null;
   stage: SessionStage;
+  templateId: string;
   isLive: boolean;
+  isArchived: boolean;
+  autoSubmittedCount: number;
+  hasScoreOverride: boolean;
+  decision: HiringDecisionStatus | null;
+  tags: string[];
   summaryPreview: string;
+  /** What the search box matches synchronously; archived answers are searched in IndexedDB instead. */
+  searchText: Array<string | null>;
+};
+
+const SEARCH_DELAY_MS = 300;
+
+const SORT_KEY_OPTIONS = Object.entries(CANDIDATE_SORT_LABELS) as Array<[CandidateSortKey, string]>;
+
+const formatScore = (value: number | null) => (value !== null ? value.toFixed(1) : "—");
+
+const describeAuditTarget = (entry: ScoreAuditEntry, questions: InterviewQuestion[]) => {
+  if (entry.target.type === "final") {
+    return "Final score";
+  }
+  const { questionId } = entry.target;
+  const index = questions.findIndex((question) => question.id === questionId);
+  return index >= 0 ? `Question ${index + 1}` : "Question";
+};
+
+const buildAnswerReplays = (answer: AnswerRecord | undefined): AnswerReplayRecording[] => {
+  if (!answer) {
+    return [];
+  }
+  const prompts = [
+    { key: "answer", label: "Answer", log: answer.editLog, answer: answer.answer },
+    ...(answer.followUps ?? []).map((exchange, position) => ({
+      key: exchange.id,
+      label: `Follow-up ${position + 1}`,
+      log: exchange.editLog,
+      answer: exchange.answer
+    }))
+  ];
+  return prompts.flatMap(({ log, ...prompt }) => (log ? [{ ...prompt, log }] : []));
 };
 
 const formatSeconds = (value: number | null | undefined) => {
@@ -133,168 +315,255 @@ const formatSeconds = (value: number | null | undefined) => {
   return `${minutes}m ${seconds}s`;
 };
 
+const TEMPLATE_OPTIONS = INTERVIEW_TEMPLATES.map((template) => ({
+  value: template.id,
+  label: template.name
+}));
+
+const DIFFICULTY_OPTIONS = DIFFICULTY_LADDER.map((difficulty) => ({
+  value: difficulty,
+  label: difficulty.charAt(0).toUpperCase() + difficulty.slice(1)
+}));
+
+const RESUME_GROUNDING_OPTIONS: Array<{ value: ResumeGroundingMode; label: string }> = [
+  { value: "off", label: "Generic questions" },
+  { value: "full-text", label: "Full resume text" },
+  { value: "summary", label: "Structured summary" }
+];
+
+const REPORT_EXPORT_OPTIONS: Array<{ key: CandidateReportFormat; label: string }> = [
+  { key: "pdf", label: "PDF report" },
+  { key: "markdown", label: "Markdown (ATS notes)" },
+  { key: "json", label: "JSON (full record)" }
+];
+
 export const InterviewerView = () => {
-  const activeProfile = useAppSelector(selectActiveProfile);
+  const dispatch = useAppDispatch();
   const activeSession = useAppSelector(selectActiveSession);
-  const candidateHistory = useAppSelector(selectCandidateRecords);
+  const sessions = useAppSelector(selectSessions);
+  const sessionProfiles = useAppSelector(selectSessionProfiles);
+  const candidateRows = useAppSelector(selectCandidateIndexRows);
+  const loadedRecords = useAppSelector(selectLoadedCandidateRecords);
+  const selectedTemplateId = useAppSelector(selectSelectedTemplateId);
 
-  const truncatedHistory = useMemo(() => candidateHistory.slice(0, 12), [candidateHistory]);
+  const adaptiveSettings = useAppSelector(selectAdaptiveSettings);
+  const followUpSettings = useAppSelector(selectFollowUpSettings);
+  const pauseSettings = useAppSelector(selectPauseSettings);
+  const selectedTemplate = getInterviewTemplate(selectedTemplateId);
+  const resumeGrounding = useAppSelector((state) => selectResumeGrounding(state, selectedTemplate.id));
+  // Invited sessions were scheduled with their own template, so the pick never applies to them.
+  const isTemplateLocked =
+    activeSession !== null &&
+    !activeSession.invitation &&
+    ["questioning", "paused", "completed"].includes(activeSession.stage);
+  const lockedTemplate = isTemplateLocked && activeSession ? getInterviewTemplate(activeSession.templateId) : null;
 
   const { candidateOptions, detailById } = useMemo(() => {
     const options: CandidateOption[] = [];
     const detailMap = new Map<string, CandidateDetail>();
     const optionIndex = new Map<string, number>();
 
-    const upsertCandidate = (detail: CandidateDetail, option: CandidateOption) => {
-      detailMap.set(detail.id, detail);
-      const existingIndex = optionIndex.get(detail.id);
+    // Archived candidates only get a detail once their full record has been loaded from IndexedDB.
+    const upsertCandidate = (option: CandidateOption, detail: CandidateDetail | null) => {
+      if (detail) {
+        detailMap.set(option.id, detail);
+      } else {
+        detailMap.delete(option.id);
+      }
+      const existingIndex = optionIndex.get(option.id);
       if (existingIndex !== undefined) {
         options[existingIndex] = option;
       } else {
-        optionIndex.set(detail.id, options.length);
+        optionIndex.set(option.id, options.length);
         options.push(option);
       }
     };
 
-    if (activeSession && activeProfile) {
-      const candidateId = activeProfile.id;
-      const sessionStage = activeSession.stage as SessionStage;
-      const questions = activeSession.questionOrder
-        .map((id) => activeSession.questions[id])
+    Object.values(sessions).forEach((session) => {
+      const profile = sessionProfiles[session.id];
+      if (!profile) {
+        return;
+      }
+
+      const candidateId = profile.id;
+      const sessionStage = session.stage as SessionStage;
+      const questions = session.questionOrder
+        .map((id) => session.questions[id])
         .filter((question): question is InterviewQuestion => Boolean(question));
 
       const detail: CandidateDetail = {
         id: candidateId,
-        name: activeProfile.name ?? "Unnamed candidate",
-        profile: activeProfile,
+        name: profile.name ?? "Unnamed candidate",
+        profile: profile,
+        templateId: session.templateId,
         stage: sessionStage,
         isLive: sessionStage !== "completed",
-        summary: activeSession.summary ?? null,
+        summary: session.summary ?? null,
         questions,
-        answers: activeSession.answers,
-        chat: activeSession.chat,
-        currentQuestionId: activeSession.currentQuestionId,
-        createdAt: activeSession.createdAt,
-        updatedAt: activeSession.updatedAt,
-        completedAt: sessionStage === "completed" ? activeSession.updatedAt : null,
-        finalScore: activeSession.summary?.finalScore ?? null,
-        resume: activeProfile.resume ?? null
+        answers: session.answers,
+        chat: session.chat,
+        currentQuestionId: session.currentQuestionId,
+        pendingFollowUp: session.pendingFollowUp ?? null,
+        createdAt: session.createdAt,
+        updatedAt: session.updatedAt,
+        completedAt: sessionStage === "completed" ? session.updatedAt : null,
+        finalScore: session.summary?.finalScore ?? null,
+        aiFinalScore: session.summary?.finalScore ?? null,
+        finalScoreOverride: null,
+        scoreAuditLog: [],
+        isArchived: false,
+        adaptive: session.adaptive ?? null,
+        pauses: session.pauses ?? [],
+        plannedQuestionCount: getPlannedQuestionCount(session),
+        resume: profile.resume ?? null,
+        tags: [],
+        transcriptChain: session.transcriptChain ?? null
       };
+      const answers = Object.values(session.answers);
 
-      upsertCandidate(detail, {
-        id: candidateId,
-        name: detail.name,
-        role: activeProfile.role,
-        email: activeProfile.email,
-        timestampLabel: detail.createdAt
-          ? `Started ${dayjs(detail.createdAt).format("MMM D, h:mm A")}`
-          : "Live interview",
-        score: detail.finalScore,
-        stage: detail.stage,
-        isLive: detail.isLive,
-        summaryPreview: detail.summary?.summaryText ?? ""
-      });
-    }
-
-    truncatedHistory.forEach((record: CandidateArchiveRecord) => {
-      const answersMap = record.answers.reduce<Record<string, AnswerRecord>>((accumulator, answer) => {
-        accumulator[answer.questionId] = answer;
-        return accumulator;
-      }, {});
+      upsertCandidate(
+        {
+          id: candidateId,
+          name: detail.name,
+          role: profile.role,
+          email: profile.email,
+          timestampLabel: detail.createdAt
+            ? `Started ${dayjs(detail.createdAt).format("MMM D, h:mm A")}`
+            : "Live interview",
+          activityAt: detail.completedAt ?? detail.updatedAt ?? detail.createdAt,
+          completedAt: detail.completedAt,
+          score: detail.finalScore,
+          answeringSeconds: computeAnsweringSeconds(answers),
+          difficultyAverages: computeDifficultyAverages(questions, answers),
+          stage: detail.stage,
+          templateId: session.templateId,
+          isLive: detail.isLive,
+          isArchived: false,
+          autoSubmittedCount: countAutoSubmitted(answers),
+          hasScoreOverride: false,
+          decision: null,
+          tags: [],
+          summaryPreview: detail.summary?.summaryText ?? "",
+          searchText: [detail.name, profile.email, ...collectSearchableText(answers, detail.summary)]
+        },
+        detail
+      );
+    });
 
-      const detail: CandidateDetail = {
-        id: record.id,
-        name: record.profile.name ?? "Unnamed candidate",
-        profile: record.profile,
-        stage: "completed",
-        isLive: false,
-        summary: record.summary ?? null,
-        questions: record.questions ?? [],
-        answers: answersMap,
-        chat: record.chat ?? [],
-        currentQuestionId: null,
-        createdAt: record.completedAt,
-        updatedAt: record.completedAt,
-        completedAt: record.completedAt,
-        finalScore: record.finalScore,
-        resume: record.profile.resume ?? null
-      };
+    candidateRows.forEach((row) => {
+      const record = loadedRecords[row.id];
+      const detail: CandidateDetail | null = record
+        ? {
+            id: record.id,
+            name: record.profile.name ?? "Unnamed candidate",
+            profile: record.profile,
+            templateId: record.templateId,
+            stage: "completed",
+            isLive: false,
+            summary: record.summary ?? null,
+            questions: record.questions ?? [],
+            answers: record.answers.reduce<Record<string, AnswerRecord>>((accumulator, answer) => {
+              accumulator[answer.questionId] = answer;
+              return accumulator;
+            }, {}),
+            chat: record.chat ?? [],
+            currentQuestionId: null,
+            pendingFollowUp: null,
+            createdAt: record.completedAt,
+            updatedAt: record.completedAt,
+            completedAt: record.completedAt,
+            finalScore: getEffectiveFinalScore(record),
+            aiFinalScore: record.finalScore,
+            finalScoreOverride: record.finalScoreOverride ?? null,
+            scoreAuditLog: record.scoreAuditLog ?? [],
+            isArchived: true,
+            adaptive: record.adaptive ?? null,
+            pauses: record.pauses ?? [],
+            plannedQuestionCount: record.questions?.length ?? 0,
+            resume: record.profile.resume ?? null,
+            tags: record.tags ?? [],
+            transcriptChain: record.transcriptChain ?? null
+          }
+        : null;
 
-      upsertCandidate(detail, {
-        id: record.id,
-        name: detail.name,
-        role: record.profile.role,
-        email: record.profile.email,
-        timestampLabel: record.completedAt
-          ? `Completed ${dayjs(record.completedAt).format("MMM D, h:mm A")}`
-          : "Completed interview",
-        score: record.finalScore,
-        stage: "completed",
-        isLive: false,
-        summaryPreview: detail.summary?.summaryText ?? ""
-      });
+      upsertCandidate(
+        {
+          id: row.id,
+          name: row.name ?? "Unnamed candidate",
+          role: row.role,
+          email: row.email,
+          timestampLabel: row.completedAt
+            ? `Completed ${dayjs(row.completedAt).format("MMM D, h:mm A")}`
+            : "Completed interview",
+          activityAt: row.completedAt,
+          completedAt: row.completedAt,
+          score: row.finalScore,
+          answeringSeconds: row.answeringSeconds,
+          difficultyAverages: row.difficultyAverages,
+          stage: "completed",
+          templateId: row.templateId,
+          isLive: false,
+          isArchived: true,
+          autoSubmittedCount: row.autoSubmittedCount,
+          hasScoreOverride: row.hasScoreOverride,
+          decision: row.decision,
+          tags: row.tags,
+          summaryPreview: row.summaryPreview,
+          searchText: [row.name, row.email, row.summaryPreview]
+        },
+        detail
+      );
     });
 
     return { candidateOptions: options, detailById: detailMap };
-  }, [activeProfile, activeSession, truncatedHistory]);
+  }, [candidateRows, loadedRecords, sessionProfiles, sessions]);
 
-  const [searchTerm, setSearchTerm] = useState<string>("");
-  const [sortBy, setSortBy] = useState<"time" | "score">("time");
-  const [sortOrder, setSortOrder] = useState<"asc" | "desc">("desc");
+  const searchQuery = useAppSelector(selectCandidateSearchQuery);
+  const candidateFilters = useAppSelector(selectCandidateFilters);
+  const activeFilterCount = countActiveFilters(candidateFilters);
+  const [isFilterPanelOpen, setIsFilterPanelOpen] = useState(activeFilterCount > 0);
+  // Archived ids whose answers or feedback matched `query`; stale results are ignored until a new search lands.
+  const [archiveMatches, setArchiveMatches] = useState<{ query: string; ids: string[] } | null>(null);
 
-  const displayedCandidates = useMemo(() => {
-    const normalizedTerm = searchTerm.trim().toLowerCase();
-    const entries = candidateOptions.map((option) => ({ option, detail: detailById.get(option.id) ?? null }));
-
-    const filtered = normalizedTerm
-      ? entries.filter(({ option }) => option.name.toLowerCase().includes(normalizedTerm))
-      : entries;
-
-    const sorted = [...filtered].sort((left, right) => {
-      const pickTimestamp = (detail: CandidateDetail | null) =>
-        detail?.completedAt ?? detail?.updatedAt ?? detail?.createdAt ?? null;
-
-      if (sortBy === "score") {
-        const leftScore = left.option.score;
-        const rightScore = right.option.score;
-        const leftHasScore = typeof leftScore === "number";
-        const rightHasScore = typeof rightScore === "number";
-
-        if (leftHasScore && rightHasScore) {
-          const diff = leftScore - rightScore;
-          if (diff !== 0) {
-            return sortOrder === "asc" ? diff : -diff;
-          }
-        } else if (leftHasScore && !rightHasScore) {
-          return -1;
-        } else if (!leftHasScore && rightHasScore) {
-          return 1;
-        }
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (!query || candidateRows.length === 0) {
+      return;
+    }
+    const timer = window.setTimeout(async () => {
+      try {
+        const ids = await dispatch(searchCandidateArchive(query)).unwrap();
+        setArchiveMatches({ query, ids });
+      } catch {
+        // searchCandidateArchive already reported the problem.
       }
+    }, SEARCH_DELAY_MS);
+    return () => window.clearTimeout(timer);
+  }, [candidateRows, dispatch, searchQuery]);
 
-      const leftTimestamp = pickTimestamp(left.detail);
-      const rightTimestamp = pickTimestamp(right.detail);
+  const sortRules = useAppSelector(selectCandidateSortRules);
+  const pageSize = useAppSelector(selectCandidateListingPageSize);
 
-      if (leftTimestamp && rightTimestamp) {
-        const leftValue = dayjs(leftTimestamp).valueOf();
-        const rightValue = dayjs(rightTimestamp).valueOf();
-        if (Number.isFinite(leftValue) && Number.isFinite(rightValue)) {
-          const diff = leftValue - rightValue;
-          if (diff !== 0) {
-            return sortOrder === "asc" ? diff : -diff;
-          }
-        }
-      } else if (leftTimestamp && !rightTimestamp) {
-        return -1;
-      } else if (!leftTimestamp && rightTimestamp) {
-        return 1;
-      }
+  const roleOptions = useMemo(
+    () => [...new Set(candidateOptions.map((option) => option.role).filter(Boolean))].sort(),
+    [candidateOptions]
+  );
+  const tagOptions = useMemo(
+    () => [...new Set(candidateOptions.flatMap((option) => option.tags))].sort(),
+    [candidateOptions]
+  );
 
-      return left.option.name.localeCompare(right.option.name, undefined, { sensitivity: "base" });
-    });
+  const displayedCandidates = useMemo(() => {
+    const query = searchQuery.trim();
+    const answerMatches = archiveMatches?.query === query ? archiveMatches.ids : [];
+    const filtered = candidateOptions.filter(
+      (option) =>
+        matchesCandidateFilters(option, candidateFilters) &&
+        (matchesSearchText(option.searchText, query) || (option.isArchived && answerMatches.includes(option.id)))
+    );
 
-    return sorted.map(({ option }) => option);
-  }, [candidateOptions, detailById, searchTerm, sortBy, sortOrder]);
+    return filtered.sort(compareCandidates(sortRules));
+  }, [archiveMatches, candidateFilters, candidateOptions, searchQuery, sortRules]);
 
   const [selectedCandidateId, setSelectedCandidateId] = useState<string | null>(null);
 
@@ -311,11 +580,90 @@ export const InterviewerView = () => {
     }
   }, [displayedCandidates, selectedCandidateId]);
 
+  const [candidatePage, setCandidatePage] = useState(1);
+  const pageCount = Math.max(1, Math.ceil(displayedCandidates.length / pageSize));
+
+  useEffect(() => {
+    setCandidatePage(1);
+  }, [candidateFilters, pageSize, searchQuery, sortRules]);
+
+  useEffect(() => {
+    if (candidatePage > pageCount) {
+      setCandidatePage(pageCount);
+    }
+  }, [candidatePage, pageCount]);
+
+  const pagedCandidates = useMemo(
+    () => displayedCandidates.slice((candidatePage - 1) * pageSize, candidatePage * pageSize),
+    [candidatePage, displayedCandidates, pageSize]
+  );
+
+  const [failedRecordIds, setFailedRecordIds] = useState<string[]>([]);
+  const selectedOption = candidateOptions.find((option) => option.id === selectedCandidateId) ?? null;
+  const awaitedRecordId =
+    selectedOption?.isArchived && !loadedRecords[selectedOption.id] ? selectedOption.id : null;
+  const isRecordFailed = awaitedRecordId !== null && failedRecordIds.includes(awaitedRecordId);
+
+  useEffect(() => {
+    if (!awaitedRecordId || failedRecordIds.includes(awaitedRecordId)) {
+      return;
+    }
+    const loadRecord = async () => {
+      try {
+        await dispatch(openCandidateRecord(awaitedRecordId)).unwrap();
+      } catch {
+        // openCandidateRecord already reported the problem.
+        setFailedRecordIds((ids) => [...ids, awaitedRecordId]);
+      }
+    };
+    void loadRecord();
+  }, [awaitedRecordId, dispatch, failedRecordIds]);
+
+  const [comparedIds, setComparedIds] = useState<string[]>([]);
+  const [isComparisonOpen, setIsComparisonOpen] = useState(false);
+  const [integrityCheck, setIntegrityCheck] = useState<{
+    candidateId: string;
+    verification: TranscriptVerification;
+  } | null>(null);
+  const [isVerifyingTranscript, setIsVerifyingTranscript] = useState(false);
+  // A candidate removed from the archive drops out of the comparison with it.
+  const activeComparedIds = useMemo(
+    () => comparedIds.filter((id) => candidateRows.some((row) => row.id === id)),
+    [candidateRows, comparedIds]
+  );
+  const comparedRecords = activeComparedIds
+    .map((id) => loadedRecords[id])
+    .filter((record): record is CandidateArchiveRecord => Boolean(record));
+  const failedComparedIds = activeComparedIds.filter((id) => failedRecordIds.includes(id));
+
+  useEffect(() => {
+    if (!isComparisonOpen) {
+      return;
+    }
+    activeComparedIds.forEach(async (id) => {
+      try {
+        await dispatch(openCandidateRecord(id)).unwrap();
+      } catch {
+        // openCandidateRecord already reported the problem.
+        setFailedRecordIds((ids) => (ids.includes(id) ? ids : [...ids, id]));
+      }
+    });
+  }, [activeComparedIds, dispatch, isComparisonOpen]);
+
+  const toggleCompared = (id: string, checked: boolean) =>
+    setComparedIds((ids) => (checked ? [...ids, id] : ids.filter((entry) => entry !== id)));
+
+  const recordStatusHint = awaitedRecordId
+    ? isRecordFailed
+      ? "This interview record couldn't be loaded from the browser archive."
+      : "Loading the interview record..."
+    : null;
+
   const selectedDetail = selectedCandidateId ? detailById.get(selectedCandidateId) ?? null : null;
   const selectedStageDetails = selectedDetail ? STAGE_DETAILS[selectedDetail.stage] : null;
 
   const answeredCount = selectedDetail ? Object.keys(selectedDetail.answers).length : 0;
-  const totalQuestions = selectedDetail?.questions.length ?? 0;
+  const totalQuestions = selectedDetail?.plannedQuestionCount ?? 0;
   const progressPercent = totalQuestions > 0 ? Math.round((answeredCount / totalQuestions) * 100) : 0;
   const progressStatus = selectedDetail?.stage === "completed"
     ? "success"
@@ -340,6 +688,8 @@ export const InterviewerView = () => {
     return selectedDetail.questions.map((question, index) => {
       const answer = selectedDetail.answers[question.id];
       const isCurrent = selectedDetail.currentQuestionId === question.id;
+      const pendingFollowUp =
+        selectedDetail.pendingFollowUp?.questionId === question.id ? selectedDetail.pendingFollowUp : null;
 
       let statusLabel = "Pending";
       let statusColor = "default";
@@ -350,6 +700,9 @@ export const InterviewerView = () => {
       } else if (selectedDetail.stage === "completed") {
         statusLabel = "Unanswered";
         statusColor = "magenta";
+      } else if (isCurrent && pendingFollowUp) {
+        statusLabel = `Follow-up ${pendingFollowUp.thread.length + 1}`;
+        statusColor = "purple";
       } else if (isCurrent && selectedDetail.stage === "questioning") {
         statusLabel = "In progress";
         statusColor = "processing";
@@ -363,12 +716,100 @@ export const InterviewerView = () => {
         statusLabel,
         statusColor,
         aiScore: typeof answer?.aiScore === "number" ? answer.aiScore : null,
+        effectiveScore: getEffectiveAnswerScore(answer),
+        scoreOverride: answer?.scoreOverride,
         elapsedSeconds: typeof answer?.elapsedSeconds === "number" ? answer.elapsedSeconds : null,
-        aiFeedback: answer?.aiFeedback
+        aiFeedback: answer?.aiFeedback,
+        rubric: question.rubric,
+        criterionScores: answer?.criterionScores,
+        followUps: answer?.followUps ?? pendingFollowUp?.thread,
+        resumeExcerpt: question.resumeExcerpt,
+        resumeExcerptVerified: question.resumeExcerptVerified,
+        telemetry: answer?.telemetry,
+        replays: buildAnswerReplays(answer)
       } satisfies QuestionRow;
     });
   }, [selectedDetail]);
 
+  const reviewerName = useAppSelector(selectReviewerName);
+  const [overrideTarget, setOverrideTarget] = useState<ScoreOverrideTarget | null>(null);
+  const canOverrideScores = Boolean(selectedDetail?.isArchived);
+
+  const overrideAnswer =
+    overrideTarget?.type === "answer" && selectedDetail ? selectedDetail.answers[overrideTarget.questionId] : undefined;
+
+  const handleOverrideSubmit = useCallback(
+    async (values: ScoreOverrideSubmission) => {
+      if (!selectedDetail || !overrideTarget) {
+        return;
+      }
+      dispatch(setReviewerName(values.reviewer));
+      const change =
+        overrideTarget.type === "answer"
+          ? overrideAnswerScore({
+              candidateId: selectedDetail.id,
+              questionId: overrideTarget.questionId,
+              score: values.score,
+              reason: values.reason,
+              reviewer: values.reviewer
+            })
+          : overrideFinalScore({
+              candidateId: selectedDetail.id,
+              score: values.score,
+              reason: values.reason,
+              reviewer: values.reviewer
+            });
+      setOverrideTarget(null);
+      try {
+        await dispatch(applyCandidateChange(change)).unwrap();
+        message.success("Score override saved.");
+      } catch {
+        // applyCandidateChange already reported the problem.
+      }
+    },
+    [dispatch, overrideTarget, selectedDetail]
+  );
+
+  const handleOverrideClear = useCallback(
+    async (values: Omit<ScoreOverrideSubmission, "score">) => {
+      if (!selectedDetail || !overrideTarget) {
+        return;
+      }
+      dispatch(setReviewerName(values.reviewer));
+      const change =
+        overrideTarget.type === "answer"
+          ? clearAnswerScoreOverride({
+              candidateId: selectedDetail.id,
+              questionId: overrideTarget.questionId,
+              reason: values.reason,
+              reviewer: values.reviewer
+            })
+          : clearFinalScoreOverride({ candidateId: selectedDetail.id, ...values });
+      setOverrideTarget(null);
+      try {
+        await dispatch(applyCandidateChange(change)).unwrap();
+        message.success("AI score restored.");
+      } catch {
+        // applyCandidateChange already reported the problem.
+      }
+    },
+    [dispatch, overrideTarget, selectedDetail]
+  );
+
+  const handleTagsChange = useCallback(
+    async (tags: string[]) => {
+      if (!selectedDetail) {
+        return;
+      }
+      try {
+        await dispatch(applyCandidateChange(setCandidateTags({ candidateId: selectedDetail.id, tags }))).unwrap();
+      } catch {
+        // applyCandidateChange already reported the problem.
+      }
+    },
+    [dispatch, selectedDetail]
+  );
+
   const questionColumns: TableProps<QuestionRow>["columns"] = useMemo(
     () => [
       {
@@ -381,10 +822,23 @@ export const InterviewerView = () => {
         title: "Prompt",
         dataIndex: "prompt",
         className: styles.promptColumn,
-        render: (value: string) => (
-          <Text ellipsis={{ tooltip: value }} className={styles.promptText}>
-            {value}
-          </Text>
+        render: (value: string, record: QuestionRow) => (
+          <Space size={4}>
+            {record.resumeExcerpt && (
+              <Tooltip
+                title={
+                  record.resumeExcerptVerified
+                    ? "Built from the candidate's resume."
+                    : "The quoted resume passage wasn't found in the resume. Check before relying on it."
+                }
+              >
+                <Tag color={record.resumeExcerptVerified ? "cyan" : "warning"}>Resume</Tag>
+              </Tooltip>
+            )}
+            <Text ellipsis={{ tooltip: value }} className={styles.promptText}>
+              {value}
+            </Text>
+          </Space>
         )
       },
       {
@@ -404,12 +858,31 @@ export const InterviewerView = () => {
         )
       },
       {
-        title: "AI Score",
-        dataIndex: "aiScore",
-        width: 120,
+        title: "Score",
+        dataIndex: "effectiveScore",
+        width: 150,
         align: "center" as const,
-        render: (value: number | null) =>
-          value !== null ? <Text strong>{value.toFixed(1)}</Text> : <Text type="secondary">—</Text>
+        render: (value: number | null, record: QuestionRow) => (
+          <Space size={4}>
+            {value !== null ? <Text strong>{value.toFixed(1)}</Text> : <Text type="secondary">—</Text>}
+            {record.scoreOverride && (
+              <Tooltip
+                title={`AI scored ${record.aiScore?.toFixed(1) ?? "—"}. ${record.scoreOverride.reviewer}: ${record.scoreOverride.reason}`}
+              >
+                <Tag color="gold">Reviewed</Tag>
+              </Tooltip>
+            )}
+            {canOverrideScores && record.aiScore !== null && (
+              <Button
+                size="small"
+                type="text"
+                icon={<EditOutlined />}
+                aria-label={`Override score for question ${record.questionNumber}`}
+                onClick={() => setOverrideTarget({ type: "answer", questionId: record.key })}
+              />
+            )}
+          </Space>
+        )
       },
       {
         title: "Elapsed",
@@ -417,9 +890,16 @@ export const InterviewerView = () => {
         width: 120,
         align: "center" as const,
         render: (value: number | null) => <Text type="secondary">{formatSeconds(value)}</Text>
+      },
+      {
+        title: "Integrity",
+        dataIndex: "telemetry",
+        width: 120,
+        align: "center" as const,
+        render: (value: AnswerTelemetry | undefined) => <AnswerIntegrityTag telemetry={value} />
       }
     ],
-    []
+    [canOverrideScores]
   );
 
   const handleViewResume = useCallback(async (resume?: ResumeFileMeta | null) => {
@@ -445,50 +925,357 @@ export const InterviewerView = () => {
     }
   }, []);
 
+  const selectedIntegrity =
+    integrityCheck && integrityCheck.candidateId === selectedDetail?.id ? integrityCheck.verification : null;
+  const chatIssueById = useMemo(
+    () =>
+      new Map(
+        (selectedIntegrity?.issues ?? [])
+          .filter((issue) => issue.kind === "chat" && issue.entryId)
+          .map((issue) => [issue.entryId, issue.problem])
+      ),
+    [selectedIntegrity]
+  );
+
+  const handleVerifyTranscript = useCallback(async () => {
+    if (!selectedDetail) {
+      return;
+    }
+    setIsVerifyingTranscript(true);
+    try {
+      const verification = await verifyTranscriptChain(selectedDetail.transcriptChain, {
+        chat: selectedDetail.chat,
+        answers: Object.values(selectedDetail.answers),
+        questions: selectedDetail.questions
+      });
+      setIntegrityCheck({ candidateId: selectedDetail.id, verification });
+    } catch (error) {
+      console.error("Transcript verification failed", error);
+      message.error("Unable to verify this transcript in this browser.");
+    } finally {
+      setIsVerifyingTranscript(false);
+    }
+  }, [selectedDetail]);
+
+  const handleExportReport = useCallback(
+    (format: CandidateReportFormat) => {
+      const record = selectedDetail?.isArchived ? loadedRecords[selectedDetail.id] : undefined;
+      if (!record) {
+        message.info("Reports are available once the interview is complete.");
+        return;
+      }
+
+      try {
+        const { content, mimeType } = getCandidateReportContent(record, format);
+        downloadFile(getCandidateReportFileName(record, format), content, mimeType);
+      } catch (error) {
+        console.error("Failed to export candidate report", error);
+        message.error("Unable to export the report right now.");
+      }
+    },
+    [loadedRecords, selectedDetail]
+  );
+
+  const handleExportCandidateList = useCallback(async () => {
+    const ids = displayedCandidates.filter((option) => option.isArchived).map((option) => option.id);
+    if (!ids.length) {
+      message.info("There are no completed interviews in this list to export.");
+      return;
+    }
+    try {
+      const csv = await dispatch(exportCandidateList(ids)).unwrap();
+      downloadFile(`candidates-${dayjs().format("YYYYMMDD-HHmm")}.csv`, csv, "text/csv");
+    } catch {
+      // exportCandidateList already reported the problem.
+    }
+  }, [dispatch, displayedCandidates]);
+
   return (
     <div className={styles.wrapper}>
       <div className={styles.splitLayout}>
         <div className={styles.leftPanel}>
+          <Card title="Interview template" className={styles.fullWidthCard}>
+            <Space direction="vertical" size="small" style={{ width: "100%" }}>
+              <Select
+                aria-label="Interview template"
+                style={{ width: "100%" }}
+                value={selectedTemplate.id}
+                options={TEMPLATE_OPTIONS}
+                onChange={(value: string) => dispatch(selectInterviewTemplate(value))}
+              />
+              <Text type="secondary">{selectedTemplate.description}</Text>
+              <div className={styles.templateTopics}>
+                {selectedTemplate.topics.map((topic) => (
+                  <Tag key={topic}>{topic}</Tag>
+                ))}
+              </div>
+              {lockedTemplate && (
+                <Text type="secondary">
+                  The current interview is running with "{lockedTemplate.name}". Your pick applies to the next
+                  candidate.
+                </Text>
+              )}
+              <div className={styles.adaptiveControls}>
+                <Space>
+                  <Switch
+                    aria-label="Adaptive difficulty"
+                    checked={adaptiveSettings.enabled}
+                    onChange={(enabled) => dispatch(updateAdaptiveSettings({ enabled }))}
+                  />
+                  <Text>Adaptive difficulty</Text>
+                </Space>
+                {adaptiveSettings.enabled && (
+                  <Space wrap>
+                    <Select
+                      aria-label="Lowest difficulty"
+                      value={adaptiveSettings.minDifficulty}
+                      options={DIFFICULTY_OPTIONS.filter(
+                        (option) =>
+                          DIFFICULTY_LADDER.indexOf(option.value) <=
+                          DIFFICULTY_LADDER.indexOf(adaptiveSettings.maxDifficulty)
+                      )}
+                      onChange={(minDifficulty: QuestionDifficulty) =>
+                        dispatch(updateAdaptiveSettings({ minDifficulty }))
+                      }
+                    />
+                    <Text type="secondary">to</Text>
+                    <Select
+                      aria-label="Highest difficulty"
+                      value={adaptiveSettings.maxDifficulty}
+                      options={DIFFICULTY_OPTIONS.filter(
+                        (option) =>
+                          DIFFICULTY_LADDER.indexOf(option.value) >=
+                          DIFFICULTY_LADDER.indexOf(adaptiveSettings.minDifficulty)
+                      )}
+                      onChange={(maxDifficulty: QuestionDifficulty) =>
+                        dispatch(updateAdaptiveSettings({ maxDifficulty }))
+                      }
+                    />
+                  </Space>
+                )}
+                <Text type="secondary">
+                  {adaptiveSettings.enabled
+                    ? "Each question's difficulty follows the candidate's running score. Applies to interviews started from now on."
+                    : "Questions follow the template's fixed difficulty pattern."}
+                </Text>
+              </div>
+              <div className={styles.adaptiveControls}>
+                <Space>
+                  <Switch
+                    aria-label="Follow-up questions"
+                    checked={followUpSettings.enabled}
+                    onChange={(enabled) => dispatch(updateFollowUpSettings({ enabled }))}
+                  />
+                  <Text>Follow-up questions</Text>
+                </Space>
+                {followUpSettings.enabled && (
+                  <Space wrap>
+                    <Text type="secondary">Up to</Text>
+                    <InputNumber
+                      aria-label="Maximum follow-ups per question"
+                      min={1}
+                      max={MAX_FOLLOW_UPS}
+                      value={followUpSettings.maxFollowUps}
+                      onChange={(value) =>
+                        typeof value === "number" && dispatch(updateFollowUpSettings({ maxFollowUps: value }))
+                      }
+                    />
+                    <Text type="secondary">per question,</Text>
+                    <InputNumber
+                      aria-label="Follow-up time limit in seconds"
+                      min={10}
+                      step={5}
+                      value={followUpSettings.timeLimitSeconds}
+                      addonAfter="sec"
+                      onChange={(value) =>
+                        typeof value === "number" && dispatch(updateFollowUpSettings({ timeLimitSeconds: value }))
+                      }
+                    />
+                    <Text type="secondary">each</Text>
+                  </Space>
+                )}
+                <Text type="secondary">
+                  {followUpSettings.enabled
+                    ? "Vague or partial answers get short clarifying questions, scored together with the original answer."
+                    : "Each question gets a single answer."}
+                </Text>
+              </div>
+              <div className={styles.adaptiveControls}>
+                <Space>
+                  <Switch
+                    aria-label="Allow pausing"
+                    checked={pauseSettings.allowed}
+                    onChange={(allowed) => dispatch(updatePauseSettings({ allowed }))}
+                  />
+                  <Text>Allow pausing</Text>
+                </Space>
+                {pauseSettings.allowed && (
+                  <Space wrap>
+                    <Text type="secondary">Up to</Text>
+                    <InputNumber
+                      aria-label="Maximum pauses per interview"
+                      min={1}
+                      max={MAX_PAUSES}
+                      value={pauseSettings.maxPauses}
+                      onChange={(value) =>
+                        typeof value === "number" && dispatch(updatePauseSettings({ maxPauses: value }))
+                      }
+                    />
+                    <Text type="secondary">pauses, at most</Text>
+                    <InputNumber
+                      aria-label="Total pause time in seconds"
+                      min={MIN_PAUSE_BUDGET_SECONDS}
+                      step={30}
+                      value={pauseSettings.maxTotalPauseSeconds}
+                      addonAfter="sec"
+                      onChange={(value) =>
+                        typeof value === "number" &&
+                        dispatch(updatePauseSettings({ maxTotalPauseSeconds: value }))
+                      }
+                    />
+                    <Text type="secondary">in total</Text>
+                  </Space>
+                )}
+                <Text type="secondary">
+                  {pauseSettings.allowed
+                    ? "Candidates can pause mid-question; the question timer freezes until they resume or the pause time runs out."
+                    : "The question timer keeps running until the interview ends."}
+                </Text>
+              </div>
+              <div className={styles.adaptiveControls}>
+                <Text>Resume grounding</Text>
+                <Select
+                  aria-label="Resume grounding"
+                  value={resumeGrounding}
+                  options={RESUME_GROUNDING_OPTIONS}
+                  onChange={(mode: ResumeGroundingMode) =>
+                    dispatch(setTemplateResumeGrounding({ templateId: selectedTemplate.id, mode }))
+                  }
+                />
+                <Text type="secondary">
+                  {resumeGrounding === "off"
+                    ? "AI questions ignore the resume, so every candidate on this template gets comparable questions."
+                    : "AI questions for this template draw on the candidate's projects and technologies. Each one quotes the resume passage it came from."}
+                </Text>
+              </div>
+            </Space>
+          </Card>
           <Card title="Recent candidates" className={styles.fullWidthCard}>
             <div className={styles.candidateControls}>
               <Input
                 id="candidate-search-input"
-                placeholder="Search by name..."
+                placeholder="Search names, answers and feedback..."
                 allowClear
-                aria-label="Search candidates by name"
-                value={searchTerm}
-                onChange={(event) => setSearchTerm(event.target.value)}
+                aria-label="Search candidates"
+                value={searchQuery}
+                onChange={(event) => dispatch(setSearchQuery(event.target.value))}
               />
               <div className={styles.sortRow}>
-                <label className={styles.selectControl} htmlFor="candidate-sort-by">
-                  <span className={styles.controlLabel}>Sort by</span>
-                  <select
-                    id="candidate-sort-by"
-                    aria-label="Sort candidates by"
-                    value={sortBy}
-                    onChange={(event) => setSortBy(event.target.value as "time" | "score")}
+                {sortRules.map((rule, position) => {
+                  const isPrimary = position === 0;
+                  const keyId = isPrimary ? "candidate-sort-by" : `candidate-sort-by-${position + 1}`;
+                  const directionId = isPrimary ? "candidate-sort-order" : `candidate-sort-order-${position + 1}`;
+                  return (
+                    <div key={position} className={styles.sortRule}>
+                      <label className={styles.selectControl} htmlFor={keyId}>
+                        <span className={styles.controlLabel}>{isPrimary ? "Sort by" : "Then by"}</span>
+                        <select
+                          id={keyId}
+                          aria-label={isPrimary ? "Sort candidates by" : `Then sort candidates by (${position + 1})`}
+                          value={rule.key}
+                          onChange={(event) =>
+                            dispatch(
+                              setSortRule({ position, rule: { ...rule, key: event.target.value as CandidateSortKey } })
+                            )
+                          }
+                        >
+                          {SORT_KEY_OPTIONS.map(([key, label]) => (
+                            <option key={key} value={key}>
+                              {label}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                      <label className={styles.selectControl} htmlFor={directionId}>
+                        <span className={styles.controlLabel}>Order</span>
+                        <select
+                          id={directionId}
+                          aria-label={isPrimary ? "Sort order" : `Then sort order (${position + 1})`}
+                          value={rule.direction}
+                          onChange={(event) =>
+                            dispatch(
+                              setSortRule({
+                                position,
+                                rule: { ...rule, direction: event.target.value as CandidateSortDirection }
+                              })
+                            )
+                          }
+                        >
+                          <option value="asc">Ascending</option>
+                          <option value="desc">Descending</option>
+                        </select>
+                      </label>
+                      {!isPrimary && (
+                        <Button
+                          size="small"
+                          type="text"
+                          aria-label={`Remove sort level ${position + 1}`}
+                          icon={<CloseOutlined />}
+                          onClick={() => dispatch(removeSortRule(position))}
+                        />
+                      )}
+                    </div>
+                  );
+                })}
+                {sortRules.length < MAX_SORT_RULES && (
+                  <Button
+                    size="small"
+                    onClick={() => {
+                      const unused = SORT_KEY_OPTIONS.find(([key]) => !sortRules.some((rule) => rule.key === key));
+                      if (unused) {
+                        dispatch(
+                          setSortRule({ position: sortRules.length, rule: { key: unused[0], direction: "desc" } })
+                        );
+                      }
+                    }}
                   >
-                    <option value="time">Submission Time</option>
-                    <option value="score">Score</option>
-                  </select>
-                </label>
-                <label className={styles.selectControl} htmlFor="candidate-sort-order">
-                  <span className={styles.controlLabel}>Order</span>
-                  <select
-                    id="candidate-sort-order"
-                    aria-label="Sort order"
-                    value={sortOrder}
-                    onChange={(event) => setSortOrder(event.target.value as "asc" | "desc")}
+                    Add tie-breaker
+                  </Button>
+                )}
+                <Button
+                  icon={<FilterOutlined />}
+                  type={activeFilterCount > 0 ? "primary" : "default"}
+                  aria-expanded={isFilterPanelOpen}
+                  onClick={() => setIsFilterPanelOpen((open) => !open)}
+                >
+                  {activeFilterCount > 0 ? `Filters (${activeFilterCount})` : "Filters"}
+                </Button>
+                <Tooltip
+                  title={
+                    activeComparedIds.length < MIN_COMPARED_CANDIDATES
+                      ? `Tick "Compare" on ${MIN_COMPARED_CANDIDATES} to ${MAX_COMPARED_CANDIDATES} completed interviews.`
+                      : undefined
+                  }
+                >
+                  <Button
+                    icon={<DiffOutlined />}
+                    disabled={activeComparedIds.length < MIN_COMPARED_CANDIDATES}
+                    onClick={() => setIsComparisonOpen(true)}
                   >
-                    <option value="asc">Ascending</option>
-                    <option value="desc">Descending</option>
-                  </select>
-                </label>
+                    {`Compare (${activeComparedIds.length})`}
+                  </Button>
+                </Tooltip>
+                <Button icon={<DownloadOutlined />} onClick={() => void handleExportCandidateList()}>
+                  Export list
+                </Button>
               </div>
+              {isFilterPanelOpen && (
+                <CandidateFilterPanel stageOptions={STAGE_OPTIONS} roleOptions={roleOptions} tagOptions={tagOptions} />
+              )}
             </div>
             {displayedCandidates.length > 0 ? (
               <div className={styles.candidateList}>
-                {displayedCandidates.map((candidate) => {
+                {pagedCandidates.map((candidate) => {
                   const stageInfo = STAGE_DETAILS[candidate.stage];
                   const isSelected = candidate.id === selectedCandidateId;
 
@@ -511,11 +1298,32 @@ export const InterviewerView = () => {
                         <div className={styles.listItemTitle}>
                           <Text strong>{candidate.name}</Text>
                           {stageInfo && <Tag color={stageInfo.color}>{stageInfo.label}</Tag>}
+                          {candidate.decision && (
+                            <Tag color={HIRING_DECISION_DETAILS[candidate.decision].color}>
+                              {HIRING_DECISION_DETAILS[candidate.decision].label}
+                            </Tag>
+                          )}
                           {candidate.isLive && candidate.stage !== "completed" && <Tag color="processing">Live</Tag>}
                         </div>
-                        {typeof candidate.score === "number" && (
-                          <Tag color="purple">{candidate.score.toFixed(1)}/10</Tag>
-                        )}
+                        <div className={styles.listItemActions}>
+                          {candidate.isArchived && (
+                            <Checkbox
+                              checked={activeComparedIds.includes(candidate.id)}
+                              disabled={
+                                !activeComparedIds.includes(candidate.id) &&
+                                activeComparedIds.length >= MAX_COMPARED_CANDIDATES
+                              }
+                              onClick={(event) => event.stopPropagation()}
+                              onKeyDown={(event) => event.stopPropagation()}
+                              onChange={(event) => toggleCompared(candidate.id, event.target.checked)}
+                            >
+                              Compare
+                            </Checkbox>
+                          )}
+                          {typeof candidate.score === "number" && (
+                            <Tag color="purple">{candidate.score.toFixed(1)}/10</Tag>
+                          )}
+                        </div>
                       </div>
                       <div className={styles.listItemBody}>
                         <Text type="secondary">{candidate.role}</Text>
@@ -530,12 +1338,52 @@ export const InterviewerView = () => {
                     </div>
                   );
                 })}
+                {displayedCandidates.length > CANDIDATE_PAGE_SIZES[0] && (
+                  <Pagination
+                    className={styles.candidatePagination}
+                    size="small"
+                    current={candidatePage}
+                    pageSize={pageSize}
+                    pageSizeOptions={CANDIDATE_PAGE_SIZES}
+                    showSizeChanger
+                    total={displayedCandidates.length}
+                    onChange={(page, nextPageSize) => {
+                      if (nextPageSize !== pageSize) {
+                        dispatch(setCandidatePageSize(nextPageSize));
+                        return;
+                      }
+                      setCandidatePage(page);
+                    }}
+                  />
+                )}
               </div>
             ) : candidateOptions.length > 0 ? (
               <Empty description="No candidates match your search." />
             ) : (
               <Empty description="Interviews you complete will show up here." />
             )}
+            <Modal
+              title="Compare candidates"
+              open={isComparisonOpen}
+              width={1200}
+              footer={null}
+              onCancel={() => setIsComparisonOpen(false)}
+              destroyOnClose
+            >
+              {failedComparedIds.length > 0 ? (
+                <Alert
+                  type="error"
+                  showIcon
+                  message="Some of these interview records couldn't be loaded from the browser archive."
+                />
+              ) : comparedRecords.length < activeComparedIds.length ? (
+                <Spin tip="Loading interview records...">
+                  <div className={styles.comparisonLoading} />
+                </Spin>
+              ) : (
+                <CandidateComparison records={comparedRecords} />
+              )}
+            </Modal>
           </Card>
         </div>
 
@@ -584,6 +1432,16 @@ export const InterviewerView = () => {
                   >
                     View resume
                   </Button>
+                  {selectedDetail.isArchived && (
+                    <Dropdown
+                      menu={{
+                        items: REPORT_EXPORT_OPTIONS,
+                        onClick: ({ key }) => handleExportReport(key as CandidateReportFormat)
+                      }}
+                    >
+                      <Button icon={<DownloadOutlined />}>Export report</Button>
+                    </Dropdown>
+                  )}
                 </div>
                 <Progress
                   percent={progressPercent}
@@ -612,17 +1470,80 @@ export const InterviewerView = () => {
                   <Descriptions.Item label="Phone">
                     {selectedDetail.profile.phone ?? <Text type="secondary">Not provided</Text>}
                   </Descriptions.Item>
+                  <Descriptions.Item label="Template">
+                    {getInterviewTemplate(selectedDetail.templateId).name}
+                  </Descriptions.Item>
                   <Descriptions.Item label="Stage">
                     {selectedStageDetails?.label ?? "—"}
                   </Descriptions.Item>
+                  {selectedOption?.isArchived && (
+                    <Descriptions.Item label="Tags">
+                      <Select
+                        mode="tags"
+                        aria-label="Candidate tags"
+                        placeholder="Add tags"
+                        style={{ minWidth: 200 }}
+                        value={selectedDetail.tags}
+                        options={tagOptions.map((tag) => ({ value: tag, label: tag }))}
+                        onChange={handleTagsChange}
+                      />
+                    </Descriptions.Item>
+                  )}
+                  {selectedDetail.pauses.length > 0 && (
+                    <Descriptions.Item label="Pauses">
+                      {selectedDetail.pauses.length} ·{" "}
+                      {formatPauseSeconds(
+                        selectedDetail.pauses.reduce((total, pause) => total + (pause.durationSeconds ?? 0), 0)
+                      )}{" "}
+                      total
+                    </Descriptions.Item>
+                  )}
                 </Descriptions>
+                {selectedDetail.pauses.length > 0 && (
+                  <ol className={styles.pauseLog}>
+                    {selectedDetail.pauses.map((pause) => {
+                      const questionIndex = selectedDetail.questions.findIndex(
+                        (question) => question.id === pause.questionId
+                      );
+                      return (
+                        <li key={pause.id}>
+                          <Text>
+                            {questionIndex >= 0 ? `Question ${questionIndex + 1}` : "Question"} · paused{" "}
+                            {dayjs(pause.pausedAt).format("h:mm:ss A")}
+                            {pause.durationSeconds !== null
+                              ? ` for ${formatPauseSeconds(pause.durationSeconds)}`
+                              : " (still paused)"}
+                          </Text>
+                          <Text type="secondary">
+                            {" "}
+                            · {formatPauseSeconds(pause.remainingSecondsAtPause)} left on the timer
+                            {pause.endedBy === "budget" ? " · resumed when pause time ran out" : ""}
+                          </Text>
+                        </li>
+                      );
+                    })}
+                  </ol>
+                )}
+                {selectedDetail.profile.structured && (
+                  <ResumeInsights structured={selectedDetail.profile.structured} />
+                )}
               </Space>
             ) : (
-              <Empty description="Select a candidate to view their details." />
+              <Empty description={recordStatusHint ?? "Select a candidate to view their details."} />
             )}
           </Card>
 
           <Card title="Question progress" className={styles.fullWidthCard}>
+            {selectedDetail?.adaptive && selectedDetail.adaptive.path.length > 0 && (
+              <div className={styles.adaptiveSection}>
+                <Text strong>Difficulty path</Text>
+                <AdaptivePathTimeline
+                  adaptive={selectedDetail.adaptive}
+                  questions={selectedDetail.questions}
+                  answers={selectedDetail.answers}
+                />
+              </div>
+            )}
             {selectedDetail && questionRows.length > 0 ? (
               <Table<QuestionRow>
                 size="small"
@@ -631,13 +1552,74 @@ export const InterviewerView = () => {
                 dataSource={questionRows}
                 rowKey={(row) => row.key}
                 expandable={{
-                  rowExpandable: (record) => Boolean(record.aiFeedback),
+                  rowExpandable: (record) =>
+                    Boolean(
+                      record.aiFeedback ||
+                        record.resumeExcerpt ||
+                        record.rubric?.length ||
+                        record.criterionScores?.length ||
+                        record.followUps?.length ||
+                        record.replays.length
+                    ),
                   expandedRowRender: (record) => (
                     <div className={styles.feedbackRow}>
-                      <Text strong>AI feedback</Text>
-                      <Paragraph type="secondary" style={{ marginTop: 4 }}>
-                        {record.aiFeedback}
-                      </Paragraph>
+                      {record.resumeExcerpt && (
+                        <div className={styles.resumeExcerpt}>
+                          <Space size={8}>
+                            <Text strong>From the resume</Text>
+                            {record.resumeExcerptVerified ? (
+                              <Tag color="cyan">Found in resume</Tag>
+                            ) : (
+                              <Tag color="warning">Not found in resume</Tag>
+                            )}
+                          </Space>
+                          <blockquote>{record.resumeExcerpt}</blockquote>
+                        </div>
+                      )}
+                      {record.followUps?.length ? (
+                        <div className={styles.followUpSection}>
+                          <Text strong>Follow-up thread</Text>
+                          <ol className={styles.followUpList}>
+                            {record.followUps.map((exchange) => (
+                              <li key={exchange.id}>
+                                <Text>{exchange.prompt}</Text>
+                                <div>
+                                  <Text type="secondary">
+                                    {exchange.answer || "(No response)"}
+                                    {exchange.autoSubmitted ? " · auto-submitted" : ""} ·{" "}
+                                    {formatSeconds(exchange.elapsedSeconds)}
+                                  </Text>
+                                </div>
+                                <div>
+                                  <Text type="secondary" italic>
+                                    Asked because: {exchange.reason}
+                                  </Text>
+                                </div>
+                              </li>
+                            ))}
+                          </ol>
+                        </div>
+                      ) : null}
+                      {record.replays.length ? (
+                        <div className={styles.followUpSection}>
+                          <Text strong>Answer replay</Text>
+                          <AnswerReplay recordings={record.replays} />
+                        </div>
+                      ) : null}
+                      {record.aiFeedback && (
+                        <>
+                          <Text strong>AI feedback</Text>
+                          <Paragraph type="secondary" style={{ marginTop: 4 }}>
+                            {record.aiFeedback}
+                          </Paragraph>
+                        </>
+                      )}
+                      {(record.rubric?.length || record.criterionScores?.length) ? (
+                        <div className={styles.criterionSection}>
+                          <Text strong>Rubric breakdown</Text>
+                          <CriterionBreakdown rubric={record.rubric} scores={record.criterionScores} />
+                        </div>
+                      ) : null}
                     </div>
                   )
                 }}
@@ -648,13 +1630,34 @@ export const InterviewerView = () => {
                 description={
                   selectedDetail
                     ? "No questions available yet."
-                    : "Select a candidate to view question progress."
+                    : recordStatusHint ?? "Select a candidate to view question progress."
                 }
               />
             )}
           </Card>
 
-          <Card title="Conversation transcript" className={styles.fullWidthCard}>
+          <Card
+            title="Conversation transcript"
+            className={styles.fullWidthCard}
+            extra={
+              selectedDetail && (
+                <Button
+                  icon={<SafetyCertificateOutlined />}
+                  loading={isVerifyingTranscript}
+                  onClick={() => void handleVerifyTranscript()}
+                >
+                  Verify integrity
+                </Button>
+              )
+            }
+          >
+            {selectedDetail && selectedIntegrity && (
+              <TranscriptIntegrity
+                verification={selectedIntegrity}
+                chat={selectedDetail.chat}
+                questions={selectedDetail.questions}
+              />
+            )}
             {selectedDetail && transcript.length > 0 ? (
               <div className={styles.chatList}>
                 {transcript.map((message) => {
@@ -663,6 +1666,7 @@ export const InterviewerView = () => {
                     typeof message.metadata?.score === "number"
                       ? message.metadata.score
                       : null;
+                  const integrityProblem = chatIssueById.get(message.id);
                   const itemClass = [styles.chatItem];
                   if (message.sender === "assistant") {
                     itemClass.push(styles.chatAssistant);
@@ -671,6 +1675,9 @@ export const InterviewerView = () => {
                   } else {
                     itemClass.push(styles.chatSystem);
                   }
+                  if (integrityProblem) {
+                    itemClass.push(styles.chatTampered);
+                  }
 
                   return (
                     <div key={message.id} className={itemClass.join(" ")}>
@@ -680,6 +1687,7 @@ export const InterviewerView = () => {
                       </div>
                       <div className={styles.chatBody}>{message.body}</div>
                       {score !== null && <Tag color="purple">Score {score.toFixed(1)}</Tag>}
+                      {integrityProblem && <Tag color="red">{TRANSCRIPT_PROBLEM_LABELS[integrityProblem]}</Tag>}
                     </div>
                   );
                 })}
@@ -689,7 +1697,7 @@ export const InterviewerView = () => {
                 description={
                   selectedDetail
                     ? "Conversation will appear here once messages arrive."
-                    : "Select a candidate to view the transcript."
+                    : recordStatusHint ?? "Select a candidate to view the transcript."
                 }
               />
             )}
@@ -710,11 +1718,27 @@ export const InterviewerView = () => {
                     </div>
                     <div className={styles.scorePill}>
                       <span className={styles.scoreValue}>
-                        {selectedDetail.summary.finalScore.toFixed(1)}
+                        {(selectedDetail.finalScore ?? selectedDetail.summary.finalScore).toFixed(1)}
                       </span>
                       <Text type="secondary">/10</Text>
                     </div>
                   </div>
+                  {(selectedDetail.finalScoreOverride || canOverrideScores) && (
+                    <div className={styles.infoActions}>
+                      {selectedDetail.finalScoreOverride && (
+                        <Text type="secondary">
+                          Overridden by {selectedDetail.finalScoreOverride.reviewer} (AI score{" "}
+                          {selectedDetail.aiFinalScore?.toFixed(1) ?? "—"}):{" "}
+                          {selectedDetail.finalScoreOverride.reason}
+                        </Text>
+                      )}
+                      {canOverrideScores && (
+                        <Button icon={<EditOutlined />} onClick={() => setOverrideTarget({ type: "final" })}>
+                          Override final score
+                        </Button>
+                      )}
+                    </div>
+                  )}
                   <Paragraph>{selectedDetail.summary.summaryText}</Paragraph>
                   <span className={styles.dividerText}>Strengths</span>
                   <ul className={styles.strengthsList}>
@@ -732,6 +1756,26 @@ export const InterviewerView = () => {
                       <li>No improvement notes recorded.</li>
                     )}
                   </ul>
+                  {selectedDetail.scoreAuditLog.length > 0 && (
+                    <>
+                      <span className={styles.dividerText}>Score audit trail</span>
+                      <ul className={styles.auditList}>
+                        {[...selectedDetail.scoreAuditLog].reverse().map((entry) => (
+                          <li key={entry.id}>
+                            <Text strong>{describeAuditTarget(entry, selectedDetail.questions)}</Text>{" "}
+                            <Text>
+                              {entry.action === "clear" ? "restored to AI score" : "overridden"}:{" "}
+                              {formatScore(entry.previousScore)} → {formatScore(entry.nextScore)}
+                            </Text>{" "}
+                            <Text type="secondary">
+                              (AI {formatScore(entry.aiScore)}) by {entry.reviewer},{" "}
+                              {dayjs(entry.changedAt).format("MMM D, h:mm A")}: {entry.reason}
+                            </Text>
+                          </li>
+                        ))}
+                      </ul>
+                    </>
+                  )}
                 </div>
               ) : selectedDetail.stage === "completed" ? (
                 <Empty description="No AI summary was generated for this candidate." />
@@ -739,9 +1783,47 @@ export const InterviewerView = () => {
                 <Empty description="Summary will be available once the interview wraps up." />
               )
             ) : (
-              <Empty description="Select a candidate to view their summary." />
+              <Empty description={recordStatusHint ?? "Select a candidate to view their summary."} />
             )}
           </Card>
+
+          <HiringDecisionCard
+            record={selectedOption?.isArchived ? loadedRecords[selectedOption.id] ?? null : null}
+            emptyHint={
+              selectedOption && !selectedOption.isArchived
+                ? "Decisions can be recorded once the interview is complete."
+                : recordStatusHint ?? "Select a completed interview to record a hiring decision."
+            }
+          />
+
+          <InterviewQueue />
+
+          <QuestionBankEditor />
+
+          <ArchiveTransfer />
+
+          <ScoreOverrideModal
+            open={overrideTarget !== null}
+            title={
+              overrideTarget?.type === "answer"
+                ? "Override answer score"
+                : "Override final score"
+            }
+            aiScore={
+              overrideTarget?.type === "answer"
+                ? overrideAnswer?.aiScore ?? null
+                : selectedDetail?.aiFinalScore ?? null
+            }
+            currentOverride={
+              overrideTarget?.type === "answer"
+                ? overrideAnswer?.scoreOverride
+                : selectedDetail?.finalScoreOverride ?? undefined
+            }
+            defaultReviewer={reviewerName}
+            onSubmit={handleOverrideSubmit}
+            onClear={handleOverrideClear}
+            onCancel={() => setOverrideTarget(null)}
+          />
         </div>
       </div>
     </div>
@@ -0,0 +1,390 @@
+import {
+  Button,
+  Card,
+  Empty,
+  Form,
+  Input,
+  InputNumber,
+  Modal,
+  Popconfirm,
+  Select,
+  Space,
+  Table,
+  Tag,
+  Typography,
+  Upload,
+  message
+} from "antd";
+import type { TableProps, UploadProps } from "antd";
+import {
+  DeleteOutlined,
+  DownloadOutlined,
+  EditOutlined,
+  MinusCircleOutlined,
+  PlusOutlined,
+  UploadOutlined
+} from "@ant-design/icons";
+import { nanoid } from "@reduxjs/toolkit";
+import dayjs from "dayjs";
+import { useCallback, useMemo, useState } from "react";
+import { useAppDispatch, useAppSelector } from "../../store/hooks";
+import { selectQuestionBankItems, selectQuestionSourceMode } from "../../store/selectors";
+import {
+  importBankQuestions,
+  removeBankQuestion,
+  setQuestionSourceMode,
+  upsertBankQuestion
+} from "../../store/slices/questionBankSlice";
+import type { QuestionBankImportMode } from "../../store/slices/questionBankSlice";
+import type {
+  QuestionBankItem,
+  QuestionDifficulty,
+  QuestionSourceMode,
+  RubricCriterion
+} from "../../types/interview";
+import {
+  parseQuestionBankFile,
+  serializeQuestionBankCsv,
+  serializeQuestionBankJson
+} from "../../utils/questionBankTransfer";
+import { downloadFile } from "../../utils/download";
+import styles from "./InterviewerView.module.css";
+
+const { Text } = Typography;
+
+const DIFFICULTY_COLORS: Record<QuestionDifficulty, string> = {
+  easy: "green",
+  medium: "geekblue",
+  hard: "magenta"
+};
+
+const SOURCE_MODE_OPTIONS: Array<{ value: QuestionSourceMode; label: string }> = [
+  { value: "ai", label: "AI generated" },
+  { value: "bank", label: "Question bank only" },
+  { value: "mixed", label: "Mixed (bank + AI)" }
+];
+
+const DEFAULT_TIME_LIMITS: Record<QuestionDifficulty, number> = {
+  easy: 20,
+  medium: 60,
+  hard: 120
+};
+
+type BankFormValues = {
+  prompt: string;
+  category: string;
+  difficulty: QuestionDifficulty;
+  timeLimitSeconds: number;
+  tags: string[];
+  guidance?: string;
+  rubric?: Array<Partial<RubricCriterion>>;
+};
+
+export const QuestionBankEditor = () => {
+  const dispatch = useAppDispatch();
+  const items = useAppSelector(selectQuestionBankItems);
+  const sourceMode = useAppSelector(selectQuestionSourceMode);
+
+  const [form] = Form.useForm<BankFormValues>();
+  const [editingItem, setEditingItem] = useState<QuestionBankItem | null>(null);
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [importMode, setImportMode] = useState<QuestionBankImportMode>("merge");
+
+  const openEditor = useCallback(
+    (item: QuestionBankItem | null) => {
+      setEditingItem(item);
+      setIsEditorOpen(true);
+      form.setFieldsValue(
+        item
+          ? {
+              prompt: item.prompt,
+              category: item.category,
+              difficulty: item.difficulty,
+              timeLimitSeconds: item.timeLimitSeconds,
+              tags: item.tags,
+              guidance: item.guidance,
+              rubric: item.rubric
+            }
+          : {
+              prompt: "",
+              category: "",
+              difficulty: "medium",
+              timeLimitSeconds: DEFAULT_TIME_LIMITS.medium,
+              tags: [],
+              guidance: "",
+              rubric: []
+            }
+      );
+    },
+    [form]
+  );
+
+  const closeEditor = useCallback(() => {
+    setIsEditorOpen(false);
+    setEditingItem(null);
+    form.resetFields();
+  }, [form]);
+
+  const handleSave = useCallback(async () => {
+    const values = await form.validateFields();
+    const now = dayjs().toISOString();
+    const rubric: RubricCriterion[] = (values.rubric ?? [])
+      .filter((criterion) => criterion.label?.trim())
+      .map((criterion) => ({
+        id: criterion.id ?? nanoid(),
+        label: criterion.label!.trim(),
+        description: criterion.description?.trim() ?? "",
+        weight: criterion.weight && criterion.weight > 0 ? criterion.weight : 1
+      }));
+
+    dispatch(
+      upsertBankQuestion({
+        id: editingItem?.id ?? nanoid(),
+        prompt: values.prompt.trim(),
+        category: values.category.trim() || "general",
+        tags: values.tags ?? [],
+        difficulty: values.difficulty,
+        timeLimitSeconds: values.timeLimitSeconds,
+        guidance: values.guidance?.trim() ?? "",
+        rubric,
+        createdAt: editingItem?.createdAt ?? now,
+        updatedAt: now
+      })
+    );
+    message.success(editingItem ? "Question updated." : "Question added to the bank.");
+    closeEditor();
+  }, [closeEditor, dispatch, editingItem, form]);
+
+  const uploadProps: UploadProps = useMemo(
+    () => ({
+      accept: ".json,.csv",
+      multiple: false,
+      showUploadList: false,
+      beforeUpload: async (file: File) => {
+        try {
+          const imported = parseQuestionBankFile(file.name, await file.text());
+          dispatch(importBankQuestions({ items: imported, mode: importMode }));
+          message.success(`Imported ${imported.length} question${imported.length === 1 ? "" : "s"}.`);
+        } catch (error) {
+          message.error(error instanceof Error ? error.message : "Unable to import the question bank.");
+        }
+        return false;
+      }
+    }),
+    [dispatch, importMode]
+  );
+
+  const handleExport = useCallback(
+    (format: "json" | "csv") => {
+      const stamp = dayjs().format("YYYYMMDD-HHmm");
+      if (format === "json") {
+        downloadFile(`question-bank-${stamp}.json`, serializeQuestionBankJson(items), "application/json");
+      } else {
+        downloadFile(`question-bank-${stamp}.csv`, serializeQuestionBankCsv(items), "text/csv");
+      }
+    },
+    [items]
+  );
+
+  const columns: TableProps<QuestionBankItem>["columns"] = useMemo(
+    () => [
+      {
+        title: "Prompt",
+        dataIndex: "prompt",
+        className: styles.promptColumn,
+        render: (value: string) => (
+          <Text ellipsis={{ tooltip: value }} className={styles.promptText}>
+            {value}
+          </Text>
+        )
+      },
+      {
+        title: "Difficulty",
+        dataIndex: "difficulty",
+        width: 110,
+        render: (value: QuestionDifficulty) => <Tag color={DIFFICULTY_COLORS[value]}>{value.toUpperCase()}</Tag>
+      },
+      {
+        title: "Tags",
+        dataIndex: "tags",
+        width: 200,
+        render: (_: string[], record: QuestionBankItem) => (
+          <div className={styles.templateTopics}>
+            <Tag color="blue">{record.category}</Tag>
+            {record.tags.map((tag) => (
+              <Tag key={tag}>{tag}</Tag>
+            ))}
+          </div>
+        )
+      },
+      {
+        title: "Time",
+        dataIndex: "timeLimitSeconds",
+        width: 90,
+        align: "center" as const,
+        render: (value: number) => <Text type="secondary">{value}s</Text>
+      },
+      {
+        title: "Rubric",
+        dataIndex: "rubric",
+        width: 90,
+        align: "center" as const,
+        render: (value: RubricCriterion[]) => <Text type="secondary">{value.length || "—"}</Text>
+      },
+      {
+        title: "",
+        key: "actions",
+        width: 100,
+        render: (_: unknown, record: QuestionBankItem) => (
+          <Space size="small">
+            <Button size="small" icon={<EditOutlined />} aria-label="Edit question" onClick={() => openEditor(record)} />
+            <Popconfirm
+              title="Delete this question?"
+              onConfirm={() => dispatch(removeBankQuestion(record.id))}
+              okText="Delete"
+              okButtonProps={{ danger: true }}
+            >
+              <Button size="small" danger icon={<DeleteOutlined />} aria-label="Delete question" />
+            </Popconfirm>
+          </Space>
+        )
+      }
+    ],
+    [dispatch, openEditor]
+  );
+
+  return (
+    <Card title="Question bank" className={styles.fullWidthCard}>
+      <Space direction="vertical" size="middle" style={{ width: "100%" }}>
+        <div className={styles.bankToolbar}>
+          <label className={styles.selectControl}>
+            <span className={styles.controlLabel}>Question source</span>
+            <Select
+              aria-label="Question source"
+              style={{ minWidth: 200 }}
+              value={sourceMode}
+              options={SOURCE_MODE_OPTIONS}
+              onChange={(value: QuestionSourceMode) => dispatch(setQuestionSourceMode(value))}
+            />
+          </label>
+          <Space wrap>
+            <Button type="primary" icon={<PlusOutlined />} onClick={() => openEditor(null)}>
+              Add question
+            </Button>
+            <Select
+              aria-label="Import mode"
+              value={importMode}
+              onChange={(value: QuestionBankImportMode) => setImportMode(value)}
+              options={[
+                { value: "merge", label: "Import: merge" },
+                { value: "replace", label: "Import: replace" }
+              ]}
+            />
+            <Upload {...uploadProps}>
+              <Button icon={<UploadOutlined />}>Import JSON/CSV</Button>
+            </Upload>
+            <Button icon={<DownloadOutlined />} disabled={!items.length} onClick={() => handleExport("json")}>
+              JSON
+            </Button>
+            <Button icon={<DownloadOutlined />} disabled={!items.length} onClick={() => handleExport("csv")}>
+              CSV
+            </Button>
+          </Space>
+        </div>
+        {sourceMode !== "ai" && items.length === 0 && (
+          <Text type="warning">The bank is empty, so interviews will fall back to AI-generated questions.</Text>
+        )}
+        {items.length > 0 ? (
+          <Table<QuestionBankItem>
+            size="small"
+            columns={columns}
+            dataSource={items}
+            rowKey={(row) => row.id}
+            pagination={items.length > 10 ? { pageSize: 10 } : false}
+            scroll={{ x: true }}
+          />
+        ) : (
+          <Empty description="Add or import questions to reuse them across candidates." />
+        )}
+      </Space>
+
+      <Modal
+        title={editingItem ? "Edit question" : "Add question"}
+        open={isEditorOpen}
+        onOk={() => void handleSave()}
+        onCancel={closeEditor}
+        okText="Save"
+        width={640}
+        forceRender
+      >
+        <Form<BankFormValues>
+          form={form}
+          layout="vertical"
+          onValuesChange={(changed: Partial<BankFormValues>) => {
+            if (changed.difficulty && !editingItem) {
+              form.setFieldValue("timeLimitSeconds", DEFAULT_TIME_LIMITS[changed.difficulty]);
+            }
+          }}
+        >
+          <Form.Item label="Prompt" name="prompt" rules={[{ required: true, whitespace: true, message: "Prompt is required." }]}>
+            <Input.TextArea autoSize={{ minRows: 2, maxRows: 6 }} />
+          </Form.Item>
+          <Space size="middle" wrap>
+            <Form.Item label="Category" name="category">
+              <Input placeholder="e.g. architecture" />
+            </Form.Item>
+            <Form.Item label="Difficulty" name="difficulty" rules={[{ required: true }]}>
+              <Select
+                style={{ width: 120 }}
+                options={[
+                  { value: "easy", label: "Easy" },
+                  { value: "medium", label: "Medium" },
+                  { value: "hard", label: "Hard" }
+                ]}
+              />
+            </Form.Item>
+            <Form.Item label="Time limit (s)" name="timeLimitSeconds" rules={[{ required: true }]}>
+              <InputNumber min={5} max={1800} />
+            </Form.Item>
+          </Space>
+          <Form.Item label="Tags" name="tags">
+            <Select mode="tags" placeholder="Add tags such as a template id or topic" />
+          </Form.Item>
+          <Form.Item label="Guidance" name="guidance">
+            <Input.TextArea autoSize={{ minRows: 2, maxRows: 4 }} placeholder="What should a strong answer cover?" />
+          </Form.Item>
+          <Text strong>Rubric</Text>
+          <Form.List name="rubric">
+            {(fields, { add, remove }) => (
+              <Space direction="vertical" style={{ width: "100%", marginTop: 8 }}>
+                {fields.map((field) => (
+                  <Space key={field.key} align="start" wrap>
+                    <Form.Item name={[field.name, "id"]} hidden>
+                      <Input />
+                    </Form.Item>
+                    <Form.Item
+                      name={[field.name, "label"]}
+                      rules={[{ required: true, whitespace: true, message: "Name the criterion." }]}
+                    >
+                      <Input placeholder="Criterion" />
+                    </Form.Item>
+                    <Form.Item name={[field.name, "weight"]} initialValue={1}>
+                      <InputNumber min={0.1} step={0.5} placeholder="Weight" />
+                    </Form.Item>
+                    <Form.Item name={[field.name, "description"]}>
+                      <Input placeholder="What earns full marks?" style={{ width: 240 }} />
+                    </Form.Item>
+                    <MinusCircleOutlined aria-label="Remove criterion" onClick={() => remove(field.name)} />
+                  </Space>
+                ))}
+                <Button type="dashed" icon={<PlusOutlined />} onClick={() => add({ weight: 1 })}>
+                  Add criterion
+                </Button>
+              </Space>
+            )}
+          </Form.List>
+        </Form>
+      </Modal>
+    </Card>
+  );
+};
@@ -0,0 +1,135 @@
+import { Space, Tag, Tooltip, Typography } from "antd";
+import dayjs from "dayjs";
+import type { SkillProficiency, StructuredResume } from "../../types/interview";
+import styles from "./InterviewerView.module.css";
+
+const { Text } = Typography;
+
+const PROFICIENCY_COLORS: Record<SkillProficiency, string> = {
+  familiar: "default",
+  proficient: "blue",
+  advanced: "geekblue",
+  expert: "purple"
+};
+
+const formatResumeDate = (value: string | null) => {
+  if (!value) {
+    return "?";
+  }
+  return value.length === 4 ? value : dayjs(`${value}-01`).format("MMM YYYY");
+};
+
+const formatRange = (start: string | null, end: string | null, isCurrent = false) =>
+  `${formatResumeDate(start)} – ${isCurrent ? "Present" : formatResumeDate(end)}`;
+
+const toHref = (url: string) => (/^https?:\/\//i.test(url) ? url : `https://${url}`);
+
+interface ResumeInsightsProps {
+  structured: StructuredResume;
+}
+
+export const ResumeInsights = ({ structured }: ResumeInsightsProps) => {
+  const links = [
+    { label: "GitHub", url: structured.links.github },
+    { label: "LinkedIn", url: structured.links.linkedin },
+    { label: "Portfolio", url: structured.links.portfolio },
+    ...structured.links.other.map((url) => ({ label: url, url }))
+  ].filter((link): link is { label: string; url: string } => Boolean(link.url));
+
+  return (
+    <div className={styles.resumeInsights}>
+      <div className={styles.resumeInsightsHeader}>
+        <Text strong>Resume insights</Text>
+        <Tooltip
+          title={
+            structured.source === "llm"
+              ? "Extracted by the configured LLM provider."
+              : "Extracted by the offline heuristic parser; double-check dates and titles."
+          }
+        >
+          <Tag>{structured.source === "llm" ? "LLM" : "Heuristic"}</Tag>
+        </Tooltip>
+      </div>
+
+      <Text>
+        Experience:{" "}
+        <Text strong>
+          {structured.totalYearsExperience !== null
+            ? `${structured.totalYearsExperience.toFixed(1)} years`
+            : "Unknown"}
+        </Text>
+      </Text>
+
+      {links.length > 0 && (
+        <Space size={[8, 4]} wrap>
+          {links.map((link) => (
+            <a key={link.url} href={toHref(link.url)} target="_blank" rel="noreferrer">
+              {link.label}
+            </a>
+          ))}
+        </Space>
+      )}
+
+      {structured.skills.length > 0 && (
+        <div>
+          <span className={styles.dividerText}>Skills</span>
+          <div className={styles.templateTopics}>
+            {structured.skills.map((skill) => (
+              <Tooltip
+                key={skill.name}
+                title={`${skill.proficiency}${skill.years ? ` · ${skill.years}+ years` : ""} · ${skill.category}`}
+              >
+                <Tag color={PROFICIENCY_COLORS[skill.proficiency]}>{skill.name}</Tag>
+              </Tooltip>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {structured.experience.length > 0 && (
+        <div>
+          <span className={styles.dividerText}>Work history</span>
+          <ul className={styles.resumeList}>
+            {structured.experience.map((entry, index) => (
+              <li key={`${entry.company ?? "role"}-${index}`}>
+                <Text strong>{entry.title ?? "Role not stated"}</Text>
+                {entry.company && <Text> · {entry.company}</Text>}
+                <div>
+                  <Text type="secondary">{formatRange(entry.startDate, entry.endDate, entry.isCurrent)}</Text>
+                </div>
+                {entry.highlights.length > 0 && (
+                  <ul className={styles.resumeHighlights}>
+                    {entry.highlights.map((highlight) => (
+                      <li key={highlight}>
+                        <Text type="secondary">{highlight}</Text>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {structured.education.length > 0 && (
+        <div>
+          <span className={styles.dividerText}>Education</span>
+          <ul className={styles.resumeList}>
+            {structured.education.map((entry, index) => (
+              <li key={`${entry.institution ?? "education"}-${index}`}>
+                <Text strong>{[entry.degree, entry.field].filter(Boolean).join(" in ") || "Degree not stated"}</Text>
+                {entry.institution && <Text> · {entry.institution}</Text>}
+                {(entry.startDate || entry.endDate) && (
+                  <div>
+                    <Text type="secondary">{formatRange(entry.startDate, entry.endDate)}</Text>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,104 @@
+import { Button, Form, Input, InputNumber, Modal, Space, Typography } from "antd";
+import { useEffect } from "react";
+import type { ScoreOverride } from "../../types/interview";
+
+const { Text } = Typography;
+
+export interface ScoreOverrideSubmission {
+  score: number;
+  reason: string;
+  reviewer: string;
+}
+
+interface ScoreOverrideModalProps {
+  open: boolean;
+  title: string;
+  aiScore: number | null;
+  currentOverride?: ScoreOverride;
+  defaultReviewer: string;
+  onSubmit: (values: ScoreOverrideSubmission) => void;
+  onClear: (values: Omit<ScoreOverrideSubmission, "score">) => void;
+  onCancel: () => void;
+}
+
+export const ScoreOverrideModal = ({
+  open,
+  title,
+  aiScore,
+  currentOverride,
+  defaultReviewer,
+  onSubmit,
+  onClear,
+  onCancel
+}: ScoreOverrideModalProps) => {
+  const [form] = Form.useForm<ScoreOverrideSubmission>();
+
+  useEffect(() => {
+    if (open) {
+      form.setFieldsValue({
+        score: currentOverride?.score ?? aiScore ?? 5,
+        reason: "",
+        reviewer: defaultReviewer
+      });
+    }
+  }, [aiScore, currentOverride, defaultReviewer, form, open]);
+
+  const handleClear = async () => {
+    const { reason, reviewer } = await form.validateFields(["reason", "reviewer"]);
+    onClear({ reason: reason.trim(), reviewer: reviewer.trim() });
+  };
+
+  const handleSubmit = async () => {
+    const values = await form.validateFields();
+    onSubmit({ score: values.score, reason: values.reason.trim(), reviewer: values.reviewer.trim() });
+  };
+
+  return (
+    <Modal
+      title={title}
+      open={open}
+      onCancel={onCancel}
+      forceRender
+      footer={
+        <Space>
+          {currentOverride && (
+            <Button danger onClick={() => void handleClear()}>
+              Restore AI score
+            </Button>
+          )}
+          <Button onClick={onCancel}>Cancel</Button>
+          <Button type="primary" onClick={() => void handleSubmit()}>
+            Save override
+          </Button>
+        </Space>
+      }
+    >
+      <Space direction="vertical" style={{ width: "100%" }}>
+        <Text type="secondary">
+          AI score: {aiScore !== null ? `${aiScore.toFixed(1)}/10` : "not scored"}
+          {currentOverride &&
+            ` · currently overridden to ${currentOverride.score.toFixed(1)} by ${currentOverride.reviewer}`}
+        </Text>
+        <Form<ScoreOverrideSubmission> form={form} layout="vertical">
+          <Form.Item label="Reviewer score" name="score" rules={[{ required: true, message: "Enter a score." }]}>
+            <InputNumber min={0} max={10} step={0.5} />
+          </Form.Item>
+          <Form.Item
+            label="Reason"
+            name="reason"
+            rules={[{ required: true, whitespace: true, message: "Explain why the score changes." }]}
+          >
+            <Input.TextArea autoSize={{ minRows: 2, maxRows: 5 }} />
+          </Form.Item>
+          <Form.Item
+            label="Reviewer"
+            name="reviewer"
+            rules={[{ required: true, whitespace: true, message: "Enter your name." }]}
+          >
+            <Input placeholder="Your name" />
+          </Form.Item>
+        </Form>
+      </Space>
+    </Modal>
+  );
+};
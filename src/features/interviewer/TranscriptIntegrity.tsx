@@ -0,0 +1,99 @@
+import { Alert, Typography } from "antd";
+import dayjs from "dayjs";
+import type { ChatMessage, InterviewQuestion } from "../../types/interview";
+import type { TranscriptIssue, TranscriptProblem, TranscriptVerification } from "../../services/transcriptIntegrity";
+import styles from "./InterviewerView.module.css";
+
+const { Text } = Typography;
+
+export const TRANSCRIPT_PROBLEM_LABELS: Record<TranscriptProblem, string> = {
+  modified: "Modified",
+  missing: "Deleted",
+  "broken-link": "Broken link",
+  unchained: "Not sealed"
+};
+
+const PROBLEM_DESCRIPTIONS: Record<TranscriptProblem, string> = {
+  modified: "was changed after it was sealed",
+  missing: "was sealed but has since been deleted",
+  "broken-link": "doesn't follow on from the link before it, so the chain itself was edited or reordered",
+  unchained: "was never sealed, so it was added outside the app or sealing failed when it was recorded"
+};
+
+interface TranscriptIntegrityProps {
+  verification: TranscriptVerification;
+  chat: ChatMessage[];
+  questions: InterviewQuestion[];
+}
+
+/** The outcome of re-checking a transcript's hash chain, naming every entry that no longer matches. */
+export const TranscriptIntegrity = ({ verification, chat, questions }: TranscriptIntegrityProps) => {
+  const describeEntry = (issue: TranscriptIssue) => {
+    if (!issue.entryId) {
+      return issue.position !== null ? `Link ${issue.position + 1}` : "The stored chain";
+    }
+    if (issue.kind === "answer") {
+      const position = questions.findIndex((question) => question.id === issue.entryId);
+      return position >= 0 ? `The answer to question ${position + 1}` : `The answer to question ${issue.entryId}`;
+    }
+    const message = chat.find((entry) => entry.id === issue.entryId);
+    return message
+      ? `The ${message.sender} message from ${dayjs(message.createdAt).format("h:mm:ss A")}`
+      : `Chat message ${issue.entryId}`;
+  };
+
+  if (verification.status === "unsealed") {
+    return (
+      <Alert
+        className={styles.integrityAlert}
+        type="warning"
+        showIcon
+        message="This transcript isn't sealed"
+        description="It was recorded before transcripts were hash-chained, or its chain has been removed, so it can't be verified."
+      />
+    );
+  }
+
+  if (verification.status === "intact") {
+    return (
+      <Alert
+        className={styles.integrityAlert}
+        type="success"
+        showIcon
+        message="Transcript verified"
+        description={
+          verification.headHash ? (
+            <span>
+              All {verification.links} sealed entries match. Chain head{" "}
+              <Text code copyable={{ text: verification.headHash }}>
+                {verification.headHash.slice(0, 16)}
+              </Text>
+            </span>
+          ) : (
+            "Nothing has been recorded yet."
+          )
+        }
+      />
+    );
+  }
+
+  return (
+    <Alert
+      className={styles.integrityAlert}
+      type="error"
+      showIcon
+      message={`Transcript integrity check failed (${verification.issues.length} ${
+        verification.issues.length === 1 ? "problem" : "problems"
+      })`}
+      description={
+        <ul className={styles.integrityIssues}>
+          {verification.issues.map((issue, index) => (
+            <li key={`${issue.kind}-${issue.entryId}-${issue.position ?? "none"}-${index}`}>
+              {describeEntry(issue)} {PROBLEM_DESCRIPTIONS[issue.problem]}.
+            </li>
+          ))}
+        </ul>
+      }
+    />
+  );
+};
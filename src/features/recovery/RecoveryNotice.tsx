@@ -0,0 +1,94 @@
+import { Alert, Button, Popconfirm, Space, message } from "antd";
+import dayjs from "dayjs";
+import { useCallback } from "react";
+import { useAppDispatch, useAppSelector } from "../../store/hooks";
+import { selectRecoveryNotice } from "../../store/selectors";
+import { dismissRecoveryNotice } from "../../store/slices/recoverySlice";
+import {
+  clearQuarantinedRecords,
+  loadQuarantinedRecords,
+  type QuarantineKind
+} from "../../services/quarantineStorage";
+import { downloadFile } from "../../utils/download";
+import styles from "../../styles/App.module.css";
+
+const KIND_LABELS: Record<QuarantineKind, [singular: string, plural: string]> = {
+  session: ["interview session", "interview sessions"],
+  profile: ["candidate profile", "candidate profiles"],
+  candidate: ["candidate record", "candidate records"],
+  question: ["bank question", "bank questions"],
+  slice: ["saved section", "saved sections"],
+  store: ["saved store", "saved stores"]
+};
+
+export const RecoveryNotice = () => {
+  const dispatch = useAppDispatch();
+  const notice = useAppSelector(selectRecoveryNotice);
+
+  const handleDownload = useCallback(async () => {
+    try {
+      const records = await loadQuarantinedRecords();
+      downloadFile(
+        `interview-assistant-recovered-${dayjs().format("YYYYMMDD-HHmm")}.json`,
+        JSON.stringify(records, null, 2),
+        "application/json"
+      );
+    } catch (error) {
+      console.error("Failed to load quarantined records", error);
+      message.error("Unable to read the set-aside data right now.");
+    }
+  }, []);
+
+  const handleDiscard = useCallback(async () => {
+    try {
+      await clearQuarantinedRecords();
+      dispatch(dismissRecoveryNotice());
+    } catch (error) {
+      console.error("Failed to clear quarantined records", error);
+      message.error("Unable to discard the set-aside data right now.");
+    }
+  }, [dispatch]);
+
+  if (!notice) {
+    return null;
+  }
+
+  const counts = Object.entries(notice.counts) as Array<[QuarantineKind, number]>;
+  const parts = counts.map(([kind, count]) => `${count} ${KIND_LABELS[kind][count === 1 ? 0 : 1]}`);
+  const total = counts.reduce((sum, [, count]) => sum + count, 0);
+
+  return (
+    <Alert
+      className={styles.recoveryNotice}
+      type="warning"
+      showIcon
+      closable
+      onClose={() => dispatch(dismissRecoveryNotice())}
+      message="Some saved data couldn't be restored"
+      description={
+        notice.counts.store
+          ? "Your saved data couldn't be upgraded to this version, so the app started empty. " +
+            "The old data was set aside; download it to recover it by hand."
+          : `${parts.join(", ")} failed to load and ${total === 1 ? "was" : "were"} set aside. ` +
+            "Everything else loaded normally. Download the set-aside data to recover it by hand."
+      }
+      action={
+        <Space direction="vertical">
+          <Button size="small" onClick={() => void handleDownload()}>
+            Download set-aside data
+          </Button>
+          <Popconfirm
+            title="Delete the set-aside data for good?"
+            okText="Delete"
+            okButtonProps={{ danger: true }}
+            onConfirm={() => void handleDiscard()}
+          >
+            <Button size="small" danger>
+              Discard
+            </Button>
+          </Popconfirm>
+        </Space>
+      }
+    />
+  );
+};
@@ -0,0 +1,142 @@
+import type {
+  AdaptiveDecision,
+  AdaptiveDifficultySettings,
+  AdaptiveDifficultyState,
+  InterviewSession,
+  InterviewTemplate,
+  QuestionDifficulty
+} from "../types/interview";
+
+export const DIFFICULTY_LADDER: QuestionDifficulty[] = ["easy", "medium", "hard"];
+
+export const DEFAULT_ADAPTIVE_SETTINGS: AdaptiveDifficultySettings = {
+  enabled: false,
+  minDifficulty: "easy",
+  maxDifficulty: "hard"
+};
+
+export const STEP_UP_THRESHOLD = 7;
+export const STEP_DOWN_THRESHOLD = 4.5;
+
+// Weight of the latest answer in the running score; the rest carries over from earlier answers.
+const LATEST_ANSWER_WEIGHT = 0.6;
+
+const rank = (difficulty: QuestionDifficulty) => DIFFICULTY_LADDER.indexOf(difficulty);
+
+export const clampDifficulty = (
+  difficulty: QuestionDifficulty,
+  minDifficulty: QuestionDifficulty,
+  maxDifficulty: QuestionDifficulty
+): QuestionDifficulty => {
+  const clamped = Math.min(rank(maxDifficulty), Math.max(rank(minDifficulty), rank(difficulty)));
+  return DIFFICULTY_LADDER[clamped];
+};
+
+/** Exponentially weighted so one lucky or unlucky answer doesn't swing the path on its own. */
+export const updateRunningScore = (previous: number | null, score: number): number => {
+  const next =
+    previous === null ? score : LATEST_ANSWER_WEIGHT * score + (1 - LATEST_ANSWER_WEIGHT) * previous;
+  return Math.round(next * 10) / 10;
+};
+
+export const createAdaptiveState = (
+  template: InterviewTemplate,
+  settings: AdaptiveDifficultySettings
+): AdaptiveDifficultyState => {
+  const [minDifficulty, maxDifficulty] =
+    rank(settings.minDifficulty) <= rank(settings.maxDifficulty)
+      ? [settings.minDifficulty, settings.maxDifficulty]
+      : [settings.maxDifficulty, settings.minDifficulty];
+
+  return {
+    minDifficulty,
+    maxDifficulty,
+    targetQuestionCount: template.totalQuestions,
+    runningScore: null,
+    path: []
+  };
+};
+
+export interface DifficultyChoice {
+  difficulty: QuestionDifficulty;
+  decision: AdaptiveDecision;
+  reason: string;
+}
+
+export const chooseStartingDifficulty = (
+  template: InterviewTemplate,
+  adaptive: AdaptiveDifficultyState
+): DifficultyChoice => {
+  const difficulty = clampDifficulty(
+    template.difficultyPattern[0] ?? "easy",
+    adaptive.minDifficulty,
+    adaptive.maxDifficulty
+  );
+  return {
+    difficulty,
+    decision: "start",
+    reason: `Started at ${difficulty}, the template's opening difficulty within the ${adaptive.minDifficulty}–${adaptive.maxDifficulty} range.`
+  };
+};
+
+/**
+ * Steps one level up when the running score is strong, one level down when it's weak, and holds
+ * otherwise. The bounds always win, so a strong candidate at the ceiling stays there.
+ */
+export const chooseNextDifficulty = (
+  current: QuestionDifficulty,
+  runningScore: number,
+  adaptive: Pick<AdaptiveDifficultyState, "minDifficulty" | "maxDifficulty">
+): DifficultyChoice => {
+  const scoreLabel = runningScore.toFixed(1);
+
+  if (runningScore >= STEP_UP_THRESHOLD) {
+    const next = clampDifficulty(
+      DIFFICULTY_LADDER[rank(current) + 1] ?? current,
+      adaptive.minDifficulty,
+      adaptive.maxDifficulty
+    );
+    return next !== current
+      ? {
+          difficulty: next,
+          decision: "step-up",
+          reason: `Running score ${scoreLabel} reached ${STEP_UP_THRESHOLD}, so stepped up from ${current} to ${next}.`
+        }
+      : {
+          difficulty: current,
+          decision: "hold",
+          reason: `Running score ${scoreLabel} is strong, but ${current} is the highest allowed difficulty.`
+        };
+  }
+
+  if (runningScore < STEP_DOWN_THRESHOLD) {
+    const next = clampDifficulty(
+      DIFFICULTY_LADDER[rank(current) - 1] ?? current,
+      adaptive.minDifficulty,
+      adaptive.maxDifficulty
+    );
+    return next !== current
+      ? {
+          difficulty: next,
+          decision: "step-down",
+          reason: `Running score ${scoreLabel} fell below ${STEP_DOWN_THRESHOLD}, so stepped down from ${current} to ${next}.`
+        }
+      : {
+          difficulty: current,
+          decision: "hold",
+          reason: `Running score ${scoreLabel} is weak, but ${current} is the lowest allowed difficulty.`
+        };
+  }
+
+  return {
+    difficulty: current,
+    decision: "hold",
+    reason: `Running score ${scoreLabel} is between ${STEP_DOWN_THRESHOLD} and ${STEP_UP_THRESHOLD}, so stayed at ${current}.`
+  };
+};
+
+/** Adaptive sessions generate questions one at a time, so the order only holds what's been asked. */
+export const getPlannedQuestionCount = (session: Pick<InterviewSession, "adaptive" | "questionOrder">) =>
+  session.adaptive
+    ? Math.max(session.adaptive.targetQuestionCount, session.questionOrder.length)
+    : session.questionOrder.length;
@@ -1,208 +1,210 @@
 import { nanoid } from "@reduxjs/toolkit";
 import dayjs from "dayjs";
-import { fetchWithRetry } from "../utils/retry";
+import { getLlmProvider, parseJsonFromText } from "./llmProvider";
+import { summarizeStructuredResume } from "./resumeAnalyzer";
+import {
+  buildCriterionScores,
+  computeWeightedRubricScore,
+  normalizeRubricCriteria
+} from "../utils/rubricScoring";
 import type {
   AnswerRecord,
   CandidateProfile,
   ChatMessage,
+  CriterionScore,
+  FollowUpExchange,
+  FollowUpSettings,
   InterviewConfiguration,
   InterviewQuestion,
   InterviewSummary,
-  QuestionDifficulty
+  InterviewTemplate,
+  QuestionBankItem,
+  QuestionDifficulty,
+  QuestionSourceMode,
+  ResumeGroundingMode,
+  StructuredResume
 } from "../types/interview";
 
-const GEMINI_BASE_URL = "https://generativelanguage.googleapis.com/v1beta/models";
-const DEFAULT_GEMINI_MODELS = [
-  "gemini-2.5-flash-lite",
-  "gemini-2.5-flash",
-  "gemini-1.5-flash-latest",
-  "gemini-1.5-flash",
-  "gemini-1.5-flash-001"
-];
+const FALLBACK_GUIDANCE = "Provide a concise, concrete answer with relevant examples.";
 
-const FALLBACK_QUESTIONS: Record<QuestionDifficulty, string[]> = {
-  easy: [
-    "Explain the difference between let, const, and var in JavaScript.",
-    "What does the Virtual DOM do in React?"
-  ],
-  medium: [
-    "How would you design a REST API endpoint for updating user profiles?",
-    "Describe how you would implement server-side rendering in a React + Node.js stack."
-  ],
-  hard: [
-    "Walk through scaling a Node.js app to handle 100k concurrent users.",
-    "Design a deployment pipeline for a monorepo with front-end and back-end services."
-  ]
-};
+const MAX_RESUME_PROMPT_CHARACTERS = 6000;
 
-const readEnvKey = () => import.meta.env.VITE_GEMINI_API_KEY;
-const readEnvModel = () => import.meta.env.VITE_GEMINI_MODEL?.trim();
-
-interface GeminiCallOptions {
-  temperature?: number;
-  maxOutputTokens?: number;
+export interface ResumeContext {
+  mode: Exclude<ResumeGroundingMode, "off">;
+  text: string | null;
+  structured: StructuredResume | null;
 }
 
-export const callGemini = async (prompt: string, options?: GeminiCallOptions): Promise<string | null> => {
-  const apiKey = readEnvKey();
-  if (!apiKey) {
-    return null;
-  }
-
-  const MAX_ATTEMPTS = 4;
-  const BASE_DELAY_MS = 500;
-  const JITTER_MS = 200;
-  const transientStatuses = [429, 500, 502, 503, 504];
-
-  const modelCandidates = Array.from(
-    new Set(
-      [readEnvModel(), ...DEFAULT_GEMINI_MODELS].filter((value): value is string => Boolean(value && value.length))
-    )
-  );
-
-  if (!modelCandidates.length) {
-    console.error("Gemini request aborted: no model candidates configured");
-    return null;
-  }
-
-  for (const model of modelCandidates) {
-    const url = `${GEMINI_BASE_URL}/${model}:generateContent?key=${apiKey}`;
-
-    try {
-      // Use shared fetchWithRetry so every Gemini-bound service call gets exponential backoff and jitter handling.
-      const response = await fetchWithRetry(
-        url,
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json"
-          },
-          body: JSON.stringify({
-            contents: [
-              {
-                role: "user",
-                parts: [{ text: prompt }]
-              }
-            ],
-            generationConfig: {
-              temperature: options?.temperature ?? 0.7,
-              topP: 0.95,
-              topK: 32,
-              maxOutputTokens: options?.maxOutputTokens ?? 1024
-            }
-          })
-        },
-        {
-          maxAttempts: MAX_ATTEMPTS,
-          baseDelayMs: BASE_DELAY_MS,
-          jitterMs: JITTER_MS,
-          retryStatuses: transientStatuses,
-          onRetry: async (info) => {
-            const delayLabel = `${info.delayMs}ms`;
-            if (info.reason === "status" && typeof info.status === "number" && info.response) {
-              const errorText = await info.response.text();
-              console.warn(
-                `[Gemini] Transient error (status ${info.status}) on model '${model}', retrying after ${delayLabel}`,
-                errorText
-              );
-            } else if (info.reason === "error") {
-              console.warn(
-                `[Gemini] Request failure on model '${model}', retrying after ${delayLabel} (attempt ${info.attempt} of ${MAX_ATTEMPTS})`,
-                info.error
-              );
-            }
-          }
-        }
-      );
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        if (response.status === 404) {
-          console.warn(`[Gemini] Model '${model}' unavailable, trying next candidate`, errorText);
-          continue;
-        }
-
-        console.error("Gemini API error", { model, status: response.status, body: errorText });
-        return null;
-      }
-
-      const data = await response.json();
-      const raw = extractTextFromGemini(data);
-      if (raw) {
-        return raw;
-      }
-
-      console.warn(`[Gemini] Model '${model}' returned empty content`, data);
-      continue;
-    } catch (error) {
-      console.error(`Gemini request failed for model '${model}'`, error);
-    }
-  }
+export interface QuestionGenerationOptions {
+  sourceMode?: QuestionSourceMode;
+  bank?: QuestionBankItem[];
+  /** When set, AI questions are grounded in the candidate's resume instead of kept generic. */
+  resume?: ResumeContext;
+}
 
-  console.error("Gemini request failed: all model candidates exhausted", modelCandidates);
-  return null;
+const RESUME_FALLBACK_PROMPTS: Record<QuestionDifficulty, (excerpt: string) => string> = {
+  easy: (excerpt) => `Your resume mentions: "${excerpt}". What was your role in that work?`,
+  medium: (excerpt) =>
+    `Your resume mentions: "${excerpt}". Walk me through how you approached it and the trade-offs you made.`,
+  hard: (excerpt) =>
+    `Your resume mentions: "${excerpt}". If you had to do it again at ten times the scale, what would you change and why?`
 };
 
-const extractTextFromGemini = (payload: unknown): string | null => {
-  if (!payload || typeof payload !== "object") {
-    return null;
-  }
+const normalizeForMatch = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[\u2018\u2019\u201c\u201d"'`]/g, "")
+    .replace(/[\s•▪●◦-]+/g, " ")
+    .trim();
 
-  const candidates = (payload as { candidates?: Array<{ content?: { parts?: Array<{ text?: string }>; }; }> }).candidates;
-  if (!candidates?.length) {
+/** Falls back to the structured summary when the raw text isn't available, and vice versa. */
+const buildResumeMaterial = (resume: ResumeContext): string | null => {
+  const summary = resume.structured ? summarizeStructuredResume(resume.structured) : "";
+  const text = resume.text?.trim() ?? "";
+  const material = resume.mode === "summary" ? summary || text : text || summary;
+  if (!material) {
     return null;
   }
+  return material.length > MAX_RESUME_PROMPT_CHARACTERS
+    ? `${material.slice(0, MAX_RESUME_PROMPT_CHARACTERS)}\n[Content truncated]`
+    : material;
+};
 
-  const parts = candidates[0]?.content?.parts;
-  if (!parts?.length) {
-    return null;
-  }
+/**
+ * Checks that a quoted excerpt really appears in the resume, ignoring case, quotes, bullets and
+ * whitespace. Elided quotes ("…") pass when every quoted fragment is present.
+ */
+export const verifyResumeExcerpt = (excerpt: string, resume: ResumeContext): boolean => {
+  const haystacks = [resume.text ?? "", resume.structured ? summarizeStructuredResume(resume.structured) : ""]
+    .map(normalizeForMatch)
+    .filter(Boolean);
+  const fragments = excerpt
+    .split(/\.\.\.|…/)
+    .map((fragment) => normalizeForMatch(fragment).replace(/[.,;:]+$/, ""))
+    .filter((fragment) => fragment.length > 0);
+
+  return (
+    fragments.length > 0 &&
+    haystacks.some((haystack) => fragments.every((fragment) => haystack.includes(fragment)))
+  );
+};
 
-  return parts
-    .map((part) => (part?.text ?? ""))
-    .join("")
-    .trim();
+const collectResumeExcerpts = (resume: ResumeContext | undefined): string[] =>
+  resume?.structured?.experience.flatMap((entry) => entry.highlights) ?? [];
+
+const buildResumeFallbackQuestion = (
+  template: InterviewTemplate,
+  difficulty: QuestionDifficulty,
+  excerpt: string,
+  resume: ResumeContext
+): InterviewQuestion => ({
+  id: nanoid(),
+  prompt: RESUME_FALLBACK_PROMPTS[difficulty](excerpt),
+  difficulty,
+  category: "resume",
+  timeLimitSeconds: template.timerByDifficulty[difficulty],
+  guidance: "Look for first-hand detail: the candidate's own decisions, constraints and measurable results.",
+  source: "fallback",
+  resumeExcerpt: excerpt,
+  resumeExcerptVerified: verifyResumeExcerpt(excerpt, resume)
+});
+
+const buildFallbackQuestion = (
+  template: InterviewTemplate,
+  difficulty: QuestionDifficulty,
+  index: number
+): InterviewQuestion => {
+  const bank = template.fallbackQuestions[difficulty];
+  const { prompt, category } = bank[index % bank.length];
+  return {
+    id: nanoid(),
+    prompt,
+    difficulty,
+    category,
+    timeLimitSeconds: template.timerByDifficulty[difficulty],
+    guidance: FALLBACK_GUIDANCE,
+    source: "fallback"
+  } satisfies InterviewQuestion;
 };
 
-export const parseJsonFromText = (raw: string | null): Record<string, unknown> | null => {
-  if (!raw) {
-    return null;
-  }
+/** Resume-grounded sessions swap every other fallback slot for a question about a resume highlight. */
+const fallbackQuestions = (template: InterviewTemplate, resume?: ResumeContext): InterviewQuestion[] => {
+  const excerpts = collectResumeExcerpts(resume);
+  return template.difficultyPattern.map((difficulty, index) => {
+    const excerpt = index % 2 === 0 ? excerpts[index / 2] : undefined;
+    return excerpt && resume
+      ? buildResumeFallbackQuestion(template, difficulty, excerpt, resume)
+      : buildFallbackQuestion(template, difficulty, index);
+  });
+};
 
-  const trimmed = raw.trim();
-  try {
-    const start = trimmed.indexOf("{");
-    const end = trimmed.lastIndexOf("}");
-    if (start >= 0 && end >= start) {
-      return JSON.parse(trimmed.slice(start, end + 1));
-    }
-    return JSON.parse(trimmed);
-  } catch (error) {
-    console.warn("Failed to parse JSON from Gemini response", error, raw);
-    return null;
-  }
+const bankItemToQuestion = (item: QuestionBankItem): InterviewQuestion => ({
+  id: nanoid(),
+  prompt: item.prompt,
+  difficulty: item.difficulty,
+  category: item.category,
+  timeLimitSeconds: item.timeLimitSeconds,
+  guidance: item.guidance || FALLBACK_GUIDANCE,
+  source: "bank",
+  bankQuestionId: item.id,
+  rubric: item.rubric.length ? item.rubric : undefined
+});
+
+const isBankItemRelevant = (item: QuestionBankItem, template: InterviewTemplate) => {
+  const markers = new Set(
+    [template.id, template.role, ...template.topics].map((value) => value.toLowerCase())
+  );
+  return [item.category, ...item.tags].some((value) => markers.has(value.toLowerCase()));
 };
 
-const fallbackQuestions = (config: InterviewConfiguration): InterviewQuestion[] => {
-  return config.difficultyPattern.map((difficulty, index) => {
-    const bank = FALLBACK_QUESTIONS[difficulty];
-    const prompt = bank[index % bank.length];
-    return {
-      id: nanoid(),
-      prompt,
-      difficulty,
-      category: difficulty === "easy" ? "fundamentals" : difficulty === "medium" ? "architecture" : "scaling",
-      timeLimitSeconds: config.timerByDifficulty[difficulty],
-      guidance: "Provide a concise, concrete answer with relevant examples."
-    } satisfies InterviewQuestion;
+/**
+ * Deterministically assigns bank items to the requested slots (null slots are skipped) so every
+ * candidate on the same template and bank gets the same questions. Items tagged for the template
+ * are used first, then the rest of the bank, both in bank order.
+ */
+const pickBankQuestions = (
+  bank: QuestionBankItem[],
+  template: InterviewTemplate,
+  slots: Array<QuestionDifficulty | null>,
+  alreadyUsed: string[] = []
+): Array<QuestionBankItem | null> => {
+  const ordered = [
+    ...bank.filter((item) => isBankItemRelevant(item, template)),
+    ...bank.filter((item) => !isBankItemRelevant(item, template))
+  ];
+  const used = new Set<string>(alreadyUsed);
+
+  return slots.map((difficulty) => {
+    if (!difficulty) {
+      return null;
+    }
+    const match = ordered.find((item) => item.difficulty === difficulty && !used.has(item.id));
+    if (!match) {
+      return null;
+    }
+    used.add(match.id);
+    return match;
   });
 };
 
-export const generateInterviewQuestions = async (
-  profile: CandidateProfile,
-  config: InterviewConfiguration
-): Promise<InterviewQuestion[]> => {
-  const prompt = `You are an AI technical interviewer creating a ${config.totalQuestions}-question assessment for a full-stack engineer focused on React and Node.js.
+const generateAiQuestions = async (
+  template: InterviewTemplate,
+  difficultyPattern: QuestionDifficulty[],
+  avoidPrompts: string[] = [],
+  resume?: ResumeContext
+): Promise<InterviewQuestion[] | null> => {
+  const config: InterviewConfiguration = {
+    totalQuestions: difficultyPattern.length,
+    difficultyPattern,
+    timerByDifficulty: template.timerByDifficulty
+  };
+  const resumeMaterial = resume ? buildResumeMaterial(resume) : null;
+  const candidateGuideline = resumeMaterial
+    ? `- Ground at least half of the questions in the candidate's own projects, roles and listed technologies from the resume below. Don't invent experience the resume doesn't mention.
+- For every resume-based question, copy the exact resume passage it is based on (up to ~200 characters, verbatim) into "resumeExcerpt". Use null for general questions.`
+    : "- Ignore any candidate-specific resume or background details. Craft universally applicable questions.";
+
+  const prompt = `You are an AI technical interviewer creating a ${config.totalQuestions}-question assessment for a ${template.role} (${template.description}).
 Return ONLY valid JSON that matches this schema:
 {
   "questions": [
@@ -212,7 +214,10 @@ Return ONLY valid JSON that matches this schema:
       "difficulty": "easy" | "medium" | "hard",
       "category": string,
       "timeLimitSeconds": number,
-      "guidance": string
+      "guidance": string,
+      "rubric": [{ "label": string, "description": string, "weight": number }]${
+        resumeMaterial ? ',\n      "resumeExcerpt": string | null' : ""
+      }
     }
   ]
 }
@@ -221,36 +226,151 @@ Interview configuration:
 ${JSON.stringify(config, null, 2)}
 
 Guidelines:
-- Ignore any candidate-specific resume or background details. Craft universally applicable questions.
+${candidateGuideline}
 - Each question should stand alone and be suitable for asking sequentially, one at a time.
-- Cover a balanced mix of front-end (React), back-end (Node.js/Express), data handling, testing, and deployment/performance topics.
-- Keep prompts concise but specific, and include targeted guidance for what a strong answer should cover.`;
-
-  const raw = await callGemini(prompt, {
+- Cover a balanced mix of these topics: ${template.topics.join(", ")}.
+- Keep prompts concise but specific, and include targeted guidance for what a strong answer should cover.
+- Give each question a rubric of 2-4 weighted criteria describing what earns full marks.${
+    avoidPrompts.length
+      ? `\n- Don't repeat or closely paraphrase these already-asked questions:\n${avoidPrompts
+          .map((entry) => `  - ${entry}`)
+          .join("\n")}`
+      : ""
+  }${
+    resumeMaterial
+      ? `\n\nCandidate resume (between triple backticks):\n\`\`\`\n${resumeMaterial}\n\`\`\``
+      : ""
+  }`;
+
+  const parsed = await getLlmProvider().generateJson(prompt, {
     temperature: 0.7,
     maxOutputTokens: 1024
   });
 
-  const parsed = parseJsonFromText(raw);
-
   if (!parsed || !Array.isArray((parsed as { questions?: unknown }).questions)) {
-    return fallbackQuestions(config);
+    return null;
   }
 
   const questions = (parsed as { questions: Array<Record<string, unknown>> }).questions;
   return questions.map((question) => {
     const difficulty = (question.difficulty as QuestionDifficulty) ?? "easy";
+    const rubric = normalizeRubricCriteria(question.rubric);
+    const resumeExcerpt =
+      resume && typeof question.resumeExcerpt === "string" && question.resumeExcerpt.trim()
+        ? question.resumeExcerpt.trim()
+        : undefined;
     return {
       id: (question.id as string) ?? nanoid(),
       prompt: (question.prompt as string) ?? "Describe a recent project you worked on.",
       difficulty,
       category: (question.category as string) ?? "general",
       timeLimitSeconds: Number(question.timeLimitSeconds ?? config.timerByDifficulty[difficulty]),
-      guidance: (question.guidance as string) ?? "Share concrete details and trade-offs you considered."
+      guidance: (question.guidance as string) ?? "Share concrete details and trade-offs you considered.",
+      source: "ai",
+      rubric: rubric.length ? rubric : undefined,
+      resumeExcerpt,
+      resumeExcerptVerified: resume && resumeExcerpt ? verifyResumeExcerpt(resumeExcerpt, resume) : undefined
     } satisfies InterviewQuestion;
   });
 };
 
+export const generateInterviewQuestions = async (
+  profile: CandidateProfile,
+  template: InterviewTemplate,
+  options: QuestionGenerationOptions = {}
+): Promise<InterviewQuestion[]> => {
+  const sourceMode = options.sourceMode ?? "ai";
+  const bank = options.bank ?? [];
+  const pattern = template.difficultyPattern;
+
+  if (sourceMode === "ai" || bank.length === 0) {
+    return (
+      (await generateAiQuestions(template, pattern, [], options.resume)) ??
+      fallbackQuestions(template, options.resume)
+    );
+  }
+
+  // "bank" fills every slot it can; "mixed" alternates bank and AI, starting with the bank.
+  const picked = pickBankQuestions(
+    bank,
+    template,
+    pattern.map((difficulty, index) => (sourceMode === "bank" || index % 2 === 0 ? difficulty : null))
+  );
+  const openSlots = pattern
+    .map((difficulty, index) => ({ difficulty, index }))
+    .filter(({ index }) => !picked[index]);
+
+  const aiQuestions =
+    sourceMode === "mixed" && openSlots.length > 0
+      ? (await generateAiQuestions(
+          template,
+          openSlots.map(({ difficulty }) => difficulty),
+          [],
+          options.resume
+        )) ?? []
+      : [];
+
+  const aiBySlot = new Map(openSlots.map(({ index }, position) => [index, aiQuestions[position]]));
+
+  return pattern.map((difficulty, index) => {
+    const bankItem = picked[index];
+    if (bankItem) {
+      return bankItemToQuestion(bankItem);
+    }
+    return aiBySlot.get(index) ?? buildFallbackQuestion(template, difficulty, index);
+  });
+};
+
+/**
+ * Produces a single question at the requested difficulty for adaptive sessions, honouring the
+ * same source mode as up-front generation. Previously asked questions are passed in so the bank
+ * and fallback lists aren't repeated and the AI is told what to avoid.
+ */
+export const generateNextQuestion = async (
+  template: InterviewTemplate,
+  difficulty: QuestionDifficulty,
+  askedQuestions: InterviewQuestion[],
+  options: QuestionGenerationOptions = {}
+): Promise<InterviewQuestion> => {
+  const sourceMode = options.sourceMode ?? "ai";
+  const bank = options.bank ?? [];
+  const fallbackIndex = askedQuestions.filter((question) => question.difficulty === difficulty).length;
+  const useBank =
+    bank.length > 0 && (sourceMode === "bank" || (sourceMode === "mixed" && askedQuestions.length % 2 === 0));
+
+  if (useBank) {
+    const usedBankIds = askedQuestions
+      .map((question) => question.bankQuestionId)
+      .filter((id): id is string => Boolean(id));
+    const [bankItem] = pickBankQuestions(bank, template, [difficulty], usedBankIds);
+    if (bankItem) {
+      return bankItemToQuestion(bankItem);
+    }
+    if (sourceMode === "bank") {
+      return buildFallbackQuestion(template, difficulty, fallbackIndex);
+    }
+  }
+
+  const [aiQuestion] =
+    (await generateAiQuestions(
+      template,
+      [difficulty],
+      askedQuestions.map((question) => question.prompt),
+      options.resume
+    )) ?? [];
+
+  // The adaptive path decided the difficulty, so the timer follows it even if the model disagrees.
+  if (aiQuestion) {
+    return { ...aiQuestion, difficulty, timeLimitSeconds: template.timerByDifficulty[difficulty] };
+  }
+
+  const askedExcerpts = new Set(askedQuestions.map((question) => question.resumeExcerpt));
+  const excerpt = collectResumeExcerpts(options.resume).find((entry) => !askedExcerpts.has(entry));
+  return excerpt && options.resume && askedQuestions.length % 2 === 0
+    ? buildResumeFallbackQuestion(template, difficulty, excerpt, options.resume)
+    : buildFallbackQuestion(template, difficulty, fallbackIndex);
+};
+
 const fallbackScore = (answer: string, difficulty: QuestionDifficulty) => {
   if (!answer.trim()) {
     return 1;
@@ -264,11 +384,74 @@ const fallbackScore = (answer: string, difficulty: QuestionDifficulty) => {
   return Math.min(10, base + keywordBoost + lengthFactor * 3);
 };
 
+export interface AnswerEvaluation {
+  score: number;
+  feedback: string;
+  criterionScores?: CriterionScore[];
+}
+
+const buildRubricInstructions = (question: InterviewQuestion) => {
+  if (!question.rubric?.length) {
+    return "";
+  }
+
+  return `
+Score the answer against each rubric criterion separately. Add a "criteria" array to the JSON:
+  "criteria": [{ "criterionId": string, "score": number (0-10), "justification": string }]
+Give one entry per criterion, and keep each justification to one or two sentences that cite the answer.
+
+Rubric:
+${JSON.stringify(question.rubric, null, 2)}
+`;
+};
+
+/**
+ * With a rubric the overall score is always the weighted criterion total, so it's reproducible
+ * from the stored breakdown; the evaluator's own "score" only matters for rubric-less questions.
+ */
+const withRubricScores = (
+  question: InterviewQuestion,
+  evaluation: AnswerEvaluation,
+  evaluatedCriteria: unknown,
+  fallbackJustification: string
+): AnswerEvaluation => {
+  if (!question.rubric?.length) {
+    return evaluation;
+  }
+
+  const criterionScores = buildCriterionScores(question.rubric, evaluatedCriteria, {
+    score: evaluation.score,
+    justification: fallbackJustification
+  });
+  return {
+    ...evaluation,
+    score: computeWeightedRubricScore(criterionScores),
+    criterionScores
+  };
+};
+
+const buildFollowUpContext = (followUps: FollowUpExchange[]) => {
+  if (!followUps.length) {
+    return "";
+  }
+
+  return `
+The interviewer asked clarifying follow-ups. Score the original answer and these replies together as one response:
+${JSON.stringify(
+  followUps.map(({ prompt, answer }) => ({ followUp: prompt, answer })),
+  null,
+  2
+)}
+`;
+};
+
 export const evaluateAnswerWithAI = async (
   question: InterviewQuestion,
   answer: string,
-  chatHistory: ChatMessage[]
-): Promise<{ score: number; feedback: string }> => {
+  chatHistory: ChatMessage[],
+  followUps: FollowUpExchange[] = []
+): Promise<AnswerEvaluation> => {
+  const heuristicInput = [answer, ...followUps.map((exchange) => exchange.answer)].join("\n");
   const prompt = `You are an AI interviewer evaluating a candidate's answer.
 Return ONLY JSON with this schema:
 {
@@ -282,41 +465,157 @@ Rules:
 - Focus the feedback on the top 2-3 most critical issues or strengths that affect the score.
 
 Consider technical depth, clarity, and problem solving.
-
+${buildRubricInstructions(question)}
 Question:
 ${JSON.stringify(question, null, 2)}
 
 Answer:
 ${answer}
-
+${buildFollowUpContext(followUps)}
 Conversation history:
 ${JSON.stringify(chatHistory, null, 2)}`;
 
-  const raw = await callGemini(prompt, {
+  const raw = await getLlmProvider().generateText(prompt, {
     temperature: 0.2,
-    maxOutputTokens: 512
+    maxOutputTokens: question.rubric?.length ? 1024 : 512
   });
 
   if (!raw) {
-    return {
-      score: fallbackScore(answer, question.difficulty),
-      feedback: "Using offline evaluator: good effort. Make sure to ground your answer with concrete examples and cover both implementation details and trade-offs."
-    };
+    return withRubricScores(
+      question,
+      {
+        score: fallbackScore(heuristicInput, question.difficulty),
+        feedback: "Using offline evaluator: good effort. Make sure to ground your answer with concrete examples and cover both implementation details and trade-offs."
+      },
+      null,
+      "Offline heuristic estimate; no AI evaluator was available."
+    );
   }
 
   const parsed = parseJsonFromText(raw);
   if (!parsed) {
-    return {
-      score: fallbackScore(answer, question.difficulty),
-      feedback: "Unable to parse AI evaluation. Using heuristic score."
-    };
+    return withRubricScores(
+      question,
+      {
+        score: fallbackScore(heuristicInput, question.difficulty),
+        feedback: "Unable to parse AI evaluation. Using heuristic score."
+      },
+      null,
+      "Heuristic estimate; the AI evaluation couldn't be parsed."
+    );
   }
 
-  const score = Number((parsed as { score?: number }).score ?? fallbackScore(answer, question.difficulty));
+  const score = Number(
+    (parsed as { score?: number }).score ?? fallbackScore(heuristicInput, question.difficulty)
+  );
   const feedback = (parsed as { feedback?: string }).feedback ?? "Thanks for your answer.";
+  return withRubricScores(
+    question,
+    {
+      score: Number.isFinite(score) ? score : fallbackScore(heuristicInput, question.difficulty),
+      feedback
+    },
+    (parsed as { criteria?: unknown }).criteria,
+    "The evaluator skipped this criterion; the overall AI score was used instead."
+  );
+};
+
+export const DEFAULT_FOLLOW_UP_SETTINGS: FollowUpSettings = {
+  enabled: false,
+  maxFollowUps: 2,
+  timeLimitSeconds: 45
+};
+
+export const MAX_FOLLOW_UPS = 3;
+
+export interface FollowUpPlan {
+  prompt: string;
+  reason: string;
+}
+
+const HEURISTIC_FOLLOW_UPS = [
+  "Could you make that concrete with a specific example from your own work?",
+  "What trade-offs did you weigh there, and what would make you choose differently?",
+  "How would you verify that approach actually works in production?"
+];
+
+const MIN_DETAILED_ANSWER_WORDS = 40;
+
+const countWords = (text: string) => text.trim().split(/\s+/).filter(Boolean).length;
+
+/** Offline stand-in: probe short answers, stop as soon as the candidate gives nothing back. */
+const heuristicFollowUp = (answer: string, followUps: FollowUpExchange[]): FollowUpPlan | null => {
+  const latestReply = followUps.length ? followUps[followUps.length - 1].answer : answer;
+  if (!latestReply.trim()) {
+    return null;
+  }
+
+  const totalWords = countWords([answer, ...followUps.map((exchange) => exchange.answer)].join(" "));
+  if (totalWords >= MIN_DETAILED_ANSWER_WORDS) {
+    return null;
+  }
+
+  return {
+    prompt: HEURISTIC_FOLLOW_UPS[followUps.length % HEURISTIC_FOLLOW_UPS.length],
+    reason: `The answer so far is brief (${totalWords} words).`
+  };
+};
+
+/**
+ * Decides whether the thread so far is vague or partial enough to warrant one more short
+ * clarifying question about the same topic. Returns null when the answer stands on its own.
+ */
+export const planFollowUpQuestion = async (
+  question: InterviewQuestion,
+  answer: string,
+  followUps: FollowUpExchange[]
+): Promise<FollowUpPlan | null> => {
+  const latestReply = followUps.length ? followUps[followUps.length - 1].answer : answer;
+  if (!latestReply.trim()) {
+    return null;
+  }
+
+  const prompt = `You are a technical interviewer deciding whether to ask one short clarifying follow-up.
+Return ONLY JSON with this schema:
+{
+  "needsFollowUp": boolean,
+  "followUp": string,
+  "reason": string
+}
+
+Rules:
+- Ask a follow-up only when the answer is vague, partial, or skips something the question explicitly asks for.
+- The follow-up must stay on the same question, be one sentence, and be answerable in under a minute.
+- Don't repeat an earlier follow-up. Set "needsFollowUp" to false when the answer is already complete.
+- "reason" explains in one short sentence what was missing.
+
+Question:
+${question.prompt}
+${question.guidance ? `\nWhat a strong answer covers:\n${question.guidance}\n` : ""}
+Answer:
+${answer}
+${buildFollowUpContext(followUps)}`;
+
+  const parsed = await getLlmProvider().generateJson(prompt, {
+    temperature: 0.4,
+    maxOutputTokens: 256
+  });
+
+  if (!parsed) {
+    return heuristicFollowUp(answer, followUps);
+  }
+
+  const followUp = typeof parsed.followUp === "string" ? parsed.followUp.trim() : "";
+  if (parsed.needsFollowUp !== true || !followUp) {
+    return null;
+  }
+
   return {
-    score: Number.isFinite(score) ? score : fallbackScore(answer, question.difficulty),
-    feedback
+    prompt: followUp,
+    reason:
+      typeof parsed.reason === "string" && parsed.reason.trim()
+        ? parsed.reason.trim()
+        : "The answer was incomplete."
   };
 };
 
@@ -354,16 +653,11 @@ ${JSON.stringify(questions, null, 2)}
 Answers:
 ${JSON.stringify(answers, null, 2)}`;
 
-  const raw = await callGemini(prompt, {
+  const parsed = await getLlmProvider().generateJson(prompt, {
     temperature: 0.3,
     maxOutputTokens: 1024
   });
 
-  if (!raw) {
-    return baseSummary;
-  }
-
-  const parsed = parseJsonFromText(raw);
   if (!parsed) {
     return baseSummary;
   }
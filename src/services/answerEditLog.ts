@@ -0,0 +1,123 @@
+import type { AnswerEditLog } from "../types/interview";
+
+/**
+ * Keystroke-level recording of the answer editor. Each change is stored as a splice of the previous
+ * text, so replaying the edits in order rebuilds the answer exactly as the candidate wrote it.
+ *
+ * Encoded logs are a JSON array of [msSincePreviousEdit, position, deletedCount, insertedText]
+ * tuples, DEFLATE-compressed where the browser supports CompressionStream and then base64'd. Typing
+ * repeats the same small gaps and positions, so a log usually compresses to a fraction of its size.
+ */
+
+export interface AnswerEdit {
+  /** Milliseconds since the prompt was shown. */
+  at: number;
+  position: number;
+  deleted: number;
+  inserted: string;
+}
+
+export interface AnswerEditRecording {
+  edits: AnswerEdit[];
+  truncated: boolean;
+}
+
+/** Enough for several rewrites of a long answer; anything past it is left out of the replay. */
+export const MAX_RECORDED_EDITS = 5000;
+
+type EncodedEdit = [number, number, number, string];
+
+/** The splice that turns `previous` into `next`, or null when nothing changed. */
+export const diffAnswerEdit = (previous: string, next: string, at: number): AnswerEdit | null => {
+  if (previous === next) {
+    return null;
+  }
+  let prefix = 0;
+  const shorter = Math.min(previous.length, next.length);
+  while (prefix < shorter && previous[prefix] === next[prefix]) {
+    prefix += 1;
+  }
+  let suffix = 0;
+  while (
+    suffix < shorter - prefix &&
+    previous[previous.length - 1 - suffix] === next[next.length - 1 - suffix]
+  ) {
+    suffix += 1;
+  }
+  return {
+    at,
+    position: prefix,
+    deleted: previous.length - prefix - suffix,
+    inserted: next.slice(prefix, next.length - suffix)
+  };
+};
+
+export const applyAnswerEdit = (text: string, edit: AnswerEdit) =>
+  text.slice(0, edit.position) + edit.inserted + text.slice(edit.position + edit.deleted);
+
+const supportsCompression = () =>
+  typeof CompressionStream !== "undefined" && typeof DecompressionStream !== "undefined";
+
+const pipeBytes = async (bytes: BlobPart, transform: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(transform)).arrayBuffer());
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = "";
+  // Chunked so long logs don't overflow the argument list.
+  for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), (character) => character.charCodeAt(0));
+
+export const encodeAnswerEditLog = async ({ edits, truncated }: AnswerEditRecording): Promise<AnswerEditLog> => {
+  let previousAt = 0;
+  const encoded = edits.map<EncodedEdit>((edit) => {
+    const delta = Math.max(0, Math.round(edit.at - previousAt));
+    previousAt += delta;
+    return [delta, edit.position, edit.deleted, edit.inserted];
+  });
+  const json = JSON.stringify(encoded);
+  const summary = { edits: edits.length, durationMs: previousAt, truncated };
+
+  if (!supportsCompression()) {
+    return { encoding: "plain", ...summary, data: json };
+  }
+  const compressed = await pipeBytes(new TextEncoder().encode(json), new CompressionStream("deflate-raw"));
+  return { encoding: "deflate", ...summary, data: toBase64(compressed) };
+};
+
+export const decodeAnswerEditLog = async (log: AnswerEditLog): Promise<AnswerEdit[]> => {
+  let json = log.data;
+  if (log.encoding === "deflate") {
+    if (!supportsCompression()) {
+      throw new Error("This browser can't decompress answer replays.");
+    }
+    json = new TextDecoder().decode(await pipeBytes(fromBase64(log.data), new DecompressionStream("deflate-raw")));
+  }
+
+  const parsed: unknown = JSON.parse(json);
+  if (!Array.isArray(parsed)) {
+    throw new Error("The answer replay is corrupted.");
+  }
+  let at = 0;
+  return parsed.map((value: unknown) => {
+    if (
+      !Array.isArray(value) ||
+      value.length !== 4 ||
+      !value.slice(0, 3).every((part) => Number.isInteger(part) && part >= 0) ||
+      typeof value[3] !== "string"
+    ) {
+      throw new Error("The answer replay is corrupted.");
+    }
+    const [delta, position, deleted, inserted] = value as EncodedEdit;
+    at += delta;
+    return { at, position, deleted, inserted };
+  });
+};
+
+/** The editor's text after the first `count` edits. */
+export const replayAnswerEdits = (edits: AnswerEdit[], count = edits.length) =>
+  edits.slice(0, count).reduce(applyAnswerEdit, "");
@@ -0,0 +1,374 @@
+import { nanoid } from "@reduxjs/toolkit";
+import dayjs from "dayjs";
+import type {
+  CandidateArchiveRecord,
+  CandidateProfile,
+  InterviewSession,
+  QuestionBankItem
+} from "../types/interview";
+import { normalizeBankItem } from "../utils/questionBankTransfer";
+import {
+  isPlainObject,
+  validateCandidateProfile,
+  validateCandidateRecord,
+  validateInterviewSession
+} from "../utils/recordValidation";
+import { createInvitationCode } from "./interviewQueue";
+import { buildResumeStorageKey } from "./resumeStorage";
+
+export const ARCHIVE_BUNDLE_FORMAT = "crisp-archive-bundle";
+export const ARCHIVE_BUNDLE_VERSION = 1;
+
+export type ArchiveConflictMode = "skip" | "overwrite" | "duplicate";
+
+export interface ArchiveResumeEntry {
+  id: string;
+  fileName: string;
+  mimeType: string;
+  sizeBytes: number;
+  /** The file's bytes, base64 encoded. */
+  data: string;
+  /** Extracted text kept next to the file, so imported resumes can be re-analysed without parsing. */
+  text: string | null;
+}
+
+export interface ArchiveSessionEntry {
+  session: InterviewSession;
+  profile: CandidateProfile | null;
+}
+
+export interface ArchiveBundle {
+  format: typeof ARCHIVE_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  candidates: CandidateArchiveRecord[];
+  sessions: ArchiveSessionEntry[];
+  questionBank: QuestionBankItem[];
+  resumes: ArchiveResumeEntry[];
+}
+
+type BundleMigration = (bundle: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * Steps that upgrade older bundles, keyed by the version they produce (the same convention as the
+ * redux-persist manifest). Version 1 is the first bundle layout, so there is nothing to upgrade yet;
+ * a layout change bumps ARCHIVE_BUNDLE_VERSION and adds its step here.
+ */
+export const ARCHIVE_BUNDLE_MIGRATIONS: Record<number, BundleMigration> = {};
+
+export interface ArchiveImportCounts {
+  added: number;
+  overwritten: number;
+  duplicated: number;
+  skipped: number;
+}
+
+export interface ArchiveImportSummary {
+  candidates: ArchiveImportCounts;
+  sessions: ArchiveImportCounts;
+  questionBank: ArchiveImportCounts;
+  resumes: ArchiveImportCounts;
+}
+
+/** What an import will write, with ids already remapped for duplicates. */
+export interface ArchiveImportPlan {
+  candidates: CandidateArchiveRecord[];
+  sessions: ArchiveSessionEntry[];
+  questionBank: QuestionBankItem[];
+  resumes: ArchiveResumeEntry[];
+  summary: ArchiveImportSummary;
+}
+
+/** Ids already present in this browser, so the plan can tell which bundle entries conflict. */
+export interface ArchiveExistingIds {
+  candidateIds: Iterable<string>;
+  sessionIds: Iterable<string>;
+  questionIds: Iterable<string>;
+  resumeIds: Iterable<string>;
+  /** Invitation codes in use, keyed by the session holding them. */
+  invitationCodes: Record<string, string>;
+  /** Sessions that must never be replaced, such as an interview in progress. */
+  lockedSessionIds?: Iterable<string>;
+}
+
+// Encoded in slices so large resumes don't overflow the argument list of String.fromCharCode.
+const BASE64_CHUNK_SIZE = 0x8000;
+
+export const encodeBase64 = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  let binary = "";
+  for (let offset = 0; offset < bytes.length; offset += BASE64_CHUNK_SIZE) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + BASE64_CHUNK_SIZE));
+  }
+  return btoa(binary);
+};
+
+export const decodeBase64 = (data: string): ArrayBuffer => {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let index = 0; index < binary.length; index += 1) {
+    bytes[index] = binary.charCodeAt(index);
+  }
+  return bytes.buffer;
+};
+
+/** Resume ids referenced by the records and session profiles going into a bundle. */
+export const collectResumeIds = (
+  candidates: CandidateArchiveRecord[],
+  sessions: ArchiveSessionEntry[]
+): string[] =>
+  Array.from(
+    new Set(
+      [...candidates.map((record) => record.profile), ...sessions.map((entry) => entry.profile)]
+        .map((profile) => profile?.resume?.id)
+        .filter((id): id is string => Boolean(id))
+    )
+  );
+
+export const buildArchiveBundle = (
+  contents: Omit<ArchiveBundle, "format" | "version" | "exportedAt">,
+  exportedAt = dayjs().toISOString()
+): ArchiveBundle => ({
+  format: ARCHIVE_BUNDLE_FORMAT,
+  version: ARCHIVE_BUNDLE_VERSION,
+  exportedAt,
+  ...contents
+});
+
+export const serializeArchiveBundle = (bundle: ArchiveBundle): string => JSON.stringify(bundle);
+
+const isString = (value: unknown): value is string => typeof value === "string";
+
+const readArray = (bundle: Record<string, unknown>, key: string): unknown[] => {
+  const value = bundle[key] ?? [];
+  if (!Array.isArray(value)) {
+    throw new Error(`The bundle's "${key}" section is not a list.`);
+  }
+  return value;
+};
+
+const validateSessionEntry = (value: unknown, position: number): ArchiveSessionEntry => {
+  const where = `Session ${position}`;
+  const entry = isPlainObject(value) ? value : {};
+  return {
+    session: validateInterviewSession(entry.session, where),
+    profile: entry.profile ? validateCandidateProfile(entry.profile, where) : null
+  };
+};
+
+const validateResume = (value: unknown, position: number): ArchiveResumeEntry => {
+  if (!isPlainObject(value) || !isString(value.id) || !isString(value.data) || !isString(value.fileName)) {
+    throw new Error(`Resume ${position} is missing its id, file name or data.`);
+  }
+  return {
+    id: value.id,
+    fileName: value.fileName,
+    mimeType: isString(value.mimeType) ? value.mimeType : "application/octet-stream",
+    sizeBytes: typeof value.sizeBytes === "number" ? value.sizeBytes : 0,
+    data: value.data,
+    text: isString(value.text) ? value.text : null
+  };
+};
+
+/** Runs every step between the bundle's version and the current one. Newer bundles are refused. */
+export const migrateArchiveBundle = (
+  bundle: Record<string, unknown>,
+  migrations: Record<number, BundleMigration> = ARCHIVE_BUNDLE_MIGRATIONS,
+  targetVersion = ARCHIVE_BUNDLE_VERSION
+): Record<string, unknown> => {
+  const version = bundle.version;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+    throw new Error("The bundle has no valid version number.");
+  }
+  if (version > targetVersion) {
+    throw new Error(`This bundle is version ${version}, newer than this app supports (${targetVersion}). Update the app first.`);
+  }
+
+  let migrated = bundle;
+  for (let next = version + 1; next <= targetVersion; next += 1) {
+    const step = migrations[next];
+    if (!step) {
+      throw new Error(`There is no upgrade from bundle version ${next - 1} to ${next}.`);
+    }
+    migrated = { ...step(migrated), version: next };
+  }
+  return migrated;
+};
+
+/** Parses, upgrades and validates a bundle file. Throws with a message the interviewer can act on. */
+export const parseArchiveBundle = (text: string): ArchiveBundle => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("The archive file is not valid JSON.");
+  }
+  if (!isPlainObject(parsed) || parsed.format !== ARCHIVE_BUNDLE_FORMAT) {
+    throw new Error("This file is not an interview archive bundle.");
+  }
+
+  const bundle = migrateArchiveBundle(parsed);
+  return {
+    format: ARCHIVE_BUNDLE_FORMAT,
+    version: ARCHIVE_BUNDLE_VERSION,
+    exportedAt: isString(bundle.exportedAt) ? bundle.exportedAt : dayjs().toISOString(),
+    candidates: readArray(bundle, "candidates").map((value, index) =>
+      validateCandidateRecord(value, `Candidate ${index + 1}`)
+    ),
+    sessions: readArray(bundle, "sessions").map((value, index) => validateSessionEntry(value, index + 1)),
+    questionBank: readArray(bundle, "questionBank").map((value, index) => normalizeBankItem(value, index + 1)),
+    resumes: readArray(bundle, "resumes").map((value, index) => validateResume(value, index + 1))
+  };
+};
+
+const emptyCounts = (): ArchiveImportCounts => ({ added: 0, overwritten: 0, duplicated: 0, skipped: 0 });
+
+/**
+ * Decides, per entry, whether it is written as is, replaces the local copy, is written under a new id,
+ * or is left out. Returns the new id, or null to skip.
+ */
+const resolveIds = (
+  ids: string[],
+  existing: Set<string>,
+  mode: ArchiveConflictMode,
+  counts: ArchiveImportCounts,
+  locked: Set<string> = new Set()
+): Map<string, string | null> =>
+  new Map(
+    ids.map((id) => {
+      if (!existing.has(id)) {
+        counts.added += 1;
+        return [id, id];
+      }
+      if (mode === "duplicate") {
+        counts.duplicated += 1;
+        return [id, nanoid()];
+      }
+      if (mode === "overwrite" && !locked.has(id)) {
+        counts.overwritten += 1;
+        return [id, id];
+      }
+      counts.skipped += 1;
+      return [id, null];
+    })
+  );
+
+/** Skipped entries keep pointing at the local copy, which has the same id. */
+const remap = (ids: Map<string, string | null>, id: string) => ids.get(id) ?? id;
+
+export const planArchiveImport = (
+  bundle: ArchiveBundle,
+  existing: ArchiveExistingIds,
+  mode: ArchiveConflictMode
+): ArchiveImportPlan => {
+  const summary: ArchiveImportSummary = {
+    candidates: emptyCounts(),
+    sessions: emptyCounts(),
+    questionBank: emptyCounts(),
+    resumes: emptyCounts()
+  };
+
+  const resumeIds = resolveIds(
+    bundle.resumes.map((resume) => resume.id),
+    new Set(existing.resumeIds),
+    mode,
+    summary.resumes
+  );
+  const candidateIds = resolveIds(
+    bundle.candidates.map((record) => record.id),
+    new Set(existing.candidateIds),
+    mode,
+    summary.candidates
+  );
+  const sessionIds = resolveIds(
+    bundle.sessions.map((entry) => entry.session.id),
+    new Set(existing.sessionIds),
+    mode,
+    summary.sessions,
+    new Set(existing.lockedSessionIds ?? [])
+  );
+  const questionIds = resolveIds(
+    bundle.questionBank.map((item) => item.id),
+    new Set(existing.questionIds),
+    mode,
+    summary.questionBank
+  );
+
+  const remapProfile = (profile: CandidateProfile): CandidateProfile => {
+    const resumeId = profile.resume ? remap(resumeIds, profile.resume.id) : null;
+    return {
+      ...profile,
+      id: remap(candidateIds, profile.id),
+      resume:
+        profile.resume && resumeId
+          ? { ...profile.resume, id: resumeId, storageKey: buildResumeStorageKey(resumeId) }
+          : profile.resume
+    };
+  };
+
+  // Sessions that stay behind keep their codes; everything written must end up with a unique one.
+  const writtenSessionIds = new Set(
+    Array.from(sessionIds.values()).filter((id): id is string => id !== null)
+  );
+  const takenCodes = new Set(
+    Object.entries(existing.invitationCodes)
+      .filter(([sessionId]) => !writtenSessionIds.has(sessionId))
+      .map(([, code]) => code)
+  );
+
+  return {
+    resumes: bundle.resumes.flatMap((resume) => {
+      const id = resumeIds.get(resume.id);
+      return id ? [{ ...resume, id }] : [];
+    }),
+    candidates: bundle.candidates.flatMap((record) => {
+      const id = candidateIds.get(record.id);
+      return id
+        ? [{ ...record, id, sessionId: remap(sessionIds, record.sessionId), profile: remapProfile(record.profile) }]
+        : [];
+    }),
+    sessions: bundle.sessions.flatMap(({ session, profile }) => {
+      const id = sessionIds.get(session.id);
+      if (!id) {
+        return [];
+      }
+      let invitation = session.invitation;
+      if (invitation) {
+        const code = takenCodes.has(invitation.code) ? createInvitationCode(takenCodes) : invitation.code;
+        takenCodes.add(code);
+        invitation = { ...invitation, code };
+      }
+      return [
+        {
+          session: { ...session, id, candidateId: remap(candidateIds, session.candidateId), invitation },
+          profile: profile ? remapProfile(profile) : null
+        }
+      ];
+    }),
+    questionBank: bundle.questionBank.flatMap((item) => {
+      const id = questionIds.get(item.id);
+      return id ? [{ ...item, id }] : [];
+    }),
+    summary
+  };
+};
+
+const describeCounts = (label: string, counts: ArchiveImportCounts) => {
+  const parts = [
+    counts.added && `${counts.added} added`,
+    counts.overwritten && `${counts.overwritten} overwritten`,
+    counts.duplicated && `${counts.duplicated} duplicated`,
+    counts.skipped && `${counts.skipped} skipped`
+  ].filter(Boolean);
+  return parts.length ? `${label}: ${parts.join(", ")}` : null;
+};
+
+export const describeArchiveImport = (summary: ArchiveImportSummary): string =>
+  [
+    describeCounts("Candidates", summary.candidates),
+    describeCounts("Sessions", summary.sessions),
+    describeCounts("Bank questions", summary.questionBank),
+    describeCounts("Resumes", summary.resumes)
+  ]
+    .filter(Boolean)
+    .join(". ") || "The bundle was empty.";
@@ -0,0 +1,51 @@
+import { del, get, getMany, set, setMany } from "idb-keyval";
+import type { CandidateArchiveRecord } from "../types/interview";
+
+const CANDIDATE_RECORD_PREFIX = "candidate:";
+
+const buildCandidateRecordKey = (id: string) => `${CANDIDATE_RECORD_PREFIX}${id}`;
+
+export const persistCandidateRecord = async (record: CandidateArchiveRecord): Promise<void> => {
+  await set(buildCandidateRecordKey(record.id), record);
+};
+
+/** Writes every record in one transaction, so an import or migration lands whole or not at all. */
+export const persistCandidateRecords = async (records: CandidateArchiveRecord[]): Promise<void> => {
+  if (!records.length) {
+    return;
+  }
+  await setMany(records.map((record) => [buildCandidateRecordKey(record.id), record]));
+};
+
+export const loadCandidateRecord = async (id: string): Promise<CandidateArchiveRecord | undefined> => {
+  return get<CandidateArchiveRecord>(buildCandidateRecordKey(id));
+};
+
+/** Results line up with `ids`; a missing record comes back as undefined. */
+export const loadCandidateRecords = async (ids: string[]): Promise<Array<CandidateArchiveRecord | undefined>> => {
+  if (!ids.length) {
+    return [];
+  }
+  return getMany<CandidateArchiveRecord | undefined>(ids.map(buildCandidateRecordKey));
+};
+
+/**
+ * Like loadCandidateRecords, but ids already held in `cached` are served from there, and `fallback`
+ * covers ids IndexedDB doesn't have.
+ */
+export const readCandidateRecords = async (
+  ids: string[],
+  cached: Record<string, CandidateArchiveRecord>,
+  fallback: Record<string, CandidateArchiveRecord> = {}
+): Promise<CandidateArchiveRecord[]> => {
+  const missing = ids.filter((id) => !cached[id]);
+  const stored = await loadCandidateRecords(missing);
+  const storedById = new Map(missing.map((id, position) => [id, stored[position]]));
+  return ids
+    .map((id) => cached[id] ?? storedById.get(id) ?? fallback[id])
+    .filter((record): record is CandidateArchiveRecord => Boolean(record));
+};
+
+export const deleteCandidateRecord = async (id: string): Promise<void> => {
+  await del(buildCandidateRecordKey(id));
+};
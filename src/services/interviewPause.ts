@@ -0,0 +1,83 @@
+import dayjs from "dayjs";
+import type { InterviewSession, PauseRecord, PauseSettings, QuestionTimerState } from "../types/interview";
+
+export const DEFAULT_PAUSE_SETTINGS: PauseSettings = {
+  allowed: false,
+  maxPauses: 2,
+  maxTotalPauseSeconds: 300
+};
+
+export const MAX_PAUSES = 5;
+export const MIN_PAUSE_BUDGET_SECONDS = 30;
+
+/**
+ * Seconds left on a timer at `at`, to the millisecond. Ticks are measured from `lastTickAt`, so a
+ * late or throttled interval never loses or gains time, and a stopped timer reads exactly as stored.
+ */
+export const getRemainingSecondsAt = (timer: QuestionTimerState, at: string): number => {
+  const lastTick = timer.lastTickAt ?? timer.startedAt;
+  if (!timer.isRunning || !lastTick) {
+    return Math.max(0, timer.remainingSeconds);
+  }
+  const elapsed = Math.max(0, dayjs(at).diff(dayjs(lastTick), "millisecond")) / 1000;
+  return Math.max(0, timer.remainingSeconds - elapsed);
+};
+
+export const getOpenPause = (session: InterviewSession): PauseRecord | null => {
+  const last = session.pauses?.[session.pauses.length - 1];
+  return last && !last.resumedAt ? last : null;
+};
+
+/** Pause time spent so far, counting an open pause up to `at`. */
+export const getUsedPauseSeconds = (session: InterviewSession, at: string): number =>
+  (session.pauses ?? []).reduce((total, pause) => {
+    const end = pause.resumedAt ?? at;
+    return total + Math.max(0, dayjs(end).diff(dayjs(pause.pausedAt), "millisecond")) / 1000;
+  }, 0);
+
+export const getRemainingPauseSeconds = (session: InterviewSession, at: string): number => {
+  if (!session.pausePolicy) {
+    return 0;
+  }
+  return Math.max(0, session.pausePolicy.maxTotalPauseSeconds - getUsedPauseSeconds(session, at));
+};
+
+/** Why the candidate can't pause right now, or null when they can. */
+export const getPauseBlocker = (session: InterviewSession, at: string): string | null => {
+  const policy = session.pausePolicy;
+  if (!policy) {
+    return "Pausing isn't allowed in this interview.";
+  }
+  if (session.stage !== "questioning" || !session.currentQuestionId) {
+    return "The interview can only be paused while a question is open.";
+  }
+  const timer = session.timers[session.currentQuestionId];
+  if (!timer?.isRunning || getRemainingSecondsAt(timer, at) <= 0) {
+    return "This question's time is already up.";
+  }
+  if ((session.pauses?.length ?? 0) >= policy.maxPauses) {
+    return `You've used all of your pauses (${policy.maxPauses}) for this interview.`;
+  }
+  if (getRemainingPauseSeconds(session, at) <= 0) {
+    return "You've used all of your pause time for this interview.";
+  }
+  return null;
+};
+
+/**
+ * When the pause budget ran out before the candidate came back (a closed tab, a sleeping laptop),
+ * the pause ends the moment the budget did, and the question timer has been running since then.
+ */
+export const getEffectiveResumeTime = (session: InterviewSession, pause: PauseRecord, at: string): string => {
+  const earlierPauses = { ...session, pauses: (session.pauses ?? []).filter((entry) => entry.id !== pause.id) };
+  const budgetLeft = getRemainingPauseSeconds(earlierPauses, pause.pausedAt);
+  const budgetEnd = dayjs(pause.pausedAt).add(Math.round(budgetLeft * 1000), "millisecond");
+  return budgetEnd.isBefore(dayjs(at)) ? budgetEnd.toISOString() : at;
+};
+
+export const formatPauseSeconds = (value: number) => {
+  const total = Math.round(Math.max(0, value));
+  const minutes = Math.floor(total / 60);
+  const seconds = total % 60;
+  return minutes ? `${minutes}m ${seconds}s` : `${seconds}s`;
+};
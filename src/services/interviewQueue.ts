@@ -0,0 +1,73 @@
+import dayjs from "dayjs";
+import type { InterviewInvitation, InterviewSession } from "../types/interview";
+
+export type InvitationStatus = "upcoming" | "open" | "in-progress" | "completed" | "expired";
+
+// No 0/O or 1/I, so codes read back over the phone survive.
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 6;
+
+export const DEFAULT_INVITATION_WINDOW_HOURS = 24;
+
+export const createInvitationCode = (taken: Iterable<string> = []): string => {
+  const used = new Set(taken);
+  let code = "";
+  do {
+    const bytes = crypto.getRandomValues(new Uint8Array(CODE_LENGTH));
+    code = Array.from(bytes, (byte) => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join("");
+  } while (used.has(code));
+  return code;
+};
+
+export const normalizeInvitationCode = (code: string) => code.trim().toUpperCase().replace(/[^A-Z0-9]/g, "");
+
+export const buildInvitationLink = (code: string, origin = window.location.origin) =>
+  `${origin}${window.location.pathname}?invite=${encodeURIComponent(code)}`;
+
+export const findSessionByInvitationCode = (
+  sessions: Record<string, InterviewSession>,
+  code: string
+): InterviewSession | null => {
+  const normalized = normalizeInvitationCode(code);
+  return Object.values(sessions).find((session) => session.invitation?.code === normalized) ?? null;
+};
+
+export const getInvitationStatus = (session: InterviewSession, at: string): InvitationStatus => {
+  if (session.stage === "completed") {
+    return "completed";
+  }
+  if (session.stage === "questioning" || session.stage === "paused") {
+    return "in-progress";
+  }
+  const invitation = session.invitation;
+  if (!invitation) {
+    return "open";
+  }
+  if (dayjs(at).isBefore(dayjs(invitation.windowStart))) {
+    return "upcoming";
+  }
+  return dayjs(at).isAfter(dayjs(invitation.windowEnd)) ? "expired" : "open";
+};
+
+/** Why an invited session can't start at `at`, or null when its window is open. Walk-ins can always start. */
+export const getStartWindowBlocker = (invitation: InterviewInvitation | undefined, at: string): string | null => {
+  if (!invitation) {
+    return null;
+  }
+  if (dayjs(at).isBefore(dayjs(invitation.windowStart))) {
+    return `This interview opens ${dayjs(invitation.windowStart).format("MMM D [at] h:mm A")}.`;
+  }
+  if (dayjs(at).isAfter(dayjs(invitation.windowEnd))) {
+    return `This invitation expired ${dayjs(invitation.windowEnd).format("MMM D [at] h:mm A")}. Ask your interviewer for a new one.`;
+  }
+  return null;
+};
+
+/** Scheduled sessions, earliest start window first. */
+export const sortSessionQueue = (sessions: InterviewSession[]): InterviewSession[] =>
+  sessions
+    .filter((session) => session.invitation)
+    .sort(
+      (left, right) =>
+        dayjs(left.invitation!.windowStart).valueOf() - dayjs(right.invitation!.windowStart).valueOf()
+    );
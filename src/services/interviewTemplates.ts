@@ -0,0 +1,204 @@
+import type { InterviewTemplate } from "../types/interview";
+import { DEFAULT_INTERVIEW_CONFIGURATION } from "../types/interview";
+
+export const DEFAULT_TEMPLATE_ID = "full-stack";
+
+export const INTERVIEW_TEMPLATES: InterviewTemplate[] = [
+  {
+    ...DEFAULT_INTERVIEW_CONFIGURATION,
+    id: DEFAULT_TEMPLATE_ID,
+    name: "Full Stack (React + Node.js)",
+    role: "Full Stack Engineer",
+    description: "Balanced loop across React front-ends, Node.js services, data handling and delivery.",
+    topics: ["React", "Node.js/Express", "data handling", "testing", "deployment/performance"],
+    fallbackQuestions: {
+      easy: [
+        { prompt: "Explain the difference between let, const, and var in JavaScript.", category: "fundamentals" },
+        { prompt: "What does the Virtual DOM do in React?", category: "fundamentals" }
+      ],
+      medium: [
+        {
+          prompt: "How would you design a REST API endpoint for updating user profiles?",
+          category: "architecture"
+        },
+        {
+          prompt: "Describe how you would implement server-side rendering in a React + Node.js stack.",
+          category: "architecture"
+        }
+      ],
+      hard: [
+        { prompt: "Walk through scaling a Node.js app to handle 100k concurrent users.", category: "scaling" },
+        {
+          prompt: "Design a deployment pipeline for a monorepo with front-end and back-end services.",
+          category: "scaling"
+        }
+      ]
+    }
+  },
+  {
+    id: "backend",
+    name: "Backend Engineer",
+    role: "Backend Engineer",
+    description: "API design, data modelling, concurrency and service reliability.",
+    topics: ["API design", "databases", "concurrency", "caching", "distributed systems"],
+    totalQuestions: 6,
+    difficultyPattern: ["easy", "easy", "medium", "medium", "hard", "hard"],
+    timerByDifficulty: {
+      easy: 30,
+      medium: 90,
+      hard: 150
+    },
+    fallbackQuestions: {
+      easy: [
+        { prompt: "What makes an HTTP method idempotent, and which methods are?", category: "API design" },
+        { prompt: "When would you add an index to a database table, and what does it cost?", category: "databases" }
+      ],
+      medium: [
+        {
+          prompt: "How would you prevent two requests from double-charging the same order?",
+          category: "concurrency"
+        },
+        {
+          prompt: "Design a cache-invalidation strategy for a frequently read, rarely updated resource.",
+          category: "caching"
+        }
+      ],
+      hard: [
+        {
+          prompt: "Design a job queue that guarantees each job runs at least once and tolerates worker crashes.",
+          category: "distributed systems"
+        },
+        {
+          prompt: "How would you migrate a hot table to a new schema with zero downtime?",
+          category: "databases"
+        }
+      ]
+    }
+  },
+  {
+    id: "mobile",
+    name: "Mobile Engineer",
+    role: "Mobile Engineer",
+    description: "App lifecycle, offline behaviour, rendering performance and release management.",
+    topics: ["app lifecycle", "offline sync", "UI performance", "native APIs", "release process"],
+    totalQuestions: 6,
+    difficultyPattern: ["easy", "easy", "medium", "medium", "hard", "hard"],
+    timerByDifficulty: {
+      easy: 30,
+      medium: 75,
+      hard: 120
+    },
+    fallbackQuestions: {
+      easy: [
+        { prompt: "Describe the lifecycle of a screen in the mobile framework you know best.", category: "app lifecycle" },
+        { prompt: "How do you keep a long list scrolling smoothly?", category: "UI performance" }
+      ],
+      medium: [
+        {
+          prompt: "How would you design offline support for a note-taking app that syncs to a server?",
+          category: "offline sync"
+        },
+        {
+          prompt: "How do you handle runtime permissions such as camera or location gracefully?",
+          category: "native APIs"
+        }
+      ],
+      hard: [
+        {
+          prompt: "Resolve conflicting edits made on two devices while both were offline.",
+          category: "offline sync"
+        },
+        {
+          prompt: "Design a staged rollout and rollback plan for a mobile release with a breaking API change.",
+          category: "release process"
+        }
+      ]
+    }
+  },
+  {
+    id: "data",
+    name: "Data Engineer",
+    role: "Data Engineer",
+    description: "SQL fluency, pipeline design, data quality and warehouse modelling.",
+    topics: ["SQL", "batch pipelines", "streaming", "data quality", "warehouse modelling"],
+    totalQuestions: 6,
+    difficultyPattern: ["easy", "easy", "medium", "medium", "hard", "hard"],
+    timerByDifficulty: {
+      easy: 30,
+      medium: 90,
+      hard: 150
+    },
+    fallbackQuestions: {
+      easy: [
+        { prompt: "Explain the difference between an INNER JOIN and a LEFT JOIN.", category: "SQL" },
+        { prompt: "What is the difference between a fact table and a dimension table?", category: "warehouse modelling" }
+      ],
+      medium: [
+        {
+          prompt: "How would you make a daily batch pipeline safe to re-run after a partial failure?",
+          category: "batch pipelines"
+        },
+        {
+          prompt: "Which checks would you add to catch bad data before it reaches dashboards?",
+          category: "data quality"
+        }
+      ],
+      hard: [
+        {
+          prompt: "Design a streaming pipeline that handles late-arriving events for hourly aggregates.",
+          category: "streaming"
+        },
+        {
+          prompt: "Model slowly changing customer attributes so historical reports stay correct.",
+          category: "warehouse modelling"
+        }
+      ]
+    }
+  },
+  {
+    id: "sre",
+    name: "Site Reliability Engineer",
+    role: "Site Reliability Engineer",
+    description: "Observability, incident response, capacity planning and infrastructure automation.",
+    topics: ["observability", "incident response", "capacity planning", "infrastructure as code", "SLOs"],
+    totalQuestions: 6,
+    difficultyPattern: ["easy", "easy", "medium", "medium", "hard", "hard"],
+    timerByDifficulty: {
+      easy: 30,
+      medium: 90,
+      hard: 150
+    },
+    fallbackQuestions: {
+      easy: [
+        { prompt: "What is the difference between an SLI, an SLO and an SLA?", category: "SLOs" },
+        { prompt: "Which signals would you alert on for a public HTTP service?", category: "observability" }
+      ],
+      medium: [
+        {
+          prompt: "Walk through how you would run the first 30 minutes of a production outage.",
+          category: "incident response"
+        },
+        {
+          prompt: "How would you structure Terraform (or similar) for several environments?",
+          category: "infrastructure as code"
+        }
+      ],
+      hard: [
+        {
+          prompt: "Plan capacity for a service expecting 5x traffic during a launch next month.",
+          category: "capacity planning"
+        },
+        {
+          prompt: "Design an error-budget policy and explain how it changes release decisions.",
+          category: "SLOs"
+        }
+      ]
+    }
+  }
+];
+
+const TEMPLATES_BY_ID = new Map(INTERVIEW_TEMPLATES.map((template) => [template.id, template]));
+
+/** Resolves a template by id, falling back to the default template for unknown or legacy ids. */
+export const getInterviewTemplate = (templateId: string | null | undefined): InterviewTemplate =>
+  (templateId ? TEMPLATES_BY_ID.get(templateId) : undefined) ?? TEMPLATES_BY_ID.get(DEFAULT_TEMPLATE_ID)!;
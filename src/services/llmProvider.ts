@@ -0,0 +1,325 @@
+import { fetchWithRetry } from "../utils/retry";
+
+export type LlmProviderId = "gemini" | "openai" | "local";
+
+export interface LlmGenerateOptions {
+  temperature?: number;
+  maxOutputTokens?: number;
+}
+
+export interface LlmProvider {
+  id: LlmProviderId;
+  /** Whether the provider has enough configuration to attempt a request. */
+  isConfigured: () => boolean;
+  generateText: (prompt: string, options?: LlmGenerateOptions) => Promise<string | null>;
+  generateJson: (prompt: string, options?: LlmGenerateOptions) => Promise<Record<string, unknown> | null>;
+}
+
+const GEMINI_BASE_URL = "https://generativelanguage.googleapis.com/v1beta/models";
+const DEFAULT_GEMINI_MODELS = [
+  "gemini-2.5-flash-lite",
+  "gemini-2.5-flash",
+  "gemini-1.5-flash-latest",
+  "gemini-1.5-flash",
+  "gemini-1.5-flash-001"
+];
+const DEFAULT_OPENAI_BASE_URL = "https://api.openai.com/v1";
+
+const MAX_ATTEMPTS = 4;
+const BASE_DELAY_MS = 500;
+const JITTER_MS = 200;
+const TRANSIENT_STATUSES = [429, 500, 502, 503, 504];
+
+const readEnv = (key: string): string | undefined => {
+  const value = import.meta.env[key];
+  return typeof value === "string" && value.trim().length > 0 ? value.trim() : undefined;
+};
+
+export const parseJsonFromText = (raw: string | null): Record<string, unknown> | null => {
+  if (!raw) {
+    return null;
+  }
+
+  const trimmed = raw.trim();
+  try {
+    const start = trimmed.indexOf("{");
+    const end = trimmed.lastIndexOf("}");
+    if (start >= 0 && end >= start) {
+      return JSON.parse(trimmed.slice(start, end + 1));
+    }
+    return JSON.parse(trimmed);
+  } catch (error) {
+    console.warn("Failed to parse JSON from LLM response", error, raw);
+    return null;
+  }
+};
+
+const withJson = (
+  id: LlmProviderId,
+  isConfigured: () => boolean,
+  generateText: LlmProvider["generateText"]
+): LlmProvider => ({
+  id,
+  isConfigured,
+  generateText,
+  generateJson: async (prompt, options) => parseJsonFromText(await generateText(prompt, options))
+});
+
+const buildRetryLogger = (label: string, model: string) => async (info: {
+  attempt: number;
+  delayMs: number;
+  reason: "status" | "error";
+  status?: number;
+  response?: Response;
+  error?: unknown;
+}) => {
+  const delayLabel = `${info.delayMs}ms`;
+  if (info.reason === "status" && typeof info.status === "number" && info.response) {
+    const errorText = await info.response.text();
+    console.warn(
+      `[${label}] Transient error (status ${info.status}) on model '${model}', retrying after ${delayLabel}`,
+      errorText
+    );
+  } else if (info.reason === "error") {
+    console.warn(
+      `[${label}] Request failure on model '${model}', retrying after ${delayLabel} (attempt ${info.attempt} of ${MAX_ATTEMPTS})`,
+      info.error
+    );
+  }
+};
+
+const extractTextFromGemini = (payload: unknown): string | null => {
+  if (!payload || typeof payload !== "object") {
+    return null;
+  }
+
+  const candidates = (payload as { candidates?: Array<{ content?: { parts?: Array<{ text?: string }>; }; }> }).candidates;
+  if (!candidates?.length) {
+    return null;
+  }
+
+  const parts = candidates[0]?.content?.parts;
+  if (!parts?.length) {
+    return null;
+  }
+
+  return parts
+    .map((part) => (part?.text ?? ""))
+    .join("")
+    .trim();
+};
+
+export interface GeminiProviderConfig {
+  apiKey?: string;
+  models?: string[];
+}
+
+export const createGeminiProvider = (config: GeminiProviderConfig = {}): LlmProvider => {
+  const apiKey = config.apiKey;
+  const modelCandidates = Array.from(
+    new Set(
+      [...(config.models ?? []), ...DEFAULT_GEMINI_MODELS].filter((value): value is string =>
+        Boolean(value && value.length)
+      )
+    )
+  );
+
+  return withJson(
+    "gemini",
+    () => Boolean(apiKey),
+    async (prompt, options) => {
+      if (!apiKey) {
+        return null;
+      }
+
+      for (const model of modelCandidates) {
+        const url = `${GEMINI_BASE_URL}/${model}:generateContent?key=${apiKey}`;
+
+        try {
+          const response = await fetchWithRetry(
+            url,
+            {
+              method: "POST",
+              headers: {
+                "Content-Type": "application/json"
+              },
+              body: JSON.stringify({
+                contents: [
+                  {
+                    role: "user",
+                    parts: [{ text: prompt }]
+                  }
+                ],
+                generationConfig: {
+                  temperature: options?.temperature ?? 0.7,
+                  topP: 0.95,
+                  topK: 32,
+                  maxOutputTokens: options?.maxOutputTokens ?? 1024
+                }
+              })
+            },
+            {
+              maxAttempts: MAX_ATTEMPTS,
+              baseDelayMs: BASE_DELAY_MS,
+              jitterMs: JITTER_MS,
+              retryStatuses: TRANSIENT_STATUSES,
+              onRetry: buildRetryLogger("Gemini", model)
+            }
+          );
+
+          if (!response.ok) {
+            const errorText = await response.text();
+            if (response.status === 404) {
+              console.warn(`[Gemini] Model '${model}' unavailable, trying next candidate`, errorText);
+              continue;
+            }
+
+            console.error("Gemini API error", { model, status: response.status, body: errorText });
+            return null;
+          }
+
+          const data = await response.json();
+          const raw = extractTextFromGemini(data);
+          if (raw) {
+            return raw;
+          }
+
+          console.warn(`[Gemini] Model '${model}' returned empty content`, data);
+          continue;
+        } catch (error) {
+          console.error(`Gemini request failed for model '${model}'`, error);
+        }
+      }
+
+      console.error("Gemini request failed: all model candidates exhausted", modelCandidates);
+      return null;
+    }
+  );
+};
+
+export interface OpenAiCompatibleProviderConfig {
+  baseUrl?: string;
+  apiKey?: string;
+  model?: string;
+}
+
+/**
+ * Talks to any server exposing the OpenAI `/chat/completions` contract (OpenAI itself, vLLM,
+ * Ollama, LM Studio, ...). Self-hosted backends usually don't need an API key, only a model.
+ */
+export const createOpenAiCompatibleProvider = (config: OpenAiCompatibleProviderConfig = {}): LlmProvider => {
+  const baseUrl = (config.baseUrl ?? DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, "");
+  const model = config.model;
+
+  return withJson(
+    "openai",
+    () => Boolean(model),
+    async (prompt, options) => {
+      if (!model) {
+        return null;
+      }
+
+      const headers: Record<string, string> = {
+        "Content-Type": "application/json"
+      };
+      if (config.apiKey) {
+        headers.Authorization = `Bearer ${config.apiKey}`;
+      }
+
+      try {
+        const response = await fetchWithRetry(
+          `${baseUrl}/chat/completions`,
+          {
+            method: "POST",
+            headers,
+            body: JSON.stringify({
+              model,
+              messages: [{ role: "user", content: prompt }],
+              temperature: options?.temperature ?? 0.7,
+              max_tokens: options?.maxOutputTokens ?? 1024
+            })
+          },
+          {
+            maxAttempts: MAX_ATTEMPTS,
+            baseDelayMs: BASE_DELAY_MS,
+            jitterMs: JITTER_MS,
+            retryStatuses: TRANSIENT_STATUSES,
+            onRetry: buildRetryLogger("OpenAI-compatible", model)
+          }
+        );
+
+        if (!response.ok) {
+          const errorText = await response.text();
+          console.error("OpenAI-compatible API error", { model, status: response.status, body: errorText });
+          return null;
+        }
+
+        const data = (await response.json()) as {
+          choices?: Array<{ message?: { content?: string | null } }>;
+        };
+        const content = data.choices?.[0]?.message?.content?.trim();
+        if (!content) {
+          console.warn(`[OpenAI-compatible] Model '${model}' returned empty content`, data);
+          return null;
+        }
+        return content;
+      } catch (error) {
+        console.error(`OpenAI-compatible request failed for model '${model}'`, error);
+        return null;
+      }
+    }
+  );
+};
+
+export type LocalResponder = (
+  prompt: string,
+  options?: LlmGenerateOptions
+) => string | null | Promise<string | null>;
+
+/**
+ * Deterministic stand-in that never touches the network. Without a responder it always returns
+ * null, which drives every caller onto its offline heuristics; tests pass a responder to script replies.
+ */
+export const createLocalProvider = (responder?: LocalResponder): LlmProvider =>
+  withJson(
+    "local",
+    () => Boolean(responder),
+    async (prompt, options) => (responder ? responder(prompt, options) : null)
+  );
+
+export const createProviderFromEnv = (): LlmProvider => {
+  const providerId = (readEnv("VITE_LLM_PROVIDER") ?? "gemini").toLowerCase();
+
+  switch (providerId) {
+    case "openai":
+      return createOpenAiCompatibleProvider({
+        baseUrl: readEnv("VITE_OPENAI_BASE_URL"),
+        apiKey: readEnv("VITE_OPENAI_API_KEY"),
+        model: readEnv("VITE_OPENAI_MODEL")
+      });
+    case "local":
+      return createLocalProvider();
+    case "gemini":
+      return createGeminiProvider({
+        apiKey: readEnv("VITE_GEMINI_API_KEY"),
+        models: [readEnv("VITE_GEMINI_MODEL")].filter((value): value is string => Boolean(value))
+      });
+    default:
+      console.warn(`Unknown VITE_LLM_PROVIDER '${providerId}', falling back to the local provider`);
+      return createLocalProvider();
+  }
+};
+
+let activeProvider: LlmProvider | null = null;
+
+export const getLlmProvider = (): LlmProvider => {
+  if (!activeProvider) {
+    activeProvider = createProviderFromEnv();
+  }
+  return activeProvider;
+};
+
+/** Overrides the configured provider; pass null to go back to the environment configuration. */
+export const setLlmProvider = (provider: LlmProvider | null) => {
+  activeProvider = provider;
+};
@@ -0,0 +1,266 @@
+import { detectResumeSections, type ResumeSection, type ResumeTextLine } from "../utils/resumeSections";
+
+/** The parts of a pdf.js text item the layout pass reads. */
+export interface PdfTextItem {
+  str: string;
+  transform: number[];
+  width: number;
+  height: number;
+}
+
+export interface PdfPageText {
+  width: number;
+  items: PdfTextItem[];
+}
+
+export interface PdfLayoutLine extends ResumeTextLine {
+  page: number;
+}
+
+export interface PdfLayoutResult {
+  text: string;
+  lines: PdfLayoutLine[];
+  sections: ResumeSection[];
+}
+
+/** Structural subset of pdf.js's document proxy, so callers and tests can pass any loaded document. */
+export interface PdfDocumentLike {
+  numPages: number;
+  getPage: (pageNumber: number) => Promise<{
+    view: number[];
+    getTextContent: () => Promise<{ items: unknown[] }>;
+  }>;
+}
+
+interface Segment {
+  x0: number;
+  x1: number;
+  fontSize: number;
+  text: string;
+}
+
+interface Row {
+  y: number;
+  segments: Segment[];
+}
+
+type Side = "left" | "right" | "span";
+
+// Gutters are searched for in the middle of the page so margins never count as one.
+const GUTTER_SEARCH_START = 0.15;
+const GUTTER_SEARCH_END = 0.85;
+const MIN_GUTTER_WIDTH = 6;
+const MIN_COLUMN_SEGMENTS = 3;
+// Annotation columns (dates, locations) only count as real columns with this many rows of their own.
+const MIN_SOLO_ROWS = 2;
+const ALIGNMENT_TOLERANCE = 2;
+const DATE_LIKE_SHARE = 0.75;
+const DATE_LIKE_REGEX = /\b(?:19|20)\d{2}\b|\b(?:present|current)\b/i;
+// Rows (headers, footers) allowed to run across the gutter: this share of the page, but at least a few.
+const MAX_SPANNING_SHARE = 0.2;
+const MIN_SPANNING_ROWS = 2;
+
+const isPdfTextItem = (item: unknown): item is PdfTextItem =>
+  typeof (item as PdfTextItem)?.str === "string" && Array.isArray((item as PdfTextItem).transform);
+
+const fontSizeOf = (item: PdfTextItem) => Math.hypot(item.transform[2], item.transform[3]) || item.height || 10;
+
+/** Groups items sharing a baseline into rows, top of the page first. */
+const buildRows = (items: PdfTextItem[]): Row[] => {
+  // pdf.js emits whitespace-only items to bridge gaps; they would glue columns together.
+  const positioned = items
+    .filter((item) => item.str.trim().length > 0)
+    .map((item) => ({
+      text: item.str,
+      x: item.transform[4],
+      y: item.transform[5],
+      width: item.width,
+      fontSize: fontSizeOf(item)
+    }))
+    .sort((left, right) => right.y - left.y || left.x - right.x);
+
+  const rows: Array<{ y: number; fontSize: number; items: typeof positioned }> = [];
+  positioned.forEach((item) => {
+    const row = rows.find(
+      (candidate) => Math.abs(candidate.y - item.y) <= Math.max(2, 0.3 * Math.min(candidate.fontSize, item.fontSize))
+    );
+    if (row) {
+      row.items.push(item);
+    } else {
+      rows.push({ y: item.y, fontSize: item.fontSize, items: [item] });
+    }
+  });
+
+  return rows
+    .sort((left, right) => right.y - left.y)
+    .map((row) => {
+      const sorted = [...row.items].sort((left, right) => left.x - right.x);
+      const segments: Segment[] = [];
+      sorted.forEach((item) => {
+        const last = segments[segments.length - 1];
+        const gap = last ? item.x - last.x1 : Infinity;
+        if (last && gap <= Math.max(6, item.fontSize * 1.2)) {
+          last.text += gap > item.fontSize * 0.15 && !/\s$/.test(last.text) ? ` ${item.text}` : item.text;
+          last.x1 = Math.max(last.x1, item.x + item.width);
+          last.fontSize = Math.max(last.fontSize, item.fontSize);
+        } else {
+          segments.push({ x0: item.x, x1: item.x + item.width, fontSize: item.fontSize, text: item.text });
+        }
+      });
+      return { y: row.y, segments };
+    });
+};
+
+const sideOf = (segment: Segment, gutter: number): Side =>
+  segment.x1 <= gutter ? "left" : segment.x0 >= gutter ? "right" : "span";
+
+const spread = (values: number[]) => Math.max(...values) - Math.min(...values);
+
+/**
+ * Right-aligned or date-only runs beside the body (job dates, locations) line up like a column but
+ * belong to the rows they sit on, so they must not be read as a separate column.
+ */
+const isAnnotationColumn = (segments: Segment[]) => {
+  const rightAligned =
+    spread(segments.map((segment) => segment.x1)) <= ALIGNMENT_TOLERANCE &&
+    spread(segments.map((segment) => segment.x0)) > ALIGNMENT_TOLERANCE;
+  const dateLike = segments.filter(
+    (segment) => DATE_LIKE_REGEX.test(segment.text) && segment.text.trim().split(/\s+/).length <= 6
+  );
+  return rightAligned || dateLike.length >= segments.length * DATE_LIKE_SHARE;
+};
+
+/**
+ * Looks for a vertical gap, crossed by few rows, that splits the page into two columns of text.
+ * Returns the gutter's x position, or null for single-column pages.
+ */
+const findGutter = (rows: Row[], pageWidth: number): number | null => {
+  const segments = rows.flatMap((row) => row.segments);
+  if (segments.length < MIN_COLUMN_SEGMENTS * 2) {
+    return null;
+  }
+
+  const allowedSpanning = Math.max(MIN_SPANNING_ROWS, Math.floor(rows.length * MAX_SPANNING_SHARE));
+  const runs: Array<{ start: number; end: number; crossing: number }> = [];
+  for (let x = Math.floor(pageWidth * GUTTER_SEARCH_START); x <= pageWidth * GUTTER_SEARCH_END; x += 1) {
+    const crossing = segments.filter((segment) => segment.x0 < x && segment.x1 > x).length;
+    const last = runs[runs.length - 1];
+    if (crossing > allowedSpanning) {
+      continue;
+    }
+    if (last && last.end === x - 1 && last.crossing === crossing) {
+      last.end = x;
+    } else {
+      runs.push({ start: x, end: x, crossing });
+    }
+  }
+
+  const candidates = runs
+    .filter((run) => run.end - run.start >= MIN_GUTTER_WIDTH)
+    .sort((left, right) => left.crossing - right.crossing || right.end - right.start - (left.end - left.start));
+
+  const valid = candidates.find((run) => {
+    const gutter = (run.start + run.end) / 2;
+    const left: Segment[] = [];
+    const right: Segment[] = [];
+    let leftOnly = 0;
+    let rightOnly = 0;
+    rows.forEach((row) => {
+      const sides = row.segments.map((segment) => sideOf(segment, gutter));
+      if (sides.includes("span")) {
+        return;
+      }
+      left.push(...row.segments.filter((_, index) => sides[index] === "left"));
+      right.push(...row.segments.filter((_, index) => sides[index] === "right"));
+      if (!sides.includes("right")) leftOnly += 1;
+      if (!sides.includes("left")) rightOnly += 1;
+    });
+
+    if (left.length < MIN_COLUMN_SEGMENTS || right.length < MIN_COLUMN_SEGMENTS) {
+      return false;
+    }
+    return (
+      !(isAnnotationColumn(left) || isAnnotationColumn(right)) ||
+      (leftOnly >= MIN_SOLO_ROWS && rightOnly >= MIN_SOLO_ROWS)
+    );
+  });
+
+  return valid ? (valid.start + valid.end) / 2 : null;
+};
+
+const toLine = (segments: Segment[], page: number): PdfLayoutLine => ({
+  text: segments.map((segment) => segment.text.trim()).join(" "),
+  fontSize: Math.max(...segments.map((segment) => segment.fontSize)),
+  page
+});
+
+/**
+ * Lays out the rows between two full-width rows. Rows above the point where both columns have
+ * started (a name or contact line over the main column) are read in place; the rest are read as
+ * the whole left column, then the whole right column.
+ */
+const layoutColumnRegion = (rows: Row[], gutter: number, pageNumber: number): PdfLayoutLine[] => {
+  const split = rows.map((row) => ({
+    row,
+    left: row.segments.filter((segment) => sideOf(segment, gutter) === "left"),
+    right: row.segments.filter((segment) => sideOf(segment, gutter) === "right")
+  }));
+  const firstLeft = split.findIndex((entry) => entry.left.length > 0);
+  const firstRight = split.findIndex((entry) => entry.right.length > 0);
+  const columnStart = firstLeft < 0 || firstRight < 0 ? split.length : Math.max(firstLeft, firstRight);
+
+  const before = split.slice(0, columnStart).map((entry) => toLine(entry.row.segments, pageNumber));
+  const columns = split.slice(columnStart);
+  return [
+    ...before,
+    ...columns.filter((entry) => entry.left.length).map((entry) => toLine(entry.left, pageNumber)),
+    ...columns.filter((entry) => entry.right.length).map((entry) => toLine(entry.right, pageNumber))
+  ];
+};
+
+/**
+ * Reads one page in layout order. Two-column stretches are emitted column by column, and rows that
+ * cross the gutter (headers, footers, full-width headings) stay where they sit.
+ */
+export const layoutPdfPage = (page: PdfPageText, pageNumber = 1): PdfLayoutLine[] => {
+  const rows = buildRows(page.items);
+  const gutter = findGutter(rows, page.width);
+  if (gutter === null) {
+    return rows.map((row) => toLine(row.segments, pageNumber));
+  }
+
+  const lines: PdfLayoutLine[] = [];
+  let region: Row[] = [];
+  rows.forEach((row) => {
+    if (row.segments.some((segment) => sideOf(segment, gutter) === "span")) {
+      lines.push(...layoutColumnRegion(region, gutter, pageNumber), toLine(row.segments, pageNumber));
+      region = [];
+    } else {
+      region.push(row);
+    }
+  });
+  lines.push(...layoutColumnRegion(region, gutter, pageNumber));
+
+  return lines;
+};
+
+export const buildPdfLayout = (pages: PdfPageText[]): PdfLayoutResult => {
+  const lines = pages.flatMap((page, index) => layoutPdfPage(page, index + 1));
+  return {
+    text: lines.map((line) => line.text).join("\n"),
+    lines,
+    sections: detectResumeSections(lines)
+  };
+};
+
+export const extractPdfLayout = async (pdf: PdfDocumentLike): Promise<PdfLayoutResult> => {
+  const pages = await Promise.all(
+    Array.from({ length: pdf.numPages }, async (_, index) => {
+      const page = await pdf.getPage(index + 1);
+      const content = await page.getTextContent();
+      const [x0, , x1] = page.view;
+      return { width: x1 - x0, items: content.items.filter(isPdfTextItem) } satisfies PdfPageText;
+    })
+  );
+  return buildPdfLayout(pages);
+};
@@ -0,0 +1,30 @@
+import { del, get, set } from "idb-keyval";
+
+export type QuarantineKind = "session" | "profile" | "candidate" | "question" | "slice" | "store";
+
+/** A persisted record that failed validation on load, kept as it was found so it can be recovered by hand. */
+export interface QuarantinedRecord {
+  kind: QuarantineKind;
+  /** The record's id, or the slice/store key when a whole section was set aside. */
+  key: string;
+  reason: string;
+  quarantinedAt: string;
+  data: unknown;
+}
+
+const QUARANTINE_KEY = "quarantine";
+
+export const loadQuarantinedRecords = async (): Promise<QuarantinedRecord[]> =>
+  (await get<QuarantinedRecord[]>(QUARANTINE_KEY)) ?? [];
+
+/** Appends to what earlier loads set aside; nothing is dropped until the user clears it. */
+export const saveQuarantinedRecords = async (records: QuarantinedRecord[]): Promise<void> => {
+  if (!records.length) {
+    return;
+  }
+  await set(QUARANTINE_KEY, [...(await loadQuarantinedRecords()), ...records]);
+};
+
+export const clearQuarantinedRecords = async (): Promise<void> => {
+  await del(QUARANTINE_KEY);
+};
@@ -0,0 +1,616 @@
+import dayjs from "dayjs";
+import type {
+  EducationEntry,
+  ResumeLinks,
+  ResumeSkill,
+  SkillProficiency,
+  StructuredResume,
+  WorkExperience
+} from "../types/interview";
+import { getLlmProvider } from "./llmProvider";
+import { RESUME_SECTION_HEADINGS } from "../utils/resumeSections";
+
+const MAX_PROMPT_CHARACTERS = 8000;
+const MAX_HIGHLIGHTS = 4;
+
+const SKILL_CATALOG: Array<{ name: string; category: string; aliases: string[] }> = [
+  { name: "JavaScript", category: "language", aliases: ["javascript", "js", "es6"] },
+  { name: "TypeScript", category: "language", aliases: ["typescript", "ts"] },
+  { name: "Python", category: "language", aliases: ["python"] },
+  { name: "Java", category: "language", aliases: ["java"] },
+  { name: "Kotlin", category: "language", aliases: ["kotlin"] },
+  { name: "Swift", category: "language", aliases: ["swift"] },
+  { name: "Go", category: "language", aliases: ["golang"] },
+  { name: "Rust", category: "language", aliases: ["rust"] },
+  { name: "C#", category: "language", aliases: ["c#", ".net", "dotnet"] },
+  { name: "C++", category: "language", aliases: ["c++", "cpp"] },
+  { name: "Ruby", category: "language", aliases: ["ruby", "rails", "ruby on rails"] },
+  { name: "PHP", category: "language", aliases: ["php", "laravel"] },
+  { name: "Scala", category: "language", aliases: ["scala"] },
+  { name: "SQL", category: "data", aliases: ["sql"] },
+  { name: "React", category: "frontend", aliases: ["react", "react.js", "reactjs"] },
+  { name: "Redux", category: "frontend", aliases: ["redux"] },
+  { name: "Angular", category: "frontend", aliases: ["angular"] },
+  { name: "Vue", category: "frontend", aliases: ["vue", "vue.js", "vuejs"] },
+  { name: "Next.js", category: "frontend", aliases: ["next.js", "nextjs"] },
+  { name: "HTML/CSS", category: "frontend", aliases: ["html", "css", "sass", "tailwind"] },
+  { name: "React Native", category: "mobile", aliases: ["react native"] },
+  { name: "Flutter", category: "mobile", aliases: ["flutter"] },
+  { name: "Android", category: "mobile", aliases: ["android"] },
+  { name: "iOS", category: "mobile", aliases: ["ios"] },
+  { name: "Node.js", category: "backend", aliases: ["node", "node.js", "nodejs", "express.js"] },
+  { name: "Django", category: "backend", aliases: ["django"] },
+  { name: "Flask", category: "backend", aliases: ["flask", "fastapi"] },
+  { name: "Spring", category: "backend", aliases: ["spring boot", "spring framework"] },
+  { name: "GraphQL", category: "backend", aliases: ["graphql"] },
+  { name: "REST APIs", category: "backend", aliases: ["restful", "rest api", "rest apis"] },
+  { name: "Microservices", category: "backend", aliases: ["microservices", "microservice"] },
+  { name: "Kafka", category: "backend", aliases: ["kafka"] },
+  { name: "PostgreSQL", category: "data", aliases: ["postgresql", "postgres"] },
+  { name: "MySQL", category: "data", aliases: ["mysql"] },
+  { name: "MongoDB", category: "data", aliases: ["mongodb", "mongo"] },
+  { name: "Redis", category: "data", aliases: ["redis"] },
+  { name: "Elasticsearch", category: "data", aliases: ["elasticsearch"] },
+  { name: "Spark", category: "data", aliases: ["spark", "pyspark"] },
+  { name: "Airflow", category: "data", aliases: ["airflow"] },
+  { name: "dbt", category: "data", aliases: ["dbt"] },
+  { name: "Pandas", category: "data", aliases: ["pandas", "numpy"] },
+  { name: "Machine Learning", category: "data", aliases: ["machine learning", "ml", "tensorflow", "pytorch"] },
+  { name: "AWS", category: "cloud", aliases: ["aws", "amazon web services", "ec2", "s3", "lambda"] },
+  { name: "GCP", category: "cloud", aliases: ["gcp", "google cloud"] },
+  { name: "Azure", category: "cloud", aliases: ["azure"] },
+  { name: "Docker", category: "devops", aliases: ["docker", "containers"] },
+  { name: "Kubernetes", category: "devops", aliases: ["kubernetes", "k8s", "helm"] },
+  { name: "Terraform", category: "devops", aliases: ["terraform", "infrastructure as code"] },
+  { name: "CI/CD", category: "devops", aliases: ["ci/cd", "github actions", "jenkins", "gitlab ci"] },
+  { name: "Linux", category: "devops", aliases: ["linux", "bash", "shell scripting"] },
+  { name: "Prometheus", category: "devops", aliases: ["prometheus", "grafana"] },
+  { name: "Git", category: "tooling", aliases: ["git"] },
+  { name: "Testing", category: "tooling", aliases: ["jest", "vitest", "cypress", "unit testing", "tdd", "pytest"] }
+];
+
+const PROFICIENCY_LEVELS: SkillProficiency[] = ["familiar", "proficient", "advanced", "expert"];
+
+const MONTHS: Record<string, number> = {
+  jan: 1,
+  feb: 2,
+  mar: 3,
+  apr: 4,
+  may: 5,
+  jun: 6,
+  jul: 7,
+  aug: 8,
+  sep: 9,
+  sept: 9,
+  oct: 10,
+  nov: 11,
+  dec: 12
+};
+
+const MONTH_PATTERN =
+  "(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?";
+const YEAR_PATTERN = "(?:19|20)\\d{2}";
+const DATE_PATTERN = `(?:${MONTH_PATTERN}\\s+${YEAR_PATTERN}|\\d{1,2}/${YEAR_PATTERN}|${YEAR_PATTERN})`;
+const DATE_RANGE_REGEX = new RegExp(
+  `\\b(${DATE_PATTERN})\\s*(?:-|–|—|to|until)\\s*(${DATE_PATTERN}|present|current|now|today)\\b`,
+  "gi"
+);
+
+const DEGREE_REGEX =
+  /\b(bachelor(?:'s)?(?: of [a-z]+)?|master(?:'s)?(?: of [a-z]+)?|b\.?\s?s\.?c?\.?|m\.?\s?s\.?c?\.?|b\.?\s?tech|m\.?\s?tech|b\.?\s?e\.?|b\.?\s?a\.?|m\.?\s?a\.?|ph\.?\s?d\.?|mba|associate(?:'s)? degree)(?:\s+(?:degree\s+)?in\s+([a-z][a-z &]{2,60}))?/i;
+const INSTITUTION_REGEX =
+  /((?:[A-Z][\w.&'-]*\s+){0,4}(?:University|College|Institute|School|Academy|Polytechnic)(?:\s+of(?:\s+[A-Z][\w.&'-]*){1,4})?)/;
+const TITLE_KEYWORDS =
+  /\b(engineer|developer|programmer|architect|manager|lead|intern|consultant|scientist|analyst|designer|director|head|specialist|administrator|sre|devops|cto|founder|officer)\b/i;
+const YEARS_OF_EXPERIENCE_REGEX = /(\d{1,2})\+?\s*(?:years?|yrs?)\s+(?:of\s+)?(?:professional\s+|industry\s+)?experience/gi;
+const toTitleCase = (value: string) => value.replace(/\b[a-z]/g, (letter) => letter.toUpperCase());
+// Headings end with a colon or line break, or (in flattened PDF text) are written in Title or UPPER case.
+const SECTION_HEADING_REGEX = new RegExp(`(?:^|\\s)(${RESUME_SECTION_HEADINGS.join("|")})\\s*(?::|\\n)`, "gi");
+const FLAT_SECTION_HEADING_REGEX = new RegExp(
+  `(?:^|\\s)(${RESUME_SECTION_HEADINGS.flatMap((heading) => [toTitleCase(heading), heading.toUpperCase()]).join("|")})(?=\\s)`,
+  "g"
+);
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const roundYears = (value: number) => Math.round(value * 10) / 10;
+
+/** Turns "Mar 2021", "03/2021" or "2021" into a "YYYY-MM" / "YYYY" label. */
+const toResumeDateLabel = (value: string): string | null => {
+  const trimmed = value.trim().toLowerCase().replace(/\.$/, "");
+  const monthYear = trimmed.match(/^([a-z]+)\.?\s+(\d{4})$/);
+  if (monthYear) {
+    const month = MONTHS[monthYear[1].slice(0, 4)] ?? MONTHS[monthYear[1].slice(0, 3)];
+    return month ? `${monthYear[2]}-${String(month).padStart(2, "0")}` : null;
+  }
+  const numeric = trimmed.match(/^(\d{1,2})\/(\d{4})$/);
+  if (numeric && Number(numeric[1]) >= 1 && Number(numeric[1]) <= 12) {
+    return `${numeric[2]}-${numeric[1].padStart(2, "0")}`;
+  }
+  return /^\d{4}$/.test(trimmed) ? trimmed : null;
+};
+
+const isCurrentMarker = (value: string) => /^(present|current|now|today)$/i.test(value.trim());
+
+const cleanFragment = (value: string) =>
+  value
+    .replace(/^[\s|•·,;:–—-]+|[\s|•·,;:–—-]+$/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+
+export const extractResumeLinks = (text: string): ResumeLinks => {
+  const urls = Array.from(
+    new Set(
+      (text.match(/(?:https?:\/\/)?(?:www\.)?[a-z0-9-]+(?:\.[a-z0-9-]+)*\.[a-z]{2,}(?:\/[^\s,;)]*)?/gi) ?? [])
+        .map((url) => url.replace(/[.)]+$/, ""))
+        .filter((url) => !url.includes("@"))
+    )
+  );
+
+  const github = urls.find((url) => /github\.com\/[\w-]+/i.test(url)) ?? null;
+  const linkedin = urls.find((url) => /linkedin\.com\/(?:in|pub)\/[\w-]+/i.test(url)) ?? null;
+  const rest = urls.filter(
+    (url) => url !== github && url !== linkedin && (/^https?:\/\//i.test(url) || /^www\./i.test(url))
+  );
+
+  return {
+    github,
+    linkedin,
+    portfolio: rest[0] ?? null,
+    other: rest.slice(1)
+  };
+};
+
+const proficiencyFor = (mentions: number, years: number | null): SkillProficiency => {
+  if (years !== null && years >= 6) {
+    return "expert";
+  }
+  if ((years !== null && years >= 3) || mentions >= 4) {
+    return "advanced";
+  }
+  if ((years !== null && years >= 1) || mentions >= 2) {
+    return "proficient";
+  }
+  return "familiar";
+};
+
+const extractSkills = (text: string): ResumeSkill[] => {
+  const lower = text.toLowerCase();
+
+  return SKILL_CATALOG.flatMap((skill) => {
+    let mentions = 0;
+    let years: number | null = null;
+
+    skill.aliases.forEach((alias) => {
+      // Word boundaries don't work around symbols like "c#" or ".net", so look at neighbours instead.
+      const aliasRegex = new RegExp(`(^|[^a-z0-9+#.])${escapeRegExp(alias)}(?=$|[^a-z0-9+#])`, "gi");
+      mentions += (lower.match(aliasRegex) ?? []).length;
+
+      const yearsRegex = new RegExp(
+        `(\\d{1,2})\\+?\\s*(?:years?|yrs?)\\s+(?:of\\s+)?(?:experience\\s+(?:with|in)\\s+)?${escapeRegExp(alias)}(?=$|[^a-z0-9+#])`,
+        "gi"
+      );
+      for (const match of lower.matchAll(yearsRegex)) {
+        years = Math.max(years ?? 0, Number(match[1]));
+      }
+    });
+
+    if (mentions === 0) {
+      return [];
+    }
+    return [
+      {
+        name: skill.name,
+        category: skill.category,
+        proficiency: proficiencyFor(mentions, years),
+        years
+      } satisfies ResumeSkill
+    ];
+  }).sort(
+    (left, right) =>
+      PROFICIENCY_LEVELS.indexOf(right.proficiency) - PROFICIENCY_LEVELS.indexOf(left.proficiency) ||
+      left.name.localeCompare(right.name)
+  );
+};
+
+/**
+ * Flattened text glues the end of the previous bullet onto the next title ("...by 40% Software
+ * Engineer"), so keep only the trailing capitalised phrase when it contains a job-title word.
+ */
+const trimTitle = (value: string) => {
+  const phrase = value.match(/((?:[A-Z][\w/+.-]*\s+(?:(?:of|and|&)\s+)?)*[A-Z][\w/+.-]*)$/)?.[1];
+  return phrase && TITLE_KEYWORDS.test(phrase) ? phrase : value;
+};
+
+const splitTitleAndCompany = (context: string): Pick<WorkExperience, "title" | "company"> => {
+  const cleaned = cleanFragment(context);
+  if (!cleaned) {
+    return { title: null, company: null };
+  }
+
+  const atMatch = cleaned.match(/^(.{2,80}?)\s+(?:at|@)\s+(.{2,80})$/i);
+  if (atMatch) {
+    return { title: trimTitle(cleanFragment(atMatch[1])), company: cleanFragment(atMatch[2]) };
+  }
+
+  const parts = cleaned
+    .split(/\s*(?:\||,|•|·|\s–\s|\s—\s|\s-\s)\s*/)
+    .map(cleanFragment)
+    .filter(Boolean)
+    .slice(-2);
+
+  if (parts.length === 2) {
+    const [first, second] = parts;
+    return TITLE_KEYWORDS.test(second) && !TITLE_KEYWORDS.test(first)
+      ? { title: trimTitle(second), company: first }
+      : { title: trimTitle(first), company: second };
+  }
+
+  return TITLE_KEYWORDS.test(cleaned)
+    ? { title: trimTitle(cleaned), company: null }
+    : { title: null, company: cleaned };
+};
+
+const parseEducationContext = (context: string): Omit<EducationEntry, "startDate" | "endDate"> => {
+  const degreeMatch = context.match(DEGREE_REGEX);
+  const institutionMatch = context.match(INSTITUTION_REGEX);
+  return {
+    institution: institutionMatch ? cleanFragment(institutionMatch[1]) : null,
+    degree: degreeMatch ? cleanFragment(degreeMatch[1]) : null,
+    field: degreeMatch?.[2] ? cleanFragment(degreeMatch[2].split(/\s{2,}| at | from /i)[0]) : null
+  };
+};
+
+const isEducationContext = (context: string) => INSTITUTION_REGEX.test(context) || DEGREE_REGEX.test(context);
+
+type SectionRange = { name: "experience" | "education" | "other"; start: number; end: number };
+
+const findSections = (text: string): SectionRange[] => {
+  const byStart = new Map<number, SectionRange>();
+  [SECTION_HEADING_REGEX, FLAT_SECTION_HEADING_REGEX].forEach((regex) => {
+    for (const match of text.matchAll(regex)) {
+      const heading = match[1].toLowerCase();
+      const name = /education|academic/.test(heading)
+        ? "education"
+        : /experience|employment|work history/.test(heading)
+        ? "experience"
+        : "other";
+      const start = match.index ?? 0;
+      if (!byStart.has(start)) {
+        byStart.set(start, { name, start, end: start + match[0].length });
+      }
+    }
+  });
+  return Array.from(byStart.values()).sort((left, right) => left.start - right.start);
+};
+
+const sectionAt = (sections: SectionRange[], index: number) =>
+  sections.filter((section) => section.start <= index).pop()?.name ?? "other";
+
+/**
+ * Text before the date range on the same line (or since the previous entry or heading), else the
+ * text right after it.
+ */
+const entryContext = (
+  text: string,
+  sections: SectionRange[],
+  matchStart: number,
+  matchEnd: number,
+  previousEnd: number
+) => {
+  const windowStart = Math.max(
+    previousEnd,
+    ...sections.filter((section) => section.end <= matchStart).map((section) => section.end)
+  );
+  const lines = text.slice(windowStart, matchStart).split("\n").map(cleanFragment);
+  const sameLine = lines[lines.length - 1] ?? "";
+  const previousLine = [...lines.slice(0, -1)].reverse().find(Boolean) ?? "";
+  const beforeContext = cleanFragment(
+    sameLine.length >= 3
+      ? sameLine.length < 20 && previousLine
+        ? `${previousLine}, ${sameLine}`
+        : sameLine
+      : previousLine
+  ).slice(-120);
+
+  if (beforeContext.length >= 3) {
+    return beforeContext;
+  }
+
+  const after = text.slice(matchEnd, matchEnd + 160).split(/\n|•/)[0];
+  return cleanFragment(after);
+};
+
+const extractHighlights = (segment: string): string[] =>
+  segment
+    .split(/\n\s*[-*•▪●◦]\s*|[•▪●◦]/)
+    .slice(1)
+    .map(cleanFragment)
+    .filter((entry) => entry.length >= 15)
+    .slice(0, MAX_HIGHLIGHTS);
+
+const labelToDate = (label: string) => dayjs(label.length === 4 ? `${label}-01-01` : `${label}-01`);
+
+/** Merges overlapping jobs so concurrent roles aren't double counted. */
+export const computeTotalYearsExperience = (
+  experience: WorkExperience[],
+  now: dayjs.Dayjs = dayjs()
+): number | null => {
+  const intervals = experience
+    .map((entry) => {
+      if (!entry.startDate) {
+        return null;
+      }
+      const start = labelToDate(entry.startDate);
+      // A year-only end date covers that whole year.
+      const end =
+        entry.isCurrent || !entry.endDate
+          ? now
+          : entry.endDate.length === 4
+          ? labelToDate(entry.endDate).endOf("year")
+          : labelToDate(entry.endDate);
+      return start.isValid() && end.isValid() && end.isAfter(start) ? [start.valueOf(), end.valueOf()] : null;
+    })
+    .filter((interval): interval is number[] => interval !== null)
+    .sort((left, right) => left[0] - right[0]);
+
+  if (!intervals.length) {
+    return null;
+  }
+
+  let totalMs = 0;
+  let [currentStart, currentEnd] = intervals[0];
+  intervals.slice(1).forEach(([start, end]) => {
+    if (start <= currentEnd) {
+      currentEnd = Math.max(currentEnd, end);
+    } else {
+      totalMs += currentEnd - currentStart;
+      [currentStart, currentEnd] = [start, end];
+    }
+  });
+  totalMs += currentEnd - currentStart;
+
+  return roundYears(totalMs / (365.25 * 24 * 60 * 60 * 1000));
+};
+
+/**
+ * Deterministic extractor used when no LLM is configured (or it fails). It relies on a skill
+ * catalogue, date ranges and common heading and degree wording, so it favours precision: fields it
+ * can't place confidently are left null rather than guessed.
+ */
+export const extractStructuredResumeHeuristically = (
+  text: string,
+  now: dayjs.Dayjs = dayjs()
+): StructuredResume => {
+  const normalized = text.replace(/\r\n?/g, "\n");
+  const sections = findSections(normalized);
+  const matches = Array.from(normalized.matchAll(DATE_RANGE_REGEX));
+
+  const entries = matches.map((match, index) => {
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    const previous = matches[index - 1];
+    const previousEnd = previous ? (previous.index ?? 0) + previous[0].length : 0;
+    const context = entryContext(normalized, sections, start, end, previousEnd);
+    const isEducation = isEducationContext(context) || sectionAt(sections, start) === "education";
+    const parsed = isEducation ? parseEducationContext(context) : splitTitleAndCompany(context);
+
+    // Where the entry's text begins, so the previous entry's highlights stop there.
+    const anchors = Object.values(parsed)
+      .filter((value): value is string => Boolean(value))
+      .map((value) => normalized.lastIndexOf(value, start))
+      .filter((position) => position >= previousEnd);
+
+    return {
+      match,
+      end,
+      isEducation,
+      parsed,
+      anchor: anchors.length ? Math.min(...anchors) : start
+    };
+  });
+
+  const experience: WorkExperience[] = [];
+  const education: EducationEntry[] = [];
+
+  entries.forEach(({ match, end, isEducation, parsed }, index) => {
+    const startDate = toResumeDateLabel(match[1]);
+    const endDate = isCurrentMarker(match[2]) ? null : toResumeDateLabel(match[2]);
+
+    if (isEducation) {
+      education.push({ ...(parsed as Omit<EducationEntry, "startDate" | "endDate">), startDate, endDate });
+      return;
+    }
+
+    // Highlights run until the next entry or the next section heading, whichever comes first.
+    const highlightsEnd = Math.min(
+      entries[index + 1]?.anchor ?? normalized.length,
+      sections.find((section) => section.start >= end)?.start ?? normalized.length
+    );
+    experience.push({
+      ...(parsed as Pick<WorkExperience, "title" | "company">),
+      startDate,
+      endDate,
+      isCurrent: isCurrentMarker(match[2]),
+      highlights: extractHighlights(normalized.slice(end, highlightsEnd))
+    });
+  });
+
+  if (!education.length) {
+    const degreeLine = normalized.split("\n").find((line) => DEGREE_REGEX.test(line) && INSTITUTION_REGEX.test(line));
+    if (degreeLine) {
+      education.push({ ...parseEducationContext(degreeLine), startDate: null, endDate: null });
+    }
+  }
+
+  const statedYears = Array.from(normalized.matchAll(YEARS_OF_EXPERIENCE_REGEX)).map((match) => Number(match[1]));
+  const computedYears = computeTotalYearsExperience(experience, now);
+
+  return {
+    skills: extractSkills(normalized),
+    experience,
+    education,
+    links: extractResumeLinks(normalized),
+    totalYearsExperience: computedYears ?? (statedYears.length ? Math.max(...statedYears) : null),
+    source: "heuristic",
+    extractedAt: now.toISOString()
+  };
+};
+
+const toNullableString = (value: unknown): string | null =>
+  typeof value === "string" && value.trim() ? value.trim() : null;
+
+const toDateLabel = (value: unknown): string | null => {
+  const text = toNullableString(value);
+  if (!text) {
+    return null;
+  }
+  if (/^\d{4}(-\d{2})?$/.test(text)) {
+    return text;
+  }
+  return toResumeDateLabel(text);
+};
+
+const asRecords = (value: unknown): Array<Record<string, unknown>> =>
+  Array.isArray(value)
+    ? value.filter((entry): entry is Record<string, unknown> => Boolean(entry) && typeof entry === "object")
+    : [];
+
+/** Validates LLM output into the same shape the heuristic produces; links fall back to the regex results. */
+export const normalizeStructuredResume = (
+  payload: Record<string, unknown>,
+  fallbackLinks: ResumeLinks,
+  now: dayjs.Dayjs = dayjs()
+): StructuredResume => {
+  const skills = asRecords(payload.skills)
+    .map((entry) => {
+      const years = Number(entry.years);
+      const proficiency = String(entry.proficiency ?? "").toLowerCase() as SkillProficiency;
+      return {
+        name: toNullableString(entry.name) ?? "",
+        category: toNullableString(entry.category) ?? "general",
+        proficiency: PROFICIENCY_LEVELS.includes(proficiency) ? proficiency : "familiar",
+        years: Number.isFinite(years) && years > 0 ? years : null
+      } satisfies ResumeSkill;
+    })
+    .filter((skill) => skill.name);
+
+  const experience = asRecords(payload.experience).map((entry) => {
+    const endDate = toDateLabel(entry.endDate);
+    return {
+      company: toNullableString(entry.company),
+      title: toNullableString(entry.title),
+      startDate: toDateLabel(entry.startDate),
+      endDate,
+      isCurrent: entry.isCurrent === true || (!endDate && Boolean(toDateLabel(entry.startDate))),
+      highlights: (Array.isArray(entry.highlights) ? entry.highlights : [])
+        .filter((item): item is string => typeof item === "string" && item.trim().length > 0)
+        .map((item) => item.trim())
+        .slice(0, MAX_HIGHLIGHTS)
+    } satisfies WorkExperience;
+  });
+
+  const education = asRecords(payload.education).map(
+    (entry) =>
+      ({
+        institution: toNullableString(entry.institution),
+        degree: toNullableString(entry.degree),
+        field: toNullableString(entry.field),
+        startDate: toDateLabel(entry.startDate),
+        endDate: toDateLabel(entry.endDate)
+      }) satisfies EducationEntry
+  );
+
+  const links = (payload.links && typeof payload.links === "object" ? payload.links : {}) as Record<string, unknown>;
+  const statedYears = Number(payload.totalYearsExperience);
+
+  return {
+    skills,
+    experience,
+    education,
+    links: {
+      github: toNullableString(links.github) ?? fallbackLinks.github,
+      linkedin: toNullableString(links.linkedin) ?? fallbackLinks.linkedin,
+      portfolio: toNullableString(links.portfolio) ?? fallbackLinks.portfolio,
+      other: fallbackLinks.other
+    },
+    totalYearsExperience:
+      computeTotalYearsExperience(experience, now) ??
+      (Number.isFinite(statedYears) && statedYears > 0 ? roundYears(statedYears) : null),
+    source: "llm",
+    extractedAt: now.toISOString()
+  };
+};
+
+const buildStructuredResumePrompt = (resumeText: string) => `You are an expert resume parser for software engineering candidates.
+Return ONLY a JSON object with this schema:
+{
+  "skills": [{ "name": string, "category": string, "proficiency": "familiar" | "proficient" | "advanced" | "expert", "years": number | null }],
+  "experience": [{ "company": string | null, "title": string | null, "startDate": "YYYY-MM" | null, "endDate": "YYYY-MM" | null, "isCurrent": boolean, "highlights": string[] }],
+  "education": [{ "institution": string | null, "degree": string | null, "field": string | null, "startDate": "YYYY-MM" | null, "endDate": "YYYY-MM" | null }],
+  "links": { "github": string | null, "linkedin": string | null, "portfolio": string | null },
+  "totalYearsExperience": number | null
+}
+
+Rules:
+- Only use facts stated in the resume; use null when something isn't there.
+- Estimate proficiency from years of use, seniority and how central the skill is to the candidate's work.
+- Keep at most ${MAX_HIGHLIGHTS} short highlights per role.
+
+Resume text (between triple backticks):
+\`\`\`
+${resumeText.length > MAX_PROMPT_CHARACTERS ? `${resumeText.slice(0, MAX_PROMPT_CHARACTERS)}\n[Content truncated]` : resumeText}
+\`\`\`
+`;
+
+export const analyzeResumeText = async (text: string): Promise<StructuredResume> => {
+  const provider = getLlmProvider();
+  if (provider.isConfigured()) {
+    try {
+      const parsed = await provider.generateJson(buildStructuredResumePrompt(text), {
+        temperature: 0.1,
+        maxOutputTokens: 2048
+      });
+      if (parsed) {
+        return normalizeStructuredResume(parsed, extractResumeLinks(text));
+      }
+    } catch (error) {
+      console.error("LLM structured resume parsing failed", error);
+    }
+  }
+
+  return extractStructuredResumeHeuristically(text);
+};
+
+/** Compact plain-text view of a structured resume, small enough to drop into a generation prompt. */
+export const summarizeStructuredResume = (structured: StructuredResume): string => {
+  const lines: string[] = [];
+
+  if (structured.totalYearsExperience !== null) {
+    lines.push(`Total experience: ${structured.totalYearsExperience} years`);
+  }
+  if (structured.skills.length) {
+    const skills = structured.skills.map(
+      (skill) => `${skill.name} (${skill.proficiency}${skill.years ? `, ${skill.years} years` : ""})`
+    );
+    lines.push(`Skills: ${skills.join(", ")}`);
+  }
+  if (structured.experience.length) {
+    lines.push("Experience:");
+    structured.experience.forEach((entry) => {
+      const role = [entry.title, entry.company].filter(Boolean).join(" at ") || "Role";
+      const end = entry.isCurrent ? "present" : entry.endDate ?? "?";
+      lines.push(`- ${role} (${entry.startDate ?? "?"} – ${end})`);
+      entry.highlights.forEach((highlight) => lines.push(`  - ${highlight}`));
+    });
+  }
+  if (structured.education.length) {
+    lines.push("Education:");
+    structured.education.forEach((entry) => {
+      const degree = [entry.degree, entry.field].filter(Boolean).join(" in ");
+      lines.push(`- ${[degree, entry.institution].filter(Boolean).join(", ") || "Education"}`);
+    });
+  }
+
+  return lines.join("\n");
+};
@@ -1,5 +1,6 @@
 import { GlobalWorkerOptions, getDocument } from "pdfjs-dist/legacy/build/pdf";
 import mammoth from "mammoth";
+import JSZip from "jszip";
 import { nanoid } from "@reduxjs/toolkit";
 import dayjs from "dayjs";
 import type {
@@ -7,18 +8,29 @@ import type {
   RequiredProfileField,
   ResumeFileMeta
 } from "../types/interview";
-import { callGemini, parseJsonFromText } from "./aiInterviewService";
+import { getLlmProvider } from "./llmProvider";
+import { analyzeResumeText } from "./resumeAnalyzer";
+import { extractPdfLayout } from "./pdfLayout";
 import {
   isValidEmail,
   isValidPhone,
   sanitizeProfileFieldValue
 } from "../utils/profileValidation";
+import {
+  decodeTextBuffer,
+  extractLegacyDocText,
+  markdownToPlainText,
+  odtContentToPlainText,
+  rtfToPlainText
+} from "../utils/resumeText";
+import { detectResumeSections, type ResumeSection } from "../utils/resumeSections";
 import pdfWorkerSrc from "pdfjs-dist/build/pdf.worker.min.js?url";
 
 export interface ParsedResumeResult {
   profile: CandidateProfile;
   resumeMeta: ResumeFileMeta;
   rawText: string;
+  sections: ResumeSection[];
 }
 
 export interface GeminiResumeContact {
@@ -101,19 +113,14 @@ const normalizeContactDetails = (payload: unknown): GeminiResumeContact => {
 export const parseResumeTextWithGemini = async (rawText: string): Promise<GeminiResumeContact> => {
   try {
     const prompt = buildResumeParsingPrompt(rawText);
-    const rawResponse = await callGemini(prompt, {
+    const parsed = await getLlmProvider().generateJson(prompt, {
       temperature: 0.1,
       maxOutputTokens: 256
     });
 
-    if (!rawResponse) {
-      return EMPTY_CONTACT;
-    }
-
-    const parsed = parseJsonFromText(rawResponse);
     return normalizeContactDetails(parsed);
   } catch (error) {
-    console.error("Gemini resume parsing failed", error);
+    console.error("LLM resume parsing failed", error);
     return EMPTY_CONTACT;
   }
 };
@@ -128,24 +135,12 @@ const readFileAsArrayBuffer = (file: File): Promise<ArrayBuffer> =>
     reader.readAsArrayBuffer(file);
   });
 
-const extractPdfText = async (file: File): Promise<string> => {
+const extractPdfText = async (file: File): Promise<ResumeTextExtraction> => {
   ensurePdfWorker();
   const data = await readFileAsArrayBuffer(file);
   const pdf = await getDocument({ data }).promise;
-  const maxPages = pdf.numPages;
-  const pageTexts = await Promise.all(
-    Array.from({ length: maxPages }, async (_, index) => {
-      const page = await pdf.getPage(index + 1);
-      const content = await page.getTextContent();
-      type PdfTextItem = { str?: string } & Record<string, unknown>;
-      return content.items
-        .map((item: PdfTextItem) => (item.str ? item.str : ""))
-        .join(" ")
-        .replace(/\s+/g, " ")
-        .trim();
-    })
-  );
-  return pageTexts.join("\n");
+  const { text, sections } = await extractPdfLayout(pdf);
+  return { text, sections };
 };
 
 const extractDocxText = async (file: File): Promise<string> => {
@@ -154,6 +149,120 @@ const extractDocxText = async (file: File): Promise<string> => {
   return value;
 };
 
+const extractOdtText = async (file: File): Promise<string> => {
+  const zip = await JSZip.loadAsync(await readFileAsArrayBuffer(file));
+  const content = zip.file("content.xml");
+  if (!content) {
+    throw new Error("The ODT file is missing its document content.");
+  }
+  return odtContentToPlainText(await content.async("string"));
+};
+
+/** Extractors that know the document's structure (e.g. PDF layout) return sections alongside the text. */
+export interface ResumeTextExtraction {
+  text: string;
+  sections: ResumeSection[];
+}
+
+export interface ResumeFormat {
+  id: string;
+  /** Shown to candidates in the upload hint and error messages. */
+  label: string;
+  extensions: string[];
+  mimeTypes: string[];
+  extractText: (file: File) => Promise<string | ResumeTextExtraction>;
+}
+
+const resumeFormats: ResumeFormat[] = [];
+
+/** Registers (or replaces, by id) the extractor for a resume format. */
+export const registerResumeFormat = (format: ResumeFormat) => {
+  const existing = resumeFormats.findIndex((entry) => entry.id === format.id);
+  if (existing >= 0) {
+    resumeFormats[existing] = format;
+  } else {
+    resumeFormats.push(format);
+  }
+};
+
+export const getResumeFormats = (): readonly ResumeFormat[] => resumeFormats;
+
+/** Value for a file input's `accept` attribute. */
+export const getAcceptedResumeTypes = () =>
+  resumeFormats
+    .flatMap((format) => [...format.extensions.map((extension) => `.${extension}`), ...format.mimeTypes])
+    .join(",");
+
+export const describeAcceptedResumeFormats = () => {
+  const labels = resumeFormats.map((format) => format.label);
+  return labels.length > 1 ? `${labels.slice(0, -1).join(", ")} or ${labels[labels.length - 1]}` : labels.join("");
+};
+
+// Extensions win over MIME types: browsers often report an empty or generic type for these files.
+export const findResumeFormat = (file: Pick<File, "name" | "type">): ResumeFormat | undefined => {
+  const extension = file.name.includes(".") ? file.name.split(".").pop()?.toLowerCase() : undefined;
+  return (
+    resumeFormats.find((format) => extension && format.extensions.includes(extension)) ??
+    resumeFormats.find((format) => file.type && format.mimeTypes.includes(file.type))
+  );
+};
+
+registerResumeFormat({
+  id: "pdf",
+  label: "PDF",
+  extensions: ["pdf"],
+  mimeTypes: ["application/pdf"],
+  extractText: extractPdfText
+});
+
+registerResumeFormat({
+  id: "docx",
+  label: "DOCX",
+  extensions: ["docx"],
+  mimeTypes: ["application/vnd.openxmlformats-officedocument.wordprocessingml.document"],
+  extractText: extractDocxText
+});
+
+registerResumeFormat({
+  id: "doc",
+  label: "DOC",
+  extensions: ["doc"],
+  mimeTypes: ["application/msword"],
+  extractText: async (file) => extractLegacyDocText(await readFileAsArrayBuffer(file))
+});
+
+registerResumeFormat({
+  id: "odt",
+  label: "ODT",
+  extensions: ["odt"],
+  mimeTypes: ["application/vnd.oasis.opendocument.text"],
+  extractText: extractOdtText
+});
+
+registerResumeFormat({
+  id: "rtf",
+  label: "RTF",
+  extensions: ["rtf"],
+  mimeTypes: ["application/rtf", "text/rtf"],
+  extractText: async (file) => rtfToPlainText(decodeTextBuffer(await readFileAsArrayBuffer(file)))
+});
+
+registerResumeFormat({
+  id: "markdown",
+  label: "Markdown",
+  extensions: ["md", "markdown"],
+  mimeTypes: ["text/markdown", "text/x-markdown"],
+  extractText: async (file) => markdownToPlainText(decodeTextBuffer(await readFileAsArrayBuffer(file)))
+});
+
+registerResumeFormat({
+  id: "text",
+  label: "TXT",
+  extensions: ["txt"],
+  mimeTypes: ["text/plain"],
+  extractText: async (file) => decodeTextBuffer(await readFileAsArrayBuffer(file))
+});
+
 const sanitizeMimeType = (mimeType: string) => {
   if (!mimeType) return "application/octet-stream";
   return mimeType;
@@ -167,26 +276,25 @@ export const parseResumeFile = async (
   file: File,
   options?: ResumeParsingOptions
 ): Promise<ParsedResumeResult> => {
-  const extension = file.name.split(".").pop()?.toLowerCase();
-  if (!extension) {
-    throw new Error("File must have an extension");
-  }
-
-  const isPdf = extension === "pdf" || file.type === "application/pdf";
-  const isDocx =
-    extension === "docx" ||
-    file.type === "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
-
-  if (!isPdf && !isDocx) {
-    throw new Error("Unsupported file type. Please upload a PDF or DOCX resume.");
+  const format = findResumeFormat(file);
+  if (!format) {
+    throw new Error(`Unsupported file type. Please upload a ${describeAcceptedResumeFormats()} resume.`);
   }
 
-  const rawText = isPdf ? await extractPdfText(file) : await extractDocxText(file);
+  const extracted = await format.extractText(file);
+  const rawText = typeof extracted === "string" ? extracted : extracted.text;
+  const sections =
+    typeof extracted === "string"
+      ? detectResumeSections(rawText.split("\n").map((text) => ({ text })))
+      : extracted.sections;
   if (!rawText.trim()) {
     throw new Error("Unable to extract text from the resume. Please try a different file.");
   }
 
-  const contact = await parseResumeTextWithGemini(rawText);
+  const [contact, structured] = await Promise.all([
+    parseResumeTextWithGemini(rawText),
+    analyzeResumeText(rawText)
+  ]);
 
   const resumeMeta: ResumeFileMeta = {
     id: nanoid(),
@@ -204,7 +312,8 @@ export const parseResumeFile = async (
     phone: contact.phone,
     role: options?.role ?? "Full Stack Engineer",
     resume: resumeMeta,
-    missingFields: []
+    missingFields: [],
+    structured
   };
 
   const missing = findMissingFields(profile);
@@ -213,7 +322,8 @@ export const parseResumeFile = async (
   return {
     profile,
     resumeMeta,
-    rawText
+    rawText,
+    sections
   };
 };
 
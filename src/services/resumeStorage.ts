@@ -1,6 +1,6 @@
 import { set, get, del } from "idb-keyval";
 
-type StoredResumePayload = {
+export type StoredResumePayload = {
   id: string;
   fileName: string;
   mimeType: string;
@@ -9,9 +9,12 @@ type StoredResumePayload = {
 };
 
 const RESUME_STORAGE_PREFIX = "resume:";
+const RESUME_TEXT_PREFIX = "resume-text:";
 
 export const buildResumeStorageKey = (id: string) => `${RESUME_STORAGE_PREFIX}${id}`;
 
+const buildResumeTextKey = (id: string) => `${RESUME_TEXT_PREFIX}${id}`;
+
 export const persistResumeFile = async (id: string, file: File): Promise<void> => {
   const buffer = await file.arrayBuffer();
   const payload: StoredResumePayload = {
@@ -24,10 +27,24 @@ export const persistResumeFile = async (id: string, file: File): Promise<void> =
   await set(buildResumeStorageKey(id), payload);
 };
 
+/** Writes a resume that already sits in memory, such as one restored from an archive bundle. */
+export const persistResumePayload = async (payload: StoredResumePayload): Promise<void> => {
+  await set(buildResumeStorageKey(payload.id), payload);
+};
+
 export const loadResumeFile = async (id: string): Promise<StoredResumePayload | undefined> => {
   return get<StoredResumePayload>(buildResumeStorageKey(id));
 };
 
+/** Extracted text is kept next to the file so it can be re-analysed without parsing the file again. */
+export const persistResumeText = async (id: string, text: string): Promise<void> => {
+  await set(buildResumeTextKey(id), text);
+};
+
+export const loadResumeText = async (id: string): Promise<string | undefined> => {
+  return get<string>(buildResumeTextKey(id));
+};
+
 export const deleteResumeFile = async (id: string): Promise<void> => {
-  await del(buildResumeStorageKey(id));
+  await Promise.all([del(buildResumeStorageKey(id)), del(buildResumeTextKey(id))]);
 };
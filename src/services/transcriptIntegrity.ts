@@ -0,0 +1,261 @@
+import type {
+  AnswerRecord,
+  ChatMessage,
+  InterviewQuestion,
+  TranscriptEntryKind,
+  TranscriptLink
+} from "../types/interview";
+
+/**
+ * Hash chain over an interview's chat messages and answers. Each link's hash is
+ *
+ *   SHA-256( canonicalJson([previousHash, kind, content]) )
+ *
+ * as lowercase hex, where the first link's previousHash is GENESIS_HASH. `content` is the chat
+ * message as stored, or for an answer the question asked plus what the candidate submitted, how they
+ * produced it, and how the AI scored it. Reviewer overrides are left out on purpose: they change
+ * answers after the fact and keep their own audit trail. Canonical JSON sorts object keys and drops
+ * undefined values, so the hashes can be recomputed offline from an exported record with any SHA-256
+ * tool.
+ */
+
+export const TRANSCRIPT_HASH_ALGORITHM = "SHA-256";
+
+export const GENESIS_HASH = "0".repeat(64);
+
+export type TranscriptProblem = "broken-link" | "modified" | "missing" | "unchained";
+
+export interface TranscriptIssue {
+  kind: TranscriptEntryKind;
+  /** Message id for chat entries, question id for answers. */
+  entryId: string;
+  /** Position in the chain; null for entries the chain never covered. */
+  position: number | null;
+  problem: TranscriptProblem;
+}
+
+/**
+ * "unsealed" transcripts were recorded before sealing existed, or had their chain stripped; there is
+ * nothing to check them against.
+ */
+export type TranscriptStatus = "intact" | "tampered" | "unsealed";
+
+export interface TranscriptVerification {
+  status: TranscriptStatus;
+  links: number;
+  headHash: string | null;
+  issues: TranscriptIssue[];
+}
+
+export interface TranscriptEntries {
+  chat: ChatMessage[];
+  answers: AnswerRecord[];
+  questions: InterviewQuestion[];
+}
+
+interface PendingEntry {
+  kind: TranscriptEntryKind;
+  entryId: string;
+  content: unknown;
+  at: string;
+}
+
+const canonicalize = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map((item) => (item === undefined ? null : canonicalize(item)));
+  }
+  if (value && typeof value === "object") {
+    return Object.keys(value)
+      .sort()
+      .reduce<Record<string, unknown>>((result, key) => {
+        const entry = (value as Record<string, unknown>)[key];
+        if (entry !== undefined) {
+          result[key] = canonicalize(entry);
+        }
+        return result;
+      }, {});
+  }
+  return value;
+};
+
+export const canonicalJson = (value: unknown) => JSON.stringify(canonicalize(value));
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+export const hashTranscriptEntry = async (
+  previousHash: string,
+  kind: TranscriptEntryKind,
+  content: unknown
+): Promise<string> => {
+  const bytes = new TextEncoder().encode(canonicalJson([previousHash, kind, content]));
+  return toHex(await globalThis.crypto.subtle.digest(TRANSCRIPT_HASH_ALGORITHM, bytes));
+};
+
+const chatContent = (message: ChatMessage) => ({
+  id: message.id,
+  sender: message.sender,
+  body: message.body,
+  createdAt: message.createdAt,
+  metadata: message.metadata
+});
+
+const answerContent = (answer: AnswerRecord, question: InterviewQuestion | undefined) => ({
+  question: question
+    ? {
+        id: question.id,
+        prompt: question.prompt,
+        difficulty: question.difficulty,
+        category: question.category,
+        timeLimitSeconds: question.timeLimitSeconds
+      }
+    : null,
+  answer: {
+    questionId: answer.questionId,
+    answer: answer.answer,
+    startedAt: answer.startedAt,
+    submittedAt: answer.submittedAt,
+    elapsedSeconds: answer.elapsedSeconds,
+    autoSubmitted: answer.autoSubmitted,
+    aiScore: answer.aiScore,
+    aiFeedback: answer.aiFeedback,
+    criterionScores: answer.criterionScores,
+    followUps: answer.followUps,
+    telemetry: answer.telemetry,
+    editLog: answer.editLog
+  }
+});
+
+const linkKey = (kind: TranscriptEntryKind, entryId: string) => `${kind}:${entryId}`;
+
+const contentFor = (
+  kind: TranscriptEntryKind,
+  entryId: string,
+  entries: TranscriptEntries
+): unknown | undefined => {
+  if (kind === "chat") {
+    const message = entries.chat.find((candidate) => candidate.id === entryId);
+    return message ? chatContent(message) : undefined;
+  }
+  const answer = entries.answers.find((candidate) => candidate.questionId === entryId);
+  return answer
+    ? answerContent(answer, entries.questions.find((question) => question.id === answer.questionId))
+    : undefined;
+};
+
+const isLink = (value: unknown): value is TranscriptLink => {
+  const link = value as Partial<TranscriptLink> | null;
+  return (
+    Boolean(link) &&
+    (link?.kind === "chat" || link?.kind === "answer") &&
+    typeof link?.entryId === "string" &&
+    typeof link?.previousHash === "string" &&
+    typeof link?.hash === "string"
+  );
+};
+
+/**
+ * Links for every entry the chain doesn't cover yet, oldest first, continuing from its last hash.
+ * Returns an empty list when everything is already sealed.
+ */
+export const extendTranscriptChain = async (
+  chain: TranscriptLink[],
+  entries: TranscriptEntries
+): Promise<TranscriptLink[]> => {
+  const sealed = new Set(chain.map((link) => linkKey(link.kind, link.entryId)));
+  const pending: PendingEntry[] = [
+    ...entries.answers.map((answer) => ({
+      kind: "answer" as const,
+      entryId: answer.questionId,
+      content: answerContent(answer, entries.questions.find((question) => question.id === answer.questionId)),
+      at: answer.submittedAt
+    })),
+    ...entries.chat.map((message) => ({
+      kind: "chat" as const,
+      entryId: message.id,
+      content: chatContent(message),
+      at: message.createdAt
+    }))
+  ]
+    .filter((entry) => !sealed.has(linkKey(entry.kind, entry.entryId)))
+    // Stable, so an answer and the chat message recorded in the same instant keep answer-first order.
+    .sort((left, right) => left.at.localeCompare(right.at));
+
+  const links: TranscriptLink[] = [];
+  let previousHash = chain.length ? chain[chain.length - 1].hash : GENESIS_HASH;
+  for (const entry of pending) {
+    const hash = await hashTranscriptEntry(previousHash, entry.kind, entry.content);
+    links.push({ kind: entry.kind, entryId: entry.entryId, previousHash, hash });
+    previousHash = hash;
+  }
+  return links;
+};
+
+/**
+ * Walks the chain, recomputing every hash from the stored entries. A changed message or answer shows
+ * up as "modified", a deleted one as "missing", an edited or reordered chain as "broken-link", and an
+ * entry slipped in without a link as "unchained".
+ */
+export const verifyTranscriptChain = async (
+  chain: unknown,
+  entries: TranscriptEntries
+): Promise<TranscriptVerification> => {
+  const hasEntries = entries.chat.length > 0 || entries.answers.length > 0;
+  if (chain === undefined || chain === null || (Array.isArray(chain) && !chain.length)) {
+    return { status: hasEntries ? "unsealed" : "intact", links: 0, headHash: null, issues: [] };
+  }
+
+  if (!Array.isArray(chain)) {
+    return {
+      status: "tampered",
+      links: 0,
+      headHash: null,
+      issues: [{ kind: "chat", entryId: "", position: null, problem: "broken-link" }]
+    };
+  }
+
+  const links: unknown[] = chain;
+  const issues: TranscriptIssue[] = [];
+  const seen = new Set<string>();
+  let expectedPrevious = GENESIS_HASH;
+
+  for (const [position, value] of links.entries()) {
+    if (!isLink(value)) {
+      issues.push({ kind: "chat", entryId: "", position, problem: "broken-link" });
+      continue;
+    }
+    seen.add(linkKey(value.kind, value.entryId));
+    if (value.previousHash !== expectedPrevious) {
+      issues.push({ kind: value.kind, entryId: value.entryId, position, problem: "broken-link" });
+    }
+    expectedPrevious = value.hash;
+
+    const content = contentFor(value.kind, value.entryId, entries);
+    if (content === undefined) {
+      issues.push({ kind: value.kind, entryId: value.entryId, position, problem: "missing" });
+      continue;
+    }
+    if ((await hashTranscriptEntry(value.previousHash, value.kind, content)) !== value.hash) {
+      issues.push({ kind: value.kind, entryId: value.entryId, position, problem: "modified" });
+    }
+  }
+
+  entries.answers.forEach((answer) => {
+    if (!seen.has(linkKey("answer", answer.questionId))) {
+      issues.push({ kind: "answer", entryId: answer.questionId, position: null, problem: "unchained" });
+    }
+  });
+  entries.chat.forEach((message) => {
+    if (!seen.has(linkKey("chat", message.id))) {
+      issues.push({ kind: "chat", entryId: message.id, position: null, problem: "unchained" });
+    }
+  });
+
+  const last = links[links.length - 1];
+  return {
+    status: issues.length ? "tampered" : "intact",
+    links: links.length,
+    headHash: isLink(last) ? last.hash : null,
+    issues
+  };
+};
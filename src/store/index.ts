@@ -12,18 +12,33 @@ import {
 import storage from "redux-persist/lib/storage";
 
 import candidatesReducer from "./slices/candidatesSlice";
+import questionBankReducer from "./slices/questionBankSlice";
+import recoveryReducer from "./slices/recoverySlice";
 import sessionReducer from "./slices/sessionSlice";
+import { listenerMiddleware } from "./listeners";
+import { PERSIST_KEY, PERSIST_VERSION, createPersistMigrate } from "./migrations";
+import { candidatesTransform } from "./transforms";
+import { loadCandidateRecords, persistCandidateRecords } from "../services/candidateArchiveStorage";
+import { saveQuarantinedRecords } from "../services/quarantineStorage";
 
 const rootReducer = combineReducers({
 	session: sessionReducer,
-	candidates: candidatesReducer
+	candidates: candidatesReducer,
+	questionBank: questionBankReducer,
+	recovery: recoveryReducer
 });
 
 const persistConfig = {
-	key: "interview-assistant",
+	key: PERSIST_KEY,
 	storage,
-	version: 1,
-	whitelist: ["session", "candidates"]
+	version: PERSIST_VERSION,
+	migrate: createPersistMigrate({
+		saveQuarantine: saveQuarantinedRecords,
+		saveCandidateRecords: persistCandidateRecords,
+		loadCandidateRecords
+	}),
+	transforms: [candidatesTransform],
+	whitelist: ["session", "candidates", "questionBank"]
 };
 
 const persistedReducer = persistReducer<ReturnType<typeof rootReducer>>(persistConfig, rootReducer);
@@ -35,7 +50,7 @@ export const store = configureStore({
 			serializableCheck: {
 				ignoredActions: [FLUSH, REHYDRATE, PAUSE, PERSIST, PURGE, REGISTER]
 			}
-		})
+		}).prepend(listenerMiddleware.middleware)
 });
 
 export const persistor = persistStore(store);
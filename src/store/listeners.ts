@@ -0,0 +1,18 @@
+import { createListenerMiddleware, isAnyOf, type TypedStartListening } from "@reduxjs/toolkit";
+
+import { addChatMessage, recordAnswer } from "./slices/sessionSlice";
+import { sealTranscript } from "./thunks/sessionThunks";
+import type { AppDispatch, RootState } from "./index";
+
+export const listenerMiddleware = createListenerMiddleware();
+
+const startAppListening = listenerMiddleware.startListening as TypedStartListening<RootState, AppDispatch>;
+
+// Every message and answer is sealed into the transcript's hash chain as soon as it is recorded,
+// whichever thunk recorded it.
+startAppListening({
+  matcher: isAnyOf(addChatMessage, recordAnswer),
+  effect: async (_, { dispatch, getState }) => {
+    await dispatch(sealTranscript(getState().session.activeSessionId));
+  }
+});
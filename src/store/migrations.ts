@@ -0,0 +1,395 @@
+import dayjs from "dayjs";
+import { createMigrate } from "redux-persist";
+import type { MigrationManifest, PersistedState } from "redux-persist";
+import type {
+  CandidateArchiveRecord,
+  CandidateIndexRow,
+  CandidateProfile,
+  InterviewSession
+} from "../types/interview";
+import type { RecoveryNotice } from "./slices/recoverySlice";
+import type { QuarantineKind, QuarantinedRecord } from "../services/quarantineStorage";
+import { DEFAULT_TEMPLATE_ID } from "../services/interviewTemplates";
+import { DEFAULT_ADAPTIVE_SETTINGS } from "../services/adaptiveDifficulty";
+import { DEFAULT_FOLLOW_UP_SETTINGS } from "../services/aiInterviewService";
+import { DEFAULT_PAUSE_SETTINGS } from "../services/interviewPause";
+import { buildCandidateIndexRow } from "../utils/candidateIndex";
+import { DEFAULT_CANDIDATE_FILTERS } from "../utils/candidateFilters";
+import { DEFAULT_CANDIDATE_SORT } from "../utils/candidateSorting";
+import { normalizeBankItem } from "../utils/questionBankTransfer";
+import {
+  isPlainObject,
+  validateCandidateIndexRow,
+  validateCandidateProfile,
+  validateCandidateRecord,
+  validateInterviewSession
+} from "../utils/recordValidation";
+
+export const PERSIST_KEY = "interview-assistant";
+export const PERSIST_VERSION = 7;
+
+type PersistedSlices = PersistedState & Record<string, unknown>;
+
+const mapRecord = (value: unknown, update: (entry: Record<string, unknown>) => Record<string, unknown>) =>
+  isPlainObject(value)
+    ? Object.fromEntries(
+        Object.entries(value).map(([key, entry]) => [key, isPlainObject(entry) ? update(entry) : entry])
+      )
+    : value;
+
+/**
+ * Each step upgrades a store written by the previous version. redux-persist runs every step above
+ * the stored version in order, so a step only has to handle the shape directly before it.
+ */
+export const persistMigrations: MigrationManifest = {
+  // Version 2 keys sessions by id; earlier stores held a single activeSession/activeProfile pair.
+  2: (state: PersistedState) => {
+    const persisted = state as (PersistedState & { session?: Record<string, unknown> }) | undefined;
+    const session = persisted?.session;
+    if (!persisted || !session || session.sessions) {
+      return state;
+    }
+    const { activeSession, activeProfile, ...rest } = session as {
+      activeSession?: InterviewSession | null;
+      activeProfile?: CandidateProfile | null;
+    };
+    return {
+      ...persisted,
+      session: {
+        ...rest,
+        sessions: activeSession ? { [activeSession.id]: activeSession } : {},
+        profiles: activeSession && activeProfile ? { [activeSession.id]: activeProfile } : {},
+        activeSessionId: activeSession?.id ?? null
+      }
+    };
+  },
+  // Version 3 writes out the settings and template ids that version 1 stores predate, instead of
+  // leaving every reader to fall back to defaults.
+  3: (state: PersistedState) => {
+    const persisted = state as PersistedSlices | undefined;
+    if (!persisted) {
+      return state;
+    }
+    const { session, candidates } = persisted;
+    return {
+      ...persisted,
+      ...(isPlainObject(session) && {
+        session: {
+          selectedTemplateId: DEFAULT_TEMPLATE_ID,
+          adaptiveSettings: DEFAULT_ADAPTIVE_SETTINGS,
+          followUpSettings: DEFAULT_FOLLOW_UP_SETTINGS,
+          resumeGroundingByTemplate: {},
+          pauseSettings: DEFAULT_PAUSE_SETTINGS,
+          ...session,
+          sessions: mapRecord(session.sessions, (entry) => ({ templateId: DEFAULT_TEMPLATE_ID, ...entry }))
+        }
+      }),
+      ...(isPlainObject(candidates) && {
+        candidates: {
+          reviewerName: "",
+          ...candidates,
+          records: mapRecord(candidates.records, (entry) => ({ templateId: DEFAULT_TEMPLATE_ID, ...entry }))
+        }
+      })
+    } as PersistedState;
+  },
+  // Version 4 keeps full candidate records in IndexedDB and only index rows in localStorage. The old
+  // records are parked in `pendingRecords`; the validator indexes them and the migrate step moves
+  // them across, since IndexedDB writes can't happen inside a synchronous step.
+  4: (state: PersistedState) => {
+    const persisted = state as PersistedSlices | undefined;
+    if (!persisted || !isPlainObject(persisted.candidates) || !("records" in persisted.candidates)) {
+      return state;
+    }
+    const { records, ...candidates } = persisted.candidates;
+    return {
+      ...persisted,
+      candidates: { ...candidates, index: {}, pendingRecords: records }
+    } as PersistedState;
+  },
+  // Version 5 adds candidate filters and saved filter presets. Index rows written by version 4 lack the
+  // auto-submit count the filters need; the migrate step rebuilds those from IndexedDB.
+  5: (state: PersistedState) => {
+    const persisted = state as PersistedSlices | undefined;
+    if (!persisted || !isPlainObject(persisted.candidates)) {
+      return state;
+    }
+    return {
+      ...persisted,
+      candidates: { filters: DEFAULT_CANDIDATE_FILTERS, filterPresets: [], ...persisted.candidates }
+    } as PersistedState;
+  },
+  // Version 6 replaces the single sortKey/sortDirection pair with a list of sort rules and persists the
+  // page size. The old pair was never shown in the UI, which always opened on newest first, so that is
+  // what stores start from rather than the pair's unused value. Rows get durations and per-difficulty
+  // averages the same way version 5 rows got their auto-submit count.
+  6: (state: PersistedState) => {
+    const persisted = state as PersistedSlices | undefined;
+    if (!persisted || !isPlainObject(persisted.candidates)) {
+      return state;
+    }
+    const candidates = { ...persisted.candidates };
+    delete candidates.sortKey;
+    delete candidates.sortDirection;
+    return {
+      ...persisted,
+      candidates: { sortRules: DEFAULT_CANDIDATE_SORT, pageSize: 12, ...candidates }
+    } as PersistedState;
+  },
+  // Version 7 adds hiring decisions. Saved filters and presets gain the empty decision filter; index
+  // rows need nothing, since no record saved before this version has a decision to index.
+  7: (state: PersistedState) => {
+    const persisted = state as PersistedSlices | undefined;
+    if (!persisted || !isPlainObject(persisted.candidates)) {
+      return state;
+    }
+    const { filters, filterPresets } = persisted.candidates;
+    return {
+      ...persisted,
+      candidates: {
+        ...persisted.candidates,
+        filters: { ...DEFAULT_CANDIDATE_FILTERS, ...(isPlainObject(filters) ? filters : {}) },
+        filterPresets: Array.isArray(filterPresets)
+          ? filterPresets.map((preset) =>
+              isPlainObject(preset) && isPlainObject(preset.filters)
+                ? { ...preset, filters: { ...DEFAULT_CANDIDATE_FILTERS, ...preset.filters } }
+                : preset
+            )
+          : []
+      }
+    } as PersistedState;
+  }
+};
+
+const describeError = (error: unknown) => (error instanceof Error ? error.message : "Unreadable record.");
+
+/** Drops ids whose record is gone and appends records the id list lost track of. */
+const reconcileIds = (ids: unknown, records: Record<string, unknown>) => {
+  const kept = Array.isArray(ids) ? ids.filter((id): id is string => typeof id === "string" && id in records) : [];
+  return [...kept, ...Object.keys(records).filter((id) => !kept.includes(id))];
+};
+
+/**
+ * Checks every stored session, profile, candidate row and bank question after migration. Records
+ * that fail are taken out and returned for quarantine, so one bad record doesn't take the rest of the
+ * store down with it. A slice that isn't even an object is set aside whole and starts from defaults.
+ */
+export const validatePersistedState = (
+  state: PersistedState,
+  quarantinedAt = dayjs().toISOString()
+): { state: PersistedState; quarantined: QuarantinedRecord[] } => {
+  const persisted = state as PersistedSlices | undefined;
+  if (!persisted) {
+    return { state, quarantined: [] };
+  }
+
+  const quarantined: QuarantinedRecord[] = [];
+  const quarantine = (kind: QuarantineKind, key: string, reason: string, data: unknown) =>
+    quarantined.push({ kind, key, reason, quarantinedAt, data });
+  const next: PersistedSlices = { ...persisted };
+
+  const checkSlice = (key: string, collections: string[]) => {
+    const slice = persisted[key];
+    if (slice === undefined) {
+      return null;
+    }
+    if (!isPlainObject(slice) || collections.some((collection) => !isPlainObject(slice[collection]))) {
+      quarantine("slice", key, `The saved "${key}" data is not in a readable shape.`, slice);
+      delete next[key];
+      return null;
+    }
+    return slice;
+  };
+
+  const session = checkSlice("session", ["sessions", "profiles"]);
+  if (session) {
+    const sessions: Record<string, unknown> = {};
+    const profiles: Record<string, unknown> = {};
+    const storedProfiles = session.profiles as Record<string, unknown>;
+    Object.entries(session.sessions as Record<string, unknown>).forEach(([id, value]) => {
+      try {
+        sessions[id] = validateInterviewSession(value, `Session ${id}`);
+      } catch (error) {
+        quarantine("session", id, describeError(error), { session: value, profile: storedProfiles[id] ?? null });
+      }
+    });
+    Object.entries(storedProfiles).forEach(([id, value]) => {
+      if (!sessions[id]) {
+        if (!quarantined.some((entry) => entry.kind === "session" && entry.key === id)) {
+          quarantine("profile", id, `Profile ${id} belongs to no saved session.`, value);
+        }
+        return;
+      }
+      try {
+        profiles[id] = validateCandidateProfile(value, `Session ${id}`);
+      } catch (error) {
+        quarantine("profile", id, describeError(error), value);
+      }
+    });
+    const activeSessionId =
+      typeof session.activeSessionId === "string" && sessions[session.activeSessionId] ? session.activeSessionId : null;
+    next.session = { ...session, sessions, profiles, activeSessionId };
+  }
+
+  const candidates = checkSlice("candidates", ["index"]);
+  if (candidates) {
+    const index: Record<string, unknown> = {};
+    Object.entries(candidates.index as Record<string, unknown>).forEach(([id, value]) => {
+      try {
+        index[id] = validateCandidateIndexRow(value, `Candidate ${id}`);
+      } catch (error) {
+        quarantine("candidate", id, describeError(error), value);
+      }
+    });
+    const nextCandidates: Record<string, unknown> = { ...candidates };
+    const { pendingRecords: storedPending } = candidates;
+    if (storedPending !== undefined) {
+      const pendingRecords: Record<string, CandidateArchiveRecord> = {};
+      if (isPlainObject(storedPending)) {
+        Object.entries(storedPending).forEach(([id, value]) => {
+          try {
+            const record = validateCandidateRecord(value, `Candidate ${id}`);
+            pendingRecords[id] = record;
+            index[id] = buildCandidateIndexRow(record);
+          } catch (error) {
+            quarantine("candidate", id, describeError(error), value);
+          }
+        });
+      } else {
+        quarantine("slice", "candidates", 'The saved "candidates" records are not in a readable shape.', storedPending);
+      }
+      nextCandidates.pendingRecords = pendingRecords;
+    }
+    next.candidates = { ...nextCandidates, index, ids: reconcileIds(candidates.ids, index) };
+  }
+
+  const questionBank = checkSlice("questionBank", ["items"]);
+  if (questionBank) {
+    const items: Record<string, unknown> = {};
+    Object.entries(questionBank.items as Record<string, unknown>).forEach(([id, value], index) => {
+      try {
+        normalizeBankItem(value, index + 1);
+        items[id] = value;
+      } catch (error) {
+        quarantine("question", id, describeError(error), value);
+      }
+    });
+    next.questionBank = { ...questionBank, items, ids: reconcileIds(questionBank.ids, items) };
+  }
+
+  return { state: next, quarantined };
+};
+
+const buildRecoveryNotice = (records: QuarantinedRecord[]): RecoveryNotice => ({
+  quarantinedAt: records[0].quarantinedAt,
+  counts: records.reduce<RecoveryNotice["counts"]>((counts, record) => {
+    counts[record.kind] = (counts[record.kind] ?? 0) + 1;
+    return counts;
+  }, {})
+});
+
+interface PersistMigrateOptions {
+  saveQuarantine: (records: QuarantinedRecord[]) => Promise<void>;
+  saveCandidateRecords: (records: CandidateArchiveRecord[]) => Promise<void>;
+  loadCandidateRecords: (ids: string[]) => Promise<Array<CandidateArchiveRecord | undefined>>;
+  migrations?: MigrationManifest;
+}
+
+/**
+ * The `migrate` for persistConfig: runs the numbered steps, then the validator. Anything set aside is
+ * saved through `saveQuarantine`, and a recovery notice rides along in the rehydrated state (the
+ * recovery slice isn't persisted, so it only lasts for this load). If a migration step itself fails,
+ * the whole stored state is quarantined and the app starts empty rather than crashing.
+ *
+ * Candidate records still waiting to move out of localStorage are written through
+ * `saveCandidateRecords` and dropped from the slice, except where IndexedDB already holds a newer
+ * copy. If that write fails they stay where they are and the move is tried again on the next load.
+ * Index rows from an older row format are rebuilt from the records in `loadCandidateRecords` the
+ * same way, and keep their old shape until that succeeds.
+ */
+export const createPersistMigrate = ({
+  saveQuarantine,
+  saveCandidateRecords,
+  loadCandidateRecords,
+  migrations = persistMigrations
+}: PersistMigrateOptions) => {
+  const runMigrations = createMigrate(migrations, { debug: false });
+
+  const setAside = async (records: QuarantinedRecord[]) => {
+    try {
+      await saveQuarantine(records);
+    } catch (error) {
+      console.error("Failed to save quarantined records", error);
+    }
+  };
+
+  const flushPendingRecords = async (state: PersistedState) => {
+    const persisted = state as PersistedSlices | undefined;
+    const candidates = persisted?.candidates;
+    if (!persisted || !isPlainObject(candidates) || !isPlainObject(candidates.pendingRecords)) {
+      return state;
+    }
+    const { pendingRecords, ...rest } = candidates;
+    const parked = Object.values(pendingRecords) as CandidateArchiveRecord[];
+    try {
+      // A record already in IndexedDB was saved there after an earlier move failed, so the parked
+      // copy is older and must not overwrite it.
+      const stored = await loadCandidateRecords(parked.map((record) => record.id));
+      await saveCandidateRecords(parked.filter((_, position) => !stored[position]));
+    } catch (error) {
+      console.error("Failed to move candidate records to IndexedDB", error);
+      return state;
+    }
+    return { ...persisted, candidates: rest } as PersistedState;
+  };
+
+  const refreshStaleRows = async (state: PersistedState) => {
+    const persisted = state as PersistedSlices | undefined;
+    const candidates = persisted?.candidates;
+    if (!persisted || !isPlainObject(candidates) || !isPlainObject(candidates.index)) {
+      return state;
+    }
+    const index = candidates.index as Record<string, CandidateIndexRow>;
+    const staleIds = Object.keys(index).filter(
+      (id) => typeof index[id].autoSubmittedCount !== "number" || typeof index[id].answeringSeconds !== "number"
+    );
+    if (!staleIds.length) {
+      return state;
+    }
+    try {
+      const records = await loadCandidateRecords(staleIds);
+      const refreshed = { ...index };
+      records.forEach((record) => {
+        if (record) {
+          refreshed[record.id] = buildCandidateIndexRow(validateCandidateRecord(record, `Candidate ${record.id}`));
+        }
+      });
+      return { ...persisted, candidates: { ...candidates, index: refreshed } } as PersistedState;
+    } catch (error) {
+      console.error("Failed to refresh candidate index rows", error);
+      return state;
+    }
+  };
+
+  return async (state: PersistedState, currentVersion: number): Promise<PersistedState> => {
+    const quarantinedAt = dayjs().toISOString();
+    let result: { state: PersistedState; quarantined: QuarantinedRecord[] };
+    try {
+      result = validatePersistedState(await runMigrations(state, currentVersion), quarantinedAt);
+    } catch (error) {
+      console.error("Stored state could not be migrated", error);
+      const records: QuarantinedRecord[] = [
+        { kind: "store", key: PERSIST_KEY, reason: describeError(error), quarantinedAt, data: state }
+      ];
+      await setAside(records);
+      return { recovery: { notice: buildRecoveryNotice(records) } } as unknown as PersistedState;
+    }
+
+    const migrated = await refreshStaleRows(await flushPendingRecords(result.state));
+    if (!result.quarantined.length) {
+      return migrated;
+    }
+    await setAside(result.quarantined);
+    return { ...migrated, recovery: { notice: buildRecoveryNotice(result.quarantined) } } as PersistedState;
+  };
+};
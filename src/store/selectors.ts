@@ -1,46 +1,110 @@
 import { createSelector } from "@reduxjs/toolkit";
 import type { RootState } from "./index";
-import type { CandidateArchiveRecord } from "../types/interview";
+import type { CandidateIndexRow, QuestionBankItem, ResumeGroundingMode } from "../types/interview";
 import type { CandidatesState } from "./slices/candidatesSlice";
+import { matchesCandidateFilters, matchesSearchText, type CandidateFilters } from "../utils/candidateFilters";
+import type { QuestionBankState } from "./slices/questionBankSlice";
+import { DEFAULT_ADAPTIVE_SETTINGS } from "../services/adaptiveDifficulty";
+import { DEFAULT_FOLLOW_UP_SETTINGS } from "../services/aiInterviewService";
+import { DEFAULT_PAUSE_SETTINGS } from "../services/interviewPause";
+import { sortSessionQueue } from "../services/interviewQueue";
 
 export const selectSessionState = (state: RootState) => state.session;
 
-export const selectActiveSession = (state: RootState) => state.session.activeSession;
+export const selectActiveSessionId = (state: RootState) => state.session.activeSessionId;
 
-export const selectActiveProfile = (state: RootState) => state.session.activeProfile;
+export const selectActiveSession = (state: RootState) => {
+  const { activeSessionId, sessions } = state.session;
+  return activeSessionId ? sessions[activeSessionId] ?? null : null;
+};
+
+export const selectActiveProfile = (state: RootState) => {
+  const { activeSessionId, profiles } = state.session;
+  return activeSessionId ? profiles[activeSessionId] ?? null : null;
+};
+
+export const selectSessions = (state: RootState) => state.session.sessions;
+
+export const selectSessionProfiles = (state: RootState) => state.session.profiles;
+
+export const selectSessionQueue = createSelector([selectSessions], (sessions) =>
+  sortSessionQueue(Object.values(sessions))
+);
 
 export const selectResumeParseStatus = (state: RootState) => state.session.resumeParse;
 
 export const selectWelcomeBackVisible = (state: RootState) => state.session.welcomeBackVisible;
 
+export const selectSelectedTemplateId = (state: RootState) => state.session.selectedTemplateId;
+
+// State persisted before these settings existed doesn't have them yet.
+export const selectAdaptiveSettings = (state: RootState) =>
+  state.session.adaptiveSettings ?? DEFAULT_ADAPTIVE_SETTINGS;
+
+export const selectFollowUpSettings = (state: RootState) =>
+  state.session.followUpSettings ?? DEFAULT_FOLLOW_UP_SETTINGS;
+
+export const selectPauseSettings = (state: RootState) => state.session.pauseSettings ?? DEFAULT_PAUSE_SETTINGS;
+
+const NO_RESUME_GROUNDING: Record<string, ResumeGroundingMode> = {};
+
+export const selectResumeGroundingByTemplate = (state: RootState) =>
+  state.session.resumeGroundingByTemplate ?? NO_RESUME_GROUNDING;
+
+export const selectResumeGrounding = (state: RootState, templateId: string): ResumeGroundingMode =>
+  selectResumeGroundingByTemplate(state)[templateId] ?? "off";
+
 export const selectCandidateState = (state: RootState) => state.candidates;
 
-export const selectCandidateRecords = createSelector(
-  [selectCandidateState],
-  (candidatesState: CandidatesState) =>
-    candidatesState.ids
-      .map((id: string) => candidatesState.records[id])
-      .filter(Boolean) as CandidateArchiveRecord[]
+const selectCandidateIds = (state: RootState) => state.candidates.ids;
+
+const selectCandidateIndex = (state: RootState) => state.candidates.index;
+
+export const selectCandidateIndexRows = createSelector(
+  [selectCandidateIds, selectCandidateIndex],
+  (ids, index) => ids.map((id: string) => index[id]).filter(Boolean) as CandidateIndexRow[]
 );
 
+/** Full records fetched from IndexedDB so far; archived candidates that haven't been opened are absent. */
+export const selectLoadedCandidateRecords = (state: RootState) => state.candidates.loadedRecords;
+
+export const selectReviewerName = (state: RootState) => state.candidates.reviewerName;
+
 export const selectCandidateSearchQuery = (state: RootState) => state.candidates.searchQuery;
 
+export const selectCandidateSortRules = (state: RootState) => state.candidates.sortRules;
+
+export const selectCandidateListingPageSize = (state: RootState) => state.candidates.pageSize;
+
+export const selectCandidateFilters = (state: RootState) => state.candidates.filters;
+
+export const selectCandidateFilterPresets = (state: RootState) => state.candidates.filterPresets;
+
+/**
+ * Archived rows that pass the structured filters and match the search on name, email or summary, in
+ * the slice's sort order.
+ */
 export const selectFilteredCandidates = createSelector(
-  [selectCandidateRecords, selectCandidateSearchQuery],
-  (records: CandidateArchiveRecord[], searchQuery: string) => {
-    const query = searchQuery.trim().toLowerCase();
-    if (!query) {
-      return records;
-    }
-
-    return records.filter((record: CandidateArchiveRecord) => {
-      const name = record.profile.name ?? "";
-      const email = record.profile.email ?? "";
-      const summaryText = record.summary.summaryText ?? "";
-      return [name, email, summaryText].some((value) => value.toLowerCase().includes(query));
-    });
-  }
+  [selectCandidateIndexRows, selectCandidateSearchQuery, selectCandidateFilters],
+  (rows: CandidateIndexRow[], searchQuery: string, filters: CandidateFilters) =>
+    rows.filter(
+      (row: CandidateIndexRow) =>
+        matchesCandidateFilters({ ...row, score: row.finalScore, stage: "completed" }, filters) &&
+        matchesSearchText([row.name, row.email, row.summaryPreview], searchQuery)
+    )
 );
 
 export const selectCandidateById = (id: string) =>
-  createSelector([selectCandidateState], (state: CandidatesState) => state.records[id] ?? null);
+  createSelector([selectCandidateState], (state: CandidatesState) => state.loadedRecords[id] ?? null);
+
+export const selectQuestionBankState = (state: RootState) => state.questionBank;
+
+export const selectQuestionBankItems = createSelector(
+  [selectQuestionBankState],
+  (bankState: QuestionBankState) =>
+    bankState.ids.map((id: string) => bankState.items[id]).filter(Boolean) as QuestionBankItem[]
+);
+
+export const selectQuestionSourceMode = (state: RootState) => state.questionBank.sourceMode;
+
+export const selectRecoveryNotice = (state: RootState) => state.recovery.notice;
@@ -1,99 +1,360 @@
-import { createSlice, PayloadAction } from "@reduxjs/toolkit";
+import { createSlice, nanoid, PayloadAction } from "@reduxjs/toolkit";
 import dayjs from "dayjs";
-import { CandidateArchiveRecord } from "../../types/interview";
+import {
+  CandidateArchiveRecord,
+  CandidateIndexRow,
+  HiringDecisionStatus,
+  ScoreAuditEntry,
+  ScoreOverrideTarget
+} from "../../types/interview";
+import { buildCandidateIndexRow } from "../../utils/candidateIndex";
+import {
+  DEFAULT_CANDIDATE_FILTERS,
+  type CandidateFilterPreset,
+  type CandidateFilters
+} from "../../utils/candidateFilters";
+import {
+  compareCandidates,
+  DEFAULT_CANDIDATE_SORT,
+  MAX_SORT_RULES,
+  type CandidateSortRule
+} from "../../utils/candidateSorting";
+import { getEffectiveAnswerScore, getEffectiveFinalScore } from "../../utils/scoreOverrides";
 
-export type CandidateSortKey = "score" | "name" | "date";
-export type CandidateSortDirection = "asc" | "desc";
+export const CANDIDATE_PAGE_SIZES = [12, 24, 48, 96];
 
+/**
+ * Only the index rows are persisted with the rest of the store. Full records live in IndexedDB and
+ * are copied into `loadedRecords` when a reviewer opens them; that cache is stripped before saving.
+ */
 export interface CandidatesState {
-  records: Record<string, CandidateArchiveRecord>;
+  index: Record<string, CandidateIndexRow>;
   ids: string[];
-  sortKey: CandidateSortKey;
-  sortDirection: CandidateSortDirection;
+  loadedRecords: Record<string, CandidateArchiveRecord>;
+  /** Records carried over from the localStorage archive that haven't been written to IndexedDB yet. */
+  pendingRecords?: Record<string, CandidateArchiveRecord>;
+  /** Applied in order, each one breaking ties left by the one before; never empty. */
+  sortRules: CandidateSortRule[];
   searchQuery: string;
+  filters: CandidateFilters;
+  filterPresets: CandidateFilterPreset[];
+  pageSize: number;
+  reviewerName: string;
+}
+
+interface ScoreChangeMeta {
+  candidateId: string;
+  reason: string;
+  reviewer: string;
 }
 
 const initialState: CandidatesState = {
-  records: {},
+  index: {},
   ids: [],
-  sortKey: "score",
-  sortDirection: "desc",
-  searchQuery: ""
-};
-
-const sorters: Record<CandidateSortKey, (a: CandidateArchiveRecord, b: CandidateArchiveRecord) => number> = {
-  score: (a, b) => a.finalScore - b.finalScore,
-  name: (a, b) => {
-    const nameA = a.profile.name ?? "";
-    const nameB = b.profile.name ?? "";
-    return nameA.localeCompare(nameB, undefined, { sensitivity: "base" });
-  },
-  date: (a, b) => dayjs(a.completedAt).valueOf() - dayjs(b.completedAt).valueOf()
+  loadedRecords: {},
+  sortRules: DEFAULT_CANDIDATE_SORT,
+  searchQuery: "",
+  filters: DEFAULT_CANDIDATE_FILTERS,
+  filterPresets: [],
+  pageSize: CANDIDATE_PAGE_SIZES[0],
+  reviewerName: ""
 };
 
-const applySort = (
-  ids: string[],
-  records: Record<string, CandidateArchiveRecord>,
-  sortKey: CandidateSortKey,
-  sortDirection: CandidateSortDirection
-) => {
-  const sorted = [...ids].sort((left, right) => {
-    const a = records[left];
-    const b = records[right];
+const applySort = (ids: string[], index: Record<string, CandidateIndexRow>, sortRules: CandidateSortRule[]) => {
+  const compare = compareCandidates(sortRules);
+  return [...ids].sort((left, right) => {
+    const a = index[left];
+    const b = index[right];
 
     if (!a || !b) {
       return 0;
     }
-    const base = sorters[sortKey](a, b);
-    return sortDirection === "asc" ? base : base * -1;
+    return compare(
+      { ...a, activityAt: a.completedAt, score: a.finalScore },
+      { ...b, activityAt: b.completedAt, score: b.finalScore }
+    );
   });
-  return sorted;
 };
 
+const appendAuditEntry = (
+  record: CandidateArchiveRecord,
+  target: ScoreOverrideTarget,
+  entry: Omit<ScoreAuditEntry, "id" | "target">
+) => {
+  record.scoreAuditLog = [...(record.scoreAuditLog ?? []), { id: nanoid(), target, ...entry }];
+};
+
+const dropPendingRecord = (state: CandidatesState, id: string) => {
+  if (!state.pendingRecords?.[id]) {
+    return;
+  }
+  delete state.pendingRecords[id];
+  if (!Object.keys(state.pendingRecords).length) {
+    delete state.pendingRecords;
+  }
+};
+
+const clampOverrideScore = (score: number) => Math.min(10, Math.max(0, Math.round(score * 10) / 10));
+
 const candidatesSlice = createSlice({
   name: "candidates",
   initialState,
   reducers: {
     upsertCandidate(state: CandidatesState, action: PayloadAction<CandidateArchiveRecord>) {
       const record = action.payload;
-      state.records[record.id] = record;
+      state.index[record.id] = buildCandidateIndexRow(record);
+      state.loadedRecords[record.id] = record;
       if (!state.ids.includes(record.id)) {
         state.ids.push(record.id);
       }
-      state.ids = applySort(state.ids, state.records, state.sortKey, state.sortDirection);
+      state.ids = applySort(state.ids, state.index, state.sortRules);
+    },
+    importCandidates(state: CandidatesState, action: PayloadAction<CandidateArchiveRecord[]>) {
+      action.payload.forEach((record) => {
+        state.index[record.id] = buildCandidateIndexRow(record);
+        // Only refresh a record that is already open; the rest load from IndexedDB on demand.
+        if (state.loadedRecords[record.id]) {
+          state.loadedRecords[record.id] = record;
+        }
+        // Imports are written to IndexedDB first, which supersedes any parked copy.
+        dropPendingRecord(state, record.id);
+        if (!state.ids.includes(record.id)) {
+          state.ids.push(record.id);
+        }
+      });
+      state.ids = applySort(state.ids, state.index, state.sortRules);
     },
     removeCandidate(state: CandidatesState, action: PayloadAction<string>) {
       const id = action.payload;
-      delete state.records[id];
+      delete state.index[id];
+      delete state.loadedRecords[id];
       state.ids = state.ids.filter((existingId) => existingId !== id);
     },
-    setSortKey(state: CandidatesState, action: PayloadAction<CandidateSortKey>) {
-      state.sortKey = action.payload;
-      state.ids = applySort(state.ids, state.records, state.sortKey, state.sortDirection);
+    recordsLoaded(state: CandidatesState, action: PayloadAction<CandidateArchiveRecord[]>) {
+      action.payload.forEach((record) => {
+        state.loadedRecords[record.id] = record;
+      });
     },
-    setSortDirection(state: CandidatesState, action: PayloadAction<CandidateSortDirection>) {
-      state.sortDirection = action.payload;
-      state.ids = applySort(state.ids, state.records, state.sortKey, state.sortDirection);
+    /** The record is now in IndexedDB, so its parked copy is out of date and must not be moved there later. */
+    pendingRecordSaved(state: CandidatesState, action: PayloadAction<string>) {
+      dropPendingRecord(state, action.payload);
+    },
+    /** Sets the rule at `position` (appending when it is one past the end); a key can only be used once. */
+    setSortRule(state: CandidatesState, action: PayloadAction<{ position: number; rule: CandidateSortRule }>) {
+      const { position, rule } = action.payload;
+      if (position < 0 || position > state.sortRules.length || position >= MAX_SORT_RULES) {
+        return;
+      }
+      const rules = [...state.sortRules];
+      rules[position] = rule;
+      state.sortRules = rules.filter((entry, entryPosition) => entryPosition === position || entry.key !== rule.key);
+      state.ids = applySort(state.ids, state.index, state.sortRules);
+    },
+    removeSortRule(state: CandidatesState, action: PayloadAction<number>) {
+      if (action.payload <= 0) {
+        return;
+      }
+      state.sortRules = state.sortRules.filter((_, position) => position !== action.payload);
+      state.ids = applySort(state.ids, state.index, state.sortRules);
+    },
+    setCandidatePageSize(state: CandidatesState, action: PayloadAction<number>) {
+      state.pageSize = action.payload;
     },
     setSearchQuery(state: CandidatesState, action: PayloadAction<string>) {
       state.searchQuery = action.payload;
     },
+    setCandidateFilters(state: CandidatesState, action: PayloadAction<Partial<CandidateFilters>>) {
+      state.filters = { ...state.filters, ...action.payload };
+    },
+    resetCandidateFilters(state: CandidatesState) {
+      state.filters = DEFAULT_CANDIDATE_FILTERS;
+    },
+    /** Saves the current filters and search under a name, replacing any preset that already has it. */
+    saveFilterPreset(state: CandidatesState, action: PayloadAction<string>) {
+      const name = action.payload.trim();
+      if (!name) {
+        return;
+      }
+      const preset: CandidateFilterPreset = {
+        id: nanoid(),
+        name,
+        filters: state.filters,
+        searchQuery: state.searchQuery,
+        savedAt: dayjs().toISOString()
+      };
+      const existing = state.filterPresets.findIndex((entry) => entry.name.toLowerCase() === name.toLowerCase());
+      if (existing >= 0) {
+        state.filterPresets[existing] = { ...preset, id: state.filterPresets[existing].id };
+      } else {
+        state.filterPresets.push(preset);
+      }
+    },
+    applyFilterPreset(state: CandidatesState, action: PayloadAction<string>) {
+      const preset = state.filterPresets.find((entry) => entry.id === action.payload);
+      if (preset) {
+        state.filters = { ...DEFAULT_CANDIDATE_FILTERS, ...preset.filters };
+        state.searchQuery = preset.searchQuery;
+      }
+    },
+    deleteFilterPreset(state: CandidatesState, action: PayloadAction<string>) {
+      state.filterPresets = state.filterPresets.filter((entry) => entry.id !== action.payload);
+    },
+    setCandidateTags(state: CandidatesState, action: PayloadAction<{ candidateId: string; tags: string[] }>) {
+      const record = state.loadedRecords[action.payload.candidateId];
+      if (!record) {
+        return;
+      }
+      const tags = action.payload.tags.map((tag) => tag.trim()).filter(Boolean);
+      record.tags = tags.filter((tag, position) => tags.indexOf(tag) === position);
+      state.index[record.id] = buildCandidateIndexRow(record);
+    },
+    /** Appends to the decision history; earlier decisions are kept, the new one becomes current. */
+    recordHiringDecision(
+      state: CandidatesState,
+      action: PayloadAction<{ candidateId: string; status: HiringDecisionStatus; notes: string; reviewer: string }>
+    ) {
+      const { candidateId, status, notes, reviewer } = action.payload;
+      const record = state.loadedRecords[candidateId];
+      if (!record) {
+        return;
+      }
+      record.decisions = [
+        ...(record.decisions ?? []),
+        { id: nanoid(), status, notes: notes.trim(), reviewer, decidedAt: dayjs().toISOString() }
+      ];
+      state.index[candidateId] = buildCandidateIndexRow(record);
+    },
+    setReviewerName(state: CandidatesState, action: PayloadAction<string>) {
+      state.reviewerName = action.payload.trim();
+    },
+    overrideAnswerScore(
+      state: CandidatesState,
+      action: PayloadAction<ScoreChangeMeta & { questionId: string; score: number }>
+    ) {
+      const { candidateId, questionId, reason, reviewer } = action.payload;
+      const record = state.loadedRecords[candidateId];
+      const answer = record?.answers.find((entry) => entry.questionId === questionId);
+      if (!record || !answer) {
+        return;
+      }
+
+      const changedAt = dayjs().toISOString();
+      const score = clampOverrideScore(action.payload.score);
+      appendAuditEntry(record, { type: "answer", questionId }, {
+        action: "override",
+        aiScore: answer.aiScore ?? null,
+        previousScore: getEffectiveAnswerScore(answer),
+        nextScore: score,
+        reason,
+        reviewer,
+        changedAt
+      });
+      answer.scoreOverride = { score, reason, reviewer, overriddenAt: changedAt };
+      state.index[candidateId] = buildCandidateIndexRow(record);
+      state.ids = applySort(state.ids, state.index, state.sortRules);
+    },
+    clearAnswerScoreOverride(
+      state: CandidatesState,
+      action: PayloadAction<ScoreChangeMeta & { questionId: string }>
+    ) {
+      const { candidateId, questionId, reason, reviewer } = action.payload;
+      const record = state.loadedRecords[candidateId];
+      const answer = record?.answers.find((entry) => entry.questionId === questionId);
+      if (!record || !answer?.scoreOverride) {
+        return;
+      }
+
+      appendAuditEntry(record, { type: "answer", questionId }, {
+        action: "clear",
+        aiScore: answer.aiScore ?? null,
+        previousScore: answer.scoreOverride.score,
+        nextScore: answer.aiScore ?? null,
+        reason,
+        reviewer,
+        changedAt: dayjs().toISOString()
+      });
+      delete answer.scoreOverride;
+      state.index[candidateId] = buildCandidateIndexRow(record);
+      state.ids = applySort(state.ids, state.index, state.sortRules);
+    },
+    overrideFinalScore(state: CandidatesState, action: PayloadAction<ScoreChangeMeta & { score: number }>) {
+      const { candidateId, reason, reviewer } = action.payload;
+      const record = state.loadedRecords[candidateId];
+      if (!record) {
+        return;
+      }
+
+      const changedAt = dayjs().toISOString();
+      const score = clampOverrideScore(action.payload.score);
+      appendAuditEntry(record, { type: "final" }, {
+        action: "override",
+        aiScore: record.finalScore,
+        previousScore: getEffectiveFinalScore(record),
+        nextScore: score,
+        reason,
+        reviewer,
+        changedAt
+      });
+      record.finalScoreOverride = { score, reason, reviewer, overriddenAt: changedAt };
+      state.index[candidateId] = buildCandidateIndexRow(record);
+      state.ids = applySort(state.ids, state.index, state.sortRules);
+    },
+    clearFinalScoreOverride(state: CandidatesState, action: PayloadAction<ScoreChangeMeta>) {
+      const { candidateId, reason, reviewer } = action.payload;
+      const record = state.loadedRecords[candidateId];
+      if (!record?.finalScoreOverride) {
+        return;
+      }
+
+      appendAuditEntry(record, { type: "final" }, {
+        action: "clear",
+        aiScore: record.finalScore,
+        previousScore: record.finalScoreOverride.score,
+        nextScore: record.finalScore,
+        reason,
+        reviewer,
+        changedAt: dayjs().toISOString()
+      });
+      delete record.finalScoreOverride;
+      state.index[candidateId] = buildCandidateIndexRow(record);
+      state.ids = applySort(state.ids, state.index, state.sortRules);
+    },
     hydrateCandidates(state: CandidatesState, action: PayloadAction<CandidatesState>) {
-      state.records = action.payload.records;
+      state.index = action.payload.index;
+      state.loadedRecords = action.payload.loadedRecords;
       state.ids = action.payload.ids;
-      state.sortKey = action.payload.sortKey;
-      state.sortDirection = action.payload.sortDirection;
+      state.sortRules = action.payload.sortRules;
       state.searchQuery = action.payload.searchQuery;
+      state.filters = action.payload.filters;
+      state.filterPresets = action.payload.filterPresets;
+      state.pageSize = action.payload.pageSize;
+      state.reviewerName = action.payload.reviewerName;
     }
   }
 });
 
 export const {
   upsertCandidate,
+  importCandidates,
   removeCandidate,
-  setSortKey,
-  setSortDirection,
+  recordsLoaded,
+  pendingRecordSaved,
+  setSortRule,
+  removeSortRule,
+  setCandidatePageSize,
   setSearchQuery,
+  setCandidateFilters,
+  resetCandidateFilters,
+  saveFilterPreset,
+  applyFilterPreset,
+  deleteFilterPreset,
+  setCandidateTags,
+  recordHiringDecision,
+  setReviewerName,
+  overrideAnswerScore,
+  clearAnswerScoreOverride,
+  overrideFinalScore,
+  clearFinalScoreOverride,
   hydrateCandidates
 } = candidatesSlice.actions;
 
@@ -0,0 +1,69 @@
+import { createSlice, PayloadAction } from "@reduxjs/toolkit";
+import dayjs from "dayjs";
+import { QuestionBankItem, QuestionSourceMode } from "../../types/interview";
+
+export type QuestionBankImportMode = "merge" | "replace";
+
+export interface QuestionBankState {
+  items: Record<string, QuestionBankItem>;
+  ids: string[];
+  sourceMode: QuestionSourceMode;
+}
+
+const initialState: QuestionBankState = {
+  items: {},
+  ids: [],
+  sourceMode: "ai"
+};
+
+const questionBankSlice = createSlice({
+  name: "questionBank",
+  initialState,
+  reducers: {
+    upsertBankQuestion(state: QuestionBankState, action: PayloadAction<QuestionBankItem>) {
+      const item = action.payload;
+      const existing = state.items[item.id];
+      state.items[item.id] = {
+        ...item,
+        createdAt: existing?.createdAt ?? item.createdAt,
+        updatedAt: dayjs().toISOString()
+      };
+      if (!state.ids.includes(item.id)) {
+        state.ids.push(item.id);
+      }
+    },
+    removeBankQuestion(state: QuestionBankState, action: PayloadAction<string>) {
+      const id = action.payload;
+      delete state.items[id];
+      state.ids = state.ids.filter((existingId) => existingId !== id);
+    },
+    importBankQuestions(
+      state: QuestionBankState,
+      action: PayloadAction<{ items: QuestionBankItem[]; mode: QuestionBankImportMode }>
+    ) {
+      const { items, mode } = action.payload;
+      if (mode === "replace") {
+        state.items = {};
+        state.ids = [];
+      }
+      items.forEach((item) => {
+        state.items[item.id] = item;
+        if (!state.ids.includes(item.id)) {
+          state.ids.push(item.id);
+        }
+      });
+    },
+    setQuestionSourceMode(state: QuestionBankState, action: PayloadAction<QuestionSourceMode>) {
+      state.sourceMode = action.payload;
+    }
+  }
+});
+
+export const {
+  upsertBankQuestion,
+  removeBankQuestion,
+  importBankQuestions,
+  setQuestionSourceMode
+} = questionBankSlice.actions;
+
+export default questionBankSlice.reducer;
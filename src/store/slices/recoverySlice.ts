@@ -0,0 +1,33 @@
+import { createSlice } from "@reduxjs/toolkit";
+import type { QuarantineKind } from "../../services/quarantineStorage";
+
+export interface RecoveryNotice {
+  quarantinedAt: string;
+  counts: Partial<Record<QuarantineKind, number>>;
+}
+
+/**
+ * Not persisted. The rehydration migrate step fills `notice` in when it had to set records aside, so
+ * the app can tell the user once per load.
+ */
+export interface RecoveryState {
+  notice: RecoveryNotice | null;
+}
+
+const initialState: RecoveryState = {
+  notice: null
+};
+
+const recoverySlice = createSlice({
+  name: "recovery",
+  initialState,
+  reducers: {
+    dismissRecoveryNotice(state: RecoveryState) {
+      state.notice = null;
+    }
+  }
+});
+
+export const { dismissRecoveryNotice } = recoverySlice.actions;
+
+export default recoverySlice.reducer;
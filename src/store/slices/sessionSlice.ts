@@ -1,22 +1,42 @@
 import { createSlice, nanoid, PayloadAction } from "@reduxjs/toolkit";
 import dayjs from "dayjs";
 import {
+  AdaptiveDifficultySettings,
+  AdaptiveDifficultyState,
+  AdaptiveStep,
   AnswerRecord,
   CandidateProfile,
   ChatMessage,
+  FollowUpSettings,
   InterviewQuestion,
   InterviewSession,
   InterviewSummary,
+  PauseRecord,
+  PauseSettings,
+  PendingFollowUp,
   QuestionDifficulty,
   QuestionTimerState,
   RequiredProfileField,
-  SessionStage
+  ResumeGroundingMode,
+  SessionStage,
+  TranscriptLink
 } from "../../types/interview";
 import {
   isValidEmail,
   isValidPhone,
   sanitizeProfileFieldValue
 } from "../../utils/profileValidation";
+import { DEFAULT_TEMPLATE_ID, getInterviewTemplate } from "../../services/interviewTemplates";
+import { DEFAULT_ADAPTIVE_SETTINGS } from "../../services/adaptiveDifficulty";
+import { DEFAULT_FOLLOW_UP_SETTINGS, MAX_FOLLOW_UPS } from "../../services/aiInterviewService";
+import {
+  DEFAULT_PAUSE_SETTINGS,
+  MAX_PAUSES,
+  MIN_PAUSE_BUDGET_SECONDS,
+  getOpenPause,
+  getRemainingSecondsAt
+} from "../../services/interviewPause";
+import { GENESIS_HASH } from "../../services/transcriptIntegrity";
 
 export type ResumeParseStatus = "idle" | "parsing" | "success" | "error";
 
@@ -26,22 +46,46 @@ interface ResumeParseState {
 }
 
 export interface SessionState {
-  activeProfile: CandidateProfile | null;
-  activeSession: InterviewSession | null;
+  /** Every session not yet cleared, keyed by id: walk-ins plus the scheduled queue. */
+  sessions: Record<string, InterviewSession>;
+  /** Candidate profiles keyed by session id; invited sessions have none until a resume is uploaded. */
+  profiles: Record<string, CandidateProfile>;
+  /** The session the interviewee tab has open. */
+  activeSessionId: string | null;
   resumeParse: ResumeParseState;
   welcomeBackVisible: boolean;
+  selectedTemplateId: string;
+  adaptiveSettings: AdaptiveDifficultySettings;
+  followUpSettings: FollowUpSettings;
+  /** Interviewer's resume grounding choice per template id; templates without an entry stay generic. */
+  resumeGroundingByTemplate: Record<string, ResumeGroundingMode>;
+  pauseSettings: PauseSettings;
 }
 
 const initialState: SessionState = {
-  activeProfile: null,
-  activeSession: null,
+  sessions: {},
+  profiles: {},
+  activeSessionId: null,
   resumeParse: {
     status: "idle",
     error: null
   },
-  welcomeBackVisible: false
+  welcomeBackVisible: false,
+  selectedTemplateId: DEFAULT_TEMPLATE_ID,
+  adaptiveSettings: DEFAULT_ADAPTIVE_SETTINGS,
+  followUpSettings: DEFAULT_FOLLOW_UP_SETTINGS,
+  resumeGroundingByTemplate: {},
+  pauseSettings: DEFAULT_PAUSE_SETTINGS
 };
 
+const STARTED_STAGES: SessionStage[] = ["questioning", "paused", "completed"];
+
+const activeSessionOf = (state: SessionState) =>
+  state.activeSessionId ? state.sessions[state.activeSessionId] ?? null : null;
+
+const activeProfileOf = (state: SessionState) =>
+  state.activeSessionId ? state.profiles[state.activeSessionId] ?? null : null;
+
 const touchSession = (session: InterviewSession) => {
   session.updatedAt = dayjs().toISOString();
 };
@@ -93,7 +137,10 @@ const sessionSlice = createSlice({
       state: SessionState,
       action: PayloadAction<CandidateProfile>
     ) {
-      state.activeProfile = action.payload;
+      // Profiles belong to a session, so the session has to be initialized first.
+      if (state.activeSessionId && state.sessions[state.activeSessionId]) {
+        state.profiles[state.activeSessionId] = action.payload;
+      }
       state.resumeParse.status = "success";
       state.resumeParse.error = null;
     },
@@ -101,7 +148,8 @@ const sessionSlice = createSlice({
       state: SessionState,
       action: PayloadAction<{ field: RequiredProfileField; value: string }>
     ) {
-      if (!state.activeProfile) {
+      const profile = activeProfileOf(state);
+      if (!profile) {
         return;
       }
 
@@ -114,85 +162,163 @@ const sessionSlice = createSlice({
         phone: (value) => isValidPhone(value)
       };
 
-      const nextMissing = new Set(state.activeProfile.missingFields);
+      const nextMissing = new Set(profile.missingFields);
       if (!validators[field](sanitizedValue)) {
         nextMissing.add(field);
       } else {
         nextMissing.delete(field);
       }
 
-      state.activeProfile = {
-        ...state.activeProfile,
-        [field]: sanitizedValue,
-        missingFields: Array.from(nextMissing)
-      };
+      profile[field] = sanitizedValue;
+      profile.missingFields = Array.from(nextMissing);
     },
     setProfileMissingFields(
       state: SessionState,
       action: PayloadAction<RequiredProfileField[]>
     ) {
-      if (!state.activeProfile) {
+      const profile = activeProfileOf(state);
+      if (!profile) {
         return;
       }
-      state.activeProfile.missingFields = action.payload;
+      profile.missingFields = action.payload;
     },
     initializeSession(
       state: SessionState,
       action: PayloadAction<InterviewSession>
     ) {
-      state.activeSession = action.payload;
+      state.sessions[action.payload.id] = action.payload;
+      state.activeSessionId = action.payload.id;
+      state.welcomeBackVisible = false;
+    },
+    scheduleSession(state: SessionState, action: PayloadAction<InterviewSession>) {
+      state.sessions[action.payload.id] = action.payload;
+    },
+    cancelScheduledSession(state: SessionState, action: PayloadAction<string>) {
+      const session = state.sessions[action.payload];
+      if (!session?.invitation || STARTED_STAGES.includes(session.stage)) {
+        return;
+      }
+      delete state.sessions[session.id];
+      delete state.profiles[session.id];
+      if (state.activeSessionId === session.id) {
+        state.activeSessionId = null;
+        state.resumeParse = { status: "idle", error: null };
+      }
+    },
+    /**
+     * Once a completed interview is safely in the IndexedDB archive, its transcript, answers and logs no
+     * longer need to ride along in localStorage. Invitations and the session the interviewee has open
+     * keep a stub so the queue and the "all done" screen still show it as completed; anything else goes.
+     */
+    compactArchivedSession(state: SessionState, action: PayloadAction<string>) {
+      const session = state.sessions[action.payload];
+      if (!session || session.stage !== "completed") {
+        return;
+      }
+      const isActive = state.activeSessionId === session.id;
+      if (!session.invitation && !isActive) {
+        delete state.sessions[session.id];
+        delete state.profiles[session.id];
+        return;
+      }
+      state.sessions[session.id] = {
+        id: session.id,
+        candidateId: session.candidateId,
+        templateId: session.templateId,
+        createdAt: session.createdAt,
+        updatedAt: session.updatedAt,
+        stage: "completed",
+        currentQuestionId: null,
+        questions: {},
+        questionOrder: [],
+        answers: {},
+        timers: {},
+        chat: [],
+        summary: null,
+        invitation: session.invitation
+      };
+      if (!isActive) {
+        delete state.profiles[session.id];
+      }
+    },
+    importSessions(
+      state: SessionState,
+      action: PayloadAction<Array<{ session: InterviewSession; profile: CandidateProfile | null }>>
+    ) {
+      action.payload.forEach(({ session, profile }) => {
+        state.sessions[session.id] = session;
+        if (profile) {
+          state.profiles[session.id] = profile;
+        } else {
+          delete state.profiles[session.id];
+        }
+      });
+    },
+    openSession(state: SessionState, action: PayloadAction<string | null>) {
+      if (action.payload !== null && !state.sessions[action.payload]) {
+        return;
+      }
+      state.activeSessionId = action.payload;
+      state.resumeParse = {
+        status: action.payload && state.profiles[action.payload] ? "success" : "idle",
+        error: null
+      };
       state.welcomeBackVisible = false;
     },
     upsertQuestions(
       state: SessionState,
       action: PayloadAction<{ questions: InterviewQuestion[] }>
     ) {
-      if (!state.activeSession) {
+      const session = activeSessionOf(state);
+      if (!session) {
         return;
       }
       const { questions } = action.payload;
 
   questions.forEach((question: InterviewQuestion) => {
-        state.activeSession!.questions[question.id] = question;
-        if (!state.activeSession!.questionOrder.includes(question.id)) {
-          state.activeSession!.questionOrder.push(question.id);
+        session.questions[question.id] = question;
+        if (!session.questionOrder.includes(question.id)) {
+          session.questionOrder.push(question.id);
         }
         ensureQuestionTimer(
-          state.activeSession!,
+          session,
           question.id,
           question.difficulty,
           question.timeLimitSeconds
         );
       });
-      touchSession(state.activeSession);
+      touchSession(session);
     },
   setCurrentQuestion(state: SessionState, action: PayloadAction<string | null>) {
-      if (!state.activeSession) {
+      const session = activeSessionOf(state);
+      if (!session) {
         return;
       }
-      state.activeSession.currentQuestionId = action.payload;
+      session.currentQuestionId = action.payload;
       if (action.payload) {
         ensureQuestionTimer(
-          state.activeSession,
+          session,
           action.payload,
           "easy",
           20
         );
       }
-      touchSession(state.activeSession);
+      touchSession(session);
     },
   setSessionStage(state: SessionState, action: PayloadAction<SessionStage>) {
-      if (!state.activeSession) {
+      const session = activeSessionOf(state);
+      if (!session) {
         return;
       }
-      state.activeSession.stage = action.payload;
-      touchSession(state.activeSession);
+      session.stage = action.payload;
+      touchSession(session);
     },
     addChatMessage(
       state: SessionState,
       action: PayloadAction<Omit<ChatMessage, "id"> & { id?: string }>
     ) {
-      if (!state.activeSession) {
+      const session = activeSessionOf(state);
+      if (!session) {
         return;
       }
       const message: ChatMessage = {
@@ -202,35 +328,54 @@ const sessionSlice = createSlice({
         createdAt: action.payload.createdAt,
         metadata: action.payload.metadata
       };
-      state.activeSession.chat.push(message);
-      touchSession(state.activeSession);
+      session.chat.push(message);
+      touchSession(session);
     },
   recordAnswer(state: SessionState, action: PayloadAction<AnswerRecord>) {
-      if (!state.activeSession) {
+      const session = activeSessionOf(state);
+      if (!session) {
+        return;
+      }
+      session.answers[action.payload.questionId] = action.payload;
+      touchSession(session);
+    },
+    appendTranscriptLinks(
+      state: SessionState,
+      action: PayloadAction<{ sessionId: string; links: TranscriptLink[] }>
+    ) {
+      const session = state.sessions[action.payload.sessionId];
+      const { links } = action.payload;
+      if (!session || !links.length) {
+        return;
+      }
+      const chain = session.transcriptChain ?? [];
+      // Links computed against an older tail would fork the chain; the next seal picks those entries up again.
+      if (links[0].previousHash !== (chain.length ? chain[chain.length - 1].hash : GENESIS_HASH)) {
         return;
       }
-      state.activeSession.answers[action.payload.questionId] = action.payload;
-      touchSession(state.activeSession);
+      session.transcriptChain = [...chain, ...links];
     },
     updateTimerState(
       state: SessionState,
       action: PayloadAction<QuestionTimerState>
     ) {
-      if (!state.activeSession) {
+      const session = activeSessionOf(state);
+      if (!session) {
         return;
       }
-      state.activeSession.timers[action.payload.questionId] = action.payload;
-      touchSession(state.activeSession);
+      session.timers[action.payload.questionId] = action.payload;
+      touchSession(session);
     },
     setInterviewSummary(
       state: SessionState,
       action: PayloadAction<InterviewSummary>
     ) {
-      if (!state.activeSession) {
+      const session = activeSessionOf(state);
+      if (!session) {
         return;
       }
-      state.activeSession.summary = action.payload;
-      touchSession(state.activeSession);
+      session.summary = action.payload;
+      touchSession(session);
     },
     setWelcomeBackVisible(
       state: SessionState,
@@ -238,9 +383,180 @@ const sessionSlice = createSlice({
     ) {
       state.welcomeBackVisible = action.payload;
     },
+    selectInterviewTemplate(state: SessionState, action: PayloadAction<string>) {
+      const template = getInterviewTemplate(action.payload);
+      state.selectedTemplateId = template.id;
+
+      // A session that hasn't started yet follows the interviewer's latest pick.
+      // Invited sessions keep the template they were scheduled with.
+      const session = activeSessionOf(state);
+      if (session && !session.invitation && !STARTED_STAGES.includes(session.stage)) {
+        session.templateId = template.id;
+        touchSession(session);
+        const profile = activeProfileOf(state);
+        if (profile) {
+          profile.role = template.role;
+        }
+      }
+    },
+    updateAdaptiveSettings(state: SessionState, action: PayloadAction<Partial<AdaptiveDifficultySettings>>) {
+      // Settings are copied onto a session when it starts, so a running interview keeps its bounds.
+      state.adaptiveSettings = {
+        ...DEFAULT_ADAPTIVE_SETTINGS,
+        ...state.adaptiveSettings,
+        ...action.payload
+      };
+    },
+    startAdaptivePath(state: SessionState, action: PayloadAction<AdaptiveDifficultyState>) {
+      const session = activeSessionOf(state);
+      if (!session) {
+        return;
+      }
+      session.adaptive = action.payload;
+      touchSession(session);
+    },
+    appendAdaptiveStep(state: SessionState, action: PayloadAction<AdaptiveStep>) {
+      const session = activeSessionOf(state);
+      if (!session?.adaptive) {
+        return;
+      }
+      session.adaptive.path.push(action.payload);
+      session.adaptive.runningScore = action.payload.runningScore;
+      touchSession(session);
+    },
+    updateFollowUpSettings(state: SessionState, action: PayloadAction<Partial<FollowUpSettings>>) {
+      const next = { ...DEFAULT_FOLLOW_UP_SETTINGS, ...state.followUpSettings, ...action.payload };
+      state.followUpSettings = {
+        enabled: next.enabled,
+        maxFollowUps: Math.min(MAX_FOLLOW_UPS, Math.max(1, Math.round(next.maxFollowUps))),
+        timeLimitSeconds: Math.max(10, Math.round(next.timeLimitSeconds))
+      };
+    },
+    setFollowUpPolicy(
+      state: SessionState,
+      action: PayloadAction<Omit<FollowUpSettings, "enabled"> | null>
+    ) {
+      const session = activeSessionOf(state);
+      if (!session) {
+        return;
+      }
+      session.followUpPolicy = action.payload ?? undefined;
+      touchSession(session);
+    },
+    setPendingFollowUp(state: SessionState, action: PayloadAction<PendingFollowUp | null>) {
+      const session = activeSessionOf(state);
+      if (!session) {
+        return;
+      }
+      session.pendingFollowUp = action.payload;
+      touchSession(session);
+    },
+    setTemplateResumeGrounding(
+      state: SessionState,
+      action: PayloadAction<{ templateId: string; mode: ResumeGroundingMode }>
+    ) {
+      state.resumeGroundingByTemplate = {
+        ...state.resumeGroundingByTemplate,
+        [action.payload.templateId]: action.payload.mode
+      };
+    },
+    setResumeGroundingPolicy(state: SessionState, action: PayloadAction<ResumeGroundingMode>) {
+      const session = activeSessionOf(state);
+      if (!session) {
+        return;
+      }
+      session.resumeGrounding = action.payload;
+      touchSession(session);
+    },
+    updatePauseSettings(state: SessionState, action: PayloadAction<Partial<PauseSettings>>) {
+      const next = { ...DEFAULT_PAUSE_SETTINGS, ...state.pauseSettings, ...action.payload };
+      state.pauseSettings = {
+        allowed: next.allowed,
+        maxPauses: Math.min(MAX_PAUSES, Math.max(1, Math.round(next.maxPauses))),
+        maxTotalPauseSeconds: Math.max(MIN_PAUSE_BUDGET_SECONDS, Math.round(next.maxTotalPauseSeconds))
+      };
+    },
+    setPausePolicy(state: SessionState, action: PayloadAction<Omit<PauseSettings, "allowed"> | null>) {
+      const session = activeSessionOf(state);
+      if (!session) {
+        return;
+      }
+      session.pausePolicy = action.payload ?? undefined;
+      touchSession(session);
+    },
+    pauseSession(state: SessionState, action: PayloadAction<{ id?: string; pausedAt: string }>) {
+      const session = activeSessionOf(state);
+      const questionId = session?.currentQuestionId;
+      if (!session || !questionId || session.stage !== "questioning") {
+        return;
+      }
+
+      // Freeze the timer at the pause instant rather than the last tick, so no partial second is lost.
+      const timer = session.timers[questionId];
+      const remainingSeconds = timer ? getRemainingSecondsAt(timer, action.payload.pausedAt) : 0;
+      if (timer) {
+        session.timers[questionId] = {
+          ...timer,
+          remainingSeconds,
+          isRunning: false,
+          lastTickAt: action.payload.pausedAt
+        };
+      }
+
+      const pause: PauseRecord = {
+        id: action.payload.id ?? nanoid(),
+        questionId,
+        pausedAt: action.payload.pausedAt,
+        resumedAt: null,
+        remainingSecondsAtPause: remainingSeconds,
+        durationSeconds: null,
+        endedBy: null
+      };
+      session.pauses = [...(session.pauses ?? []), pause];
+      session.stage = "paused";
+      touchSession(session);
+    },
+    resumeSession(
+      state: SessionState,
+      action: PayloadAction<{ resumedAt: string; endedBy: NonNullable<PauseRecord["endedBy"]> }>
+    ) {
+      const session = activeSessionOf(state);
+      const pause = session ? getOpenPause(session) : null;
+      if (!session || !pause || session.stage !== "paused") {
+        return;
+      }
+
+      const { resumedAt, endedBy } = action.payload;
+      pause.resumedAt = resumedAt;
+      pause.endedBy = endedBy;
+      pause.durationSeconds = Math.max(0, dayjs(resumedAt).diff(dayjs(pause.pausedAt), "millisecond")) / 1000;
+
+      // The timer restarts from the value frozen at the pause; the next tick counts from `resumedAt`.
+      const timer = session.timers[pause.questionId];
+      if (timer) {
+        session.timers[pause.questionId] = {
+          ...timer,
+          remainingSeconds: pause.remainingSecondsAtPause,
+          isRunning: pause.remainingSecondsAtPause > 0,
+          lastTickAt: resumedAt
+        };
+      }
+      session.stage = "questioning";
+      touchSession(session);
+    },
   clearActiveSession(state: SessionState) {
-      state.activeSession = null;
-      state.activeProfile = null;
+      const session = activeSessionOf(state);
+      if (session) {
+        delete state.profiles[session.id];
+        // An invitation that hasn't started stays in the queue, ready for a fresh resume.
+        if (session.invitation && !STARTED_STAGES.includes(session.stage)) {
+          session.stage = "resume-upload";
+          touchSession(session);
+        } else {
+          delete state.sessions[session.id];
+          state.activeSessionId = null;
+        }
+      }
       state.resumeParse = {
         status: "idle",
         error: null
@@ -257,14 +573,33 @@ export const {
   updateProfileField,
   setProfileMissingFields,
   initializeSession,
+  scheduleSession,
+  cancelScheduledSession,
+  importSessions,
+  compactArchivedSession,
+  openSession,
   upsertQuestions,
   setCurrentQuestion,
   setSessionStage,
   addChatMessage,
   recordAnswer,
+  appendTranscriptLinks,
   updateTimerState,
   setInterviewSummary,
   setWelcomeBackVisible,
+  selectInterviewTemplate,
+  updateAdaptiveSettings,
+  startAdaptivePath,
+  appendAdaptiveStep,
+  updateFollowUpSettings,
+  setFollowUpPolicy,
+  setPendingFollowUp,
+  setTemplateResumeGrounding,
+  setResumeGroundingPolicy,
+  updatePauseSettings,
+  setPausePolicy,
+  pauseSession,
+  resumeSession,
   clearActiveSession
 } = sessionSlice.actions;
 
@@ -0,0 +1,162 @@
+import { createAsyncThunk } from "@reduxjs/toolkit";
+import { message } from "antd";
+import { importCandidates } from "../slices/candidatesSlice";
+import { importBankQuestions } from "../slices/questionBankSlice";
+import { importSessions } from "../slices/sessionSlice";
+import {
+  selectActiveSession,
+  selectQuestionBankItems,
+  selectSessionProfiles,
+  selectSessions
+} from "../selectors";
+import type { AppDispatch, RootState } from "../index";
+import {
+  buildArchiveBundle,
+  collectResumeIds,
+  decodeBase64,
+  describeArchiveImport,
+  encodeBase64,
+  parseArchiveBundle,
+  planArchiveImport,
+  serializeArchiveBundle,
+  type ArchiveConflictMode,
+  type ArchiveImportSummary,
+  type ArchiveResumeEntry,
+  type ArchiveSessionEntry
+} from "../../services/archiveBundle";
+import { persistCandidateRecords, readCandidateRecords } from "../../services/candidateArchiveStorage";
+import {
+  loadResumeFile,
+  loadResumeText,
+  persistResumePayload,
+  persistResumeText
+} from "../../services/resumeStorage";
+
+type AsyncThunkConfig = {
+  state: RootState;
+  dispatch: AppDispatch;
+  rejectValue: string;
+};
+
+/** Serialises the whole archive, resume files included, into one bundle file's contents. */
+export const exportArchiveBundle = createAsyncThunk<string, void, AsyncThunkConfig>(
+  "archive/exportBundle",
+  async (_, { getState, rejectWithValue }) => {
+    const state = getState();
+    const profiles = selectSessionProfiles(state);
+    const { ids, loadedRecords, pendingRecords } = state.candidates;
+    const sessions: ArchiveSessionEntry[] = Object.values(selectSessions(state)).map((session) => ({
+      session,
+      profile: profiles[session.id] ?? null
+    }));
+
+    try {
+      const candidates = await readCandidateRecords(ids, loadedRecords, pendingRecords);
+      const resumes = await Promise.all(
+        collectResumeIds(candidates, sessions).map(async (id): Promise<ArchiveResumeEntry | null> => {
+          const stored = await loadResumeFile(id);
+          if (!stored) {
+            return null;
+          }
+          return {
+            id,
+            fileName: stored.fileName,
+            mimeType: stored.mimeType,
+            sizeBytes: stored.sizeBytes,
+            data: encodeBase64(stored.buffer),
+            text: (await loadResumeText(id)) ?? null
+          };
+        })
+      );
+
+      return serializeArchiveBundle(
+        buildArchiveBundle({
+          candidates,
+          sessions,
+          questionBank: selectQuestionBankItems(state),
+          resumes: resumes.filter((resume): resume is ArchiveResumeEntry => resume !== null)
+        })
+      );
+    } catch (error) {
+      console.error("Archive export failed", error);
+      const reason = "Unable to export the archive right now.";
+      message.error(reason);
+      return rejectWithValue(reason);
+    }
+  }
+);
+
+export const importArchiveBundle = createAsyncThunk<
+  ArchiveImportSummary,
+  { text: string; mode: ArchiveConflictMode },
+  AsyncThunkConfig
+>("archive/importBundle", async ({ text, mode }, { dispatch, getState, rejectWithValue }) => {
+  let bundle;
+  try {
+    bundle = parseArchiveBundle(text);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : "The archive file couldn't be read.";
+    message.error(reason);
+    return rejectWithValue(reason);
+  }
+
+  const state = getState();
+  const sessions = selectSessions(state);
+  const activeSession = selectActiveSession(state);
+
+  try {
+    const storedResumeIds = (
+      await Promise.all(bundle.resumes.map(async (resume) => ((await loadResumeFile(resume.id)) ? resume.id : null)))
+    ).filter((id): id is string => id !== null);
+
+    const plan = planArchiveImport(
+      bundle,
+      {
+        candidateIds: state.candidates.ids,
+        sessionIds: Object.keys(sessions),
+        questionIds: state.questionBank.ids,
+        resumeIds: storedResumeIds,
+        invitationCodes: Object.fromEntries(
+          Object.values(sessions).flatMap((session) =>
+            session.invitation ? [[session.id, session.invitation.code]] : []
+          )
+        ),
+        // Replacing the interview the candidate is sitting would pull it out from under them.
+        lockedSessionIds:
+          activeSession && (activeSession.stage === "questioning" || activeSession.stage === "paused")
+            ? [activeSession.id]
+            : []
+      },
+      mode
+    );
+
+    // Files go first so no imported record points at a resume that isn't stored yet, and records are
+    // written before their index rows so every listed candidate can be opened.
+    await Promise.all(
+      plan.resumes.map(async (resume) => {
+        await persistResumePayload({
+          id: resume.id,
+          fileName: resume.fileName,
+          mimeType: resume.mimeType,
+          sizeBytes: resume.sizeBytes,
+          buffer: decodeBase64(resume.data)
+        });
+        if (resume.text !== null) {
+          await persistResumeText(resume.id, resume.text);
+        }
+      })
+    );
+    await persistCandidateRecords(plan.candidates);
+    dispatch(importCandidates(plan.candidates));
+    dispatch(importSessions(plan.sessions));
+    dispatch(importBankQuestions({ items: plan.questionBank, mode: "merge" }));
+
+    message.success(`Archive imported. ${describeArchiveImport(plan.summary)}`);
+    return plan.summary;
+  } catch (error) {
+    console.error("Archive import failed", error);
+    const reason = "Unable to import the archive right now.";
+    message.error(reason);
+    return rejectWithValue(reason);
+  }
+});
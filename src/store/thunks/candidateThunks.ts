@@ -0,0 +1,156 @@
+import { createAsyncThunk } from "@reduxjs/toolkit";
+import { message } from "antd";
+import {
+  clearAnswerScoreOverride,
+  clearFinalScoreOverride,
+  overrideAnswerScore,
+  overrideFinalScore,
+  pendingRecordSaved,
+  recordHiringDecision,
+  recordsLoaded,
+  setCandidateTags
+} from "../slices/candidatesSlice";
+import type { AppDispatch, RootState } from "../index";
+import type { CandidateArchiveRecord } from "../../types/interview";
+import {
+  loadCandidateRecord,
+  persistCandidateRecord,
+  readCandidateRecords
+} from "../../services/candidateArchiveStorage";
+import { collectSearchableText, matchesSearchText } from "../../utils/candidateFilters";
+import { buildCandidateListCsv } from "../../utils/candidateReport";
+import { buildQuestionAnalytics, type QuestionAnalytics } from "../../utils/interviewAnalytics";
+import { validateCandidateRecord } from "../../utils/recordValidation";
+
+type AsyncThunkConfig = {
+  state: RootState;
+  dispatch: AppDispatch;
+  rejectValue: string;
+};
+
+type RecordChangeAction = ReturnType<
+  | typeof overrideAnswerScore
+  | typeof clearAnswerScoreOverride
+  | typeof overrideFinalScore
+  | typeof clearFinalScoreOverride
+  | typeof setCandidateTags
+  | typeof recordHiringDecision
+>;
+
+/** Fetches an archived candidate's full record from IndexedDB the first time it is opened. */
+export const openCandidateRecord = createAsyncThunk<void, string, AsyncThunkConfig>(
+  "candidates/openRecord",
+  async (id, { dispatch, getState, rejectWithValue }) => {
+    const { loadedRecords, pendingRecords } = getState().candidates;
+    if (loadedRecords[id]) {
+      return undefined;
+    }
+
+    try {
+      // IndexedDB wins: a parked copy is only current until the record is first saved there. Records
+      // the last load couldn't move out of localStorage are still readable from the parked copy.
+      let stored: CandidateArchiveRecord | undefined;
+      try {
+        stored = await loadCandidateRecord(id);
+      } catch (error) {
+        if (!pendingRecords?.[id]) {
+          throw error;
+        }
+        console.error("Failed to read candidate record from IndexedDB", error);
+      }
+      stored = stored ?? pendingRecords?.[id];
+      if (!stored) {
+        const reason = "This interview record is missing from the browser archive.";
+        message.error(reason);
+        return rejectWithValue(reason);
+      }
+      dispatch(recordsLoaded([validateCandidateRecord(stored, `Candidate ${id}`)]));
+      return undefined;
+    } catch (error) {
+      console.error("Failed to load candidate record", error);
+      const reason = "Unable to load this interview record right now.";
+      message.error(reason);
+      return rejectWithValue(reason);
+    }
+  }
+);
+
+/**
+ * Applies a score override, reset, tag edit or hiring decision to an opened record, then writes it
+ * back to IndexedDB.
+ */
+export const applyCandidateChange = createAsyncThunk<void, RecordChangeAction, AsyncThunkConfig>(
+  "candidates/applyChange",
+  async (change, { dispatch, getState, rejectWithValue }) => {
+    dispatch(change);
+    const record = getState().candidates.loadedRecords[change.payload.candidateId];
+    if (!record) {
+      return undefined;
+    }
+
+    try {
+      await persistCandidateRecord(record);
+      dispatch(pendingRecordSaved(record.id));
+      return undefined;
+    } catch (error) {
+      console.error("Failed to save candidate change", error);
+      const reason = "The change couldn't be saved and will be lost when the page reloads.";
+      message.error(reason);
+      return rejectWithValue(reason);
+    }
+  }
+);
+
+/**
+ * Finds archived candidates whose answers, follow-ups, feedback or summary mention `query`. Full
+ * records only live in IndexedDB, so this reads them all; the list filters on the ids it returns.
+ */
+export const searchCandidateArchive = createAsyncThunk<string[], string, AsyncThunkConfig>(
+  "candidates/searchArchive",
+  async (query, { getState, rejectWithValue }) => {
+    const { ids, loadedRecords, pendingRecords } = getState().candidates;
+    try {
+      const records = await readCandidateRecords(ids, loadedRecords, pendingRecords);
+      return records
+        .filter((record) => matchesSearchText(collectSearchableText(record.answers, record.summary), query))
+        .map((record) => record.id);
+    } catch (error) {
+      console.error("Candidate archive search failed", error);
+      const reason = "Unable to search interview answers right now.";
+      message.error(reason);
+      return rejectWithValue(reason);
+    }
+  }
+);
+
+/** Builds the CSV of candidates and their hiring decisions for the given archived ids, in that order. */
+export const exportCandidateList = createAsyncThunk<string, string[], AsyncThunkConfig>(
+  "candidates/exportList",
+  async (ids, { getState, rejectWithValue }) => {
+    const { loadedRecords, pendingRecords } = getState().candidates;
+    try {
+      return buildCandidateListCsv(await readCandidateRecords(ids, loadedRecords, pendingRecords));
+    } catch (error) {
+      console.error("Candidate list export failed", error);
+      const reason = "Unable to export the candidate list right now.";
+      message.error(reason);
+      return rejectWithValue(reason);
+    }
+  }
+);
+
+/** Answer-level statistics for the analytics tab. Like the answer search, this reads every archived record. */
+export const loadQuestionAnalytics = createAsyncThunk<QuestionAnalytics, void, AsyncThunkConfig>(
+  "candidates/loadQuestionAnalytics",
+  async (_, { getState, rejectWithValue }) => {
+    const { ids, loadedRecords, pendingRecords } = getState().candidates;
+    try {
+      return buildQuestionAnalytics(await readCandidateRecords(ids, loadedRecords, pendingRecords));
+    } catch (error) {
+      console.error("Loading interview analytics failed", error);
+      const reason = "Unable to load question statistics right now.";
+      message.error(reason);
+      return rejectWithValue(reason);
+    }
+  }
+);
@@ -3,42 +3,98 @@ import dayjs from "dayjs";
 import { message } from "antd";
 import {
   addChatMessage,
+  appendAdaptiveStep,
+  appendTranscriptLinks,
   beginResumeParse,
   clearActiveSession,
+  compactArchivedSession,
   initializeSession,
+  openSession,
+  pauseSession,
   recordAnswer,
   resumeParseFailed,
+  resumeSession,
+  scheduleSession,
   setActiveProfile,
   setCurrentQuestion,
   setInterviewSummary,
   setProfileMissingFields,
+  setFollowUpPolicy,
+  setPausePolicy,
+  setPendingFollowUp,
+  setResumeGroundingPolicy,
   setSessionStage,
+  startAdaptivePath,
   updateTimerState,
   upsertQuestions
 } from "../slices/sessionSlice";
 import { parseResumeFile, findMissingFields } from "../../services/resumeParser";
+import { encodeAnswerEditLog, type AnswerEditRecording } from "../../services/answerEditLog";
 import {
   buildResumeStorageKey,
   persistResumeFile,
+  persistResumeText,
+  loadResumeText,
   deleteResumeFile
 } from "../../services/resumeStorage";
 import type { AppDispatch, RootState } from "../index";
 import type {
+  AdaptiveStep,
+  AnswerEditLog,
   AnswerRecord,
+  AnswerTelemetry,
+  CandidateArchiveRecord,
   CandidateProfile,
+  CriterionScore,
+  FollowUpExchange,
   InterviewQuestion,
   InterviewSession,
   InterviewSummary,
+  PendingFollowUp,
   RequiredProfileField,
+  ResumeGroundingMode,
   SessionStage
 } from "../../types/interview";
-import { DEFAULT_INTERVIEW_CONFIGURATION } from "../../types/interview";
 import {
   evaluateAnswerWithAI,
   generateInterviewQuestions,
-  summarizeInterviewWithAI
+  generateNextQuestion,
+  planFollowUpQuestion,
+  summarizeInterviewWithAI,
+  type QuestionGenerationOptions,
+  type ResumeContext
 } from "../../services/aiInterviewService";
+import { getInterviewTemplate } from "../../services/interviewTemplates";
+import {
+  chooseNextDifficulty,
+  chooseStartingDifficulty,
+  createAdaptiveState,
+  updateRunningScore
+} from "../../services/adaptiveDifficulty";
+import {
+  formatPauseSeconds,
+  getEffectiveResumeTime,
+  getOpenPause,
+  getPauseBlocker,
+  getRemainingPauseSeconds
+} from "../../services/interviewPause";
+import { extendTranscriptChain } from "../../services/transcriptIntegrity";
 import { upsertCandidate } from "../slices/candidatesSlice";
+import { persistCandidateRecord } from "../../services/candidateArchiveStorage";
+import {
+  createInvitationCode,
+  findSessionByInvitationCode,
+  getInvitationStatus,
+  getStartWindowBlocker
+} from "../../services/interviewQueue";
+import {
+  selectActiveProfile,
+  selectActiveSession,
+  selectAdaptiveSettings,
+  selectFollowUpSettings,
+  selectPauseSettings,
+  selectResumeGrounding
+} from "../selectors";
 
 type AsyncThunkConfig = {
   state: RootState;
@@ -48,16 +104,20 @@ type AsyncThunkConfig = {
 
 const MAX_FILE_SIZE_BYTES = 10 * 1024 * 1024; // 10 MB
 
+const stageAfterResume = (missingFields: RequiredProfileField[]): SessionStage =>
+  missingFields.length > 0 ? "profile-completion" : "ready-to-start";
+
 const buildSessionScaffold = (
-  profile: CandidateProfile,
-  missingFields: RequiredProfileField[]
+  candidateId: string,
+  stage: SessionStage,
+  templateId: string
 ): InterviewSession => {
   const now = dayjs().toISOString();
-  const stage: SessionStage = missingFields.length > 0 ? "profile-completion" : "ready-to-start";
 
   return {
     id: nanoid(),
-    candidateId: profile.id,
+    candidateId,
+    templateId,
     createdAt: now,
     updatedAt: now,
     stage,
@@ -71,9 +131,140 @@ const buildSessionScaffold = (
   };
 };
 
+/** The raw text lives in IndexedDB next to the file; the structured resume is already on the profile. */
+const loadResumeContext = async (
+  profile: CandidateProfile | null,
+  mode: ResumeGroundingMode
+): Promise<ResumeContext | undefined> => {
+  if (mode === "off" || !profile) {
+    return undefined;
+  }
+
+  const resumeId = profile.resume?.id;
+  const text = resumeId
+    ? await loadResumeText(resumeId).catch((error) => {
+        console.error("Failed to load resume text", error);
+        return undefined;
+      })
+    : undefined;
+  const structured = profile.structured ?? null;
+  return text || structured ? { mode, text: text ?? null, structured } : undefined;
+};
+
+const getGenerationOptions = async (
+  state: RootState,
+  resumeGrounding: ResumeGroundingMode = "off"
+): Promise<QuestionGenerationOptions> => {
+  const { items, ids, sourceMode } = state.questionBank;
+  return {
+    sourceMode,
+    bank: ids.map((id) => items[id]).filter(Boolean),
+    resume: await loadResumeContext(selectActiveProfile(state), resumeGrounding)
+  };
+};
+
+const askQuestion = (dispatch: AppDispatch, question: InterviewQuestion, questionNumber: number) => {
+  const startTimestamp = dayjs().toISOString();
+  dispatch(setCurrentQuestion(question.id));
+  dispatch(
+    updateTimerState({
+      questionId: question.id,
+      remainingSeconds: question.timeLimitSeconds,
+      isRunning: true,
+      lastTickAt: startTimestamp,
+      startedAt: startTimestamp
+    })
+  );
+  dispatch(
+    addChatMessage({
+      sender: "assistant",
+      body: `Question ${questionNumber}: ${question.prompt}`,
+      createdAt: startTimestamp,
+      metadata: {
+        questionId: question.id,
+        difficulty: question.difficulty,
+        type: "question",
+        guidance: question.guidance
+      }
+    })
+  );
+};
+
+const askFollowUp = (dispatch: AppDispatch, followUp: PendingFollowUp) => {
+  dispatch(setPendingFollowUp(followUp));
+  dispatch(
+    updateTimerState({
+      questionId: followUp.questionId,
+      remainingSeconds: followUp.timeLimitSeconds,
+      isRunning: true,
+      lastTickAt: followUp.askedAt,
+      startedAt: followUp.askedAt
+    })
+  );
+  dispatch(
+    addChatMessage({
+      sender: "assistant",
+      body: `Follow-up: ${followUp.prompt}`,
+      createdAt: followUp.askedAt,
+      metadata: {
+        questionId: followUp.questionId,
+        followUpId: followUp.id,
+        type: "follow-up",
+        reason: followUp.reason
+      }
+    })
+  );
+};
+
+/**
+ * Adaptive sessions only know their next question once the previous answer is scored: the running
+ * score picks the difficulty, the question is generated on demand and the decision lands on the path.
+ */
+const prepareAdaptiveQuestion = async (
+  dispatch: AppDispatch,
+  state: RootState,
+  answeredQuestion: InterviewQuestion,
+  score: number
+): Promise<InterviewQuestion | null> => {
+  const session = selectActiveSession(state);
+  const adaptive = session?.adaptive;
+  if (!session || !adaptive) {
+    return null;
+  }
+
+  const askedQuestions = session.questionOrder
+    .map((id) => session.questions[id])
+    .filter((question): question is InterviewQuestion => Boolean(question));
+  if (askedQuestions.length >= adaptive.targetQuestionCount) {
+    return null;
+  }
+
+  const runningScore = updateRunningScore(adaptive.runningScore, score);
+  const choice = chooseNextDifficulty(answeredQuestion.difficulty, runningScore, adaptive);
+  const question = await generateNextQuestion(
+    getInterviewTemplate(session.templateId),
+    choice.difficulty,
+    askedQuestions,
+    await getGenerationOptions(state, session.resumeGrounding)
+  );
+
+  dispatch(upsertQuestions({ questions: [question] }));
+  dispatch(
+    appendAdaptiveStep({
+      questionId: question.id,
+      difficulty: choice.difficulty,
+      decision: choice.decision,
+      runningScore,
+      reason: choice.reason,
+      decidedAt: dayjs().toISOString()
+    })
+  );
+  return question;
+};
+
 export const ingestResume = createAsyncThunk<void, { file: File }, AsyncThunkConfig>(
   "session/ingestResume",
-  async ({ file }, { dispatch, rejectWithValue }) => {
+  async ({ file }, { dispatch, getState, rejectWithValue }) => {
     try {
       if (file.size > MAX_FILE_SIZE_BYTES) {
         throw new Error("File is too large. Please upload a resume under 10 MB.");
@@ -81,15 +272,30 @@ export const ingestResume = createAsyncThunk<void, { file: File }, AsyncThunkCon
 
       dispatch(beginResumeParse());
 
-      const parsed = await parseResumeFile(file, { role: "Full Stack Engineer" });
+      // A session that hasn't started (an opened invitation, or a walk-in re-uploading) takes the new resume.
+      const currentSession = selectActiveSession(getState());
+      const reusableSession =
+        currentSession && !["questioning", "paused", "completed"].includes(currentSession.stage)
+          ? currentSession
+          : null;
+      const template = getInterviewTemplate(reusableSession?.templateId ?? getState().session.selectedTemplateId);
+      const parsed = await parseResumeFile(file, { role: template.role });
 
       const resumeId = parsed.resumeMeta.id;
       await persistResumeFile(resumeId, file);
+      await persistResumeText(resumeId, parsed.rawText);
 
-      const missingFields = findMissingFields(parsed.profile);
+      const invitation = reusableSession?.invitation;
+      const parsedProfile: CandidateProfile = {
+        ...parsed.profile,
+        id: reusableSession?.candidateId ?? parsed.profile.id,
+        name: parsed.profile.name ?? invitation?.candidateName ?? null,
+        email: parsed.profile.email ?? invitation?.candidateEmail ?? null
+      };
+      const missingFields = findMissingFields(parsedProfile);
 
       const profile: CandidateProfile = {
-        ...parsed.profile,
+        ...parsedProfile,
         missingFields,
         resume: {
           ...parsed.resumeMeta,
@@ -97,12 +303,13 @@ export const ingestResume = createAsyncThunk<void, { file: File }, AsyncThunkCon
         }
       };
 
-      const session = buildSessionScaffold(profile, missingFields);
-
+      const stage = stageAfterResume(missingFields);
+      if (!reusableSession) {
+        dispatch(initializeSession(buildSessionScaffold(profile.id, stage, template.id)));
+      }
       dispatch(setActiveProfile(profile));
-      dispatch(initializeSession(session));
       dispatch(setProfileMissingFields(missingFields));
-      dispatch(setSessionStage(session.stage));
+      dispatch(setSessionStage(stage));
 
       if (missingFields.length > 0) {
         message.info("Please confirm the missing details to continue the interview.");
@@ -124,12 +331,9 @@ export const resetSession = createAsyncThunk<void, void, AsyncThunkConfig>(
   "session/reset",
   async (_, { dispatch, getState }) => {
     const state = getState();
-    const resumeId = state.session.activeProfile?.resume?.id;
+    const resumeId = selectActiveProfile(state)?.resume?.id;
     if (resumeId) {
-      const isResumeReferenced = Object.values(state.candidates.records).some((record) => {
-        const candidateResumeId = record.profile.resume?.id;
-        return candidateResumeId && candidateResumeId === resumeId;
-      });
+      const isResumeReferenced = Object.values(state.candidates.index).some((row) => row.resumeId === resumeId);
 
       if (!isResumeReferenced) {
         await deleteResumeFile(resumeId);
@@ -143,8 +347,8 @@ export const beginInterview = createAsyncThunk<void, void, AsyncThunkConfig>(
   "session/beginInterview",
   async (_, { dispatch, getState, rejectWithValue }) => {
     const state = getState();
-    const profile = state.session.activeProfile;
-    const session = state.session.activeSession;
+    const profile = selectActiveProfile(state);
+    const session = selectActiveSession(state);
 
     if (!profile || !session) {
       const error = "No active interview session. Please upload your resume again.";
@@ -162,14 +366,68 @@ export const beginInterview = createAsyncThunk<void, void, AsyncThunkConfig>(
       return undefined;
     }
 
+    const windowBlocker = getStartWindowBlocker(session.invitation, dayjs().toISOString());
+    if (windowBlocker) {
+      message.warning(windowBlocker);
+      return rejectWithValue(windowBlocker);
+    }
+
     try {
-      const questions = await generateInterviewQuestions(profile, DEFAULT_INTERVIEW_CONFIGURATION);
+      const template = getInterviewTemplate(session.templateId);
+      const resumeGrounding = selectResumeGrounding(state, template.id);
+      const generationOptions = await getGenerationOptions(state, resumeGrounding);
+      if (resumeGrounding !== "off" && !generationOptions.resume) {
+        message.warning("No parsed resume is available for this candidate, so questions will stay generic.");
+      }
+      const adaptiveSettings = selectAdaptiveSettings(state);
+      const adaptive = adaptiveSettings.enabled ? createAdaptiveState(template, adaptiveSettings) : null;
+      const openingChoice = adaptive ? chooseStartingDifficulty(template, adaptive) : null;
+
+      const questions = openingChoice
+        ? [await generateNextQuestion(template, openingChoice.difficulty, [], generationOptions)]
+        : await generateInterviewQuestions(profile, template, generationOptions);
 
       if (!questions.length) {
         throw new Error("Couldn't generate interview questions. Please try again.");
       }
 
       dispatch(upsertQuestions({ questions }));
+      if (generationOptions.resume) {
+        dispatch(setResumeGroundingPolicy(resumeGrounding));
+      }
+
+      const followUpSettings = selectFollowUpSettings(state);
+      if (followUpSettings.enabled) {
+        dispatch(
+          setFollowUpPolicy({
+            maxFollowUps: followUpSettings.maxFollowUps,
+            timeLimitSeconds: followUpSettings.timeLimitSeconds
+          })
+        );
+      }
+
+      const pauseSettings = selectPauseSettings(state);
+      if (pauseSettings.allowed) {
+        dispatch(
+          setPausePolicy({
+            maxPauses: pauseSettings.maxPauses,
+            maxTotalPauseSeconds: pauseSettings.maxTotalPauseSeconds
+          })
+        );
+      }
+
+      if (adaptive && openingChoice) {
+        const openingStep: AdaptiveStep = {
+          questionId: questions[0].id,
+          difficulty: openingChoice.difficulty,
+          decision: openingChoice.decision,
+          runningScore: null,
+          reason: openingChoice.reason,
+          decidedAt: dayjs().toISOString()
+        };
+        dispatch(startAdaptivePath(adaptive));
+        dispatch(appendAdaptiveStep(openingStep));
+      }
 
       const introTimestamp = dayjs().toISOString();
       dispatch(setSessionStage("questioning"));
@@ -187,30 +445,7 @@ export const beginInterview = createAsyncThunk<void, void, AsyncThunkConfig>(
         throw new Error("No questions available to begin the interview.");
       }
 
-      const startTimestamp = dayjs().toISOString();
-      dispatch(setCurrentQuestion(firstQuestion.id));
-      dispatch(
-        updateTimerState({
-          questionId: firstQuestion.id,
-          remainingSeconds: firstQuestion.timeLimitSeconds,
-          isRunning: true,
-          lastTickAt: startTimestamp,
-          startedAt: startTimestamp
-        })
-      );
-      dispatch(
-        addChatMessage({
-          sender: "assistant",
-          body: `Question 1: ${firstQuestion.prompt}`,
-          createdAt: startTimestamp,
-          metadata: {
-            questionId: firstQuestion.id,
-            difficulty: firstQuestion.difficulty,
-            type: "question",
-            guidance: firstQuestion.guidance
-          }
-        })
-      );
+      askQuestion(dispatch, firstQuestion, 1);
     } catch (error) {
       const messageText =
         error instanceof Error ? error.message : "Failed to start the interview. Please try again.";
@@ -224,14 +459,19 @@ export const beginInterview = createAsyncThunk<void, void, AsyncThunkConfig>(
 
 export const submitAnswer = createAsyncThunk<
   void,
-  { answer: string; autoSubmitted?: boolean },
+  {
+    answer: string;
+    autoSubmitted?: boolean;
+    telemetry?: Omit<AnswerTelemetry, "answerCharacters">;
+    editLog?: AnswerEditRecording;
+  },
   AsyncThunkConfig
 >(
   "session/submitAnswer",
-  async ({ answer, autoSubmitted = false }, { dispatch, getState, rejectWithValue }) => {
+  async ({ answer, autoSubmitted = false, telemetry, editLog: editRecording }, { dispatch, getState, rejectWithValue }) => {
     const state = getState();
-    const session = state.session.activeSession;
-    const profile = state.session.activeProfile;
+    const session = selectActiveSession(state);
+    const profile = selectActiveProfile(state);
 
     if (!session || !profile) {
       const error = "No active interview session.";
@@ -239,6 +479,12 @@ export const submitAnswer = createAsyncThunk<
       return rejectWithValue(error);
     }
 
+    if (session.stage === "paused") {
+      const error = "Resume the interview before submitting an answer.";
+      message.warning(error);
+      return rejectWithValue(error);
+    }
+
     const questionId = session.currentQuestionId;
     if (!questionId) {
       const error = "There's no active question to submit.";
@@ -253,15 +499,20 @@ export const submitAnswer = createAsyncThunk<
       return rejectWithValue(error);
     }
 
+    // While a follow-up is pending, this submission answers it rather than the question itself.
+    const pendingFollowUp =
+      session.pendingFollowUp?.questionId === questionId ? session.pendingFollowUp : null;
+    const timeLimitSeconds = pendingFollowUp?.timeLimitSeconds ?? question.timeLimitSeconds;
+
     const timer = session.timers[questionId];
     const submittedAt = dayjs().toISOString();
     const startedAt = timer?.startedAt ?? submittedAt;
     const trimmedAnswer = answer.trim();
     const elapsedFromTimer = timer
-      ? question.timeLimitSeconds - Math.max(0, timer.remainingSeconds)
+      ? timeLimitSeconds - Math.max(0, timer.remainingSeconds)
       : Math.max(0, dayjs(submittedAt).diff(dayjs(startedAt), "second"));
-    const elapsedSeconds = Math.max(0, Math.min(question.timeLimitSeconds, Math.round(elapsedFromTimer)));
-    const safeRemaining = Math.max(0, timer?.remainingSeconds ?? question.timeLimitSeconds - elapsedSeconds);
+    const elapsedSeconds = Math.max(0, Math.min(timeLimitSeconds, Math.round(elapsedFromTimer)));
+    const safeRemaining = Math.max(0, timer?.remainingSeconds ?? timeLimitSeconds - elapsedSeconds);
 
     dispatch(
       updateTimerState({
@@ -273,6 +524,16 @@ export const submitAnswer = createAsyncThunk<
       })
     );
 
+    let editLog: AnswerEditLog | undefined;
+    if (editRecording?.edits.length) {
+      try {
+        editLog = await encodeAnswerEditLog(editRecording);
+      } catch (error) {
+        // The replay is a review aid; losing it mustn't cost the candidate their answer.
+        console.error("Failed to encode the answer's edit log", error);
+      }
+    }
+
     const chatBody =
       trimmedAnswer ||
       (autoSubmitted
@@ -284,19 +545,72 @@ export const submitAnswer = createAsyncThunk<
         sender: "candidate",
         body: chatBody,
         createdAt: submittedAt,
-        metadata: { questionId, autoSubmitted, rawAnswer: trimmedAnswer }
+        metadata: { questionId, autoSubmitted, rawAnswer: trimmedAnswer, followUpId: pendingFollowUp?.id }
       })
     );
 
-    const updatedChat = getState().session.activeSession?.chat ?? [];
+    const primaryAnswer: PendingFollowUp["primaryAnswer"] = pendingFollowUp?.primaryAnswer ?? {
+      answer: trimmedAnswer,
+      startedAt,
+      submittedAt,
+      elapsedSeconds,
+      autoSubmitted,
+      editLog
+    };
+    const followUps: FollowUpExchange[] = pendingFollowUp
+      ? [
+          ...pendingFollowUp.thread,
+          {
+            id: pendingFollowUp.id,
+            prompt: pendingFollowUp.prompt,
+            reason: pendingFollowUp.reason,
+            answer: trimmedAnswer,
+            askedAt: pendingFollowUp.askedAt,
+            submittedAt,
+            elapsedSeconds,
+            autoSubmitted,
+            editLog
+          }
+        ]
+      : [];
+
+    const followUpPolicy = session.followUpPolicy;
+    if (followUpPolicy && followUps.length < followUpPolicy.maxFollowUps) {
+      try {
+        const plan = await planFollowUpQuestion(question, primaryAnswer.answer, followUps);
+        if (plan) {
+          askFollowUp(dispatch, {
+            id: nanoid(),
+            questionId,
+            prompt: plan.prompt,
+            reason: plan.reason,
+            askedAt: dayjs().toISOString(),
+            timeLimitSeconds: followUpPolicy.timeLimitSeconds,
+            primaryAnswer,
+            thread: followUps
+          });
+          return undefined;
+        }
+      } catch (error) {
+        console.error("Follow-up planning failed", error);
+      }
+    }
+
+    if (pendingFollowUp) {
+      dispatch(setPendingFollowUp(null));
+    }
+
+    const updatedChat = selectActiveSession(getState())?.chat ?? [];
 
     let evaluationScore = 0;
     let evaluationFeedback = "";
+    let criterionScores: CriterionScore[] | undefined;
 
     try {
-      const evaluation = await evaluateAnswerWithAI(question, trimmedAnswer, updatedChat);
+      const evaluation = await evaluateAnswerWithAI(question, primaryAnswer.answer, updatedChat, followUps);
       evaluationScore = evaluation.score;
       evaluationFeedback = evaluation.feedback;
+      criterionScores = evaluation.criterionScores;
     } catch (error) {
       console.error("AI evaluation failed", error);
       evaluationScore = question.difficulty === "hard" ? 6 : question.difficulty === "medium" ? 5 : 4;
@@ -305,13 +619,27 @@ export const submitAnswer = createAsyncThunk<
 
     const answerRecord: AnswerRecord = {
       questionId,
-      answer: trimmedAnswer,
-      startedAt,
+      answer: primaryAnswer.answer,
+      startedAt: primaryAnswer.startedAt,
       submittedAt,
-      elapsedSeconds,
-      autoSubmitted,
+      elapsedSeconds: followUps.reduce(
+        (total, exchange) => total + exchange.elapsedSeconds,
+        primaryAnswer.elapsedSeconds
+      ),
+      autoSubmitted: primaryAnswer.autoSubmitted,
       aiScore: evaluationScore,
-      aiFeedback: evaluationFeedback
+      aiFeedback: evaluationFeedback,
+      criterionScores,
+      followUps: followUps.length ? followUps : undefined,
+      editLog: primaryAnswer.editLog,
+      // The view keeps counting through follow-ups, so the last submission carries the whole question.
+      telemetry: telemetry && {
+        ...telemetry,
+        answerCharacters: followUps.reduce(
+          (total, exchange) => total + exchange.answer.length,
+          primaryAnswer.answer.length
+        )
+      }
     };
 
     dispatch(recordAnswer(answerRecord));
@@ -324,45 +652,20 @@ export const submitAnswer = createAsyncThunk<
       })
     );
 
-    const sessionAfterAnswer = getState().session.activeSession;
+    const sessionAfterAnswer = selectActiveSession(getState());
     if (!sessionAfterAnswer) {
       return undefined;
     }
 
-    const order = sessionAfterAnswer.questionOrder;
-    const currentIndex = order.indexOf(questionId);
-    const hasNextQuestion = currentIndex >= 0 && currentIndex + 1 < order.length;
-
-    if (hasNextQuestion) {
-      const nextQuestionId = order[currentIndex + 1];
-      const nextQuestion = sessionAfterAnswer.questions[nextQuestionId];
-      if (nextQuestion) {
-        const nextStart = dayjs().toISOString();
-        dispatch(setCurrentQuestion(nextQuestionId));
-        dispatch(
-          updateTimerState({
-            questionId: nextQuestionId,
-            remainingSeconds: nextQuestion.timeLimitSeconds,
-            isRunning: true,
-            lastTickAt: nextStart,
-            startedAt: nextStart
-          })
-        );
-        dispatch(
-          addChatMessage({
-            sender: "assistant",
-            body: `Question ${currentIndex + 2}: ${nextQuestion.prompt}`,
-            createdAt: nextStart,
-            metadata: {
-              questionId: nextQuestionId,
-              difficulty: nextQuestion.difficulty,
-              type: "question",
-              guidance: nextQuestion.guidance
-            }
-          })
-        );
-      }
+    const currentIndex = sessionAfterAnswer.questionOrder.indexOf(questionId);
+    const nextQuestion = sessionAfterAnswer.adaptive
+      ? await prepareAdaptiveQuestion(dispatch, getState(), question, evaluationScore)
+      : currentIndex >= 0
+      ? sessionAfterAnswer.questions[sessionAfterAnswer.questionOrder[currentIndex + 1]] ?? null
+      : null;
 
+    if (nextQuestion) {
+      askQuestion(dispatch, nextQuestion, currentIndex + 2);
       message.success("Answer submitted. Onto the next question!");
       return undefined;
     }
@@ -370,7 +673,7 @@ export const submitAnswer = createAsyncThunk<
     dispatch(setCurrentQuestion(null));
     dispatch(setSessionStage("completed"));
 
-    const summaryTargetSession = getState().session.activeSession;
+    const summaryTargetSession = selectActiveSession(getState());
     if (!summaryTargetSession) {
       return undefined;
     }
@@ -408,24 +711,239 @@ export const submitAnswer = createAsyncThunk<
       })
     );
 
-    const finalSession = getState().session.activeSession;
+    const completedSessionId = selectActiveSession(getState())?.id;
+    if (completedSessionId) {
+      await dispatch(sealTranscript(completedSessionId));
+    }
+    const finalSession = selectActiveSession(getState());
     if (finalSession) {
-      dispatch(
-        upsertCandidate({
-          id: profile.id,
-          profile,
-          sessionId: finalSession.id,
-          completedAt: completionTime,
-          finalScore: summary.finalScore,
-          summary,
-          questions: orderedQuestions,
-          answers: orderedAnswers,
-          chat: finalSession.chat
-        })
-      );
+      const record: CandidateArchiveRecord = {
+        id: profile.id,
+        profile,
+        sessionId: finalSession.id,
+        templateId: finalSession.templateId,
+        completedAt: completionTime,
+        finalScore: summary.finalScore,
+        summary,
+        questions: orderedQuestions,
+        answers: orderedAnswers,
+        chat: finalSession.chat,
+        adaptive: finalSession.adaptive,
+        pauses: finalSession.pauses,
+        transcriptChain: finalSession.transcriptChain
+      };
+      await dispatch(archiveCompletedInterview(record));
     }
 
     message.success("Interview completed! Review your summary in the interviewer tab.");
     return undefined;
   }
 );
+
+/**
+ * Saves a finished interview's record to the archive and lists it there. If the write fails the
+ * index is left alone, so the row can't point at a record that doesn't exist; the completed session
+ * stays in place and the interviewer keeps reading it from there.
+ */
+export const archiveCompletedInterview = createAsyncThunk<boolean, CandidateArchiveRecord, AsyncThunkConfig>(
+  "session/archiveCompletedInterview",
+  async (record, { dispatch }) => {
+    try {
+      await persistCandidateRecord(record);
+    } catch (error) {
+      console.error("Failed to archive candidate record", error);
+      message.warning("The interview finished, but its record couldn't be saved to this browser's archive.");
+      return false;
+    }
+    dispatch(upsertCandidate(record));
+    // The archive holds the full record now; keeping it in the session too would bloat localStorage.
+    dispatch(compactArchivedSession(record.sessionId));
+    return true;
+  }
+);
+
+// Seals run one after another, so each extends the chain tail the previous one left behind.
+let sealQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Hash-chains every chat message and answer of the session (the active one by default) that isn't
+ * sealed yet. Runs after each new entry; a failure, such as WebCrypto missing outside a secure
+ * context, is logged and leaves those entries unsealed, which verification then reports.
+ */
+export const sealTranscript = createAsyncThunk<void, string | null | undefined, AsyncThunkConfig>(
+  "session/sealTranscript",
+  async (sessionId, { dispatch, getState }) => {
+    sealQueue = sealQueue
+      .then(async () => {
+        const { session: sessionState } = getState();
+        const id = sessionId ?? sessionState.activeSessionId;
+        const session = id ? sessionState.sessions[id] : undefined;
+        if (!session) {
+          return;
+        }
+        const links = await extendTranscriptChain(session.transcriptChain ?? [], {
+          chat: session.chat,
+          answers: Object.values(session.answers),
+          questions: Object.values(session.questions)
+        });
+        dispatch(appendTranscriptLinks({ sessionId: session.id, links }));
+      })
+      .catch((error) => {
+        console.error("Failed to seal the interview transcript", error);
+      });
+    await sealQueue;
+  }
+);
+
+export const pauseInterview = createAsyncThunk<void, void, AsyncThunkConfig>(
+  "session/pauseInterview",
+  async (_, { dispatch, getState, rejectWithValue }) => {
+    const session = selectActiveSession(getState());
+    const pausedAt = dayjs().toISOString();
+    const blocker = session ? getPauseBlocker(session, pausedAt) : "No active interview session.";
+    if (!session || blocker) {
+      const error = blocker ?? "No active interview session.";
+      message.warning(error);
+      return rejectWithValue(error);
+    }
+
+    const pauseId = nanoid();
+    dispatch(pauseSession({ id: pauseId, pausedAt }));
+
+    const pausedSession = selectActiveSession(getState());
+    const pause = pausedSession ? getOpenPause(pausedSession) : null;
+    if (!pausedSession || !pause) {
+      return undefined;
+    }
+
+    const pauseNumber = pausedSession.pauses?.length ?? 1;
+    const maxPauses = pausedSession.pausePolicy?.maxPauses ?? pauseNumber;
+    dispatch(
+      addChatMessage({
+        sender: "system",
+        body: `Interview paused (${pauseNumber} of ${maxPauses}). The question timer is frozen with ${formatPauseSeconds(
+          pause.remainingSecondsAtPause
+        )} left, and ${formatPauseSeconds(getRemainingPauseSeconds(pausedSession, pausedAt))} of pause time remains.`,
+        createdAt: pausedAt,
+        metadata: { type: "pause", pauseId, questionId: pause.questionId }
+      })
+    );
+    return undefined;
+  }
+);
+
+export const resumeInterview = createAsyncThunk<void, void, AsyncThunkConfig>(
+  "session/resumeInterview",
+  async (_, { dispatch, getState, rejectWithValue }) => {
+    const session = selectActiveSession(getState());
+    const pause = session ? getOpenPause(session) : null;
+    if (!session || !pause || session.stage !== "paused") {
+      const error = "The interview isn't paused.";
+      message.info(error);
+      return rejectWithValue(error);
+    }
+
+    const now = dayjs().toISOString();
+    const resumedAt = getEffectiveResumeTime(session, pause, now);
+    const endedBy = getRemainingPauseSeconds(session, now) <= 0 ? "budget" : "candidate";
+    dispatch(resumeSession({ resumedAt, endedBy }));
+
+    const resumedSession = selectActiveSession(getState());
+    const pauseDuration = formatPauseSeconds(dayjs(resumedAt).diff(dayjs(pause.pausedAt), "millisecond") / 1000);
+    const body =
+      endedBy === "budget"
+        ? `Pause time ran out after ${pauseDuration}, so the interview resumed automatically.`
+        : `Interview resumed after ${pauseDuration}. ${formatPauseSeconds(
+            resumedSession ? getRemainingPauseSeconds(resumedSession, resumedAt) : 0
+          )} of pause time remains.`;
+    dispatch(
+      addChatMessage({
+        sender: "system",
+        body,
+        createdAt: resumedAt,
+        metadata: { type: "resume", pauseId: pause.id, questionId: pause.questionId, endedBy }
+      })
+    );
+
+    if (endedBy === "budget") {
+      message.warning("Your pause time ran out, so the interview has resumed.");
+    }
+    return undefined;
+  }
+);
+
+export const scheduleInterview = createAsyncThunk<
+  InterviewSession,
+  {
+    candidateName: string;
+    candidateEmail?: string | null;
+    templateId: string;
+    windowStart: string;
+    windowEnd: string;
+  },
+  AsyncThunkConfig
+>(
+  "session/scheduleInterview",
+  async ({ candidateName, candidateEmail, templateId, windowStart, windowEnd }, { dispatch, getState, rejectWithValue }) => {
+    const name = candidateName.trim();
+    const error = !name
+      ? "Enter the candidate's name."
+      : !dayjs(windowEnd).isAfter(dayjs(windowStart))
+      ? "The start window has to end after it begins."
+      : dayjs(windowEnd).isBefore(dayjs())
+      ? "The start window is already over."
+      : null;
+    if (error) {
+      message.error(error);
+      return rejectWithValue(error);
+    }
+
+    const sessions = Object.values(getState().session.sessions);
+    const template = getInterviewTemplate(templateId);
+    const code = createInvitationCode(sessions.map((entry) => entry.invitation?.code ?? ""));
+    const session: InterviewSession = {
+      ...buildSessionScaffold(nanoid(), "resume-upload", template.id),
+      invitation: {
+        code,
+        candidateName: name,
+        candidateEmail: candidateEmail?.trim() || null,
+        windowStart,
+        windowEnd,
+        invitedAt: dayjs().toISOString()
+      }
+    };
+
+    dispatch(scheduleSession(session));
+    message.success(`Invitation created for ${name}. Share code ${code} with the candidate.`);
+    return session;
+  }
+);
+
+export const openInvitation = createAsyncThunk<void, { code: string }, AsyncThunkConfig>(
+  "session/openInvitation",
+  async ({ code }, { dispatch, getState, rejectWithValue }) => {
+    const state = getState();
+    const session = findSessionByInvitationCode(state.session.sessions, code);
+    const current = selectActiveSession(state);
+    const now = dayjs().toISOString();
+
+    const error = !session
+      ? "We couldn't find an invitation with that code."
+      : current && current.id !== session.id && (current.stage === "questioning" || current.stage === "paused")
+      ? "Finish the interview in progress before opening another one."
+      : getInvitationStatus(session, now) === "expired"
+      ? getStartWindowBlocker(session.invitation, now)
+      : null;
+    if (!session || error) {
+      const errorMessage = error ?? "We couldn't find an invitation with that code.";
+      message.error(errorMessage);
+      return rejectWithValue(errorMessage);
+    }
+
+    dispatch(openSession(session.id));
+    if (getInvitationStatus(session, now) === "upcoming") {
+      message.info(getStartWindowBlocker(session.invitation, now) ?? "This interview hasn't opened yet.");
+    }
+    return undefined;
+  }
+);
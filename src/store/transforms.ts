@@ -0,0 +1,16 @@
+import { createTransform } from "redux-persist";
+import type { CandidatesState } from "./slices/candidatesSlice";
+import { isPlainObject } from "../utils/recordValidation";
+
+type StoredCandidates = Omit<CandidatesState, "loadedRecords">;
+
+/**
+ * Full candidate records belong in IndexedDB, so the in-memory copies of opened records are dropped
+ * before the slice is written to localStorage and start out empty again on load.
+ */
+export const candidatesTransform = createTransform<CandidatesState, StoredCandidates>(
+  ({ loadedRecords: _loadedRecords, ...stored }) => stored,
+  // Anything unreadable is passed through untouched so the migrate step can set it aside as found.
+  (stored) => (isPlainObject(stored) ? { ...stored, loadedRecords: {} } : stored) as CandidatesState,
+  { whitelist: ["candidates"] }
+);
@@ -19,6 +19,51 @@ export interface CandidateProfile {
   role: string;
   resume: ResumeFileMeta | null;
   missingFields: RequiredProfileField[];
+  structured?: StructuredResume;
+}
+
+export type SkillProficiency = "familiar" | "proficient" | "advanced" | "expert";
+
+export interface ResumeSkill {
+  name: string;
+  category: string;
+  proficiency: SkillProficiency;
+  years: number | null;
+}
+
+/** Dates are "YYYY-MM" (or "YYYY" when the resume only gives a year); a null end date means current. */
+export interface WorkExperience {
+  company: string | null;
+  title: string | null;
+  startDate: string | null;
+  endDate: string | null;
+  isCurrent: boolean;
+  highlights: string[];
+}
+
+export interface EducationEntry {
+  institution: string | null;
+  degree: string | null;
+  field: string | null;
+  startDate: string | null;
+  endDate: string | null;
+}
+
+export interface ResumeLinks {
+  github: string | null;
+  linkedin: string | null;
+  portfolio: string | null;
+  other: string[];
+}
+
+export interface StructuredResume {
+  skills: ResumeSkill[];
+  experience: WorkExperience[];
+  education: EducationEntry[];
+  links: ResumeLinks;
+  totalYearsExperience: number | null;
+  source: "llm" | "heuristic";
+  extractedAt: string;
 }
 
 export type ChatSender = "system" | "assistant" | "candidate";
@@ -31,6 +76,11 @@ export interface ChatMessage {
   metadata?: Record<string, unknown>;
 }
 
+export type QuestionSource = "ai" | "bank" | "fallback";
+
+/** How much of the candidate's resume question generation may see: none, the raw text, or the parsed summary. */
+export type ResumeGroundingMode = "off" | "full-text" | "summary";
+
 export interface InterviewQuestion {
   id: string;
   prompt: string;
@@ -38,8 +88,38 @@ export interface InterviewQuestion {
   category: string;
   timeLimitSeconds: number;
   guidance?: string;
+  source?: QuestionSource;
+  bankQuestionId?: string;
+  rubric?: RubricCriterion[];
+  /** The resume passage a resume-grounded question was built from, quoted as the generator returned it. */
+  resumeExcerpt?: string;
+  /** Whether the excerpt was found in the candidate's resume; false means it may be hallucinated. */
+  resumeExcerptVerified?: boolean;
+}
+
+export interface RubricCriterion {
+  id: string;
+  label: string;
+  description: string;
+  weight: number;
 }
 
+export interface QuestionBankItem {
+  id: string;
+  prompt: string;
+  category: string;
+  tags: string[];
+  difficulty: QuestionDifficulty;
+  timeLimitSeconds: number;
+  guidance: string;
+  rubric: RubricCriterion[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Where interview questions come from: AI only, the curated bank only, or half of each. */
+export type QuestionSourceMode = "ai" | "bank" | "mixed";
+
 export interface AnswerRecord {
   questionId: string;
   answer: string;
@@ -49,6 +129,137 @@ export interface AnswerRecord {
   autoSubmitted: boolean;
   aiScore?: number;
   aiFeedback?: string;
+  criterionScores?: CriterionScore[];
+  scoreOverride?: ScoreOverride;
+  followUps?: FollowUpExchange[];
+  telemetry?: AnswerTelemetry;
+  /** How the main answer was typed, for replay; follow-up replies carry their own. */
+  editLog?: AnswerEditLog;
+}
+
+/**
+ * Every insert and delete made in the answer editor, compressed. Decode it with
+ * `decodeAnswerEditLog` from services/answerEditLog.
+ */
+export interface AnswerEditLog {
+  /** "deflate" is raw DEFLATE then base64; "plain" is the uncompressed JSON, for browsers without CompressionStream. */
+  encoding: "deflate" | "plain";
+  edits: number;
+  /** Milliseconds from when the prompt was shown to the last edit. */
+  durationMs: number;
+  /** Recording stopped at MAX_RECORDED_EDITS, so the replay ends before the submitted text. */
+  truncated: boolean;
+  data: string;
+}
+
+/**
+ * How the candidate produced an answer, counted across the question and its follow-ups. Only covers
+ * the page load the answer was submitted from; a reload starts the counts again.
+ */
+export interface AnswerTelemetry {
+  /** Times the candidate switched tabs or windows away from the interview. */
+  blurCount: number;
+  blurSeconds: number;
+  pasteCount: number;
+  pastedCharacters: number;
+  /** Characters entered one or two at a time, i.e. by typing. */
+  typedCharacters: number;
+  /** Time spent typing, leaving out pauses of more than a few seconds between keystrokes. */
+  typingSeconds: number;
+  /** Length of everything submitted for the question, follow-up replies included. */
+  answerCharacters: number;
+}
+
+/** One clarifying question asked about the same interview question, and the candidate's reply. */
+export interface FollowUpExchange {
+  id: string;
+  prompt: string;
+  reason: string;
+  answer: string;
+  askedAt: string;
+  submittedAt: string;
+  elapsedSeconds: number;
+  autoSubmitted: boolean;
+  editLog?: AnswerEditLog;
+}
+
+export interface FollowUpSettings {
+  enabled: boolean;
+  maxFollowUps: number;
+  timeLimitSeconds: number;
+}
+
+/**
+ * A follow-up waiting for the candidate. The primary answer and earlier follow-ups are held here
+ * until the thread ends, then everything is scored together as one AnswerRecord.
+ */
+export interface PendingFollowUp {
+  id: string;
+  questionId: string;
+  prompt: string;
+  reason: string;
+  askedAt: string;
+  timeLimitSeconds: number;
+  primaryAnswer: Pick<
+    AnswerRecord,
+    "answer" | "startedAt" | "submittedAt" | "elapsedSeconds" | "autoSubmitted" | "editLog"
+  >;
+  thread: FollowUpExchange[];
+}
+
+/** A reviewer's correction of an AI score; the AI value stays on the record untouched. */
+export interface ScoreOverride {
+  score: number;
+  reason: string;
+  reviewer: string;
+  overriddenAt: string;
+}
+
+export type ScoreOverrideTarget = { type: "answer"; questionId: string } | { type: "final" };
+
+export interface ScoreAuditEntry {
+  id: string;
+  target: ScoreOverrideTarget;
+  action: "override" | "clear";
+  aiScore: number | null;
+  previousScore: number | null;
+  nextScore: number | null;
+  reason: string;
+  reviewer: string;
+  changedAt: string;
+}
+
+export type HiringDecisionStatus = "advance" | "hold" | "reject" | "second-opinion";
+
+/** One hiring call on a candidate. Records keep every call, so a change of mind doesn't erase the first. */
+export interface HiringDecision {
+  id: string;
+  status: HiringDecisionStatus;
+  notes: string;
+  reviewer: string;
+  decidedAt: string;
+}
+
+export type TranscriptEntryKind = "chat" | "answer";
+
+/**
+ * One link in a transcript's hash chain: the hash covers the entry and the previous link's hash, so
+ * editing, removing or reordering anything already sealed breaks every link after it.
+ */
+export interface TranscriptLink {
+  kind: TranscriptEntryKind;
+  /** The chat message id, or the question id for an answer. */
+  entryId: string;
+  previousHash: string;
+  hash: string;
+}
+
+export interface CriterionScore {
+  criterionId: string;
+  label: string;
+  weight: number;
+  score: number;
+  justification: string;
 }
 
 export interface InterviewSummary {
@@ -74,9 +285,40 @@ export interface QuestionTimerState {
   startedAt: string | null;
 }
 
+export interface PauseSettings {
+  allowed: boolean;
+  maxPauses: number;
+  maxTotalPauseSeconds: number;
+}
+
+/** One pause in a session's history. The question timer is frozen at `remainingSecondsAtPause` throughout. */
+export interface PauseRecord {
+  id: string;
+  questionId: string;
+  pausedAt: string;
+  /** Null while the pause is still open. */
+  resumedAt: string | null;
+  remainingSecondsAtPause: number;
+  durationSeconds: number | null;
+  /** "budget" when the pause time ran out and the interview resumed on its own. */
+  endedBy: "candidate" | "budget" | null;
+}
+
+/** How a scheduled candidate was invited; sessions started by walking in at the interviewee tab have none. */
+export interface InterviewInvitation {
+  /** Short code the candidate enters, or opens as `?invite=<code>`, to pick up this session. */
+  code: string;
+  candidateName: string;
+  candidateEmail: string | null;
+  windowStart: string;
+  windowEnd: string;
+  invitedAt: string;
+}
+
 export interface InterviewSession {
   id: string;
   candidateId: string;
+  templateId: string;
   createdAt: string;
   updatedAt: string;
   stage: SessionStage;
@@ -87,18 +329,97 @@ export interface InterviewSession {
   timers: Record<string, QuestionTimerState>;
   chat: ChatMessage[];
   summary: InterviewSummary | null;
+  adaptive?: AdaptiveDifficultyState;
+  followUpPolicy?: Omit<FollowUpSettings, "enabled">;
+  pendingFollowUp?: PendingFollowUp | null;
+  resumeGrounding?: ResumeGroundingMode;
+  pausePolicy?: Omit<PauseSettings, "allowed">;
+  pauses?: PauseRecord[];
+  invitation?: InterviewInvitation;
+  /** Seals `chat` and `answers` in the order they were recorded; see services/transcriptIntegrity. */
+  transcriptChain?: TranscriptLink[];
 }
 
 export interface CandidateArchiveRecord {
   id: string;
   profile: CandidateProfile;
   sessionId: string;
+  templateId: string;
   completedAt: string;
   finalScore: number;
   summary: InterviewSummary;
   questions: InterviewQuestion[];
   answers: AnswerRecord[];
   chat: ChatMessage[];
+  finalScoreOverride?: ScoreOverride;
+  scoreAuditLog?: ScoreAuditEntry[];
+  adaptive?: AdaptiveDifficultyState;
+  pauses?: PauseRecord[];
+  /** Free-form labels reviewers attach, such as "referral" or "second round". */
+  tags?: string[];
+  /** Oldest first; the last entry is the current decision. */
+  decisions?: HiringDecision[];
+  /** Carried over from the session when the interview was archived. */
+  transcriptChain?: TranscriptLink[];
+}
+
+/**
+ * What the candidate list needs to know about an archived interview. The full record lives in
+ * IndexedDB and is only loaded when the candidate is opened.
+ */
+export interface CandidateIndexRow {
+  id: string;
+  sessionId: string;
+  templateId: string;
+  name: string | null;
+  email: string | null;
+  role: string;
+  completedAt: string;
+  /** The score reviewers see, with any final score override applied. */
+  finalScore: number;
+  aiFinalScore: number;
+  summaryPreview: string;
+  resumeId: string | null;
+  autoSubmittedCount: number;
+  /** Null on rows saved before durations were indexed, until they are rebuilt from the record. */
+  answeringSeconds: number | null;
+  difficultyAverages: DifficultyAverages;
+  /** True once a reviewer has overridden the final score or any answer score. */
+  hasScoreOverride: boolean;
+  tags: string[];
+  /** The current hiring decision, or null while the candidate is undecided. */
+  decision: HiringDecisionStatus | null;
+  decidedAt: string | null;
+}
+
+/** Average effective answer score per question difficulty; null where no scored answer has that difficulty. */
+export type DifficultyAverages = Record<QuestionDifficulty, number | null>;
+
+export interface AdaptiveDifficultySettings {
+  enabled: boolean;
+  minDifficulty: QuestionDifficulty;
+  maxDifficulty: QuestionDifficulty;
+}
+
+export type AdaptiveDecision = "start" | "step-up" | "step-down" | "hold";
+
+/** Why a question was asked at its difficulty; `runningScore` is the score the decision was based on. */
+export interface AdaptiveStep {
+  questionId: string;
+  difficulty: QuestionDifficulty;
+  decision: AdaptiveDecision;
+  runningScore: number | null;
+  reason: string;
+  decidedAt: string;
+}
+
+/** Present on sessions that pick each question's difficulty from the candidate's previous scores. */
+export interface AdaptiveDifficultyState {
+  minDifficulty: QuestionDifficulty;
+  maxDifficulty: QuestionDifficulty;
+  targetQuestionCount: number;
+  runningScore: number | null;
+  path: AdaptiveStep[];
 }
 
 export interface InterviewConfiguration {
@@ -107,6 +428,20 @@ export interface InterviewConfiguration {
   timerByDifficulty: Record<QuestionDifficulty, number>;
 }
 
+export interface TemplateFallbackQuestion {
+  prompt: string;
+  category: string;
+}
+
+export interface InterviewTemplate extends InterviewConfiguration {
+  id: string;
+  name: string;
+  role: string;
+  description: string;
+  topics: string[];
+  fallbackQuestions: Record<QuestionDifficulty, TemplateFallbackQuestion[]>;
+}
+
 export const DEFAULT_INTERVIEW_CONFIGURATION: InterviewConfiguration = {
   totalQuestions: 6,
   difficultyPattern: ["easy", "easy", "medium", "medium", "hard", "hard"],
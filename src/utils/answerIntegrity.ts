@@ -0,0 +1,103 @@
+import type { AnswerTelemetry } from "../types/interview";
+
+/**
+ * Turns an answer's telemetry into flags for the interviewer to weigh. None of these prove anything on
+ * their own (people paste their own notes, dictate, or glance at another window), so they only rank how
+ * closely an answer deserves a second look and never change its score.
+ */
+
+export type AnswerRisk = "low" | "medium" | "high";
+
+export type AnswerIntegrityFlagKind = "left-window" | "pasted" | "untyped-text" | "fast-typing";
+
+export interface AnswerIntegrityFlag {
+  kind: AnswerIntegrityFlagKind;
+  risk: Exclude<AnswerRisk, "low">;
+  detail: string;
+}
+
+export interface AnswerIntegritySummary {
+  risk: AnswerRisk;
+  flags: AnswerIntegrityFlag[];
+}
+
+export const ANSWER_RISK_DETAILS: Record<AnswerRisk, { label: string; color: string }> = {
+  low: { label: "Low", color: "green" },
+  medium: { label: "Medium", color: "gold" },
+  high: { label: "High", color: "red" }
+};
+
+/** Away this long, or this often, on one question is worth more than a passing glance. */
+export const LONG_ABSENCE_SECONDS = 30;
+export const FREQUENT_ABSENCES = 3;
+
+/** Pastes shorter than this are usually a name or a term, not an answer. */
+export const MIN_PASTED_CHARACTERS = 20;
+
+/** Above this many characters a minute, sustained over MIN_TYPED_FOR_CADENCE, typing is implausibly fast. */
+export const FAST_TYPING_CHARS_PER_MINUTE = 600;
+export const MIN_TYPED_FOR_CADENCE = 100;
+
+/** Text that was neither typed nor pasted (autofill, drag and drop, scripted input) above this much. */
+export const MIN_UNTYPED_CHARACTERS = 40;
+
+const RISK_ORDER: AnswerRisk[] = ["low", "medium", "high"];
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+export const getTypingCharsPerMinute = (telemetry: AnswerTelemetry): number | null =>
+  telemetry.typingSeconds > 0 ? Math.round((telemetry.typedCharacters / telemetry.typingSeconds) * 60) : null;
+
+export const summarizeAnswerTelemetry = (telemetry: AnswerTelemetry | undefined): AnswerIntegritySummary | null => {
+  if (!telemetry) {
+    return null;
+  }
+
+  const flags: AnswerIntegrityFlag[] = [];
+
+  if (telemetry.blurCount > 0) {
+    flags.push({
+      kind: "left-window",
+      risk:
+        telemetry.blurSeconds >= LONG_ABSENCE_SECONDS || telemetry.blurCount >= FREQUENT_ABSENCES ? "high" : "medium",
+      detail: `Left the interview ${plural(telemetry.blurCount, "time")} for ${Math.round(telemetry.blurSeconds)}s in total.`
+    });
+  }
+
+  if (telemetry.pastedCharacters >= MIN_PASTED_CHARACTERS) {
+    const share = telemetry.answerCharacters ? telemetry.pastedCharacters / telemetry.answerCharacters : 1;
+    flags.push({
+      kind: "pasted",
+      risk: share >= 0.5 ? "high" : "medium",
+      detail: `Pasted ${plural(telemetry.pastedCharacters, "character")} in ${plural(telemetry.pasteCount, "paste")}.`
+    });
+  }
+
+  const untyped = telemetry.answerCharacters - telemetry.typedCharacters - telemetry.pastedCharacters;
+  if (untyped >= Math.max(MIN_UNTYPED_CHARACTERS, telemetry.answerCharacters * 0.3)) {
+    flags.push({
+      kind: "untyped-text",
+      risk: "high",
+      detail: `${plural(untyped, "character")} of the answer were neither typed nor pasted.`
+    });
+  }
+
+  const charsPerMinute = getTypingCharsPerMinute(telemetry);
+  if (
+    telemetry.typedCharacters >= MIN_TYPED_FOR_CADENCE &&
+    charsPerMinute !== null &&
+    charsPerMinute > FAST_TYPING_CHARS_PER_MINUTE
+  ) {
+    flags.push({
+      kind: "fast-typing",
+      risk: "medium",
+      detail: `Typed at ${charsPerMinute} characters a minute.`
+    });
+  }
+
+  const risk = flags.reduce<AnswerRisk>(
+    (highest, flag) => (RISK_ORDER.indexOf(flag.risk) > RISK_ORDER.indexOf(highest) ? flag.risk : highest),
+    "low"
+  );
+  return { risk, flags };
+};
@@ -0,0 +1,165 @@
+import type { CandidateArchiveRecord, InterviewQuestion, QuestionDifficulty } from "../types/interview";
+import { DIFFICULTY_LADDER } from "../services/adaptiveDifficulty";
+import { computeAnsweringSeconds } from "./candidateSorting";
+import { getEffectiveAnswerScore, getEffectiveFinalScore } from "./scoreOverrides";
+
+export const MIN_COMPARED_CANDIDATES = 2;
+export const MAX_COMPARED_CANDIDATES = 4;
+
+/**
+ * "question" pairs up answers to the same question, which only works when every candidate was asked
+ * the same set; "category" pairs the first easy JavaScript question with the first easy JavaScript
+ * question, and so on.
+ */
+export type ComparisonAlignment = "question" | "category";
+
+export interface ComparisonCell {
+  questionId: string;
+  prompt: string;
+  answer: string;
+  score: number | null;
+  elapsedSeconds: number | null;
+  timeLimitSeconds: number;
+  autoSubmitted: boolean;
+  feedback: string | null;
+}
+
+export interface ComparisonRow {
+  key: string;
+  category: string;
+  difficulty: QuestionDifficulty;
+  /** The shared prompt when aligned by question; null when candidates may have had different prompts. */
+  prompt: string | null;
+  /** One entry per compared candidate, in the order they were passed; null where they had no match. */
+  cells: Array<ComparisonCell | null>;
+}
+
+/** A strength or improvement and whether every other compared candidate has the same one. */
+export interface ComparisonNote {
+  text: string;
+  shared: boolean;
+}
+
+export interface ComparedCandidate {
+  id: string;
+  name: string;
+  finalScore: number;
+  answeringSeconds: number;
+  strengths: ComparisonNote[];
+  improvements: ComparisonNote[];
+}
+
+export interface CandidateComparison {
+  alignment: ComparisonAlignment;
+  candidates: ComparedCandidate[];
+  rows: ComparisonRow[];
+}
+
+const normalize = (text: string) => text.trim().toLowerCase().replace(/\s+/g, " ");
+
+/** Bank questions keep their bank id across sessions; generated ones can only be matched on wording. */
+export const questionIdentity = (question: InterviewQuestion) =>
+  question.bankQuestionId ? `bank:${question.bankQuestionId}` : `prompt:${normalize(question.prompt)}`;
+
+const buildCell = (record: CandidateArchiveRecord, question: InterviewQuestion): ComparisonCell => {
+  const answer = record.answers.find((entry) => entry.questionId === question.id);
+  return {
+    questionId: question.id,
+    prompt: question.prompt,
+    answer: answer?.answer ?? "",
+    score: getEffectiveAnswerScore(answer),
+    elapsedSeconds: answer?.elapsedSeconds ?? null,
+    timeLimitSeconds: question.timeLimitSeconds,
+    autoSubmitted: answer?.autoSubmitted ?? false,
+    feedback: answer?.aiFeedback ?? null
+  };
+};
+
+/** True when every record was asked the same questions, in any order. */
+export const canAlignByQuestion = (records: CandidateArchiveRecord[]) => {
+  const [first, ...rest] = records.map((record) =>
+    (record.questions ?? []).map(questionIdentity).sort().join("\n")
+  );
+  return first !== undefined && first.length > 0 && rest.every((identities) => identities === first);
+};
+
+const alignByQuestion = (records: CandidateArchiveRecord[]): ComparisonRow[] =>
+  (records[0].questions ?? []).map((question) => {
+    const identity = questionIdentity(question);
+    return {
+      key: identity,
+      category: question.category,
+      difficulty: question.difficulty,
+      prompt: question.prompt,
+      cells: records.map((record) => {
+        const match = (record.questions ?? []).find((candidate) => questionIdentity(candidate) === identity);
+        return match ? buildCell(record, match) : null;
+      })
+    };
+  });
+
+const alignByCategory = (records: CandidateArchiveRecord[]): ComparisonRow[] => {
+  const rows = new Map<string, ComparisonRow>();
+  records.forEach((record, position) => {
+    const seen = new Map<string, number>();
+    (record.questions ?? []).forEach((question) => {
+      const slot = `${normalize(question.category)}|${question.difficulty}`;
+      const occurrence = seen.get(slot) ?? 0;
+      seen.set(slot, occurrence + 1);
+      const key = `${slot}|${occurrence}`;
+      const row = rows.get(key) ?? {
+        key,
+        category: question.category,
+        difficulty: question.difficulty,
+        prompt: null,
+        cells: records.map(() => null)
+      };
+      row.cells[position] = buildCell(record, question);
+      rows.set(key, row);
+    });
+  });
+  // Easiest first, then by category, so the rows read in roughly interview order.
+  return [...rows.values()].sort(
+    (left, right) =>
+      DIFFICULTY_LADDER.indexOf(left.difficulty) - DIFFICULTY_LADDER.indexOf(right.difficulty) ||
+      left.category.localeCompare(right.category, undefined, { sensitivity: "base" }) ||
+      left.key.localeCompare(right.key)
+  );
+};
+
+const markShared = (lists: string[][]) =>
+  lists.map((list, position) =>
+    list.map((text) => ({
+      text,
+      shared: lists.every(
+        (other, otherPosition) =>
+          otherPosition === position || other.some((entry) => normalize(entry) === normalize(text))
+      )
+    }))
+  );
+
+/**
+ * Lines the records up for side-by-side review. Asking for "question" alignment falls back to
+ * "category" when the candidates weren't all asked the same questions.
+ */
+export const buildCandidateComparison = (
+  records: CandidateArchiveRecord[],
+  preferred: ComparisonAlignment = "question"
+): CandidateComparison => {
+  const alignment = preferred === "question" && canAlignByQuestion(records) ? "question" : "category";
+  const strengths = markShared(records.map((record) => record.summary?.strengths ?? []));
+  const improvements = markShared(records.map((record) => record.summary?.improvements ?? []));
+
+  return {
+    alignment,
+    candidates: records.map((record, position) => ({
+      id: record.id,
+      name: record.profile.name ?? "Unnamed candidate",
+      finalScore: getEffectiveFinalScore(record),
+      answeringSeconds: computeAnsweringSeconds(record.answers),
+      strengths: strengths[position],
+      improvements: improvements[position]
+    })),
+    rows: records.length ? (alignment === "question" ? alignByQuestion(records) : alignByCategory(records)) : []
+  };
+};
@@ -0,0 +1,134 @@
+import dayjs from "dayjs";
+import type { AnswerRecord, HiringDecisionStatus, InterviewSummary, SessionStage } from "../types/interview";
+
+/** "overridden" keeps candidates a reviewer re-scored; "ai-only" keeps the ones nobody has touched yet. */
+export type CandidateReviewFilter = "any" | "overridden" | "ai-only";
+
+/** A hiring decision to match, or "undecided" for candidates nobody has made a call on. */
+export type CandidateDecisionFilter = HiringDecisionStatus | "undecided";
+
+export interface CandidateFilters {
+  /** Inclusive, on the effective final score. */
+  scoreRange: [number, number] | null;
+  /** Inclusive calendar days as YYYY-MM-DD. */
+  completedRange: [string, string] | null;
+  stages: SessionStage[];
+  roles: string[];
+  templateIds: string[];
+  minAutoSubmitted: number | null;
+  maxAutoSubmitted: number | null;
+  review: CandidateReviewFilter;
+  /** Matches a candidate whose current decision is any of these. */
+  decisions: CandidateDecisionFilter[];
+  /** A candidate has to carry every listed tag. */
+  tags: string[];
+}
+
+export interface CandidateFilterPreset {
+  id: string;
+  name: string;
+  filters: CandidateFilters;
+  searchQuery: string;
+  savedAt: string;
+}
+
+/** The facts about a live or archived candidate that the structured filters look at. */
+export interface FilterableCandidate {
+  score: number | null;
+  completedAt: string | null;
+  stage: SessionStage;
+  role: string;
+  templateId: string;
+  autoSubmittedCount: number;
+  hasScoreOverride: boolean;
+  decision: HiringDecisionStatus | null;
+  tags: string[];
+}
+
+export const DEFAULT_CANDIDATE_FILTERS: CandidateFilters = {
+  scoreRange: null,
+  completedRange: null,
+  stages: [],
+  roles: [],
+  templateIds: [],
+  minAutoSubmitted: null,
+  maxAutoSubmitted: null,
+  review: "any",
+  decisions: [],
+  tags: []
+};
+
+export const countActiveFilters = (filters: CandidateFilters) =>
+  [
+    filters.scoreRange !== null,
+    filters.completedRange !== null,
+    filters.stages.length > 0,
+    filters.roles.length > 0,
+    filters.templateIds.length > 0,
+    filters.minAutoSubmitted !== null || filters.maxAutoSubmitted !== null,
+    filters.review !== "any",
+    filters.decisions.length > 0,
+    filters.tags.length > 0
+  ].filter(Boolean).length;
+
+export const matchesCandidateFilters = (candidate: FilterableCandidate, filters: CandidateFilters): boolean => {
+  if (filters.scoreRange) {
+    const [min, max] = filters.scoreRange;
+    if (candidate.score === null || candidate.score < min || candidate.score > max) {
+      return false;
+    }
+  }
+  if (filters.completedRange) {
+    const [from, to] = filters.completedRange;
+    const completedAt = candidate.completedAt ? dayjs(candidate.completedAt) : null;
+    if (
+      !completedAt ||
+      completedAt.isBefore(dayjs(from).startOf("day")) ||
+      completedAt.isAfter(dayjs(to).endOf("day"))
+    ) {
+      return false;
+    }
+  }
+  if (filters.stages.length && !filters.stages.includes(candidate.stage)) {
+    return false;
+  }
+  if (filters.roles.length && !filters.roles.includes(candidate.role)) {
+    return false;
+  }
+  if (filters.templateIds.length && !filters.templateIds.includes(candidate.templateId)) {
+    return false;
+  }
+  if (filters.minAutoSubmitted !== null && candidate.autoSubmittedCount < filters.minAutoSubmitted) {
+    return false;
+  }
+  if (filters.maxAutoSubmitted !== null && candidate.autoSubmittedCount > filters.maxAutoSubmitted) {
+    return false;
+  }
+  if (filters.review !== "any" && candidate.hasScoreOverride !== (filters.review === "overridden")) {
+    return false;
+  }
+  if (filters.decisions.length && !filters.decisions.includes(candidate.decision ?? "undecided")) {
+    return false;
+  }
+  return filters.tags.every((tag) => candidate.tags.includes(tag));
+};
+
+export const countAutoSubmitted = (answers: AnswerRecord[]) =>
+  answers.filter((answer) => answer.autoSubmitted).length;
+
+/** Everything the candidate wrote and everything written about it: answers, follow-ups, feedback and summary. */
+export const collectSearchableText = (answers: AnswerRecord[], summary: InterviewSummary | null): string[] => [
+  ...answers.flatMap((answer) => [
+    answer.answer,
+    answer.aiFeedback ?? "",
+    answer.scoreOverride?.reason ?? "",
+    ...(answer.criterionScores ?? []).map((criterion) => criterion.justification),
+    ...(answer.followUps ?? []).map((followUp) => followUp.answer)
+  ]),
+  ...(summary ? [summary.summaryText, ...summary.strengths, ...summary.improvements] : [])
+];
+
+export const matchesSearchText = (texts: Array<string | null | undefined>, query: string) => {
+  const normalized = query.trim().toLowerCase();
+  return !normalized || texts.some((text) => Boolean(text?.toLowerCase().includes(normalized)));
+};
@@ -0,0 +1,36 @@
+import type { CandidateArchiveRecord, CandidateIndexRow } from "../types/interview";
+import { countAutoSubmitted } from "./candidateFilters";
+import { computeAnsweringSeconds, computeDifficultyAverages } from "./candidateSorting";
+import { getCurrentDecision } from "./hiringDecisions";
+import { getEffectiveFinalScore } from "./scoreOverrides";
+
+const SUMMARY_PREVIEW_LENGTH = 240;
+
+/** Rows stay in localStorage, so the summary is clipped to what the candidate list can show. */
+const clipSummary = (text: string) =>
+  text.length > SUMMARY_PREVIEW_LENGTH ? `${text.slice(0, SUMMARY_PREVIEW_LENGTH - 1).trimEnd()}…` : text;
+
+export const buildCandidateIndexRow = (record: CandidateArchiveRecord): CandidateIndexRow => {
+  const decision = getCurrentDecision(record);
+  return {
+    id: record.id,
+    sessionId: record.sessionId,
+    templateId: record.templateId,
+    name: record.profile.name ?? null,
+    email: record.profile.email ?? null,
+    role: record.profile.role,
+    completedAt: record.completedAt,
+    finalScore: getEffectiveFinalScore(record),
+    aiFinalScore: record.finalScore,
+    summaryPreview: clipSummary(record.summary?.summaryText ?? ""),
+    resumeId: record.profile.resume?.id ?? null,
+    autoSubmittedCount: countAutoSubmitted(record.answers),
+    answeringSeconds: computeAnsweringSeconds(record.answers),
+    difficultyAverages: computeDifficultyAverages(record.questions ?? [], record.answers),
+    hasScoreOverride:
+      Boolean(record.finalScoreOverride) || record.answers.some((answer) => Boolean(answer.scoreOverride)),
+    tags: record.tags ?? [],
+    decision: decision?.status ?? null,
+    decidedAt: decision?.decidedAt ?? null
+  };
+};
@@ -0,0 +1,498 @@
+import dayjs from "dayjs";
+import { getInterviewTemplate } from "../services/interviewTemplates";
+import { formatPauseSeconds } from "../services/interviewPause";
+import { TRANSCRIPT_HASH_ALGORITHM } from "../services/transcriptIntegrity";
+import type {
+  CandidateArchiveRecord,
+  ChatSender,
+  CriterionScore,
+  FollowUpExchange,
+  HiringDecision,
+  PauseRecord,
+  QuestionDifficulty,
+  ScoreOverride,
+  TranscriptLink
+} from "../types/interview";
+import { getCurrentDecision, HIRING_DECISION_DETAILS } from "./hiringDecisions";
+import { writePdfDocument, type PdfBlock } from "./pdfWriter";
+import { escapeCsvCell } from "./questionBankTransfer";
+import { getEffectiveAnswerScore, getEffectiveFinalScore } from "./scoreOverrides";
+
+export const CANDIDATE_REPORT_FORMAT = "crisp-candidate-report";
+export const CANDIDATE_REPORT_VERSION = 1;
+
+export type CandidateReportFormat = "pdf" | "markdown" | "json";
+
+export interface CandidateReportQuestion {
+  number: number;
+  prompt: string;
+  difficulty: QuestionDifficulty;
+  category: string;
+  timeLimitSeconds: number;
+  elapsedSeconds: number | null;
+  autoSubmitted: boolean;
+  answer: string | null;
+  score: number | null;
+  aiScore: number | null;
+  scoreOverride: ScoreOverride | null;
+  feedback: string | null;
+  criteria: CriterionScore[];
+  followUps: FollowUpExchange[];
+}
+
+export interface CandidateReportMessage {
+  sender: string;
+  sentAt: string;
+  body: string;
+}
+
+/** Everything the printable reports show, resolved once so PDF and Markdown never disagree. */
+export interface CandidateReport {
+  candidateName: string;
+  role: string;
+  templateName: string;
+  completedAt: string;
+  email: string | null;
+  phone: string | null;
+  finalScore: number;
+  aiFinalScore: number;
+  finalScoreOverride: ScoreOverride | null;
+  /** Newest first, so the current decision leads. */
+  decisions: HiringDecision[];
+  summary: string;
+  strengths: string[];
+  improvements: string[];
+  questions: CandidateReportQuestion[];
+  pauses: PauseRecord[];
+  transcript: CandidateReportMessage[];
+  /** The hash chain sealing the transcript; empty for interviews recorded before sealing. */
+  transcriptChain: TranscriptLink[];
+}
+
+interface CandidateReportJson {
+  format: typeof CANDIDATE_REPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  record: CandidateArchiveRecord;
+}
+
+const SENDER_LABELS: Record<ChatSender, string> = {
+  system: "System",
+  assistant: "Interviewer",
+  candidate: "Candidate"
+};
+
+const REPORT_MIME_TYPES: Record<CandidateReportFormat, string> = {
+  pdf: "application/pdf",
+  markdown: "text/markdown",
+  json: "application/json"
+};
+
+const REPORT_EXTENSIONS: Record<CandidateReportFormat, string> = {
+  pdf: "pdf",
+  markdown: "md",
+  json: "json"
+};
+
+const formatDateTime = (value: string) => dayjs(value).format("MMM D, YYYY h:mm A");
+
+const formatScore = (value: number | null) => (value === null ? "Not scored" : `${value.toFixed(1)}/10`);
+
+const formatTiming = (question: CandidateReportQuestion) =>
+  question.elapsedSeconds === null
+    ? `Not answered (limit ${question.timeLimitSeconds}s)`
+    : `${Math.round(question.elapsedSeconds)}s of ${question.timeLimitSeconds}s` +
+      (question.autoSubmitted ? " · auto-submitted when time ran out" : "");
+
+/** `formatText` is applied to the reviewer's own words, so the Markdown report can escape them. */
+const describeOverride = (override: ScoreOverride, aiScore: number | null, formatText = (text: string) => text) =>
+  `Overridden by ${formatText(override.reviewer)} on ${formatDateTime(override.overriddenAt)}` +
+  (aiScore === null ? "" : ` (AI score ${aiScore.toFixed(1)})`) +
+  `: ${formatText(override.reason)}`;
+
+const describeDecision = (decision: HiringDecision, formatText = (text: string) => text) =>
+  `${HIRING_DECISION_DETAILS[decision.status].label} by ${formatText(decision.reviewer)} on ` +
+  formatDateTime(decision.decidedAt) +
+  (decision.notes ? `: ${formatText(decision.notes)}` : "");
+
+const describeLink = (link: TranscriptLink, position: number) =>
+  `${position + 1}. ${link.kind} ${link.entryId}: ${link.hash}`;
+
+const describeSeal = (chain: TranscriptLink[]) =>
+  chain.length
+    ? `${TRANSCRIPT_HASH_ALGORITHM} hash chain over ${chain.length} entries. Chain head: ${chain[chain.length - 1].hash}`
+    : "This transcript was recorded before transcripts were sealed.";
+
+const describePause = (pause: PauseRecord, questions: CandidateReportQuestion[], questionIds: string[]) => {
+  const index = questionIds.indexOf(pause.questionId);
+  const where = index >= 0 ? `Question ${questions[index].number}` : "Unknown question";
+  const length = pause.durationSeconds === null ? "not resumed" : formatPauseSeconds(pause.durationSeconds);
+  const ending = pause.endedBy === "budget" ? ", ended when the pause budget ran out" : "";
+  return `${where} at ${formatDateTime(pause.pausedAt)} for ${length}${ending}`;
+};
+
+export const buildCandidateReport = (record: CandidateArchiveRecord): CandidateReport => {
+  const answers = new Map(record.answers.map((answer) => [answer.questionId, answer]));
+
+  return {
+    candidateName: record.profile.name ?? "Unnamed candidate",
+    role: record.profile.role,
+    templateName: getInterviewTemplate(record.templateId).name,
+    completedAt: record.completedAt,
+    email: record.profile.email,
+    phone: record.profile.phone,
+    finalScore: getEffectiveFinalScore(record),
+    aiFinalScore: record.finalScore,
+    finalScoreOverride: record.finalScoreOverride ?? null,
+    decisions: [...(record.decisions ?? [])].reverse(),
+    summary: record.summary.summaryText,
+    strengths: record.summary.strengths,
+    improvements: record.summary.improvements,
+    questions: record.questions.map((question, index) => {
+      const answer = answers.get(question.id);
+      return {
+        number: index + 1,
+        prompt: question.prompt,
+        difficulty: question.difficulty,
+        category: question.category,
+        timeLimitSeconds: question.timeLimitSeconds,
+        elapsedSeconds: answer ? answer.elapsedSeconds : null,
+        autoSubmitted: answer?.autoSubmitted ?? false,
+        answer: answer ? answer.answer : null,
+        score: getEffectiveAnswerScore(answer),
+        aiScore: typeof answer?.aiScore === "number" ? answer.aiScore : null,
+        scoreOverride: answer?.scoreOverride ?? null,
+        feedback: answer?.aiFeedback ?? null,
+        criteria: answer?.criterionScores ?? [],
+        followUps: answer?.followUps ?? []
+      };
+    }),
+    pauses: record.pauses ?? [],
+    transcript: [...record.chat]
+      .sort((left, right) => dayjs(left.createdAt).valueOf() - dayjs(right.createdAt).valueOf())
+      .map((message) => ({ sender: SENDER_LABELS[message.sender], sentAt: message.createdAt, body: message.body })),
+    transcriptChain: record.transcriptChain ?? []
+  };
+};
+
+/**
+ * Backslash-escapes whatever would open a block at the start of a line — headings, quotes, lists,
+ * fences, rules, tables and HTML — so free text from the candidate or the model stays plain text.
+ * Indentation is kept as non-breaking spaces so it can't turn a line into a code block.
+ */
+const escapeMarkdownLine = (line: string) =>
+  line
+    .replace(/^[ \t]+/, (indent) => "\u00a0".repeat(indent.replace(/\t/g, "    ").length))
+    .replace(/^(\u00a0*)([#>|<`~=_*+-])/, "$1\\$2")
+    .replace(/^(\u00a0*\d+)([.)])/, "$1\\$2");
+
+const escapeMarkdown = (text: string) =>
+  text
+    .trim()
+    .split(/\r?\n/)
+    .map((line) => escapeMarkdownLine(line).trimEnd())
+    .join("\n");
+
+const quoteMarkdown = (text: string) =>
+  escapeMarkdown(text)
+    .split("\n")
+    .map((line) => `> ${line}`.trimEnd())
+    .join("\n");
+
+/** Free text that has to stay on one line: headings, list items and the like. */
+const inlineMarkdown = (text: string) => escapeMarkdownLine(text.replace(/\s*\n\s*/g, " ").trim());
+
+const tableCellMarkdown = (text: string) => inlineMarkdown(text.replace(/\|/g, "\\|"));
+
+export const buildCandidateReportMarkdown = (record: CandidateArchiveRecord): string => {
+  const report = buildCandidateReport(record);
+  const questionIds = record.questions.map((question) => question.id);
+  const lines: string[] = [
+    `# Interview report: ${inlineMarkdown(report.candidateName)}`,
+    "",
+    `- **Role:** ${inlineMarkdown(report.role)}`,
+    `- **Template:** ${inlineMarkdown(report.templateName)}`,
+    `- **Completed:** ${formatDateTime(report.completedAt)}`,
+    `- **Email:** ${report.email ? inlineMarkdown(report.email) : "Not provided"}`,
+    `- **Phone:** ${report.phone ? inlineMarkdown(report.phone) : "Not provided"}`,
+    `- **Final score:** ${formatScore(report.finalScore)}`
+  ];
+  if (report.finalScoreOverride) {
+    const override = describeOverride(report.finalScoreOverride, report.aiFinalScore, inlineMarkdown);
+    lines.push(`- **Score override:** ${override}`);
+  }
+  const decision = report.decisions.length ? describeDecision(report.decisions[0], inlineMarkdown) : "Undecided";
+  lines.push(`- **Hiring decision:** ${decision}`);
+  if (report.decisions.length > 1) {
+    lines.push(
+      "",
+      "## Decision history",
+      "",
+      ...report.decisions.map((decision) => `- ${describeDecision(decision, inlineMarkdown)}`)
+    );
+  }
+
+  lines.push("", "## Summary", "", report.summary.trim() ? escapeMarkdown(report.summary) : "_No summary recorded._");
+  if (report.strengths.length) {
+    lines.push("", "### Strengths", "", ...report.strengths.map((item) => `- ${inlineMarkdown(item)}`));
+  }
+  if (report.improvements.length) {
+    lines.push("", "### Areas to improve", "", ...report.improvements.map((item) => `- ${inlineMarkdown(item)}`));
+  }
+
+  lines.push("", "## Questions");
+  report.questions.forEach((question) => {
+    lines.push(
+      "",
+      `### ${question.number}. ${inlineMarkdown(question.prompt)}`,
+      "",
+      `- **Difficulty:** ${question.difficulty} · **Category:** ${inlineMarkdown(question.category)}`,
+      `- **Score:** ${formatScore(question.score)}`,
+      `- **Time:** ${formatTiming(question)}`
+    );
+    if (question.scoreOverride) {
+      lines.push(`- **Score override:** ${describeOverride(question.scoreOverride, question.aiScore, inlineMarkdown)}`);
+    }
+    lines.push("", "**Answer**", "", question.answer?.trim() ? quoteMarkdown(question.answer) : "_No answer._");
+    if (question.feedback) {
+      lines.push("", "**Feedback**", "", quoteMarkdown(question.feedback));
+    }
+    if (question.criteria.length) {
+      lines.push(
+        "",
+        "| Criterion | Weight | Score | Justification |",
+        "| --- | --- | --- | --- |",
+        ...question.criteria.map(
+          (criterion) =>
+            `| ${tableCellMarkdown(criterion.label)} | ${criterion.weight} | ${criterion.score.toFixed(1)} | ` +
+            `${tableCellMarkdown(criterion.justification)} |`
+        )
+      );
+    }
+    question.followUps.forEach((followUp, index) => {
+      lines.push(
+        "",
+        `**Follow-up ${index + 1}:** ${inlineMarkdown(followUp.prompt)}`,
+        "",
+        followUp.answer.trim() ? quoteMarkdown(followUp.answer) : "_No answer._",
+        "",
+        `_${Math.round(followUp.elapsedSeconds)}s${followUp.autoSubmitted ? ", auto-submitted" : ""}_`
+      );
+    });
+  });
+
+  if (report.pauses.length) {
+    lines.push(
+      "",
+      "## Pauses",
+      "",
+      ...report.pauses.map((pause) => `- ${describePause(pause, report.questions, questionIds)}`)
+    );
+  }
+
+  lines.push("", "## Transcript", "");
+  report.transcript.forEach((message) => {
+    lines.push(
+      `**${message.sender}** (${dayjs(message.sentAt).format("h:mm:ss A")}):`,
+      "",
+      message.body.trim() ? quoteMarkdown(message.body) : "_Empty message._",
+      ""
+    );
+  });
+
+  lines.push("## Transcript seal", "", describeSeal(report.transcriptChain));
+  if (report.transcriptChain.length) {
+    lines.push("", ...report.transcriptChain.map((link, position) => `- \`${describeLink(link, position)}\``));
+  }
+
+  return `${lines.join("\n").trimEnd()}\n`;
+};
+
+export const buildCandidateReportPdf = (record: CandidateArchiveRecord): Uint8Array<ArrayBuffer> => {
+  const report = buildCandidateReport(record);
+  const questionIds = record.questions.map((question) => question.id);
+  const blocks: PdfBlock[] = [
+    { kind: "title", text: `Interview report: ${report.candidateName}` },
+    { kind: "muted", text: `${report.role} · ${report.templateName} · Completed ${formatDateTime(report.completedAt)}` },
+    { kind: "muted", text: `Email: ${report.email ?? "Not provided"} · Phone: ${report.phone ?? "Not provided"}` },
+    { kind: "subheading", text: `Final score: ${formatScore(report.finalScore)}` }
+  ];
+  if (report.finalScoreOverride) {
+    blocks.push({ kind: "muted", text: describeOverride(report.finalScoreOverride, report.aiFinalScore) });
+  }
+  blocks.push({
+    kind: "subheading",
+    text: `Hiring decision: ${report.decisions.length ? HIRING_DECISION_DETAILS[report.decisions[0].status].label : "Undecided"}`
+  });
+  if (report.decisions.length) {
+    blocks.push(
+      ...report.decisions.map((decision): PdfBlock => ({ kind: "bullet", text: describeDecision(decision) }))
+    );
+  }
+
+  blocks.push({ kind: "heading", text: "Summary" }, { kind: "text", text: report.summary || "No summary recorded." });
+  if (report.strengths.length) {
+    blocks.push(
+      { kind: "subheading", text: "Strengths" },
+      ...report.strengths.map((item): PdfBlock => ({ kind: "bullet", text: item }))
+    );
+  }
+  if (report.improvements.length) {
+    blocks.push(
+      { kind: "subheading", text: "Areas to improve" },
+      ...report.improvements.map((item): PdfBlock => ({ kind: "bullet", text: item }))
+    );
+  }
+
+  blocks.push({ kind: "heading", text: "Questions" });
+  report.questions.forEach((question) => {
+    blocks.push(
+      { kind: "subheading", text: `${question.number}. ${question.prompt}` },
+      {
+        kind: "muted",
+        text: `${question.difficulty} · ${question.category} · Score ${formatScore(question.score)} · ${formatTiming(question)}`
+      }
+    );
+    if (question.scoreOverride) {
+      blocks.push({ kind: "muted", text: describeOverride(question.scoreOverride, question.aiScore) });
+    }
+    blocks.push({ kind: "quote", text: question.answer?.trim() || "No answer." });
+    if (question.feedback) {
+      blocks.push({ kind: "text", text: `Feedback: ${question.feedback}` });
+    }
+    question.criteria.forEach((criterion) => {
+      blocks.push({
+        kind: "bullet",
+        text: `${criterion.label} (weight ${criterion.weight}): ${criterion.score.toFixed(1)} - ${criterion.justification}`
+      });
+    });
+    question.followUps.forEach((followUp, index) => {
+      blocks.push(
+        { kind: "text", text: `Follow-up ${index + 1}: ${followUp.prompt}` },
+        { kind: "quote", text: followUp.answer.trim() || "No answer." }
+      );
+    });
+  });
+
+  if (report.pauses.length) {
+    blocks.push(
+      { kind: "heading", text: "Pauses" },
+      ...report.pauses.map(
+        (pause): PdfBlock => ({ kind: "bullet", text: describePause(pause, report.questions, questionIds) })
+      )
+    );
+  }
+
+  blocks.push({ kind: "heading", text: "Transcript" });
+  report.transcript.forEach((message) => {
+    blocks.push({
+      kind: "text",
+      text: `${message.sender} (${dayjs(message.sentAt).format("h:mm:ss A")}): ${message.body.trim()}`
+    });
+  });
+
+  blocks.push(
+    { kind: "heading", text: "Transcript seal" },
+    { kind: "muted", text: describeSeal(report.transcriptChain) },
+    ...report.transcriptChain.map((link, position): PdfBlock => ({ kind: "muted", text: describeLink(link, position) }))
+  );
+
+  return writePdfDocument(blocks, {
+    title: `Interview report: ${report.candidateName}`,
+    footer: `${report.candidateName} · ${report.templateName}`
+  });
+};
+
+/** The archive record as stored, wrapped with a format marker so nothing is lost on the way out. */
+export const serializeCandidateReportJson = (record: CandidateArchiveRecord, exportedAt = dayjs().toISOString()) =>
+  JSON.stringify(
+    {
+      format: CANDIDATE_REPORT_FORMAT,
+      version: CANDIDATE_REPORT_VERSION,
+      exportedAt,
+      record
+    } satisfies CandidateReportJson,
+    null,
+    2
+  );
+
+export const parseCandidateReportJson = (text: string): CandidateArchiveRecord => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("The report file is not valid JSON.");
+  }
+  const payload = parsed as Partial<CandidateReportJson> | null;
+  if (payload?.format !== CANDIDATE_REPORT_FORMAT || !payload.record || typeof payload.record !== "object") {
+    throw new Error("This file is not a candidate report export.");
+  }
+  if (typeof payload.version !== "number" || payload.version > CANDIDATE_REPORT_VERSION) {
+    throw new Error("This report was exported by a newer version of the app.");
+  }
+  return payload.record;
+};
+
+export const getCandidateReportFileName = (record: CandidateArchiveRecord, format: CandidateReportFormat) => {
+  const slug =
+    (record.profile.name ?? "candidate")
+      .normalize("NFKD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "") || "candidate";
+  return `${slug}-interview-report-${dayjs(record.completedAt).format("YYYYMMDD")}.${REPORT_EXTENSIONS[format]}`;
+};
+
+export const getCandidateReportContent = (
+  record: CandidateArchiveRecord,
+  format: CandidateReportFormat
+): { content: BlobPart; mimeType: string } => {
+  const content =
+    format === "pdf"
+      ? buildCandidateReportPdf(record)
+      : format === "markdown"
+        ? buildCandidateReportMarkdown(record)
+        : serializeCandidateReportJson(record);
+  return { content, mimeType: REPORT_MIME_TYPES[format] };
+};
+
+const CANDIDATE_LIST_COLUMNS = [
+  "name",
+  "email",
+  "role",
+  "template",
+  "completedAt",
+  "finalScore",
+  "aiFinalScore",
+  "decision",
+  "decidedBy",
+  "decidedAt",
+  "decisionNotes",
+  "tags"
+];
+
+/**
+ * One row per candidate with the current hiring decision, for spreadsheets and applicant tracking
+ * systems. Rows are keyed by email as well as name so two candidates with one name stay apart.
+ */
+export const buildCandidateListCsv = (records: CandidateArchiveRecord[]): string => {
+  const rows = records.map((record) => {
+    const decision = getCurrentDecision(record);
+    return [
+      record.profile.name ?? "",
+      record.profile.email ?? "",
+      record.profile.role,
+      getInterviewTemplate(record.templateId).name,
+      record.completedAt,
+      getEffectiveFinalScore(record).toFixed(1),
+      record.finalScore.toFixed(1),
+      decision ? HIRING_DECISION_DETAILS[decision.status].label : "",
+      decision?.reviewer ?? "",
+      decision?.decidedAt ?? "",
+      decision?.notes ?? "",
+      (record.tags ?? []).join("; ")
+    ].map(escapeCsvCell);
+  });
+  return [CANDIDATE_LIST_COLUMNS.join(","), ...rows.map((row) => row.join(","))].join("\r\n");
+};
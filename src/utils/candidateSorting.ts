@@ -0,0 +1,130 @@
+import dayjs from "dayjs";
+import type {
+  AnswerRecord,
+  DifficultyAverages,
+  InterviewQuestion,
+  QuestionDifficulty
+} from "../types/interview";
+import { getEffectiveAnswerScore } from "./scoreOverrides";
+
+export type CandidateSortKey =
+  | "date"
+  | "score"
+  | "name"
+  | "duration"
+  | "easy-average"
+  | "medium-average"
+  | "hard-average";
+
+export type CandidateSortDirection = "asc" | "desc";
+
+export interface CandidateSortRule {
+  key: CandidateSortKey;
+  direction: CandidateSortDirection;
+}
+
+/** The facts about a live or archived candidate that the sort keys look at. */
+export interface SortableCandidate {
+  name: string | null;
+  /** Completion for archived interviews, last update for live ones. */
+  activityAt: string | null;
+  score: number | null;
+  /** Seconds spent answering, follow-ups included. */
+  answeringSeconds: number | null;
+  difficultyAverages: DifficultyAverages | null;
+}
+
+export const CANDIDATE_SORT_LABELS: Record<CandidateSortKey, string> = {
+  date: "Submission Time",
+  score: "Score",
+  name: "Name",
+  duration: "Interview Duration",
+  "easy-average": "Easy Question Average",
+  "medium-average": "Medium Question Average",
+  "hard-average": "Hard Question Average"
+};
+
+export const DEFAULT_CANDIDATE_SORT: CandidateSortRule[] = [{ key: "date", direction: "desc" }];
+
+/** How many keys the list can be sorted by at once, tie-breakers included. */
+export const MAX_SORT_RULES = 3;
+
+export const EMPTY_DIFFICULTY_AVERAGES: DifficultyAverages = { easy: null, medium: null, hard: null };
+
+export const computeAnsweringSeconds = (answers: AnswerRecord[]) =>
+  answers.reduce(
+    (total, answer) =>
+      total +
+      answer.elapsedSeconds +
+      (answer.followUps ?? []).reduce((sum, followUp) => sum + followUp.elapsedSeconds, 0),
+    0
+  );
+
+export const computeDifficultyAverages = (
+  questions: InterviewQuestion[],
+  answers: AnswerRecord[]
+): DifficultyAverages => {
+  const difficultyById = new Map(questions.map((question) => [question.id, question.difficulty]));
+  const totals: Record<QuestionDifficulty, number[]> = { easy: [], medium: [], hard: [] };
+  answers.forEach((answer) => {
+    const difficulty = difficultyById.get(answer.questionId);
+    const score = getEffectiveAnswerScore(answer);
+    if (difficulty && score !== null) {
+      totals[difficulty].push(score);
+    }
+  });
+  const average = (scores: number[]) =>
+    scores.length ? Math.round((scores.reduce((sum, score) => sum + score, 0) / scores.length) * 10) / 10 : null;
+  return { easy: average(totals.easy), medium: average(totals.medium), hard: average(totals.hard) };
+};
+
+const readSortValue = (candidate: SortableCandidate, key: CandidateSortKey): number | string | null => {
+  switch (key) {
+    case "date": {
+      const value = candidate.activityAt ? dayjs(candidate.activityAt).valueOf() : NaN;
+      return Number.isFinite(value) ? value : null;
+    }
+    case "score":
+      return candidate.score;
+    case "name":
+      return candidate.name || null;
+    case "duration":
+      return candidate.answeringSeconds;
+    case "easy-average":
+      return candidate.difficultyAverages?.easy ?? null;
+    case "medium-average":
+      return candidate.difficultyAverages?.medium ?? null;
+    case "hard-average":
+      return candidate.difficultyAverages?.hard ?? null;
+  }
+};
+
+const compareNames = (left: string | null, right: string | null) =>
+  (left ?? "").localeCompare(right ?? "", undefined, { sensitivity: "base" });
+
+/**
+ * Compares by each rule in turn, falling through to the next on a tie. Candidates missing a value sort
+ * after those that have one whichever way the rule points; name is the last tie-breaker.
+ */
+export const compareCandidates =
+  (rules: CandidateSortRule[]) =>
+  (left: SortableCandidate, right: SortableCandidate): number => {
+    for (const rule of rules) {
+      const leftValue = readSortValue(left, rule.key);
+      const rightValue = readSortValue(right, rule.key);
+      if (leftValue === null || rightValue === null) {
+        if (leftValue !== rightValue) {
+          return leftValue === null ? 1 : -1;
+        }
+        continue;
+      }
+      const diff =
+        typeof leftValue === "string" || typeof rightValue === "string"
+          ? compareNames(String(leftValue), String(rightValue))
+          : leftValue - rightValue;
+      if (diff !== 0) {
+        return rule.direction === "asc" ? diff : -diff;
+      }
+    }
+    return compareNames(left.name, right.name);
+  };
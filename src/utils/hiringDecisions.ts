@@ -0,0 +1,15 @@
+import type { CandidateArchiveRecord, HiringDecision, HiringDecisionStatus } from "../types/interview";
+
+export const HIRING_DECISION_STATUSES: HiringDecisionStatus[] = ["advance", "hold", "second-opinion", "reject"];
+
+export const HIRING_DECISION_DETAILS: Record<HiringDecisionStatus, { label: string; color: string }> = {
+  advance: { label: "Advance", color: "green" },
+  hold: { label: "Hold", color: "gold" },
+  "second-opinion": { label: "Needs second opinion", color: "purple" },
+  reject: { label: "Reject", color: "red" }
+};
+
+export const getCurrentDecision = (record: Pick<CandidateArchiveRecord, "decisions">): HiringDecision | null => {
+  const decisions = record.decisions ?? [];
+  return decisions.length ? decisions[decisions.length - 1] : null;
+};
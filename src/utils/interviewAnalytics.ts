@@ -0,0 +1,237 @@
+import dayjs from "dayjs";
+import type {
+  CandidateArchiveRecord,
+  CandidateIndexRow,
+  InterviewQuestion,
+  QuestionDifficulty
+} from "../types/interview";
+import { DEFAULT_INTERVIEW_CONFIGURATION } from "../types/interview";
+import { DIFFICULTY_LADDER } from "../services/adaptiveDifficulty";
+import { questionIdentity } from "./candidateComparison";
+import { getEffectiveAnswerScore } from "./scoreOverrides";
+
+export const DEFAULT_PASS_SCORE = 7;
+
+/** Questions answered fewer times than this aren't flagged as too easy or too hard; a few answers prove little. */
+export const MIN_ANSWERS_FOR_FLAGS = 3;
+
+export const TOO_EASY_AVERAGE = 8.5;
+export const TOO_HARD_AVERAGE = 3.5;
+
+export type TrendPeriod = "week" | "month";
+
+/** Whether candidates tend to run out of time ("tight"), finish with most of it left ("loose"), or neither. */
+export type TimerFit = "tight" | "loose" | "ok";
+
+export type QuestionFlag = "too-easy" | "too-hard";
+
+export interface ScoreBucket {
+  /** Inclusive lower bound; the last bucket also takes a perfect 10. */
+  from: number;
+  to: number;
+  count: number;
+}
+
+export interface PassRatePoint {
+  /** First day of the week or month, as YYYY-MM-DD. */
+  period: string;
+  interviews: number;
+  passed: number;
+  passRate: number;
+  averageScore: number;
+}
+
+/** What a group of answers looks like, whether grouped by difficulty, category or question. */
+export interface AnswerStats {
+  answers: number;
+  /** Over scored answers only; null when none were scored. */
+  averageScore: number | null;
+  /** Share of answers the timer submitted, with or without text. */
+  autoSubmitRate: number;
+  /** Share of answers where the timer ran out before the candidate wrote anything. */
+  timeoutRate: number;
+  averageElapsedSeconds: number;
+  averageTimeLimitSeconds: number;
+  /** Average of elapsed / limit per answer, so 1 means candidates used the whole timer. */
+  timeUsedRatio: number;
+  timerFit: TimerFit;
+}
+
+export interface DifficultyStats extends AnswerStats {
+  difficulty: QuestionDifficulty;
+  /** What DEFAULT_INTERVIEW_CONFIGURATION.timerByDifficulty gives this difficulty today. */
+  configuredTimeLimitSeconds: number;
+}
+
+export interface CategoryStats extends AnswerStats {
+  category: string;
+}
+
+export interface QuestionStats extends AnswerStats {
+  key: string;
+  prompt: string;
+  category: string;
+  difficulty: QuestionDifficulty;
+  flag: QuestionFlag | null;
+}
+
+export interface QuestionAnalytics {
+  interviews: number;
+  byDifficulty: DifficultyStats[];
+  byCategory: CategoryStats[];
+  questions: QuestionStats[];
+}
+
+interface AnswerSample {
+  score: number | null;
+  autoSubmitted: boolean;
+  timedOut: boolean;
+  elapsedSeconds: number;
+  timeLimitSeconds: number;
+}
+
+const round = (value: number, places = 1) => Math.round(value * 10 ** places) / 10 ** places;
+
+const mean = (values: number[]) => (values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0);
+
+const share = (samples: AnswerSample[], test: (sample: AnswerSample) => boolean) =>
+  samples.length ? round(samples.filter(test).length / samples.length, 3) : 0;
+
+/** Timers that a third of candidates run out on, or that nine-tenths of the time goes into, are tight. */
+export const describeTimerFit = (stats: Pick<AnswerStats, "autoSubmitRate" | "timeUsedRatio">): TimerFit => {
+  if (stats.autoSubmitRate >= 0.3 || stats.timeUsedRatio >= 0.9) {
+    return "tight";
+  }
+  if (stats.timeUsedRatio <= 0.4) {
+    return "loose";
+  }
+  return "ok";
+};
+
+const summarize = (samples: AnswerSample[]): AnswerStats => {
+  const scores = samples.map((sample) => sample.score).filter((score): score is number => score !== null);
+  const timeUsedRatio = round(
+    mean(samples.map((sample) => (sample.timeLimitSeconds > 0 ? sample.elapsedSeconds / sample.timeLimitSeconds : 0))),
+    3
+  );
+  const autoSubmitRate = share(samples, (sample) => sample.autoSubmitted);
+  return {
+    answers: samples.length,
+    averageScore: scores.length ? round(mean(scores)) : null,
+    autoSubmitRate,
+    timeoutRate: share(samples, (sample) => sample.timedOut),
+    averageElapsedSeconds: round(mean(samples.map((sample) => sample.elapsedSeconds))),
+    averageTimeLimitSeconds: round(mean(samples.map((sample) => sample.timeLimitSeconds))),
+    timeUsedRatio,
+    timerFit: describeTimerFit({ autoSubmitRate, timeUsedRatio })
+  };
+};
+
+const flagQuestion = (stats: AnswerStats): QuestionFlag | null => {
+  if (stats.answers < MIN_ANSWERS_FOR_FLAGS || stats.averageScore === null) {
+    return null;
+  }
+  if (stats.averageScore >= TOO_EASY_AVERAGE) {
+    return "too-easy";
+  }
+  return stats.averageScore <= TOO_HARD_AVERAGE ? "too-hard" : null;
+};
+
+/** Ten one-point buckets of effective final scores, 0–1 through 9–10. */
+export const buildScoreDistribution = (rows: Pick<CandidateIndexRow, "finalScore">[]): ScoreBucket[] => {
+  const buckets = Array.from({ length: 10 }, (_, from) => ({ from, to: from + 1, count: 0 }));
+  rows.forEach((row) => {
+    buckets[Math.min(9, Math.max(0, Math.floor(row.finalScore)))].count += 1;
+  });
+  return buckets;
+};
+
+/** Share of interviews scoring at least `passScore`, per calendar week or month, oldest first. */
+export const buildPassRateTrend = (
+  rows: Pick<CandidateIndexRow, "finalScore" | "completedAt">[],
+  passScore: number,
+  period: TrendPeriod
+): PassRatePoint[] => {
+  const groups = new Map<string, number[]>();
+  rows.forEach((row) => {
+    const completedAt = dayjs(row.completedAt);
+    if (!completedAt.isValid()) {
+      return;
+    }
+    const key = completedAt.startOf(period).format("YYYY-MM-DD");
+    groups.set(key, [...(groups.get(key) ?? []), row.finalScore]);
+  });
+  return [...groups.entries()]
+    .sort(([left], [right]) => left.localeCompare(right))
+    .map(([key, scores]) => {
+      const passed = scores.filter((score) => score >= passScore).length;
+      return {
+        period: key,
+        interviews: scores.length,
+        passed,
+        passRate: round(passed / scores.length, 3),
+        averageScore: round(mean(scores))
+      };
+    });
+};
+
+/** Per-answer statistics across the archive, grouped by difficulty, by category and by question. */
+export const buildQuestionAnalytics = (records: CandidateArchiveRecord[]): QuestionAnalytics => {
+  const byDifficulty = new Map<QuestionDifficulty, AnswerSample[]>();
+  const byCategory = new Map<string, { category: string; samples: AnswerSample[] }>();
+  const byQuestion = new Map<string, { question: InterviewQuestion; samples: AnswerSample[] }>();
+
+  records.forEach((record) => {
+    const questionsById = new Map((record.questions ?? []).map((question) => [question.id, question]));
+    record.answers.forEach((answer) => {
+      const question = questionsById.get(answer.questionId);
+      if (!question) {
+        return;
+      }
+      const sample: AnswerSample = {
+        score: getEffectiveAnswerScore(answer),
+        autoSubmitted: answer.autoSubmitted,
+        timedOut: answer.autoSubmitted && !answer.answer.trim(),
+        elapsedSeconds: Math.min(answer.elapsedSeconds, question.timeLimitSeconds),
+        timeLimitSeconds: question.timeLimitSeconds
+      };
+      byDifficulty.set(question.difficulty, [...(byDifficulty.get(question.difficulty) ?? []), sample]);
+
+      // Categories come from the AI as free text, so "React" and "react " are the same category.
+      const categoryKey = question.category.trim().toLowerCase();
+      const category = byCategory.get(categoryKey) ?? { category: question.category.trim(), samples: [] };
+      category.samples.push(sample);
+      byCategory.set(categoryKey, category);
+
+      const identity = questionIdentity(question);
+      const entry = byQuestion.get(identity) ?? { question, samples: [] };
+      entry.samples.push(sample);
+      byQuestion.set(identity, entry);
+    });
+  });
+
+  return {
+    interviews: records.length,
+    byDifficulty: DIFFICULTY_LADDER.filter((difficulty) => byDifficulty.has(difficulty)).map((difficulty) => ({
+      difficulty,
+      configuredTimeLimitSeconds: DEFAULT_INTERVIEW_CONFIGURATION.timerByDifficulty[difficulty],
+      ...summarize(byDifficulty.get(difficulty) ?? [])
+    })),
+    byCategory: [...byCategory.values()]
+      .map(({ category, samples }) => ({ category, ...summarize(samples) }))
+      .sort((left, right) => right.answers - left.answers || left.category.localeCompare(right.category)),
+    questions: [...byQuestion.entries()]
+      .map(([key, { question, samples }]) => {
+        const stats = summarize(samples);
+        return {
+          key,
+          prompt: question.prompt,
+          category: question.category,
+          difficulty: question.difficulty,
+          flag: flagQuestion(stats),
+          ...stats
+        };
+      })
+      .sort((left, right) => right.answers - left.answers || left.prompt.localeCompare(right.prompt))
+  };
+};
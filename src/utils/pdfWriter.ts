@@ -0,0 +1,223 @@
+/**
+ * A small text-only PDF writer for reports: wrapped paragraphs in the standard Helvetica fonts,
+ * paginated on US Letter. Enough for print-ready documents without shipping a PDF library.
+ */
+
+export type PdfBlockKind = "title" | "heading" | "subheading" | "text" | "muted" | "bullet" | "quote" | "spacer";
+
+export interface PdfBlock {
+  kind: PdfBlockKind;
+  text?: string;
+}
+
+export interface PdfDocumentOptions {
+  title: string;
+  /** Printed in every page footer next to the page number. */
+  footer?: string;
+}
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 54;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_SIZE = 8;
+
+interface BlockStyle {
+  font: "F1" | "F2" | "F3";
+  size: number;
+  gray: number;
+  indent: number;
+  spaceBefore: number;
+  leading: number;
+}
+
+const BLOCK_STYLES: Record<Exclude<PdfBlockKind, "spacer">, BlockStyle> = {
+  title: { font: "F2", size: 18, gray: 0, indent: 0, spaceBefore: 0, leading: 1.25 },
+  heading: { font: "F2", size: 13, gray: 0, indent: 0, spaceBefore: 14, leading: 1.3 },
+  subheading: { font: "F2", size: 10.5, gray: 0, indent: 0, spaceBefore: 10, leading: 1.3 },
+  text: { font: "F1", size: 10, gray: 0, indent: 0, spaceBefore: 3, leading: 1.35 },
+  muted: { font: "F1", size: 9, gray: 0.4, indent: 0, spaceBefore: 2, leading: 1.35 },
+  bullet: { font: "F1", size: 10, gray: 0, indent: 12, spaceBefore: 2, leading: 1.35 },
+  quote: { font: "F3", size: 10, gray: 0.25, indent: 12, spaceBefore: 3, leading: 1.35 }
+};
+
+// Helvetica advance widths (1/1000 em) for ASCII 32–126, from the standard AFM metrics.
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556,
+  556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334,
+  260, 334, 584
+];
+// Bold glyphs run slightly wider; overestimating only wraps a little early.
+const BOLD_WIDTH_FACTOR = 1.08;
+
+// Characters outside Latin-1 that WinAnsiEncoding still has a slot for.
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80,
+  "…": 0x85,
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97,
+  "™": 0x99
+};
+
+const toWinAnsi = (char: string): number => {
+  const code = char.charCodeAt(0);
+  if (code >= 32 && code <= 126) return code;
+  if (WIN_ANSI_EXTRAS[char]) return WIN_ANSI_EXTRAS[char];
+  if (code >= 160 && code <= 255) return code;
+  return "?".charCodeAt(0);
+};
+
+const charWidth = (char: string, size: number, bold: boolean) => {
+  const code = char.charCodeAt(0);
+  const width = code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556;
+  return (width * size * (bold ? BOLD_WIDTH_FACTOR : 1)) / 1000;
+};
+
+export const measureText = (text: string, size: number, bold = false) =>
+  Array.from(text).reduce((total, char) => total + charWidth(char, size, bold), 0);
+
+/** Greedy word wrap; words longer than a line (URLs, hashes) are broken by character. */
+export const wrapText = (text: string, width: number, size: number, bold = false): string[] => {
+  const lines: string[] = [];
+  text.split(/\r?\n/).forEach((paragraph) => {
+    let line = "";
+    paragraph
+      .split(/\s+/)
+      .filter(Boolean)
+      .forEach((word) => {
+        const candidate = line ? `${line} ${word}` : word;
+        if (measureText(candidate, size, bold) <= width) {
+          line = candidate;
+          return;
+        }
+        if (line) {
+          lines.push(line);
+        }
+        line = "";
+        Array.from(word).forEach((char) => {
+          if (measureText(line + char, size, bold) > width && line) {
+            lines.push(line);
+            line = "";
+          }
+          line += char;
+        });
+      });
+    lines.push(line);
+  });
+  return lines;
+};
+
+const escapePdfText = (text: string) =>
+  Array.from(text)
+    .map((char) => {
+      const code = toWinAnsi(char);
+      if (char === "(" || char === ")" || char === "\\") return `\\${char}`;
+      return code > 126 ? `\\${code.toString(8).padStart(3, "0")}` : String.fromCharCode(code);
+    })
+    .join("");
+
+const textCommand = (text: string, x: number, y: number, style: Pick<BlockStyle, "font" | "size" | "gray">) =>
+  `BT /${style.font} ${style.size} Tf ${style.gray} g 1 0 0 1 ${x.toFixed(2)} ${y.toFixed(2)} Tm (${escapePdfText(text)}) Tj ET`;
+
+/** Lays the blocks out into page content streams, top to bottom. */
+const layoutPages = (blocks: PdfBlock[], options: PdfDocumentOptions): string[] => {
+  const pages: string[][] = [[]];
+  const bottom = MARGIN + FOOTER_SIZE * 3;
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const newPage = () => {
+    pages.push([]);
+    y = PAGE_HEIGHT - MARGIN;
+  };
+
+  blocks.forEach((block) => {
+    if (block.kind === "spacer") {
+      y -= 8;
+      return;
+    }
+
+    const style = BLOCK_STYLES[block.kind];
+    const bold = style.font === "F2";
+    const lineHeight = style.size * style.leading;
+    const marker = block.kind === "bullet" ? "•" : "";
+    const lines = wrapText(block.text ?? "", CONTENT_WIDTH - style.indent, style.size, bold);
+
+    const atTop = y === PAGE_HEIGHT - MARGIN;
+    y -= atTop ? 0 : style.spaceBefore;
+    // Keep headings with at least two lines of what follows.
+    const needed = block.kind.endsWith("heading") ? lineHeight * 3 : lineHeight;
+    if (y - needed < bottom) {
+      newPage();
+    }
+
+    lines.forEach((line, index) => {
+      if (y - lineHeight < bottom) {
+        newPage();
+      }
+      y -= lineHeight;
+      const page = pages[pages.length - 1];
+      if (marker && index === 0) {
+        page.push(textCommand(marker, MARGIN + 2, y, style));
+      }
+      if (block.kind === "quote" && line) {
+        page.push(`0.8 g ${MARGIN + 2} ${(y - 2).toFixed(2)} 2 ${lineHeight.toFixed(2)} re f`);
+      }
+      if (line) {
+        page.push(textCommand(line, MARGIN + style.indent, y, style));
+      }
+    });
+  });
+
+  return pages.map((commands, index) => {
+    const footer = `${options.footer ? `${options.footer} · ` : ""}Page ${index + 1} of ${pages.length}`;
+    const footerStyle = { font: "F1" as const, size: FOOTER_SIZE, gray: 0.45 };
+    return [...commands, textCommand(footer, MARGIN, MARGIN, footerStyle)].join("\n");
+  });
+};
+
+/** Serialises the blocks as a PDF file. The output is plain ASCII, so byte offsets equal string offsets. */
+export const writePdfDocument = (blocks: PdfBlock[], options: PdfDocumentOptions): Uint8Array<ArrayBuffer> => {
+  const pageStreams = layoutPages(blocks, options);
+  const fontIds = [3, 4, 5];
+  const infoId = 6;
+  const pageIds = pageStreams.map((_, index) => 7 + index * 2);
+
+  const objects = new Map<number, string>([
+    [1, "<< /Type /Catalog /Pages 2 0 R >>"],
+    [2, `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`],
+    [3, "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>"],
+    [4, "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>"],
+    [5, "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Oblique /Encoding /WinAnsiEncoding >>"],
+    [infoId, `<< /Title (${escapePdfText(options.title)}) /Producer (Crisp Interview Assistant) >>`]
+  ]);
+  pageStreams.forEach((content, index) => {
+    const pageId = pageIds[index];
+    objects.set(
+      pageId,
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 ${fontIds[0]} 0 R /F2 ${fontIds[1]} 0 R /F3 ${fontIds[2]} 0 R >> >> ` +
+        `/Contents ${pageId + 1} 0 R >>`
+    );
+    objects.set(pageId + 1, `<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+  });
+
+  let output = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  const ids = Array.from(objects.keys()).sort((left, right) => left - right);
+  ids.forEach((id) => {
+    offsets[id] = output.length;
+    output += `${id} 0 obj\n${objects.get(id)}\nendobj\n`;
+  });
+  const xrefOffset = output.length;
+  output += `xref\n0 ${ids.length + 1}\n0000000000 65535 f \n`;
+  output += ids.map((id) => `${String(offsets[id]).padStart(10, "0")} 00000 n \n`).join("");
+  output += `trailer\n<< /Size ${ids.length + 1} /Root 1 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF`;
+  return new TextEncoder().encode(output);
+};
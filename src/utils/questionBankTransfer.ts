@@ -0,0 +1,191 @@
+import { nanoid } from "@reduxjs/toolkit";
+import dayjs from "dayjs";
+import type { QuestionBankItem, QuestionDifficulty } from "../types/interview";
+import { normalizeRubricCriteria } from "./rubricScoring";
+
+const DIFFICULTIES: QuestionDifficulty[] = ["easy", "medium", "hard"];
+
+const CSV_COLUMNS = [
+  "id",
+  "prompt",
+  "category",
+  "difficulty",
+  "timeLimitSeconds",
+  "tags",
+  "guidance",
+  "rubric"
+] as const;
+
+const DEFAULT_TIME_LIMITS: Record<QuestionDifficulty, number> = {
+  easy: 20,
+  medium: 60,
+  hard: 120
+};
+
+const normalizeTags = (value: unknown): string[] => {
+  const raw = Array.isArray(value) ? value : typeof value === "string" ? value.split(";") : [];
+  return Array.from(
+    new Set(
+      raw
+        .filter((tag): tag is string => typeof tag === "string")
+        .map((tag) => tag.trim())
+        .filter(Boolean)
+    )
+  );
+};
+
+/**
+ * Validates a loosely-typed question payload coming from an import file.
+ * Throws with a row-specific message so the editor can tell the interviewer what to fix.
+ */
+export const normalizeBankItem = (value: unknown, position: number): QuestionBankItem => {
+  if (!value || typeof value !== "object") {
+    throw new Error(`Question ${position} is not an object.`);
+  }
+
+  const candidate = value as Record<string, unknown>;
+  const prompt = typeof candidate.prompt === "string" ? candidate.prompt.trim() : "";
+  if (!prompt) {
+    throw new Error(`Question ${position} is missing a prompt.`);
+  }
+
+  const difficulty = String(candidate.difficulty ?? "").toLowerCase() as QuestionDifficulty;
+  if (!DIFFICULTIES.includes(difficulty)) {
+    throw new Error(`Question ${position} has an invalid difficulty. Use easy, medium or hard.`);
+  }
+
+  const timeLimit = Number(candidate.timeLimitSeconds);
+  const now = dayjs().toISOString();
+
+  return {
+    id: typeof candidate.id === "string" && candidate.id.trim() ? candidate.id.trim() : nanoid(),
+    prompt,
+    category: typeof candidate.category === "string" && candidate.category.trim() ? candidate.category.trim() : "general",
+    tags: normalizeTags(candidate.tags),
+    difficulty,
+    timeLimitSeconds: Number.isFinite(timeLimit) && timeLimit > 0 ? Math.round(timeLimit) : DEFAULT_TIME_LIMITS[difficulty],
+    guidance: typeof candidate.guidance === "string" ? candidate.guidance.trim() : "",
+    rubric: normalizeRubricCriteria(candidate.rubric),
+    createdAt: typeof candidate.createdAt === "string" ? candidate.createdAt : now,
+    updatedAt: typeof candidate.updatedAt === "string" ? candidate.updatedAt : now
+  };
+};
+
+export const serializeQuestionBankJson = (items: QuestionBankItem[]): string =>
+  JSON.stringify({ questions: items }, null, 2);
+
+export const parseQuestionBankJson = (text: string): QuestionBankItem[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("The file isn't valid JSON.");
+  }
+
+  const list = Array.isArray(parsed) ? parsed : (parsed as { questions?: unknown } | null)?.questions;
+  if (!Array.isArray(list)) {
+    throw new Error('Expected an array of questions or an object with a "questions" array.');
+  }
+
+  return list.map((entry, index) => normalizeBankItem(entry, index + 1));
+};
+
+export const escapeCsvCell = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export const serializeQuestionBankCsv = (items: QuestionBankItem[]): string => {
+  const rows = items.map((item) =>
+    [
+      item.id,
+      item.prompt,
+      item.category,
+      item.difficulty,
+      String(item.timeLimitSeconds),
+      item.tags.join(";"),
+      item.guidance,
+      item.rubric.length ? JSON.stringify(item.rubric) : ""
+    ].map(escapeCsvCell)
+  );
+  return [CSV_COLUMNS.join(","), ...rows.map((row) => row.join(","))].join("\r\n");
+};
+
+/** RFC 4180 style parser: quoted cells may contain commas, doubled quotes and line breaks. */
+const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[index + 1] === '"') {
+          cell += '"';
+          index += 1;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[index + 1] === "\n") {
+        index += 1;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell.length > 0 || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter((entry) => entry.some((value) => value.trim().length > 0));
+};
+
+export const parseQuestionBankCsv = (text: string): QuestionBankItem[] => {
+  const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ""));
+  if (!header) {
+    throw new Error("The CSV file is empty.");
+  }
+
+  const columns = header.map((column) => column.trim());
+  if (!columns.includes("prompt") || !columns.includes("difficulty")) {
+    throw new Error('The CSV header must include at least "prompt" and "difficulty" columns.');
+  }
+
+  return rows.map((cells, index) => {
+    const record: Record<string, unknown> = {};
+    columns.forEach((column, columnIndex) => {
+      record[column] = cells[columnIndex] ?? "";
+    });
+
+    if (typeof record.rubric === "string" && record.rubric.trim()) {
+      try {
+        record.rubric = JSON.parse(record.rubric);
+      } catch {
+        throw new Error(`Question ${index + 1} has a rubric cell that isn't valid JSON.`);
+      }
+    }
+
+    return normalizeBankItem(record, index + 1);
+  });
+};
+
+export const parseQuestionBankFile = (fileName: string, text: string): QuestionBankItem[] =>
+  fileName.toLowerCase().endsWith(".csv") ? parseQuestionBankCsv(text) : parseQuestionBankJson(text);
@@ -0,0 +1,111 @@
+import type {
+  CandidateArchiveRecord,
+  CandidateIndexRow,
+  CandidateProfile,
+  HiringDecisionStatus,
+  InterviewSession,
+  SessionStage
+} from "../types/interview";
+import { EMPTY_DIFFICULTY_AVERAGES } from "./candidateSorting";
+import { HIRING_DECISION_STATUSES } from "./hiringDecisions";
+
+/**
+ * Structural checks for records read back from storage or import files. Each validator throws with
+ * a message naming the record and what is wrong, so callers can report it or set the record aside.
+ */
+
+export const SESSION_STAGES: SessionStage[] = [
+  "resume-upload",
+  "profile-completion",
+  "ready-to-start",
+  "questioning",
+  "paused",
+  "completed"
+];
+
+export const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+const isString = (value: unknown): value is string => typeof value === "string";
+
+const everyItem = (value: unknown, check: (item: Record<string, unknown>) => boolean) =>
+  Array.isArray(value) && value.every((item) => isPlainObject(item) && check(item));
+
+const isDecisionStatus = (value: unknown): value is HiringDecisionStatus =>
+  HIRING_DECISION_STATUSES.includes(value as HiringDecisionStatus);
+
+const isChatList = (value: unknown) =>
+  everyItem(value, (message) => isString(message.id) && isString(message.body) && isString(message.createdAt));
+
+export const validateCandidateProfile = (value: unknown, where: string): CandidateProfile => {
+  if (!isPlainObject(value) || !isString(value.id) || !isString(value.role)) {
+    throw new Error(`${where} has an invalid profile.`);
+  }
+  return {
+    ...value,
+    missingFields: Array.isArray(value.missingFields) ? value.missingFields : [],
+    resume: isPlainObject(value.resume) ? value.resume : null
+  } as unknown as CandidateProfile;
+};
+
+export const validateCandidateRecord = (value: unknown, where: string): CandidateArchiveRecord => {
+  if (!isPlainObject(value) || !isString(value.id) || !isString(value.sessionId)) {
+    throw new Error(`${where} is missing its id or session id.`);
+  }
+  if (!isString(value.completedAt) || typeof value.finalScore !== "number" || !isPlainObject(value.summary)) {
+    throw new Error(`${where} is missing its completion date, score or summary.`);
+  }
+  if (
+    !everyItem(value.questions, (question) => isString(question.id) && isString(question.prompt)) ||
+    !everyItem(value.answers, (answer) => isString(answer.questionId) && isString(answer.answer)) ||
+    !isChatList(value.chat)
+  ) {
+    throw new Error(`${where} is missing its questions, answers or chat.`);
+  }
+  if (
+    value.decisions !== undefined &&
+    !everyItem(value.decisions, (decision) => isDecisionStatus(decision.status) && isString(decision.decidedAt))
+  ) {
+    throw new Error(`${where} has an unreadable hiring decision history.`);
+  }
+  return { ...value, profile: validateCandidateProfile(value.profile, where) } as unknown as CandidateArchiveRecord;
+};
+
+export const validateCandidateIndexRow = (value: unknown, where: string): CandidateIndexRow => {
+  if (!isPlainObject(value) || !isString(value.id) || !isString(value.sessionId) || !isString(value.completedAt)) {
+    throw new Error(`${where} is missing its id, session id or completion date.`);
+  }
+  if (typeof value.finalScore !== "number" || typeof value.aiFinalScore !== "number") {
+    throw new Error(`${where} is missing its score.`);
+  }
+  return {
+    ...value,
+    role: isString(value.role) ? value.role : "",
+    summaryPreview: isString(value.summaryPreview) ? value.summaryPreview : "",
+    resumeId: isString(value.resumeId) ? value.resumeId : null,
+    hasScoreOverride:
+      typeof value.hasScoreOverride === "boolean" ? value.hasScoreOverride : value.finalScore !== value.aiFinalScore,
+    tags: Array.isArray(value.tags) ? value.tags.filter(isString) : [],
+    answeringSeconds: typeof value.answeringSeconds === "number" ? value.answeringSeconds : null,
+    difficultyAverages: isPlainObject(value.difficultyAverages) ? value.difficultyAverages : EMPTY_DIFFICULTY_AVERAGES,
+    decision: isDecisionStatus(value.decision) ? value.decision : null,
+    decidedAt: isString(value.decidedAt) ? value.decidedAt : null
+  } as unknown as CandidateIndexRow;
+};
+
+export const validateInterviewSession = (value: unknown, where: string): InterviewSession => {
+  if (!isPlainObject(value) || !isString(value.id) || !isString(value.candidateId) || !isString(value.templateId)) {
+    throw new Error(`${where} is missing its id, candidate or template.`);
+  }
+  if (!SESSION_STAGES.includes(value.stage as SessionStage)) {
+    throw new Error(`${where} has an unknown stage.`);
+  }
+  if (
+    ![value.questions, value.answers, value.timers].every(isPlainObject) ||
+    !Array.isArray(value.questionOrder) ||
+    !isChatList(value.chat)
+  ) {
+    throw new Error(`${where} is missing its questions, answers, timers or chat.`);
+  }
+  return value as unknown as InterviewSession;
+};
@@ -0,0 +1,129 @@
+/** Headings recognised in resumes, longest first so "work experience" wins over "experience". */
+export const RESUME_SECTION_HEADINGS = [
+  "professional experience",
+  "employment history",
+  "academic background",
+  "technical skills",
+  "work experience",
+  "certifications",
+  "work history",
+  "achievements",
+  "publications",
+  "employment",
+  "experience",
+  "education",
+  "languages",
+  "projects",
+  "interests",
+  "summary",
+  "profile",
+  "contact",
+  "awards",
+  "skills"
+];
+
+export type ResumeSectionKey =
+  | "contact"
+  | "summary"
+  | "experience"
+  | "education"
+  | "skills"
+  | "projects"
+  | "certifications"
+  | "other";
+
+export interface ResumeSection {
+  key: ResumeSectionKey;
+  /** The heading as written, or null for the lines above the first heading. */
+  heading: string | null;
+  text: string;
+}
+
+export interface ResumeTextLine {
+  text: string;
+  /** Known for PDFs; larger-than-body lines count as headings. */
+  fontSize?: number;
+}
+
+const MAX_HEADING_WORDS = 4;
+const MAX_HEADING_LENGTH = 40;
+const LARGER_FONT_RATIO = 1.15;
+
+export const classifySectionHeading = (heading: string): ResumeSectionKey => {
+  const value = heading.toLowerCase();
+  if (/experience|employment|work history/.test(value)) return "experience";
+  if (/education|academic/.test(value)) return "education";
+  if (/skill|languages/.test(value)) return "skills";
+  if (/project/.test(value)) return "projects";
+  if (/certification|award|achievement/.test(value)) return "certifications";
+  if (/summary|profile|about|objective/.test(value)) return "summary";
+  if (/contact/.test(value)) return "contact";
+  return "other";
+};
+
+const median = (values: number[]) => {
+  if (!values.length) {
+    return null;
+  }
+  const sorted = [...values].sort((left, right) => left - right);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+const cleanHeading = (text: string) => text.trim().replace(/[\s:|]+$/, "");
+
+/**
+ * A line is a heading when it's a known section name, or a short label set apart by ALL CAPS or a
+ * larger font. The first line is skipped for the style checks because it's almost always the name.
+ */
+const isHeadingLine = (line: ResumeTextLine, index: number, bodyFontSize: number | null) => {
+  const heading = cleanHeading(line.text);
+  const words = heading.split(/\s+/).filter(Boolean);
+  if (!heading || words.length > MAX_HEADING_WORDS || heading.length > MAX_HEADING_LENGTH) {
+    return false;
+  }
+  if (RESUME_SECTION_HEADINGS.includes(heading.toLowerCase())) {
+    return true;
+  }
+  if (index === 0 || /[\d@/]/.test(heading) || !/[a-z]{3}/i.test(heading)) {
+    return false;
+  }
+
+  const isAllCaps = heading === heading.toUpperCase();
+  const isLarger = Boolean(
+    line.fontSize && bodyFontSize && line.fontSize >= bodyFontSize * LARGER_FONT_RATIO
+  );
+  return isAllCaps || isLarger;
+};
+
+/** Splits resume lines into sections keyed by their heading; lines before the first heading become "contact". */
+export const detectResumeSections = (lines: ResumeTextLine[]): ResumeSection[] => {
+  const bodyFontSize = median(
+    lines.map((line) => line.fontSize).filter((size): size is number => typeof size === "number")
+  );
+  const sections: ResumeSection[] = [];
+  let current: { key: ResumeSectionKey; heading: string | null; lines: string[] } = {
+    key: "contact",
+    heading: null,
+    lines: []
+  };
+
+  const flush = () => {
+    const text = current.lines.join("\n").trim();
+    if (text || current.heading) {
+      sections.push({ key: current.key, heading: current.heading, text });
+    }
+  };
+
+  lines.forEach((line, index) => {
+    if (isHeadingLine(line, index, bodyFontSize)) {
+      flush();
+      const heading = cleanHeading(line.text);
+      current = { key: classifySectionHeading(heading), heading, lines: [] };
+      return;
+    }
+    current.lines.push(line.text);
+  });
+  flush();
+
+  return sections;
+};
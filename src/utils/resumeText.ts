@@ -0,0 +1,337 @@
+/**
+ * Format-specific text converters for resume uploads. Each one turns a document's native encoding into
+ * plain text with one paragraph per line, which is all the downstream parsers need.
+ */
+
+// Windows-1252 differs from Latin-1 only in 0x80–0x9F; unmapped bytes there fall back to Latin-1.
+const CP1252_HIGH: Record<number, string> = {
+  0x80: "€",
+  0x82: "‚",
+  0x83: "ƒ",
+  0x84: "„",
+  0x85: "…",
+  0x86: "†",
+  0x87: "‡",
+  0x88: "ˆ",
+  0x89: "‰",
+  0x8a: "Š",
+  0x8b: "‹",
+  0x8c: "Œ",
+  0x8e: "Ž",
+  0x91: "‘",
+  0x92: "’",
+  0x93: "“",
+  0x94: "”",
+  0x95: "•",
+  0x96: "–",
+  0x97: "—",
+  0x98: "˜",
+  0x99: "™",
+  0x9a: "š",
+  0x9b: "›",
+  0x9c: "œ",
+  0x9e: "ž",
+  0x9f: "Ÿ"
+};
+
+const decodeCp1252Byte = (byte: number) => CP1252_HIGH[byte] ?? String.fromCharCode(byte);
+
+const collapseBlankLines = (text: string) =>
+  text
+    .split("\n")
+    .map((line) => line.replace(/[ \t\u00a0]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+/** Honours UTF-16 and UTF-8 byte order marks; everything else is read as UTF-8. */
+export const decodeTextBuffer = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return new TextDecoder("utf-16le").decode(bytes.subarray(2));
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return new TextDecoder("utf-16be").decode(bytes.subarray(2));
+  }
+  return new TextDecoder("utf-8").decode(bytes);
+};
+
+export const markdownToPlainText = (markdown: string): string =>
+  collapseBlankLines(
+    markdown
+      .replace(/\r\n?/g, "\n")
+      .replace(/^[ \t]*(```|~~~).*$/gm, "")
+      .replace(/^ {0,3}(?:[-*_][ \t]*){3,}$/gm, "")
+      .replace(/^ {0,3}#{1,6}[ \t]+(.*?)[ \t]*#*[ \t]*$/gm, "$1")
+      .replace(/^ {0,3}>[ \t]?/gm, "")
+      .replace(/^([ \t]*)[-*+][ \t]+/gm, "$1• ")
+      .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+      .replace(/\[([^\]]+)\]\(([^)\s]+)[^)]*\)/g, (_, label: string, url: string) =>
+        label === url ? url : `${label} (${url})`
+      )
+      .replace(/<\/?[a-z][^>]*>/gi, "")
+      .replace(/(\*\*|__)(.+?)\1/g, "$2")
+      .replace(/(^|[^\w*])[*_](?!\s)(.+?)(?<!\s)[*_](?=[^\w*]|$)/gm, "$1$2")
+      .replace(/`([^`]+)`/g, "$1")
+  );
+
+// Groups whose content is metadata, styling or embedded objects rather than document text.
+const RTF_SKIPPED_DESTINATIONS = new Set([
+  "fonttbl",
+  "colortbl",
+  "stylesheet",
+  "listtable",
+  "listoverridetable",
+  "revtbl",
+  "rsidtbl",
+  "info",
+  "pict",
+  "object",
+  "header",
+  "headerl",
+  "headerr",
+  "headerf",
+  "footer",
+  "footerl",
+  "footerr",
+  "footerf",
+  "fldinst",
+  "generator",
+  "xmlnstbl",
+  "themedata",
+  "colorschememapping",
+  "datastore",
+  "latentstyles"
+]);
+
+const RTF_SYMBOLS: Record<string, string> = {
+  par: "\n",
+  line: "\n",
+  sect: "\n",
+  page: "\n",
+  row: "\n",
+  cell: "\t",
+  tab: "\t",
+  emdash: "—",
+  endash: "–",
+  bullet: "•",
+  lquote: "‘",
+  rquote: "’",
+  ldblquote: "“",
+  rdblquote: "”",
+  emspace: " ",
+  enspace: " ",
+  qmspace: " "
+};
+
+interface RtfGroupState {
+  skip: boolean;
+  unicodeSkip: number;
+}
+
+/**
+ * A small RTF reader: keeps body text, decodes `\'hh` and `\uN` escapes and drops font tables,
+ * styles, pictures and other non-text destinations.
+ */
+export const rtfToPlainText = (rtf: string): string => {
+  if (!rtf.trimStart().startsWith("{\\rtf")) {
+    throw new Error("This file doesn't look like an RTF document.");
+  }
+
+  const output: string[] = [];
+  const stack: RtfGroupState[] = [];
+  let state: RtfGroupState = { skip: false, unicodeSkip: 1 };
+  let atGroupStart = false;
+  // Characters still to drop after a \uN escape, which is followed by an ASCII fallback.
+  let pendingFallback = 0;
+
+  const emit = (value: string) => {
+    if (pendingFallback > 0) {
+      pendingFallback -= 1;
+      return;
+    }
+    if (!state.skip) {
+      output.push(value);
+    }
+  };
+
+  let index = 0;
+  while (index < rtf.length) {
+    const char = rtf[index];
+
+    if (char === "{") {
+      stack.push(state);
+      state = { ...state };
+      atGroupStart = true;
+      pendingFallback = 0;
+      index += 1;
+      continue;
+    }
+    if (char === "}") {
+      state = stack.pop() ?? state;
+      atGroupStart = false;
+      pendingFallback = 0;
+      index += 1;
+      continue;
+    }
+    if (char === "\r" || char === "\n") {
+      index += 1;
+      continue;
+    }
+    if (char !== "\\") {
+      emit(char);
+      atGroupStart = false;
+      index += 1;
+      continue;
+    }
+
+    const next = rtf[index + 1] ?? "";
+    if (next === "\\" || next === "{" || next === "}") {
+      emit(next);
+      index += 2;
+    } else if (next === "'") {
+      emit(decodeCp1252Byte(parseInt(rtf.slice(index + 2, index + 4), 16)));
+      index += 4;
+    } else if (next === "*") {
+      state.skip = true;
+      index += 2;
+    } else if (next === "~") {
+      emit(" ");
+      index += 2;
+    } else if (next === "_") {
+      emit("-");
+      index += 2;
+    } else if (next === "\r" || next === "\n") {
+      emit("\n");
+      index += 2;
+    } else if (/[a-z]/i.test(next)) {
+      const match = /^([a-z]+)(-?\d+)? ?/i.exec(rtf.slice(index + 1, index + 40));
+      const word = match?.[1] ?? "";
+      const parameter = match?.[2] !== undefined ? Number(match[2]) : null;
+      index += 1 + (match?.[0].length ?? 1);
+
+      if (atGroupStart && RTF_SKIPPED_DESTINATIONS.has(word)) {
+        state.skip = true;
+      } else if (word === "uc" && parameter !== null) {
+        state.unicodeSkip = parameter;
+      } else if (word === "u" && parameter !== null) {
+        emit(String.fromCharCode(parameter < 0 ? parameter + 65536 : parameter));
+        pendingFallback = state.unicodeSkip;
+      } else if (RTF_SYMBOLS[word]) {
+        emit(RTF_SYMBOLS[word]);
+      }
+    } else {
+      // Other control symbols (optional hyphens, formula markers) carry no text.
+      index += 2;
+    }
+    atGroupStart = false;
+  }
+
+  return collapseBlankLines(output.join(""));
+};
+
+const ODT_BLOCK_ELEMENTS = new Set(["p", "h"]);
+
+/** Walks an ODF `content.xml`, keeping paragraph, heading, list and table text in document order. */
+export const odtContentToPlainText = (contentXml: string): string => {
+  const document = new DOMParser().parseFromString(contentXml, "application/xml");
+  if (document.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("The ODT document's content is not valid XML.");
+  }
+
+  const parts: string[] = [];
+  // Text outside paragraphs is indentation, and whitespace inside them collapses as in ODF.
+  const walk = (node: Node, inParagraph: boolean) => {
+    if (node.nodeType === 3) {
+      if (inParagraph) {
+        parts.push((node.nodeValue ?? "").replace(/\s+/g, " "));
+      }
+      return;
+    }
+    if (node.nodeType !== 1) {
+      return;
+    }
+
+    const element = node as Element;
+    switch (element.localName) {
+      case "s":
+        parts.push(" ".repeat(Number(element.getAttribute("text:c") ?? 1) || 1));
+        return;
+      case "tab":
+        parts.push("\t");
+        return;
+      case "line-break":
+        parts.push("\n");
+        return;
+      // Annotations and tracked deletions aren't part of the visible text.
+      case "annotation":
+      case "tracked-changes":
+        return;
+      default:
+        break;
+    }
+
+    const isBlock = ODT_BLOCK_ELEMENTS.has(element.localName);
+    element.childNodes.forEach((child) => walk(child, inParagraph || isBlock));
+    if (isBlock) {
+      parts.push("\n");
+    } else if (element.localName === "table-cell") {
+      parts.push("\t");
+    }
+  };
+
+  const body = document.getElementsByTagNameNS("*", "body")[0] ?? document.documentElement;
+  walk(body, false);
+  return collapseBlankLines(parts.join(""));
+};
+
+const MIN_DOC_RUN_LENGTH = 4;
+
+const isDocTextCode = (code: number) =>
+  code === 0x09 ||
+  code === 0x0d ||
+  (code >= 0x20 && code < 0x7f) ||
+  (code >= 0xa0 && code <= 0xff) ||
+  (code >= 0x2010 && code <= 0x2027);
+
+const toDocText = (code: number) => (code === 0x0d ? "\n" : String.fromCharCode(code));
+
+const collectDocRuns = (codes: number[]): string[] => {
+  const runs: string[] = [];
+  let current = "";
+  const flush = () => {
+    if (current.replace(/\s/g, "").length >= MIN_DOC_RUN_LENGTH && /[a-z]{2}/i.test(current)) {
+      runs.push(current);
+    }
+    current = "";
+  };
+  codes.forEach((code) => {
+    if (isDocTextCode(code)) {
+      current += toDocText(code);
+    } else {
+      flush();
+    }
+  });
+  flush();
+  return runs;
+};
+
+/**
+ * Best-effort text recovery for legacy Word 97–2003 `.doc` files. Rather than decoding the piece
+ * table, it collects readable runs from the binary, trying both the 8-bit and UTF-16 encodings Word
+ * stores text in and keeping whichever yields more. Style and font names can slip through, which the
+ * LLM and heuristic parsers tolerate.
+ */
+export const extractLegacyDocText = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  const wideCodes = Array.from(
+    { length: Math.floor(bytes.length / 2) },
+    (_, index) => bytes[index * 2] | (bytes[index * 2 + 1] << 8)
+  );
+
+  const wide = collectDocRuns(wideCodes).join("\n");
+  const narrow = collectDocRuns(Array.from(bytes)).join("\n");
+  const letters = (value: string) => (value.match(/[a-z]/gi) ?? []).length;
+
+  return collapseBlankLines(letters(wide) >= letters(narrow) ? wide : narrow);
+};
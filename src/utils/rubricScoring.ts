@@ -0,0 +1,71 @@
+import { nanoid } from "@reduxjs/toolkit";
+import type { CriterionScore, RubricCriterion } from "../types/interview";
+
+const clampScore = (value: number) => Math.min(10, Math.max(0, value));
+
+export const normalizeRubricCriteria = (value: unknown): RubricCriterion[] => {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value
+    .filter((entry): entry is Record<string, unknown> => Boolean(entry) && typeof entry === "object")
+    .map((entry) => {
+      const weight = Number(entry.weight);
+      return {
+        id: typeof entry.id === "string" && entry.id ? entry.id : nanoid(),
+        label: typeof entry.label === "string" ? entry.label.trim() : "",
+        description: typeof entry.description === "string" ? entry.description.trim() : "",
+        weight: Number.isFinite(weight) && weight > 0 ? weight : 1
+      } satisfies RubricCriterion;
+    })
+    .filter((criterion) => criterion.label.length > 0);
+};
+
+/**
+ * Weighted mean of criterion scores, rounded to one decimal. The evaluator's own overall score is
+ * never used when a rubric exists, so the same criterion scores always produce the same total.
+ */
+export const computeWeightedRubricScore = (scores: CriterionScore[]): number => {
+  const totalWeight = scores.reduce((total, entry) => total + entry.weight, 0);
+  if (totalWeight <= 0) {
+    return 0;
+  }
+  const weighted = scores.reduce((total, entry) => total + clampScore(entry.score) * entry.weight, 0);
+  return Math.round((weighted / totalWeight) * 10) / 10;
+};
+
+/**
+ * Lines evaluator output up with the rubric. Criteria are matched by id first, then by label;
+ * anything the evaluator skipped gets the fallback score so the total stays well-defined.
+ */
+export const buildCriterionScores = (
+  rubric: RubricCriterion[],
+  evaluated: unknown,
+  fallback: { score: number; justification: string }
+): CriterionScore[] => {
+  const entries = Array.isArray(evaluated)
+    ? evaluated.filter((entry): entry is Record<string, unknown> => Boolean(entry) && typeof entry === "object")
+    : [];
+
+  return rubric.map((criterion) => {
+    const match = entries.find(
+      (entry) =>
+        entry.criterionId === criterion.id ||
+        (typeof entry.label === "string" && entry.label.trim().toLowerCase() === criterion.label.toLowerCase())
+    );
+    const score = Number(match?.score);
+    const hasScore = match !== undefined && Number.isFinite(score);
+
+    return {
+      criterionId: criterion.id,
+      label: criterion.label,
+      weight: criterion.weight,
+      score: hasScore ? clampScore(score) : clampScore(fallback.score),
+      justification:
+        hasScore && typeof match?.justification === "string" && match.justification.trim()
+          ? match.justification.trim()
+          : fallback.justification
+    } satisfies CriterionScore;
+  });
+};
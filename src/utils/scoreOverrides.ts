@@ -0,0 +1,15 @@
+import type { AnswerRecord, CandidateArchiveRecord } from "../types/interview";
+
+/** The score reviewers should act on: a human override when present, otherwise the AI score. */
+export const getEffectiveAnswerScore = (answer: AnswerRecord | undefined | null): number | null => {
+  if (!answer) {
+    return null;
+  }
+  if (answer.scoreOverride) {
+    return answer.scoreOverride.score;
+  }
+  return typeof answer.aiScore === "number" ? answer.aiScore : null;
+};
+
+export const getEffectiveFinalScore = (record: CandidateArchiveRecord): number =>
+  record.finalScoreOverride?.score ?? record.finalScore;